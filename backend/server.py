@@ -1,5 +1,6 @@
 from fastapi import FastAPI, APIRouter, HTTPException, Depends, Request, UploadFile, File, Response
 from fastapi.responses import JSONResponse, StreamingResponse
+from fastapi.encoders import jsonable_encoder
 from dotenv import load_dotenv
 from starlette.middleware.cors import CORSMiddleware
 from motor.motor_asyncio import AsyncIOMotorClient
@@ -19,11 +20,14 @@ def get_warsaw_now():
     """Get current datetime in Warsaw timezone"""
     return datetime.now(WARSAW_TZ)
 import openpyxl
-from io import BytesIO
+from io import BytesIO, StringIO
 import base64
 import hashlib
 import secrets
 import json
+import csv
+import re
+import unicodedata
 import smtplib
 from email.mime.multipart import MIMEMultipart
 from email.mime.base import MIMEBase
@@ -32,6 +36,10 @@ from email import encoders
 import ftplib
 import asyncio
 from contextlib import asynccontextmanager
+import socketio
+import httpx
+import boto3
+from PIL import Image, ImageDraw, ImageFont, ImageOps, UnidentifiedImageError
 
 ROOT_DIR = Path(__file__).parent
 load_dotenv(ROOT_DIR / '.env')
@@ -47,6 +55,9 @@ app = FastAPI(title="Magazyn ITS Kielce API")
 # Create a router with the /api prefix
 api_router = APIRouter(prefix="/api")
 
+# Socket.IO server pushing live events (chat, tasks, orders, devices) to the app
+sio = socketio.AsyncServer(async_mode="asgi", cors_allowed_origins="*")
+
 # Configure logging
 logging.basicConfig(
     level=logging.INFO,
@@ -64,6 +75,20 @@ def generate_token() -> str:
     """Generate a secure random token"""
     return secrets.token_urlsafe(32)
 
+def parse_client_timestamp(value: Optional[str]) -> datetime:
+    """Parse time recorded on the device (offline queue), never later than now"""
+    now = get_warsaw_now()
+    if not value:
+        return now
+    try:
+        recorded = datetime.fromisoformat(str(value).replace("Z", "+00:00"))
+    except ValueError:
+        return now
+    if recorded.tzinfo is None:
+        recorded = recorded.replace(tzinfo=WARSAW_TZ)
+    recorded = recorded.astimezone(WARSAW_TZ)
+    return recorded if recorded <= now else now
+
 # ==================== MODELS ====================
 
 class LoginRequest(BaseModel):
@@ -220,6 +245,45 @@ async def log_activity(
 
 # ==================== AUTH HELPERS ====================
 
+# session_token is a short-lived access token, refresh_token slides the session forward
+ACCESS_TOKEN_TTL = timedelta(minutes=15)
+REFRESH_TOKEN_TTL = timedelta(days=7)
+# Workers are logged out after 30 minutes without any request, admins only when the refresh token expires
+WORKER_IDLE_TIMEOUT = timedelta(minutes=30)
+# last_activity_at is written at most this often to spare the database
+ACTIVITY_TOUCH_INTERVAL = timedelta(minutes=1)
+# Sent by the app's background polling - not user activity, so idle sessions still expire
+BACKGROUND_REQUEST_HEADER = "X-Background-Request"
+
+def to_aware(value: datetime) -> datetime:
+    """Mongo returns naive UTC datetimes"""
+    return value.replace(tzinfo=timezone.utc) if value.tzinfo is None else value
+
+def issue_session_tokens(now: datetime) -> dict:
+    return {
+        "session_token": generate_token(),
+        "refresh_token": generate_token(),
+        "access_expires_at": now + ACCESS_TOKEN_TTL,
+        "expires_at": now + REFRESH_TOKEN_TTL
+    }
+
+def is_session_idle(session: dict, now: datetime) -> bool:
+    last_activity_at = session.get("last_activity_at")
+    if not last_activity_at or session.get("user_role") == "admin":
+        return False
+    return now - to_aware(last_activity_at) > WORKER_IDLE_TIMEOUT
+
+def set_session_cookie(response: Response, session_token: str):
+    response.set_cookie(
+        key="session_token",
+        value=session_token,
+        httponly=True,
+        secure=True,
+        samesite="none",
+        path="/",
+        max_age=int(ACCESS_TOKEN_TTL.total_seconds())
+    )
+
 async def get_session_token(request: Request) -> Optional[str]:
     """Extract session token from cookies or Authorization header"""
     session_token = request.cookies.get("session_token")
@@ -234,7 +298,11 @@ async def get_current_user(request: Request) -> Optional[dict]:
     session_token = await get_session_token(request)
     if not session_token:
         return None
-    
+    is_background = request.headers.get(BACKGROUND_REQUEST_HEADER) == "1"
+    return await get_user_by_session_token(session_token, touch_activity=not is_background)
+
+async def get_user_by_session_token(session_token: str, touch_activity: bool = True) -> Optional[dict]:
+    """Resolve a session token to its user, None if missing, expired or idle for too long"""
     session = await db.user_sessions.find_one(
         {"session_token": session_token},
         {"_id": 0}
@@ -242,16 +310,28 @@ async def get_current_user(request: Request) -> Optional[dict]:
     if not session:
         return None
     
-    expires_at = session["expires_at"]
-    if expires_at.tzinfo is None:
-        expires_at = expires_at.replace(tzinfo=timezone.utc)
-    if expires_at <= get_warsaw_now():
+    now = get_warsaw_now()
+    # Sessions created before refresh tokens only have expires_at
+    access_expires_at = session.get("access_expires_at") or session["expires_at"]
+    if to_aware(access_expires_at) <= now:
+        return None
+    
+    if is_session_idle(session, now):
+        await db.user_sessions.delete_one({"session_token": session_token})
         return None
     
     user_doc = await db.users.find_one(
         {"user_id": session["user_id"]},
         {"_id": 0, "password_hash": 0}
     )
+    
+    # Every authenticated request the user made counts as activity
+    last_activity_at = session.get("last_activity_at")
+    if user_doc and touch_activity and (not last_activity_at or now - to_aware(last_activity_at) > ACTIVITY_TOUCH_INTERVAL):
+        await db.user_sessions.update_one(
+            {"session_token": session_token},
+            {"$set": {"last_activity_at": now}}
+        )
     return user_doc
 
 async def require_user(request: Request) -> dict:
@@ -268,6 +348,173 @@ async def require_admin(request: Request) -> dict:
         raise HTTPException(status_code=403, detail="Brak uprawnień administratora")
     return user
 
+# ==================== REALTIME EVENTS ====================
+
+def user_room(user_id: str) -> str:
+    return f"user_{user_id}"
+
+ADMINS_ROOM = "admins"
+
+@sio.event
+async def connect(sid, environ, auth):
+    """Authenticate the socket with the same session token the REST API uses"""
+    token = (auth or {}).get("token")
+    if not token:
+        # Web clients may rely on the session cookie instead
+        for part in environ.get("HTTP_COOKIE", "").split(";"):
+            name, _, value = part.strip().partition("=")
+            if name == "session_token":
+                token = value
+    user = await get_user_by_session_token(token) if token else None
+    if not user:
+        return False
+    
+    await sio.save_session(sid, {"user_id": user["user_id"], "role": user.get("role")})
+    await sio.enter_room(sid, user_room(user["user_id"]))
+    if user.get("role") == "admin":
+        await sio.enter_room(sid, ADMINS_ROOM)
+    return True
+
+async def emit_event(event: str, data, user_ids: Optional[List[str]] = None, admins: bool = False):
+    """Push an event to the given users (and admins), or to everyone when no recipients are given"""
+    payload = jsonable_encoder(data)
+    try:
+        if user_ids is None and not admins:
+            await sio.emit(event, payload)
+            return
+        rooms = [user_room(uid) for uid in set(user_ids or []) if uid]
+        if admins:
+            rooms.append(ADMINS_ROOM)
+        if rooms:
+            await sio.emit(event, payload, room=rooms)
+    except Exception as e:
+        # Clients fall back to polling, a lost push must never fail the request
+        logger.error(f"Failed to emit {event}: {e}")
+
+# ==================== PUSH NOTIFICATIONS ====================
+
+EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send"
+EXPO_PUSH_BATCH_SIZE = 100  # Expo accepts at most 100 messages per request
+
+# Every category is on until the user switches it off
+NOTIFICATION_CATEGORIES = ("tasks", "messages", "orders", "devices")
+
+def get_notification_preferences(user: dict) -> dict:
+    preferences = {category: True for category in NOTIFICATION_CATEGORIES}
+    preferences.update(user.get("notification_preferences") or {})
+    return preferences
+
+async def get_admin_ids() -> List[str]:
+    return await db.users.distinct("user_id", {"role": "admin"})
+
+async def send_push(user_ids: List[str], category: str, title: str, body: str, url: str):
+    """Deliver a push notification to every registered device of the users that did not opt out"""
+    try:
+        users = await db.users.find(
+            {"user_id": {"$in": list(set(user_ids))}},
+            {"_id": 0, "user_id": 1, "notification_preferences": 1}
+        ).to_list(1000)
+        recipients = [u["user_id"] for u in users if get_notification_preferences(u).get(category)]
+        if not recipients:
+            return
+        
+        tokens = await db.push_tokens.find({"user_id": {"$in": recipients}}, {"_id": 0}).to_list(1000)
+        messages = [{
+            "to": t["token"],
+            "title": title,
+            "body": body,
+            "sound": "default",
+            "channelId": "default",
+            # Opened by the app to route into the right screen
+            "data": {"url": url, "category": category}
+        } for t in tokens]
+        
+        async with httpx.AsyncClient(timeout=10) as client:
+            for i in range(0, len(messages), EXPO_PUSH_BATCH_SIZE):
+                batch = messages[i:i + EXPO_PUSH_BATCH_SIZE]
+                response = await client.post(EXPO_PUSH_URL, json=batch)
+                tickets = response.json().get("data", [])
+                # Drop tokens of uninstalled apps so they are not retried forever
+                stale = [
+                    message["to"] for message, ticket in zip(batch, tickets)
+                    if ticket.get("details", {}).get("error") == "DeviceNotRegistered"
+                ]
+                if stale:
+                    await db.push_tokens.delete_many({"token": {"$in": stale}})
+    except Exception as e:
+        logger.error(f"Failed to send push notification ({category}): {e}")
+
+# The event loop only keeps weak references to tasks - hold them until they finish
+push_tasks = set()
+
+def on_push_task_done(task: asyncio.Task):
+    push_tasks.discard(task)
+    if not task.cancelled() and task.exception():
+        logger.error(f"Push notification task failed: {task.exception()}")
+
+def notify_users(user_ids: List[str], category: str, title: str, body: str, url: str):
+    """Send in the background - the request must not wait for Expo"""
+    user_ids = [uid for uid in user_ids if uid]
+    if user_ids:
+        task = asyncio.create_task(send_push(user_ids, category, title, body, url))
+        push_tasks.add(task)
+        task.add_done_callback(on_push_task_done)
+
+@api_router.post("/push/register")
+async def register_push_token(request: Request, user: dict = Depends(require_user)):
+    """Register this device's Expo push token for the logged in user"""
+    body = await request.json()
+    token = body.get("token")
+    if not token:
+        raise HTTPException(status_code=400, detail="Wymagany token")
+    
+    # Remembered so revoking this session also stops its notifications
+    session = await db.user_sessions.find_one(
+        {"session_token": await get_session_token(request)},
+        {"_id": 0, "session_id": 1}
+    )
+    
+    # A phone shared by several workers only notifies whoever logged in last
+    await db.push_tokens.update_one(
+        {"token": token},
+        {"$set": {
+            "token": token,
+            "user_id": user["user_id"],
+            "session_id": (session or {}).get("session_id"),
+            "platform": body.get("platform"),
+            "updated_at": get_warsaw_now()
+        }},
+        upsert=True
+    )
+    return {"message": "Token zarejestrowany"}
+
+@api_router.post("/push/unregister")
+async def unregister_push_token(request: Request, user: dict = Depends(require_user)):
+    """Stop notifications on this device (called on logout)"""
+    body = await request.json()
+    await db.push_tokens.delete_one({"token": body.get("token"), "user_id": user["user_id"]})
+    return {"message": "Token usunięty"}
+
+@api_router.get("/notifications/preferences")
+async def get_my_notification_preferences(user: dict = Depends(require_user)):
+    """Which push notification categories the user receives"""
+    return get_notification_preferences(user)
+
+@api_router.put("/notifications/preferences")
+async def update_notification_preferences(request: Request, user: dict = Depends(require_user)):
+    """Switch push notification categories on or off"""
+    body = await request.json()
+    preferences = get_notification_preferences(user)
+    for category in NOTIFICATION_CATEGORIES:
+        if category in body:
+            preferences[category] = bool(body[category])
+    
+    await db.users.update_one(
+        {"user_id": user["user_id"]},
+        {"$set": {"notification_preferences": preferences}}
+    )
+    return preferences
+
 # ==================== STARTUP - CREATE ADMIN ====================
 
 @app.on_event("startup")
@@ -305,23 +552,26 @@ async def login(data: LoginRequest, request: Request, response: Response):
     if user.get("password_hash") != password_hash:
         raise HTTPException(status_code=401, detail="Nieprawidłowy email lub hasło")
     
-    # Delete old sessions
-    await db.user_sessions.delete_many({"user_id": user["user_id"]})
-    
-    # Create new session
-    session_token = generate_token()
-    expires_at = get_warsaw_now() + timedelta(days=7)
+    # Several devices may stay logged in at once - only drop the sessions that already ran out
+    await db.user_sessions.delete_many({"user_id": user["user_id"], "expires_at": {"$lte": get_warsaw_now()}})
     
     # Get IP address and User-Agent
     forwarded_for = request.headers.get("X-Forwarded-For", "")
     client_ip = forwarded_for.split(",")[0].strip() if forwarded_for else (request.client.host if request.client else "nieznany")
     user_agent = request.headers.get("User-Agent", "nieznany")
     
+    # Create new session
+    now = get_warsaw_now()
+    tokens = issue_session_tokens(now)
     await db.user_sessions.insert_one({
+        **tokens,
+        "session_id": f"sess_{uuid.uuid4().hex[:12]}",
         "user_id": user["user_id"],
-        "session_token": session_token,
-        "expires_at": expires_at,
-        "created_at": get_warsaw_now()
+        "user_role": user.get("role", "pracownik"),
+        "ip_address": client_ip,
+        "device": user_agent,
+        "created_at": now,
+        "last_activity_at": now
     })
     
     # Save last login info to user document
@@ -345,22 +595,39 @@ async def login(data: LoginRequest, request: Request, response: Response):
         details={"device": user_agent}
     )
     
-    response.set_cookie(
-        key="session_token",
-        value=session_token,
-        httponly=True,
-        secure=True,
-        samesite="none",
-        path="/",
-        max_age=7 * 24 * 60 * 60
-    )
+    set_session_cookie(response, tokens["session_token"])
     
     return {
         "user_id": user["user_id"],
         "email": user["email"],
         "name": user["name"],
         "role": user["role"],
-        "session_token": session_token
+        "session_token": tokens["session_token"],
+        "refresh_token": tokens["refresh_token"],
+        "access_expires_at": tokens["access_expires_at"]
+    }
+
+@api_router.post("/auth/refresh")
+async def refresh_session(request: Request, response: Response):
+    """Exchange the refresh token for a new token pair (the old refresh token stops working)"""
+    body = await request.json()
+    refresh_token = body.get("refresh_token")
+    session = await db.user_sessions.find_one({"refresh_token": refresh_token}, {"_id": 0}) if refresh_token else None
+    
+    now = get_warsaw_now()
+    if not session or to_aware(session["expires_at"]) <= now or is_session_idle(session, now):
+        if session:
+            await db.user_sessions.delete_one({"refresh_token": refresh_token})
+        raise HTTPException(status_code=401, detail="Sesja wygasła - zaloguj się ponownie")
+    
+    tokens = issue_session_tokens(now)
+    await db.user_sessions.update_one({"refresh_token": refresh_token}, {"$set": tokens})
+    set_session_cookie(response, tokens["session_token"])
+    
+    return {
+        "session_token": tokens["session_token"],
+        "refresh_token": tokens["refresh_token"],
+        "access_expires_at": tokens["access_expires_at"]
     }
 
 @api_router.get("/auth/me")
@@ -406,6 +673,54 @@ async def change_own_password(request: Request, user: dict = Depends(require_use
 
 # ==================== USER MANAGEMENT (ADMIN) ====================
 
+async def revoke_user_sessions(user_id: str, session_id: Optional[str] = None) -> int:
+    """Delete one or all sessions of a user, their push tokens, and tell their devices to recheck the login"""
+    query = {"user_id": user_id}
+    if session_id:
+        query["session_id"] = session_id
+    result = await db.user_sessions.delete_many(query)
+    await db.push_tokens.delete_many(query)
+    if result.deleted_count:
+        await emit_event("session:revoked", {"user_id": user_id, "session_id": session_id}, user_ids=[user_id])
+    return result.deleted_count
+
+@api_router.get("/users/{user_id}/sessions")
+async def get_user_sessions(user_id: str, request: Request, admin: dict = Depends(require_admin)):
+    """Active sessions of a user - one per logged in device (admin only)"""
+    now = get_warsaw_now()
+    sessions = await db.user_sessions.find(
+        {"user_id": user_id, "expires_at": {"$gt": now}},
+        {"_id": 0}
+    ).sort("last_activity_at", -1).to_list(100)
+    
+    current_token = await get_session_token(request)
+    return [
+        {
+            "session_id": session.get("session_id"),
+            "device": session.get("device"),
+            "ip_address": session.get("ip_address"),
+            "created_at": session.get("created_at"),
+            "last_activity_at": session.get("last_activity_at"),
+            "expires_at": session["expires_at"],
+            "is_current": session["session_token"] == current_token
+        }
+        for session in sessions
+        if not is_session_idle(session, now)
+    ]
+
+@api_router.delete("/users/{user_id}/sessions/{session_id}")
+async def revoke_user_session(user_id: str, session_id: str, admin: dict = Depends(require_admin)):
+    """Log a user out of one device (admin only)"""
+    if not await revoke_user_sessions(user_id, session_id):
+        raise HTTPException(status_code=404, detail="Nie znaleziono sesji")
+    return {"message": "Sesja została zakończona"}
+
+@api_router.delete("/users/{user_id}/sessions")
+async def revoke_all_user_sessions(user_id: str, admin: dict = Depends(require_admin)):
+    """Log a user out of every device (admin only)"""
+    count = await revoke_user_sessions(user_id)
+    return {"message": f"Zakończono sesji: {count}"}
+
 @api_router.get("/users")
 async def get_users(admin: dict = Depends(require_admin)):
     """Get all users (admin only)"""
@@ -438,6 +753,8 @@ async def create_user(data: CreateUserRequest, admin: dict = Depends(require_adm
     }
     
     await db.users.insert_one(user_doc)
+    if data.role == "pracownik":
+        await ensure_worker_location(user_doc)
     
     return {
         "user_id": user_id,
@@ -464,6 +781,11 @@ async def update_user_role(user_id: str, request: Request, admin: dict = Depends
     if result.modified_count == 0:
         raise HTTPException(status_code=404, detail="Nie znaleziono użytkownika")
     
+    # Permissions changed - the user has to log in again
+    await revoke_user_sessions(user_id)
+    if new_role == "pracownik":
+        await ensure_worker_location(await db.users.find_one({"user_id": user_id}, {"_id": 0}))
+    
     return {"message": "Rola zaktualizowana"}
 
 @api_router.put("/users/{user_id}/password")
@@ -484,7 +806,7 @@ async def reset_user_password(user_id: str, request: Request, admin: dict = Depe
         raise HTTPException(status_code=404, detail="Nie znaleziono użytkownika")
     
     # Invalidate user sessions
-    await db.user_sessions.delete_many({"user_id": user_id})
+    await revoke_user_sessions(user_id)
     
     return {"message": "Hasło zostało zresetowane"}
 
@@ -498,8 +820,14 @@ async def delete_user(user_id: str, admin: dict = Depends(require_admin)):
     if result.deleted_count == 0:
         raise HTTPException(status_code=404, detail="Nie znaleziono użytkownika")
     
-    # Delete user sessions
-    await db.user_sessions.delete_many({"user_id": user_id})
+    # Delete user sessions (with their push tokens) and stock limits
+    await revoke_user_sessions(user_id)
+    await db.stock_levels.delete_many({"user_id": user_id})
+    
+    # The personal location goes too unless devices still sit in it
+    location_id = worker_location_id(user_id)
+    if not await db.devices.count_documents({"location_id": location_id}):
+        await db.locations.delete_one({"location_id": location_id})
     
     return {"message": "Użytkownik został usunięty"}
 
@@ -509,198 +837,1186 @@ async def get_workers(user: dict = Depends(require_user)):
     workers = await db.users.find({"role": "pracownik"}, {"_id": 0, "password_hash": 0}).to_list(1000)
     return workers
 
+# ==================== DEVICE MODELS ====================
+
+DEVICE_MODEL_CATEGORIES = ("ONT", "CPE", "STB")
+
+# Catalog created on first start - the types the app had hard-coded before
+DEFAULT_DEVICE_MODELS = [
+    {"name": "ONT", "operator": "", "category": "ONT"},
+    {"name": "T-MOBILE CPE", "operator": "T-Mobile", "category": "CPE"},
+    {"name": "T-MOBILE STB", "operator": "T-Mobile", "category": "STB"},
+    {"name": "PLAY CPE", "operator": "Play", "category": "CPE"},
+    {"name": "PLAY STB", "operator": "Play", "category": "STB"},
+    {"name": "UPC CPE", "operator": "UPC", "category": "CPE"},
+    {"name": "UPC STB", "operator": "UPC", "category": "STB"},
+]
+
+def match_device_model(models: List[dict], nazwa: Optional[str], numer_seryjny: Optional[str], kod_kreskowy: Optional[str]) -> Optional[str]:
+    """Model of a device: serial pattern first, then barcode prefix, then every word of the model name in the device name"""
+    serial = (numer_seryjny or "").strip().upper()
+    barcode = (kod_kreskowy or "").strip().upper()
+    name_words = set((nazwa or "").upper().split())
+    
+    for model in models:
+        pattern = model.get("serial_pattern")
+        if pattern and serial and re.fullmatch(pattern, serial, re.IGNORECASE):
+            return model["model_id"]
+    
+    for model in models:
+        prefixes = [p.upper() for p in model.get("barcode_prefixes", []) if p]
+        if any(code.startswith(prefix) for prefix in prefixes for code in (barcode, serial) if code):
+            return model["model_id"]
+    
+    # Longest names first, so "T-MOBILE CPE" wins over a plain "CPE"
+    for model in sorted(models, key=lambda m: len(m["name"].split()), reverse=True):
+        model_words = set(model["name"].upper().split())
+        if model_words and model_words <= name_words:
+            return model["model_id"]
+    
+    return None
+
+async def get_device_models_list() -> List[dict]:
+    return await db.device_models.find({}, {"_id": 0}).sort("name", 1).to_list(None)
+
+async def assign_models_to_unmatched_devices() -> int:
+    """Link devices without a model to the catalog (after the catalog changed)"""
+    models = await get_device_models_list()
+    if not models:
+        return 0
+    
+    matched = 0
+    async for device in db.devices.find({"model_id": None}, {"_id": 0, "device_id": 1, "nazwa": 1, "numer_seryjny": 1, "kod_kreskowy": 1}):
+        model_id = match_device_model(models, device.get("nazwa"), device.get("numer_seryjny"), device.get("kod_kreskowy"))
+        if model_id:
+            await db.devices.update_one({"device_id": device["device_id"]}, {"$set": {"model_id": model_id}})
+            matched += 1
+    return matched
+
+@app.on_event("startup")
+async def seed_device_models():
+    """Create the default catalog and link existing devices to it"""
+    if await db.device_models.count_documents({}) == 0:
+        for model in DEFAULT_DEVICE_MODELS:
+            await db.device_models.insert_one({
+                "model_id": f"model_{uuid.uuid4().hex[:12]}",
+                **model,
+                "serial_pattern": None,
+                "barcode_prefixes": [],
+                "photo_attachment_id": None,
+                "created_at": get_warsaw_now()
+            })
+    await assign_models_to_unmatched_devices()
+
+def parse_device_model_body(body: dict) -> dict:
+    """Validate the editable fields of a catalog entry"""
+    name = (body.get("name") or "").strip()
+    if not name:
+        raise HTTPException(status_code=400, detail="Nazwa modelu jest wymagana")
+    
+    category = body.get("category")
+    if category not in DEVICE_MODEL_CATEGORIES:
+        raise HTTPException(status_code=400, detail=f"Kategoria musi być jedną z: {', '.join(DEVICE_MODEL_CATEGORIES)}")
+    
+    serial_pattern = (body.get("serial_pattern") or "").strip() or None
+    if serial_pattern:
+        try:
+            re.compile(serial_pattern)
+        except re.error:
+            raise HTTPException(status_code=400, detail="Nieprawidłowy wzorzec numeru seryjnego")
+    
+    return {
+        "name": name,
+        "operator": (body.get("operator") or "").strip(),
+        "category": category,
+        "serial_pattern": serial_pattern,
+        "barcode_prefixes": [p.strip() for p in body.get("barcode_prefixes") or [] if p and p.strip()],
+        "photo_attachment_id": body.get("photo_attachment_id") or None,
+    }
+
+@api_router.get("/device-models")
+async def get_device_models(user: dict = Depends(require_user)):
+    """Device model catalog"""
+    return await get_device_models_list()
+
+@api_router.post("/device-models")
+async def create_device_model(request: Request, admin: dict = Depends(require_admin)):
+    """Add a model to the catalog (admin only)"""
+    body = await request.json()
+    fields = parse_device_model_body(body)
+    if fields["photo_attachment_id"]:
+        await validate_attachment_ids([fields["photo_attachment_id"]], admin)
+    
+    if await db.device_models.find_one({"name": fields["name"]}):
+        raise HTTPException(status_code=400, detail="Model o tej nazwie już istnieje")
+    
+    model = {
+        "model_id": f"model_{uuid.uuid4().hex[:12]}",
+        **fields,
+        "created_at": get_warsaw_now(),
+        "created_by": admin["user_id"]
+    }
+    await db.device_models.insert_one(model)
+    model.pop("_id", None)
+    
+    await assign_models_to_unmatched_devices()
+    return model
+
+@api_router.put("/device-models/{model_id}")
+async def update_device_model(model_id: str, request: Request, admin: dict = Depends(require_admin)):
+    """Edit a catalog entry (admin only)"""
+    body = await request.json()
+    fields = parse_device_model_body(body)
+    if fields["photo_attachment_id"]:
+        await validate_attachment_ids([fields["photo_attachment_id"]], admin)
+    
+    duplicate = await db.device_models.find_one({"name": fields["name"], "model_id": {"$ne": model_id}})
+    if duplicate:
+        raise HTTPException(status_code=400, detail="Model o tej nazwie już istnieje")
+    
+    result = await db.device_models.update_one({"model_id": model_id}, {"$set": fields})
+    if result.matched_count == 0:
+        raise HTTPException(status_code=404, detail="Nie znaleziono modelu")
+    
+    await assign_models_to_unmatched_devices()
+    return await db.device_models.find_one({"model_id": model_id}, {"_id": 0})
+
+@api_router.delete("/device-models/{model_id}")
+async def delete_device_model(model_id: str, admin: dict = Depends(require_admin)):
+    """Remove a model that no device uses (admin only)"""
+    in_use = await db.devices.count_documents({"model_id": model_id})
+    if in_use:
+        raise HTTPException(status_code=409, detail=f"Model jest używany przez {in_use} urządzeń")
+    
+    result = await db.device_models.delete_one({"model_id": model_id})
+    if result.deleted_count == 0:
+        raise HTTPException(status_code=404, detail="Nie znaleziono modelu")
+    await db.stock_levels.delete_many({"model_id": model_id})
+    await db.serial_rules.update_many({"model_id": model_id}, {"$set": {"model_id": None}})
+    return {"message": "Model usunięty"}
+
+# ==================== SERIAL RULES ====================
+
+SERIAL_RULE_KINDS = ("regex", "gs1")
+
+# Rules created on first start - the heuristics the scanner had hard-coded before
+DEFAULT_SERIAL_RULES = [
+    {"name": "Linia z prefiksem S / SN", "kind": "regex", "pattern": r"^(?:S|SN)[0-9A-Z].*$", "ais": [], "strip_prefixes": [], "priority": 10},
+    {"name": "Linia z prefiksem 20S", "kind": "regex", "pattern": r"^[0-9]{2}S[A-Z0-9].*$", "ais": [], "strip_prefixes": [], "priority": 20},
+    {"name": "GS1 - numer seryjny (21)", "kind": "gs1", "pattern": None, "ais": ["21"], "strip_prefixes": [], "priority": 30},
+]
+
+@app.on_event("startup")
+async def seed_serial_rules():
+    if await db.serial_rules.count_documents({}) == 0:
+        for rule in DEFAULT_SERIAL_RULES:
+            await db.serial_rules.insert_one({
+                "rule_id": f"rule_{uuid.uuid4().hex[:12]}",
+                **rule,
+                "model_id": None,
+                "enabled": True,
+                "created_at": get_warsaw_now()
+            })
+
+async def parse_serial_rule_body(body: dict) -> dict:
+    """Validate the editable fields of an extraction rule"""
+    name = (body.get("name") or "").strip()
+    if not name:
+        raise HTTPException(status_code=400, detail="Nazwa reguły jest wymagana")
+    
+    kind = body.get("kind")
+    if kind not in SERIAL_RULE_KINDS:
+        raise HTTPException(status_code=400, detail=f"Typ reguły musi być jednym z: {', '.join(SERIAL_RULE_KINDS)}")
+    
+    pattern = (body.get("pattern") or "").strip() or None
+    ais = [str(ai).strip() for ai in body.get("ais") or [] if str(ai).strip()]
+    if kind == "regex":
+        if not pattern:
+            raise HTTPException(status_code=400, detail="Wzorzec jest wymagany")
+        try:
+            re.compile(pattern)
+        except re.error:
+            raise HTTPException(status_code=400, detail="Nieprawidłowy wzorzec")
+        ais = []
+    else:
+        if not ais:
+            raise HTTPException(status_code=400, detail="Podaj co najmniej jeden identyfikator GS1 (AI)")
+        if any(not re.fullmatch(r"[0-9]{2,4}", ai) for ai in ais):
+            raise HTTPException(status_code=400, detail="Identyfikator GS1 (AI) to 2-4 cyfry")
+        pattern = None
+    
+    model_id = body.get("model_id") or None
+    if model_id and not await db.device_models.find_one({"model_id": model_id}):
+        raise HTTPException(status_code=400, detail="Nie znaleziono modelu")
+    
+    try:
+        priority = int(body.get("priority") or 0)
+    except (TypeError, ValueError):
+        raise HTTPException(status_code=400, detail="Priorytet musi być liczbą")
+    
+    return {
+        "name": name,
+        "kind": kind,
+        "pattern": pattern,
+        "ais": ais,
+        "strip_prefixes": [p.strip() for p in body.get("strip_prefixes") or [] if p and p.strip()],
+        "model_id": model_id,
+        "priority": priority,
+        "enabled": body.get("enabled", True) is not False,
+    }
+
+@api_router.get("/serial-rules")
+async def get_serial_rules(user: dict = Depends(require_user)):
+    """Serial-number extraction rules, in the order the scanner applies them"""
+    return await db.serial_rules.find({}, {"_id": 0}).sort([("priority", 1), ("name", 1)]).to_list(None)
+
+@api_router.post("/serial-rules")
+async def create_serial_rule(request: Request, admin: dict = Depends(require_admin)):
+    """Add an extraction rule (admin only)"""
+    body = await request.json()
+    rule = {
+        "rule_id": f"rule_{uuid.uuid4().hex[:12]}",
+        **await parse_serial_rule_body(body),
+        "created_at": get_warsaw_now(),
+        "created_by": admin["user_id"]
+    }
+    await db.serial_rules.insert_one(rule)
+    rule.pop("_id", None)
+    return rule
+
+@api_router.put("/serial-rules/{rule_id}")
+async def update_serial_rule(rule_id: str, request: Request, admin: dict = Depends(require_admin)):
+    """Edit an extraction rule (admin only)"""
+    body = await request.json()
+    fields = await parse_serial_rule_body(body)
+    
+    result = await db.serial_rules.update_one({"rule_id": rule_id}, {"$set": fields})
+    if result.matched_count == 0:
+        raise HTTPException(status_code=404, detail="Nie znaleziono reguły")
+    return await db.serial_rules.find_one({"rule_id": rule_id}, {"_id": 0})
+
+@api_router.delete("/serial-rules/{rule_id}")
+async def delete_serial_rule(rule_id: str, admin: dict = Depends(require_admin)):
+    """Remove an extraction rule (admin only)"""
+    result = await db.serial_rules.delete_one({"rule_id": rule_id})
+    if result.deleted_count == 0:
+        raise HTTPException(status_code=404, detail="Nie znaleziono reguły")
+    return {"message": "Reguła usunięta"}
+
+# ==================== LOCATIONS ====================
+
+# Every device outside a customer's premises sits in exactly one location:
+#   warehouse - a stock room (the main one cannot be removed)
+#   van       - a vehicle from the vehicles list
+#   worker    - the personal stock of a worker, one per worker, managed by the server
+LOCATION_TYPES = ("warehouse", "van", "worker")
+MAIN_WAREHOUSE_ID = "loc_main"
+MAIN_WAREHOUSE_NAME = "Magazyn główny Kielce"
+
+def worker_location_id(user_id: str) -> str:
+    return f"loc_{user_id}"
+
+async def ensure_worker_location(user: dict) -> str:
+    location_id = worker_location_id(user["user_id"])
+    await db.locations.update_one(
+        {"location_id": location_id},
+        {
+            "$set": {"name": user.get("name", "Nieznany")},
+            "$setOnInsert": {
+                "location_id": location_id,
+                "type": "worker",
+                "user_id": user["user_id"],
+                "vehicle_id": None,
+                "created_at": get_warsaw_now()
+            }
+        },
+        upsert=True
+    )
+    return location_id
+
+async def get_holder_location_id(user_id: Optional[str]) -> str:
+    """Workers keep devices in their own location, anything held by an admin is in the main warehouse"""
+    holder = await db.users.find_one({"user_id": user_id}, {"_id": 0}) if user_id else None
+    if holder and holder.get("role") == "pracownik":
+        return await ensure_worker_location(holder)
+    return MAIN_WAREHOUSE_ID
+
+async def get_location_name(location_id: Optional[str]) -> str:
+    location = await db.locations.find_one({"location_id": location_id}, {"_id": 0}) if location_id else None
+    return location["name"] if location else "brak lokalizacji"
+
+async def get_stock_location(location_id: Optional[str]) -> dict:
+    """Warehouse or van devices can be put in directly - workers get them by assignment"""
+    location = await db.locations.find_one({"location_id": location_id}, {"_id": 0}) if location_id else None
+    if not location:
+        raise HTTPException(status_code=404, detail="Nie znaleziono lokalizacji")
+    if location["type"] == "worker":
+        raise HTTPException(status_code=400, detail="Urządzenia trafiają do pracownika przez przypisanie")
+    return location
+
+async def location_change_details(from_id: Optional[str], to_id: Optional[str]) -> dict:
+    """Activity log details of a device changing location"""
+    return {
+        "from_location_id": from_id,
+        "from_location": await get_location_name(from_id),
+        "to_location_id": to_id,
+        "to_location": await get_location_name(to_id)
+    }
+
+@app.on_event("startup")
+async def seed_locations():
+    """Main warehouse, a location per worker and a location for devices from before locations existed"""
+    await db.locations.update_one(
+        {"location_id": MAIN_WAREHOUSE_ID},
+        {"$setOnInsert": {
+            "location_id": MAIN_WAREHOUSE_ID,
+            "name": MAIN_WAREHOUSE_NAME,
+            "type": "warehouse",
+            "user_id": None,
+            "vehicle_id": None,
+            "created_at": get_warsaw_now()
+        }},
+        upsert=True
+    )
+    for worker in await db.users.find({"role": "pracownik"}, {"_id": 0}).to_list(None):
+        await ensure_worker_location(worker)
+    
+    # Installed devices are at the customer, everything else follows its holder
+    unplaced = await db.devices.find(
+        {"location_id": {"$exists": False}, "status": {"$ne": "zainstalowany"}},
+        {"_id": 0, "device_id": 1, "przypisany_do": 1, "status": 1}
+    ).to_list(None)
+    for device in unplaced:
+        holder_id = device.get("przypisany_do") if device.get("status") != "zwrocony" else None
+        await db.devices.update_one(
+            {"device_id": device["device_id"]},
+            {"$set": {"location_id": await get_holder_location_id(holder_id)}}
+        )
+    await db.devices.create_index("location_id")
+
+LOCATION_TYPE_ORDER = {location_type: index for index, location_type in enumerate(LOCATION_TYPES)}
+
+@api_router.get("/locations")
+async def get_locations(user: dict = Depends(require_user)):
+    """Warehouses, vans and worker locations"""
+    locations = await db.locations.find({}, {"_id": 0}).to_list(None)
+    locations.sort(key=lambda loc: (
+        LOCATION_TYPE_ORDER.get(loc["type"], len(LOCATION_TYPES)),
+        loc["location_id"] != MAIN_WAREHOUSE_ID,
+        loc["name"]
+    ))
+    return locations
+
+async def parse_location_body(body: dict, location_type: str) -> dict:
+    """Validate the editable fields of a warehouse or van"""
+    fields = {"name": (body.get("name") or "").strip(), "vehicle_id": None}
+    
+    if location_type == "van":
+        vehicle = await db.vehicles.find_one({"vehicle_id": body.get("vehicle_id")}, {"_id": 0})
+        if not vehicle:
+            raise HTTPException(status_code=404, detail="Nie znaleziono pojazdu")
+        fields["vehicle_id"] = vehicle["vehicle_id"]
+        fields["name"] = fields["name"] or f"Bus {vehicle['plate_number']}"
+    
+    if not fields["name"]:
+        raise HTTPException(status_code=400, detail="Nazwa lokalizacji jest wymagana")
+    return fields
+
+@api_router.post("/locations")
+async def create_location(request: Request, admin: dict = Depends(require_admin)):
+    """Add a warehouse or a van (admin only) - worker locations are created with the worker"""
+    body = await request.json()
+    location_type = body.get("type")
+    if location_type not in ("warehouse", "van"):
+        raise HTTPException(status_code=400, detail="Można dodać tylko magazyn lub pojazd")
+    
+    fields = await parse_location_body(body, location_type)
+    if fields["vehicle_id"] and await db.locations.find_one({"vehicle_id": fields["vehicle_id"]}):
+        raise HTTPException(status_code=400, detail="Ten pojazd ma już swoją lokalizację")
+    
+    location = {
+        "location_id": f"loc_{uuid.uuid4().hex[:12]}",
+        "type": location_type,
+        "user_id": None,
+        **fields,
+        "created_at": get_warsaw_now()
+    }
+    await db.locations.insert_one(location)
+    location.pop("_id", None)
+    return location
+
+@api_router.put("/locations/{location_id}")
+async def update_location(location_id: str, request: Request, admin: dict = Depends(require_admin)):
+    """Rename a warehouse or change the vehicle of a van (admin only)"""
+    location = await db.locations.find_one({"location_id": location_id}, {"_id": 0})
+    if not location:
+        raise HTTPException(status_code=404, detail="Nie znaleziono lokalizacji")
+    if location["type"] == "worker":
+        raise HTTPException(status_code=400, detail="Lokalizacja pracownika zmienia się razem z pracownikiem")
+    
+    fields = await parse_location_body(await request.json(), location["type"])
+    if fields["vehicle_id"] and await db.locations.find_one({"vehicle_id": fields["vehicle_id"], "location_id": {"$ne": location_id}}):
+        raise HTTPException(status_code=400, detail="Ten pojazd ma już swoją lokalizację")
+    
+    await db.locations.update_one({"location_id": location_id}, {"$set": fields})
+    return await db.locations.find_one({"location_id": location_id}, {"_id": 0})
+
+@api_router.delete("/locations/{location_id}")
+async def delete_location(location_id: str, admin: dict = Depends(require_admin)):
+    """Remove an empty warehouse or van (admin only)"""
+    location = await db.locations.find_one({"location_id": location_id}, {"_id": 0})
+    if not location:
+        raise HTTPException(status_code=404, detail="Nie znaleziono lokalizacji")
+    if location_id == MAIN_WAREHOUSE_ID or location["type"] == "worker":
+        raise HTTPException(status_code=400, detail="Tej lokalizacji nie można usunąć")
+    
+    in_stock = await db.devices.count_documents({"location_id": location_id})
+    if in_stock:
+        raise HTTPException(status_code=409, detail=f"W lokalizacji jest {in_stock} urządzeń - przenieś je najpierw")
+    
+    await db.locations.delete_one({"location_id": location_id})
+    return {"message": "Lokalizacja usunięta"}
+
+# ==================== DEVICE LABELS ====================
+
+# Our labels carry the serial behind this prefix, so scanners can tell them from
+# the operators' own barcodes (frontend: src/utils/deviceLabels.ts)
+DEVICE_LABEL_PREFIX = "ITS:"
+LABEL_DPI = 300
+# Sheets fit A4 with 3 x 8 labels of 70 x 37 mm, thermal printers get one 50 x 25 mm label per page
+LABEL_LAYOUTS = {
+    "sheet": {"label_mm": (70, 37), "page_mm": (210, 297), "columns": 3, "rows": 8},
+    "thermal": {"label_mm": (50, 25), "page_mm": (50, 25), "columns": 1, "rows": 1},
+}
+MAX_LABELS = 1000
+
+# Bar/space module widths of Code 128 symbols 0-105, then the stop symbol
+CODE128_PATTERNS = [
+    "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+    "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+    "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+    "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+    "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+    "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+    "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+    "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+    "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+    "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+    "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+]
+CODE128_START_B = 104
+CODE128_STOP = 106
+
+def encode_code128(text: str) -> List[int]:
+    """Module widths (bar first, alternating) of the text in Code 128 set B"""
+    values = [ord(ch) - 32 for ch in text]
+    if any(v < 0 or v > 95 for v in values):
+        raise ValueError("Code 128 B obsługuje tylko znaki ASCII")
+    checksum = (CODE128_START_B + sum(i * v for i, v in enumerate(values, start=1))) % 103
+    symbols = [CODE128_START_B, *values, checksum, CODE128_STOP]
+    return [int(width) for symbol in symbols for width in CODE128_PATTERNS[symbol]]
+
+def mm_to_px(mm: float) -> int:
+    return round(mm / 25.4 * LABEL_DPI)
+
+def load_label_font(size: int):
+    """DejaVu has the Polish letters - fall back to the bundled Pillow font without it"""
+    try:
+        return ImageFont.truetype("DejaVuSans.ttf", size)
+    except OSError:
+        return ImageFont.load_default(size=size)
+
+def fit_label_text(draw: ImageDraw.ImageDraw, text: str, font, max_width: int) -> str:
+    """Shorten the text with an ellipsis until it fits the label width"""
+    if draw.textlength(text, font=font) <= max_width:
+        return text
+    while text and draw.textlength(text + "…", font=font) > max_width:
+        text = text[:-1]
+    return text + "…"
+
+def render_device_label(device: dict, model_name: str, size_px: tuple) -> Image.Image:
+    """Model name on top, Code 128 of the prefixed serial and the serial in plain text below"""
+    width, height = size_px
+    label = Image.new("L", size_px, 255)
+    draw = ImageDraw.Draw(label)
+    margin = mm_to_px(2)
+    title_font = load_label_font(max(height // 8, 12))
+    serial_font = load_label_font(max(height // 10, 10))
+
+    title = fit_label_text(draw, model_name or device.get("nazwa") or "Urządzenie", title_font, width - 2 * margin)
+    draw.text((width // 2, margin), title, font=title_font, fill=0, anchor="mt")
+
+    serial = device["numer_seryjny"]
+    modules = encode_code128(DEVICE_LABEL_PREFIX + serial)
+    # Whole pixels per module keep the bars sharp, quiet zone of 10 modules on both sides
+    module_px = max((width - 2 * margin) // (sum(modules) + 20), 1)
+    bars_top = margin + title_font.size + mm_to_px(1)
+    bars_bottom = height - margin - serial_font.size - mm_to_px(1)
+    x = (width - sum(modules) * module_px) // 2
+    for index, modules_wide in enumerate(modules):
+        if index % 2 == 0:
+            draw.rectangle([x, bars_top, x + modules_wide * module_px - 1, bars_bottom], fill=0)
+        x += modules_wide * module_px
+
+    draw.text((width // 2, height - margin), serial, font=serial_font, fill=0, anchor="mb")
+    return label
+
+def render_label_pdf(devices: List[dict], model_names: dict, layout: str) -> bytes:
+    """All labels as one PDF, pages filled row by row"""
+    config = LABEL_LAYOUTS[layout]
+    label_size = tuple(mm_to_px(mm) for mm in config["label_mm"])
+    page_size = tuple(mm_to_px(mm) for mm in config["page_mm"])
+    per_page = config["columns"] * config["rows"]
+    # Center the grid on the page
+    offset_x = (page_size[0] - config["columns"] * label_size[0]) // 2
+    offset_y = (page_size[1] - config["rows"] * label_size[1]) // 2
+
+    pages = []
+    for start in range(0, len(devices), per_page):
+        page = Image.new("L", page_size, 255)
+        for slot, device in enumerate(devices[start:start + per_page]):
+            label = render_device_label(device, model_names.get(device.get("model_id")), label_size)
+            column, row = slot % config["columns"], slot // config["columns"]
+            page.paste(label, (offset_x + column * label_size[0], offset_y + row * label_size[1]))
+        pages.append(page)
+
+    output = BytesIO()
+    pages[0].save(output, format="PDF", resolution=LABEL_DPI, save_all=True, append_images=pages[1:])
+    return output.getvalue()
+
+@api_router.get("/devices/labels")
+async def get_device_labels(
+    request: Request,
+    device_ids: str,
+    layout: str = "sheet",
+    token: Optional[str] = None
+):
+    """Printable PDF labels for the given devices (admin only).
+    Accepts ?token= like attachments, so the phone can open the PDF in the browser."""
+    user = await get_attachment_user(request, token)
+    if user.get("role") != "admin":
+        raise HTTPException(status_code=403, detail="Brak uprawnień administratora")
+    if layout not in LABEL_LAYOUTS:
+        raise HTTPException(status_code=400, detail="Nieznany układ etykiet")
+    
+    ids = list(dict.fromkeys(i for i in device_ids.split(",") if i))
+    if not ids:
+        raise HTTPException(status_code=400, detail="Wymagana lista device_ids")
+    if len(ids) > MAX_LABELS:
+        raise HTTPException(status_code=400, detail=f"Maksymalnie {MAX_LABELS} etykiet naraz")
+    
+    found = await db.devices.find({"device_id": {"$in": ids}}, {"_id": 0}).to_list(len(ids))
+    by_id = {d["device_id"]: d for d in found}
+    # Keep the order the app asked for, e.g. the order of a scanned batch
+    devices = [by_id[i] for i in ids if i in by_id]
+    if not devices:
+        raise HTTPException(status_code=404, detail="Nie znaleziono urządzeń")
+    # The label is the serial number, there is nothing to print without one
+    without_serial = [
+        f"{d.get('nazwa') or 'Bez nazwy'} ({d.get('kod_kreskowy') or d['device_id']})"
+        for d in devices if not str(d.get("numer_seryjny") or "").strip()
+    ]
+    if without_serial:
+        raise HTTPException(status_code=400, detail=f"Urządzenia bez numeru seryjnego: {', '.join(without_serial)}")
+    try:
+        for device in devices:
+            encode_code128(DEVICE_LABEL_PREFIX + device["numer_seryjny"])
+    except ValueError:
+        raise HTTPException(status_code=400, detail=f"Numer seryjny {device['numer_seryjny']} zawiera znaki spoza ASCII")
+    
+    model_names = {m["model_id"]: m["name"] for m in await get_device_models_list()}
+    pdf = await asyncio.to_thread(render_label_pdf, devices, model_names, layout)
+    filename = f"etykiety_{get_warsaw_now().strftime('%Y%m%d_%H%M%S')}.pdf"
+    return Response(
+        content=pdf,
+        media_type="application/pdf",
+        headers={"Content-Disposition": f'inline; filename="{filename}"'}
+    )
+
 # ==================== DEVICE MANAGEMENT ====================
 
-@api_router.post("/devices/import")
-async def import_devices(file: UploadFile = File(...), admin: dict = Depends(require_admin)):
-    """Import devices from XLSX file"""
-    if not file.filename.endswith(('.xlsx', '.xls')):
-        raise HTTPException(status_code=400, detail="Tylko pliki XLSX są obsługiwane")
+DEVICE_STATUS_LABELS = {
+    "dostepny": "dostępny",
+    "przypisany": "przypisany",
+    "zainstalowany": "zainstalowany",
+    "uszkodzony": "uszkodzony",
+    "zwrocony": "zwrócony",
+    "zaginiony": "zaginiony",
+}
+
+# Device lifecycle - the only place that decides which status changes are allowed.
+# Served to the app by GET /devices/lifecycle so the UI offers the same actions.
+#   from     - statuses the action can start from
+#   to       - status after the action
+#   roles    - who may trigger it
+#   holder   - workers may only act on devices assigned to them
+#   requires - request fields that must be present (field -> label for the error)
+DEVICE_LIFECYCLE = {
+    "assign": {
+        "label": "Przypisz",
+        "from": ["dostepny"],
+        "to": "przypisany",
+        "roles": ["admin"],
+        "holder": False,
+        "requires": {"worker_id": "pracownik"},
+    },
+    "transfer": {
+        "label": "Przenieś",
+        "from": ["przypisany"],
+        "to": "przypisany",
+        "roles": ["admin"],
+        "holder": False,
+        "requires": {"worker_id": "pracownik"},
+    },
+    "install": {
+        "label": "Zainstaluj",
+        "from": ["dostepny", "przypisany"],
+        "to": "zainstalowany",
+        "roles": ["admin", "pracownik"],
+        "holder": True,
+        "requires": {"adres_klienta": "adres klienta"},
+    },
+    "restore": {
+        "label": "Przywróć",
+        "from": ["zainstalowany"],
+        "to": "dostepny",
+        "roles": ["admin"],
+        "holder": False,
+        "requires": {},
+    },
+    "mark_damaged": {
+        "label": "Oznacz jako uszkodzone",
+        "from": ["dostepny", "przypisany", "zainstalowany"],
+        "to": "uszkodzony",
+        "roles": ["admin", "pracownik"],
+        "holder": True,
+        "requires": {},
+    },
+    "move": {
+        "label": "Przenieś do lokalizacji",
+        "from": ["dostepny"],
+        "to": "dostepny",
+        "roles": ["admin"],
+        "holder": False,
+        "requires": {"location_id": "lokalizacja"},
+    },
+    "return": {
+        "label": "Przenieś do zwrotów",
+        "from": ["dostepny", "przypisany", "uszkodzony"],
+        "to": "zwrocony",
+        "roles": ["admin"],
+        "holder": False,
+        "requires": {},
+    },
+    # A device that failed at the customer is usually marked damaged before it is taken away
+    "dismantle": {
+        "label": "Zdemontuj u klienta",
+        "from": ["zainstalowany", "uszkodzony"],
+        "to": "zwrocony",
+        "roles": ["admin", "pracownik"],
+        "holder": False,
+        "requires": {},
+    },
+    # Corrections after a stocktake - "przypisany" when the location is a worker's own stock
+    "stocktake_move": {
+        "label": "Korekta po inwentaryzacji",
+        "from": ["dostepny", "przypisany", "zaginiony"],
+        "to": "dostepny",
+        "roles": ["admin"],
+        "holder": False,
+        "requires": {"location_id": "lokalizacja"},
+    },
+    "write_off": {
+        "label": "Spisz jako zaginione",
+        "from": ["dostepny", "przypisany"],
+        "to": "zaginiony",
+        "roles": ["admin"],
+        "holder": False,
+        "requires": {},
+    },
+}
+
+def get_device_transition_error(device: dict, action: str, user: dict, data: Optional[dict] = None) -> Optional[HTTPException]:
+    """Why the action is not allowed for this device and user, None when it is"""
+    rule = DEVICE_LIFECYCLE[action]
+    role = user.get("role", "pracownik")
+    status = device.get("status", "dostepny")
+    
+    if role not in rule["roles"]:
+        return HTTPException(status_code=403, detail=f"Brak uprawnień do operacji: {rule['label']}")
+    
+    if rule["holder"] and role != "admin" and device.get("przypisany_do") != user["user_id"]:
+        return HTTPException(status_code=403, detail="To urządzenie nie jest przypisane do Ciebie")
+    
+    if status not in rule["from"]:
+        return HTTPException(
+            status_code=409,
+            detail=f"Nie można wykonać operacji \"{rule['label']}\" - urządzenie {device.get('numer_seryjny', '')} ma status: {DEVICE_STATUS_LABELS.get(status, status)}"
+        )
     
-    content = await file.read()
-    wb = openpyxl.load_workbook(BytesIO(content))
-    ws = wb.active
+    missing = [label for field, label in rule["requires"].items() if not str((data or {}).get(field) or "").strip()]
+    if missing:
+        return HTTPException(status_code=400, detail=f"Wymagane dane: {', '.join(missing)}")
+    
+    return None
+
+def check_device_transition(device: dict, action: str, user: dict, data: Optional[dict] = None):
+    """Raise when the lifecycle does not allow the action"""
+    error = get_device_transition_error(device, action, user, data)
+    if error:
+        raise error
+
+@api_router.get("/devices/lifecycle")
+async def get_device_lifecycle(user: dict = Depends(require_user)):
+    """Device statuses and allowed transitions"""
+    return {"statuses": DEVICE_STATUS_LABELS, "actions": DEVICE_LIFECYCLE}
+
+# Import wizard: the file is uploaded once, then checked and imported with the mapping the user picked
+IMPORT_FIELDS = ("nazwa", "numer_seryjny", "kod_kreskowy", "kod_qr")
+# Header words pointing at a field, checked in this order so "Kod QR" is not taken for a barcode
+IMPORT_HEADER_HINTS = [
+    ("kod_qr", ("qr",)),
+    ("numer_seryjny", ("seryjny", "serial", "s/n", "sn", "fabryczny")),
+    ("kod_kreskowy", ("kreskowy", "ean", "barcode", "kod")),
+    ("nazwa", ("nazwa", "model", "typ", "name", "urządzenie")),
+]
+# Column order of the old fixed template, used when the file has no header row
+IMPORT_DEFAULT_MAPPING = {"nazwa": 0, "numer_seryjny": 1, "kod_kreskowy": 2, "kod_qr": 3}
+IMPORT_SAMPLE_ROWS = 20
+MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024  # 10 MB
+# Uploaded files are kept this long for the following wizard steps
+IMPORT_UPLOAD_TTL_SECONDS = 3600
+# Letters, digits and - . / only - the colon is reserved for our own labels
+SERIAL_NUMBER_PATTERN = re.compile(r"^[A-Za-z0-9][A-Za-z0-9./-]{3,39}$")
+
+@app.on_event("startup")
+async def create_import_upload_index():
+    """Forget uploads the wizard never finished"""
+    await db.import_uploads.create_index("created_at", expireAfterSeconds=IMPORT_UPLOAD_TTL_SECONDS)
+
+def import_cell_text(value) -> str:
+    """Excel keeps long serials as numbers - 123.0 has to come back as 123"""
+    if value is None:
+        return ""
+    if isinstance(value, float) and value.is_integer():
+        return str(int(value))
+    return str(value).strip()
+
+def read_import_sheets(filename: str, content: bytes) -> dict:
+    """Rows of every sheet as lists of cell values - XLSX workbooks or a single CSV table"""
+    name = (filename or "").lower()
+    if name.endswith(".csv"):
+        try:
+            text = content.decode("utf-8-sig")
+        except UnicodeDecodeError:
+            # Excel on Polish Windows saves CSV in this code page
+            text = content.decode("cp1250", errors="replace")
+        try:
+            dialect = csv.Sniffer().sniff(text[:4096], delimiters=",;\t")
+        except csv.Error:
+            dialect = csv.excel
+        return {"CSV": [row for row in csv.reader(StringIO(text), dialect)]}
+    
+    if name.endswith(".xlsx"):
+        try:
+            wb = openpyxl.load_workbook(BytesIO(content), read_only=True, data_only=True)
+        except Exception:
+            raise HTTPException(status_code=400, detail="Nie udało się odczytać pliku XLSX")
+        sheets = {ws.title: [list(row) for row in ws.iter_rows(values_only=True)] for ws in wb.worksheets}
+        wb.close()
+        return sheets
+    
+    raise HTTPException(status_code=400, detail="Obsługiwane są pliki XLSX i CSV")
+
+def match_import_header(header: str, hints: tuple) -> bool:
+    normalized = header.strip().lower()
+    words = re.split(r"[^\w/]+", normalized)
+    # Short hints ("sn", "kod") only as whole words
+    return any(hint == normalized or hint in words or (len(hint) > 3 and hint in normalized) for hint in hints)
+
+def suggest_import_mapping(headers: List[str]) -> dict:
+    """Field -> column index guessed from the header names"""
+    mapping = {field: None for field in IMPORT_FIELDS}
+    for index, header in enumerate(headers):
+        for field, hints in IMPORT_HEADER_HINTS:
+            if mapping[field] is None and header and match_import_header(header, hints):
+                mapping[field] = index
+                break
+    return mapping
+
+def detect_import_header_row(rows: List[list]) -> int:
+    """1-based number of the header row, 0 when the data starts right away"""
+    for index, row in enumerate(rows[:10]):
+        cells = [import_cell_text(c) for c in row if import_cell_text(c)]
+        if len(cells) < 2 or any(isinstance(c, (int, float)) for c in row):
+            continue
+        if any(v is not None for v in suggest_import_mapping(cells).values()):
+            return index + 1
+    return 0
+
+def describe_import_sheet(name: str, rows: List[list]) -> dict:
+    """What the wizard needs to let the user map the columns of one sheet"""
+    header_row = detect_import_header_row(rows)
+    width = max((len(row) for row in rows[:IMPORT_SAMPLE_ROWS]), default=0)
+    if header_row:
+        mapping = suggest_import_mapping([import_cell_text(c) for c in rows[header_row - 1]])
+    else:
+        mapping = {field: (index if index < width else None) for field, index in IMPORT_DEFAULT_MAPPING.items()}
+    return {
+        "name": name,
+        "header_row": header_row,
+        "total_rows": sum(1 for row in rows[header_row:] if any(import_cell_text(c) for c in row)),
+        "sample_rows": [
+            [import_cell_text(c) for c in row] + [""] * (width - len(row))
+            for row in rows[:IMPORT_SAMPLE_ROWS]
+        ],
+        "suggested_mapping": mapping
+    }
+
+async def load_import_request(body: dict) -> tuple:
+    """Uploaded file, rows of the chosen sheet, header row and mapping from a wizard request"""
+    upload = await db.import_uploads.find_one({"upload_id": body.get("upload_id")}, {"_id": 0})
+    if not upload:
+        raise HTTPException(status_code=404, detail="Plik wygasł lub nie istnieje - wgraj go ponownie")
     
-    devices_imported = 0
-    duplicates = 0
-    errors = []
+    sheets = read_import_sheets(upload["filename"], upload["content"])
+    rows = sheets.get(body.get("sheet"))
+    if rows is None:
+        raise HTTPException(status_code=400, detail="Nie znaleziono arkusza w pliku")
     
-    for row_num, row in enumerate(ws.iter_rows(min_row=2, values_only=True), start=2):
-        if not row or not row[0]:
+    try:
+        header_row = int(body.get("header_row") or 0)
+        mapping = {
+            field: (int(column) if column is not None else None)
+            for field, column in (body.get("mapping") or {}).items() if field in IMPORT_FIELDS
+        }
+    except (TypeError, ValueError):
+        raise HTTPException(status_code=400, detail="Nieprawidłowe mapowanie kolumn")
+    if header_row < 0 or header_row > len(rows):
+        raise HTTPException(status_code=400, detail="Nieprawidłowy wiersz nagłówka")
+    if mapping.get("numer_seryjny") is None:
+        raise HTTPException(status_code=400, detail="Wskaż kolumnę z numerem seryjnym")
+    
+    return upload, rows, header_row, mapping
+
+async def check_import_rows(rows: List[list], header_row: int, mapping: dict) -> List[dict]:
+    """Every data row with its values and whether it can be imported"""
+    models = await get_device_models_list()
+    model_names = {m["model_id"]: m["name"] for m in models}
+    checked = []
+    first_row_of_serial = {}
+    
+    for row_num, row in enumerate(rows[header_row:], start=header_row + 1):
+        if not any(import_cell_text(c) for c in row):
             continue
+        values = {
+            field: import_cell_text(row[column]) if column is not None and column < len(row) else ""
+            for field, column in ((f, mapping.get(f)) for f in IMPORT_FIELDS)
+        }
+        entry = {"row": row_num, **values, "model_id": None, "model_name": None, "status": "ok", "message": None}
+        serial = values["numer_seryjny"]
         
-        try:
-            numer_seryjny = str(row[1]) if len(row) > 1 and row[1] else ""
-            
-            if not numer_seryjny:
-                errors.append(f"Wiersz {row_num}: Brak numeru seryjnego")
-                continue
-            
-            # Check for duplicate in database
-            existing = await db.devices.find_one({"numer_seryjny": numer_seryjny})
-            if existing:
-                duplicates += 1
-                errors.append(f"Wiersz {row_num}: Numer seryjny {numer_seryjny} już istnieje w systemie")
-                continue
-            
-            device = {
-                "device_id": f"dev_{uuid.uuid4().hex[:12]}",
-                "nazwa": str(row[0]) if row[0] else "",
-                "numer_seryjny": numer_seryjny,
-                "kod_kreskowy": str(row[2]) if len(row) > 2 and row[2] else None,
-                "kod_qr": str(row[3]) if len(row) > 3 and row[3] else None,
-                "przypisany_do": None,
-                "status": "dostepny",
-                "created_at": get_warsaw_now(),
-                "imported_at": get_warsaw_now(),
-                "imported_by": admin["user_id"]
-            }
-            
-            await db.devices.insert_one(device)
-            
-            # Log device import
-            await log_activity(
-                user_id=admin["user_id"],
-                user_name=admin["name"],
-                user_role="admin",
-                action_type="device_import",
-                action_description=f"Zaimportowano urządzenie {device['nazwa']} ({numer_seryjny}) z pliku Excel",
-                device_serial=numer_seryjny,
-                device_name=device["nazwa"],
-                device_id=device["device_id"],
-                details={"source": "excel_import", "filename": file.filename}
-            )
-            
-            devices_imported += 1
-        except Exception as e:
-            errors.append(f"Wiersz {row_num}: {str(e)}")
+        if not serial:
+            entry.update(status="invalid", message="Brak numeru seryjnego")
+        elif not SERIAL_NUMBER_PATTERN.match(serial):
+            entry.update(status="invalid", message="Nieprawidłowy numer seryjny")
+        elif serial in first_row_of_serial:
+            entry.update(status="duplicate_in_file", message=f"Powtórzony numer z wiersza {first_row_of_serial[serial]}")
+        else:
+            first_row_of_serial[serial] = row_num
+        checked.append(entry)
+    
+    candidates = [e["numer_seryjny"] for e in checked if e["status"] == "ok"]
+    existing = await db.devices.find({"numer_seryjny": {"$in": candidates}}, {"_id": 0, "numer_seryjny": 1}).to_list(None)
+    existing_serials = {d["numer_seryjny"] for d in existing}
+    
+    for entry in checked:
+        if entry["status"] != "ok":
+            continue
+        if entry["numer_seryjny"] in existing_serials:
+            entry.update(status="duplicate", message="Numer seryjny już istnieje w systemie")
+            continue
+        entry["model_id"] = match_device_model(models, entry["nazwa"], entry["numer_seryjny"], entry["kod_kreskowy"])
+        entry["model_name"] = model_names.get(entry["model_id"])
+    return checked
+
+def summarize_import_rows(checked: List[dict]) -> dict:
+    summary = {"ok": 0, "duplicate": 0, "duplicate_in_file": 0, "invalid": 0}
+    for entry in checked:
+        summary[entry["status"]] += 1
+    return summary
+
+@api_router.post("/devices/import/upload")
+async def upload_import_file(file: UploadFile = File(...), admin: dict = Depends(require_admin)):
+    """First wizard step: keep the file and describe its sheets (admin only)"""
+    content = await file.read(MAX_IMPORT_FILE_SIZE + 1)
+    if len(content) > MAX_IMPORT_FILE_SIZE:
+        raise HTTPException(status_code=413, detail="Plik jest za duży (maksymalnie 10 MB)")
+    
+    sheets = read_import_sheets(file.filename, content)
+    if not any(sheets.values()):
+        raise HTTPException(status_code=400, detail="Plik jest pusty")
+    
+    upload_id = f"imp_{uuid.uuid4().hex[:12]}"
+    await db.import_uploads.insert_one({
+        "upload_id": upload_id,
+        "filename": file.filename,
+        "content": content,
+        "uploaded_by": admin["user_id"],
+        "created_at": get_warsaw_now()
+    })
+    
+    return {
+        "upload_id": upload_id,
+        "filename": file.filename,
+        "sheets": [describe_import_sheet(name, rows) for name, rows in sheets.items()]
+    }
+
+@api_router.post("/devices/import/dry-run")
+async def dry_run_import(request: Request, admin: dict = Depends(require_admin)):
+    """Check every row with the chosen mapping without saving anything (admin only)"""
+    _, rows, header_row, mapping = await load_import_request(await request.json())
+    checked = await check_import_rows(rows, header_row, mapping)
+    return {"rows": checked, "summary": summarize_import_rows(checked)}
+
+@api_router.post("/devices/import")
+async def import_devices(request: Request, admin: dict = Depends(require_admin)):
+    """Import the rows that passed the check - the last wizard step (admin only)"""
+    upload, rows, header_row, mapping = await load_import_request(await request.json())
+    # Checked again, devices may have been added since the dry run
+    checked = await check_import_rows(rows, header_row, mapping)
+    now = get_warsaw_now()
+    
+    devices = [
+        {
+            "device_id": f"dev_{uuid.uuid4().hex[:12]}",
+            "nazwa": entry["nazwa"],
+            "model_id": entry["model_id"],
+            "numer_seryjny": entry["numer_seryjny"],
+            "kod_kreskowy": entry["kod_kreskowy"] or None,
+            "kod_qr": entry["kod_qr"] or None,
+            "przypisany_do": None,
+            "status": "dostepny",
+            "location_id": MAIN_WAREHOUSE_ID,
+            "created_at": now,
+            "imported_at": now,
+            "imported_by": admin["user_id"]
+        }
+        for entry in checked if entry["status"] == "ok"
+    ]
+    batch = None
+    if devices:
+        batch = await create_import_batch(admin, "file", upload["filename"])
+        for device in devices:
+            device["batch_id"] = batch["batch_id"]
+        await db.devices.insert_many(devices)
+        await add_to_import_batch(batch["batch_id"], [d["device_id"] for d in devices])
+    
+    for device in devices:
+        await log_activity(
+            user_id=admin["user_id"],
+            user_name=admin["name"],
+            user_role="admin",
+            action_type="device_import",
+            action_description=f"Zaimportowano urządzenie {device['nazwa']} ({device['numer_seryjny']}) z pliku {upload['filename']}",
+            device_serial=device["numer_seryjny"],
+            device_name=device["nazwa"],
+            device_id=device["device_id"],
+            details={"source": "file_import", "filename": upload["filename"], "batch_id": batch["batch_id"]}
+        )
     
+    await db.import_uploads.delete_one({"upload_id": upload["upload_id"]})
+    
+    summary = summarize_import_rows(checked)
+    duplicates = summary["duplicate"] + summary["duplicate_in_file"]
     return {
-        "imported": devices_imported,
+        "imported": len(devices),
         "duplicates": duplicates,
-        "errors": errors,
-        "message": f"Zaimportowano {devices_imported} urządzeń" + (f", pominięto {duplicates} duplikatów" if duplicates > 0 else "")
+        "errors": [f"Wiersz {e['row']}: {e['message']}" for e in checked if e["status"] != "ok"],
+        # Lets the app print labels for the whole delivery
+        "device_ids": [d["device_id"] for d in devices],
+        "batch_id": batch["batch_id"] if batch else None,
+        "message": f"Zaimportowano {len(devices)} urządzeń" + (f", pominięto {duplicates} duplikatów" if duplicates > 0 else "")
     }
 
+DEVICE_PAGE_MAX_LIMIT = 500
+# Devices imported or added without a name are listed under this category
+UNNAMED_DEVICE_CATEGORY = "Bez nazwy"
+DEVICE_SORT_FIELDS = ("nazwa", "numer_seryjny", "kod_kreskowy", "status", "created_at", "data_instalacji")
+
+@app.on_event("startup")
+async def create_device_indexes():
+    """Indexes behind the paginated, filtered device list"""
+    await db.devices.create_index([("nazwa", 1), ("numer_seryjny", 1)])
+    await db.devices.create_index([("status", 1), ("przypisany_do", 1)])
+    await db.devices.create_index("przypisany_do")
+    await db.devices.create_index("model_id")
+    await db.installations.create_index("user_id")
+
+async def get_installed_device_ids(user_id: str) -> List[str]:
+    """Devices the user has installed (they are assigned to the admin afterwards)"""
+    installations = await db.installations.find({"user_id": user_id}, {"_id": 0, "device_id": 1}).to_list(None)
+    return [inst["device_id"] for inst in installations]
+
+async def build_device_query(
+    user: dict,
+    status: Optional[str] = None,
+    assigned_to: Optional[str] = None,
+    nazwa: Optional[str] = None,
+    search: Optional[str] = None,
+    model_id: Optional[str] = None,
+    location_id: Optional[str] = None
+) -> dict:
+    """Mongo filter for the device list - workers only see their own devices"""
+    conditions = []
+    
+    # A worker's devices are the assigned ones plus the ones they installed
+    owner_id = assigned_to if user.get("role") == "admin" else user["user_id"]
+    if owner_id:
+        conditions.append({"$or": [
+            {"przypisany_do": owner_id},
+            {"status": "zainstalowany", "device_id": {"$in": await get_installed_device_ids(owner_id)}}
+        ]})
+    
+    if status:
+        conditions.append({"status": status})
+    if nazwa == UNNAMED_DEVICE_CATEGORY:
+        conditions.append({"nazwa": {"$in": [None, "", UNNAMED_DEVICE_CATEGORY]}})
+    elif nazwa:
+        conditions.append({"nazwa": nazwa})
+    if model_id:
+        conditions.append({"model_id": model_id})
+    if location_id:
+        conditions.append({"location_id": location_id})
+    if search and search.strip():
+        pattern = {"$regex": re.escape(search.strip()), "$options": "i"}
+        conditions.append({"$or": [{"nazwa": pattern}, {"numer_seryjny": pattern}, {"kod_kreskowy": pattern}]})
+    
+    if not conditions:
+        return {}
+    return conditions[0] if len(conditions) == 1 else {"$and": conditions}
+
+async def attach_installation_info(devices: List[dict]):
+    """Add the latest installation details to installed devices"""
+    installed_device_ids = [d["device_id"] for d in devices if d.get("status") == "zainstalowany"]
+    if not installed_device_ids:
+        return
+    
+    installations = await db.installations.find(
+        {"device_id": {"$in": installed_device_ids}},
+        {"_id": 0}
+    ).sort("data_instalacji", -1).to_list(None)
+    
+    # Create a map of device_id to latest installation
+    installation_map = {}
+    for inst in installations:
+        device_id = inst.get("device_id")
+        if device_id and device_id not in installation_map:
+            installation_map[device_id] = inst
+    
+    for device in devices:
+        if device.get("status") == "zainstalowany" and device["device_id"] in installation_map:
+            inst = installation_map[device["device_id"]]
+            device["instalacja"] = {
+                "adres": inst.get("adres") or inst.get("adres_klienta"),
+                "address_id": inst.get("address_id"),
+                "data_instalacji": inst.get("data_instalacji"),
+                "rodzaj_zlecenia": inst.get("rodzaj_zlecenia"),
+                "instalator_id": inst.get("user_id")
+            }
+
 @api_router.get("/devices")
 async def get_devices(
     status: Optional[str] = None,
     assigned_to: Optional[str] = None,
+    nazwa: Optional[str] = None,
+    search: Optional[str] = None,
+    model_id: Optional[str] = None,
+    location_id: Optional[str] = None,
+    sort: str = "nazwa",
+    order: str = "asc",
+    skip: int = 0,
+    limit: int = 50,
     user: dict = Depends(require_user)
 ):
-    """Get all devices - workers can only see their own devices"""
-    is_admin = user.get("role") == "admin"
-    
-    if is_admin:
-        # Admin can see all devices
-        if assigned_to:
-            # When filtering by worker, include both assigned AND installed by them
-            query_assigned = {"przypisany_do": assigned_to}
-            if status and status != "zainstalowany":
-                query_assigned["status"] = status
-            
-            assigned_devices = await db.devices.find(query_assigned, {"_id": 0}).to_list(1000)
-            
-            # Also get devices installed by this worker
-            if not status or status == "zainstalowany":
-                installations = await db.installations.find(
-                    {"user_id": assigned_to},
-                    {"_id": 0}
-                ).to_list(1000)
-                installed_device_ids = [inst["device_id"] for inst in installations]
-                
-                installed_query = {"device_id": {"$in": installed_device_ids}, "status": "zainstalowany"}
-                installed_devices = await db.devices.find(installed_query, {"_id": 0}).to_list(1000)
-                
-                # Merge without duplicates
-                device_ids = set(d["device_id"] for d in assigned_devices)
-                for d in installed_devices:
-                    if d["device_id"] not in device_ids:
-                        assigned_devices.append(d)
-                        device_ids.add(d["device_id"])
-            
-            devices = assigned_devices
-        else:
-            query = {}
-            if status:
-                query["status"] = status
-            devices = await db.devices.find(query, {"_id": 0}).to_list(1000)
-    else:
-        # Worker - get assigned devices + devices they installed
-        worker_id = user["user_id"]
-        
-        if status == "zainstalowany":
-            # For installed devices, find devices this worker installed
-            installations = await db.installations.find(
-                {"user_id": worker_id},
-                {"_id": 0}
-            ).to_list(1000)
-            
-            installed_device_ids = [inst["device_id"] for inst in installations]
-            devices = await db.devices.find(
-                {"device_id": {"$in": installed_device_ids}, "status": "zainstalowany"},
-                {"_id": 0}
-            ).to_list(1000)
-        elif status:
-            # Other statuses - only assigned devices
-            devices = await db.devices.find(
-                {"przypisany_do": worker_id, "status": status},
-                {"_id": 0}
-            ).to_list(1000)
-        else:
-            # All devices - assigned + installed by this worker
-            assigned_devices = await db.devices.find(
-                {"przypisany_do": worker_id},
-                {"_id": 0}
-            ).to_list(1000)
-            
-            # Get installations by this worker
-            installations = await db.installations.find(
-                {"user_id": worker_id},
-                {"_id": 0}
-            ).to_list(1000)
-            installed_device_ids = [inst["device_id"] for inst in installations]
-            
-            installed_devices = await db.devices.find(
-                {"device_id": {"$in": installed_device_ids}, "status": "zainstalowany"},
-                {"_id": 0}
-            ).to_list(1000)
-            
-            # Merge without duplicates
-            device_ids = set()
-            devices = []
-            for d in assigned_devices + installed_devices:
-                if d["device_id"] not in device_ids:
-                    device_ids.add(d["device_id"])
-                    devices.append(d)
-    
-    # For installed devices, add installation info
-    installed_device_ids = [d["device_id"] for d in devices if d.get("status") == "zainstalowany"]
-    if installed_device_ids:
-        installations = await db.installations.find(
-            {"device_id": {"$in": installed_device_ids}},
-            {"_id": 0}
-        ).sort("data_instalacji", -1).to_list(1000)
-        
-        # Create a map of device_id to latest installation
-        installation_map = {}
-        for inst in installations:
-            device_id = inst.get("device_id")
-            if device_id and device_id not in installation_map:
-                installation_map[device_id] = inst
-        
-        # Add installation info to devices
-        for device in devices:
-            if device.get("status") == "zainstalowany" and device["device_id"] in installation_map:
-                inst = installation_map[device["device_id"]]
-                device["instalacja"] = {
-                    "adres": inst.get("adres") or inst.get("adres_klienta"),
-                    "data_instalacji": inst.get("data_instalacji"),
-                    "rodzaj_zlecenia": inst.get("rodzaj_zlecenia"),
-                    "instalator_id": inst.get("user_id")
-                }
+    """One page of devices - workers can only see their own devices"""
+    if sort not in DEVICE_SORT_FIELDS:
+        raise HTTPException(status_code=400, detail=f"Nieprawidłowe pole sortowania: {sort}")
+    
+    skip = max(skip, 0)
+    limit = min(max(limit, 1), DEVICE_PAGE_MAX_LIMIT)
+    direction = -1 if order == "desc" else 1
+    
+    query = await build_device_query(user, status, assigned_to, nazwa, search, model_id, location_id)
+    
+    # Serial and id as tie-breakers keep the order stable between pages
+    sort_spec = [(sort, direction)]
+    if sort != "numer_seryjny":
+        sort_spec.append(("numer_seryjny", 1))
+    sort_spec.append(("device_id", 1))
+    
+    total = await db.devices.count_documents(query)
+    devices = await db.devices.find(query, {"_id": 0}).sort(sort_spec).skip(skip).limit(limit).to_list(limit)
+    await attach_installation_info(devices)
+    
+    return {
+        "items": devices,
+        "total": total,
+        "skip": skip,
+        "limit": limit,
+        "has_more": skip + len(devices) < total
+    }
+
+@api_router.get("/devices/counts")
+async def get_device_counts(
+    status: Optional[str] = None,
+    assigned_to: Optional[str] = None,
+    nazwa: Optional[str] = None,
+    search: Optional[str] = None,
+    model_id: Optional[str] = None,
+    location_id: Optional[str] = None,
+    user: dict = Depends(require_user)
+):
+    """Device counts for the same filters as GET /devices.
+    by_status ignores the status filter, by_name the name filter, by_model the
+    model filter and by_location the location filter, so they can be shown next
+    to the filter they belong to."""
+    query = await build_device_query(user, status, assigned_to, nazwa, search, model_id, location_id)
+    status_query = await build_device_query(user, None, assigned_to, nazwa, search, model_id, location_id)
+    name_query = await build_device_query(user, status, assigned_to, None, search, model_id, location_id)
+    model_query = await build_device_query(user, status, assigned_to, nazwa, search, None, location_id)
+    location_query = await build_device_query(user, status, assigned_to, nazwa, search, model_id)
+    
+    total = await db.devices.count_documents(query)
+    by_status = await db.devices.aggregate([
+        {"$match": status_query},
+        {"$group": {"_id": "$status", "count": {"$sum": 1}}}
+    ]).to_list(None)
+    by_name = await db.devices.aggregate([
+        {"$match": name_query},
+        {"$group": {"_id": "$nazwa", "count": {"$sum": 1}}}
+    ]).to_list(None)
+    by_model = await db.devices.aggregate([
+        {"$match": model_query},
+        {"$group": {"_id": "$model_id", "count": {"$sum": 1}}}
+    ]).to_list(None)
+    by_location = await db.devices.aggregate([
+        {"$match": location_query},
+        {"$group": {"_id": "$location_id", "count": {"$sum": 1}}}
+    ]).to_list(None)
+    
+    name_counts = {}
+    for entry in by_name:
+        name = entry["_id"] or UNNAMED_DEVICE_CATEGORY
+        name_counts[name] = name_counts.get(name, 0) + entry["count"]
     
-    return devices
+    return {
+        "total": total,
+        "by_status": {entry["_id"]: entry["count"] for entry in by_status if entry["_id"]},
+        "by_name": [{"nazwa": name, "count": count} for name, count in sorted(name_counts.items())],
+        "by_model": {entry["_id"]: entry["count"] for entry in by_model if entry["_id"]},
+        "by_location": {entry["_id"]: entry["count"] for entry in by_location if entry["_id"]}
+    }
 
 @api_router.get("/devices/inventory/summary")
 async def get_inventory_summary(admin: dict = Depends(require_admin)):
@@ -708,6 +2024,11 @@ async def get_inventory_summary(admin: dict = Depends(require_admin)):
     # Get all users
     users = await db.users.find({}, {"_id": 0, "password_hash": 0}).to_list(1000)
     
+    # Configured per-model minimums, see STOCK LEVELS
+    stock_alerts = {}
+    for alert in await get_stock_alerts():
+        stock_alerts.setdefault(alert["user_id"], []).append(alert)
+    
     inventory = []
     for usr in users:
         # Get devices assigned to this user (przypisane)
@@ -759,6 +2080,7 @@ async def get_inventory_summary(admin: dict = Depends(require_admin)):
         
         inventory.append({
             "user_id": usr["user_id"],
+            "location_id": worker_location_id(usr["user_id"]) if usr["role"] == "pracownik" else None,
             "user_name": usr["name"],
             "user_email": usr["email"],
             "role": usr["role"],
@@ -767,11 +2089,35 @@ async def get_inventory_summary(admin: dict = Depends(require_admin)):
             "total_damaged": len(damaged_devices),
             "by_barcode": list(barcode_counts.values()),
             "low_stock": low_stock_items,
-            "has_low_stock": len(low_stock_items) > 0
+            "stock_alerts": stock_alerts.get(usr["user_id"], []),
+            "has_low_stock": len(low_stock_items) > 0 or usr["user_id"] in stock_alerts
         })
     
     return inventory
 
+@api_router.get("/devices/inventory/locations")
+async def get_location_inventory(admin: dict = Depends(require_admin)):
+    """Stock of every warehouse and van, counted per status and model (admin only)"""
+    locations = await db.locations.find({"type": {"$ne": "worker"}}, {"_id": 0}).to_list(None)
+    counts = await db.devices.aggregate([
+        {"$match": {"location_id": {"$in": [loc["location_id"] for loc in locations]}}},
+        {"$group": {"_id": {"location_id": "$location_id", "status": "$status", "model_id": "$model_id"}, "count": {"$sum": 1}}}
+    ]).to_list(None)
+    model_names = {m["model_id"]: m["name"] for m in await get_device_models_list()}
+    
+    summary = {loc["location_id"]: {**loc, "total": 0, "by_status": {}, "by_model": {}} for loc in locations}
+    for entry in counts:
+        key = entry["_id"]
+        item = summary[key["location_id"]]
+        model_name = model_names.get(key.get("model_id"), UNNAMED_DEVICE_CATEGORY)
+        item["total"] += entry["count"]
+        item["by_status"][key["status"]] = item["by_status"].get(key["status"], 0) + entry["count"]
+        item["by_model"][model_name] = item["by_model"].get(model_name, 0) + entry["count"]
+    
+    result = list(summary.values())
+    result.sort(key=lambda loc: (loc["type"] != "warehouse", loc["location_id"] != MAIN_WAREHOUSE_ID, loc["name"]))
+    return result
+
 @api_router.get("/devices/inventory/{user_id}")
 async def get_user_inventory(user_id: str, admin: dict = Depends(require_admin)):
     """Get detailed inventory for a specific user (admin only)"""
@@ -839,21 +2185,21 @@ async def assign_device(device_id: str, request: Request, admin: dict = Depends(
     body = await request.json()
     worker_id = body.get("worker_id")
     
-    if not worker_id:
-        raise HTTPException(status_code=400, detail="Wymagane worker_id")
-    
     # Get device info before update
     device = await db.devices.find_one({"device_id": device_id}, {"_id": 0})
     if not device:
         raise HTTPException(status_code=404, detail="Nie znaleziono urządzenia")
     
+    check_device_transition(device, "assign", admin, body)
+    
     # Get worker info
     worker = await db.users.find_one({"user_id": worker_id}, {"_id": 0})
     worker_name = worker.get("name", "Nieznany") if worker else "Nieznany"
+    location_id = await get_holder_location_id(worker_id)
     
     result = await db.devices.update_one(
         {"device_id": device_id},
-        {"$set": {"przypisany_do": worker_id, "status": "przypisany"}}
+        {"$set": {"przypisany_do": worker_id, "status": "przypisany", "location_id": location_id}}
     )
     
     if result.modified_count == 0:
@@ -870,9 +2216,22 @@ async def assign_device(device_id: str, request: Request, admin: dict = Depends(
         device_name=device["nazwa"],
         device_id=device_id,
         target_user_id=worker_id,
-        target_user_name=worker_name
+        target_user_name=worker_name,
+        details=await location_change_details(device.get("location_id"), location_id)
     )
     
+    await emit_event(
+        "device:assigned",
+        {"device_ids": [device_id], "worker_id": worker_id, "assigned_by": admin["user_id"]},
+        user_ids=[worker_id],
+        admins=True
+    )
+    notify_users(
+        [worker_id], "devices", "Przypisano urządzenie",
+        f"{device['nazwa']} ({device.get('numer_seryjny', 'brak SN')})", "/devices"
+    )
+    await check_stock_levels([worker_id])
+    
     return {"message": "Urządzenie przypisane"}
 
 @api_router.post("/devices/assign-multiple")
@@ -888,12 +2247,55 @@ async def assign_multiple_devices(request: Request, admin: dict = Depends(requir
     if not device_ids:
         raise HTTPException(status_code=400, detail="Wymagana lista device_ids")
     
+    # Devices in a status that cannot be assigned are skipped, not the whole batch
+    device_ids = list(dict.fromkeys(device_ids))
+    devices = await db.devices.find({"device_id": {"$in": device_ids}}, {"_id": 0}).to_list(len(device_ids))
+    devices_by_id = {d["device_id"]: d for d in devices}
+    allowed_ids = []
+    results = []
+    for device_id in device_ids:
+        device = devices_by_id.get(device_id)
+        if not device:
+            reason = "Nie znaleziono urządzenia"
+        else:
+            error = get_device_transition_error(device, "assign", admin, body)
+            reason = error.detail if error else None
+        if reason is None:
+            allowed_ids.append(device_id)
+        results.append({
+            "device_id": device_id,
+            "numer_seryjny": device.get("numer_seryjny") if device else None,
+            "assigned": reason is None,
+            "reason": reason
+        })
+    skipped = len(device_ids) - len(allowed_ids)
+    
+    if not allowed_ids:
+        raise HTTPException(status_code=409, detail="Żadnego z wybranych urządzeń nie można przypisać w obecnym statusie")
+    
     result = await db.devices.update_many(
-        {"device_id": {"$in": device_ids}},
-        {"$set": {"przypisany_do": worker_id, "status": "przypisany"}}
+        {"device_id": {"$in": allowed_ids}},
+        {"$set": {"przypisany_do": worker_id, "status": "przypisany", "location_id": await get_holder_location_id(worker_id)}}
     )
     
-    return {"message": f"Przypisano {result.modified_count} urządzeń"}
+    if result.modified_count > 0:
+        await emit_event(
+            "device:assigned",
+            {"device_ids": allowed_ids, "worker_id": worker_id, "assigned_by": admin["user_id"]},
+            user_ids=[worker_id],
+            admins=True
+        )
+        notify_users(
+            [worker_id], "devices", "Przypisano urządzenia",
+            f"Liczba nowych urządzeń: {result.modified_count}", "/devices"
+        )
+        await check_stock_levels([worker_id])
+    
+    message = f"Przypisano {result.modified_count} urządzeń"
+    if skipped > 0:
+        message += f" (pominięto {skipped} w niedozwolonym statusie)"
+    
+    return {"message": message, "assigned": result.modified_count, "skipped": skipped, "results": results}
 
 @api_router.post("/devices/{device_id}/restore")
 async def restore_device(device_id: str, admin: dict = Depends(require_admin)):
@@ -903,8 +2305,7 @@ async def restore_device(device_id: str, admin: dict = Depends(require_admin)):
     if not device:
         raise HTTPException(status_code=404, detail="Nie znaleziono urządzenia")
     
-    if device.get("status") != "zainstalowany":
-        raise HTTPException(status_code=400, detail="Urządzenie nie jest zainstalowane")
+    check_device_transition(device, "restore", admin)
     
     # Find the original installer from installations
     installation = await db.installations.find_one(
@@ -916,13 +2317,15 @@ async def restore_device(device_id: str, admin: dict = Depends(require_admin)):
     original_installer = installation.get("user_id") if installation else admin["user_id"]
     
     # Restore device to available status and assign to original installer
+    location_id = await get_holder_location_id(original_installer)
     result = await db.devices.update_one(
         {"device_id": device_id},
-        {"$set": {"status": "dostepny", "przypisany_do": original_installer}}
+        {"$set": {"status": "dostepny", "przypisany_do": original_installer, "location_id": location_id}}
     )
     
     if result.modified_count == 0:
         raise HTTPException(status_code=500, detail="Nie udało się przywrócić urządzenia")
+    await record_device_removal(device, admin, "restore")
     
     # Get installer name for response
     installer = await db.users.find_one({"user_id": original_installer})
@@ -939,7 +2342,8 @@ async def restore_device(device_id: str, admin: dict = Depends(require_admin)):
         device_name=device.get("nazwa"),
         device_id=device_id,
         target_user_id=original_installer,
-        target_user_name=installer_name
+        target_user_name=installer_name,
+        details=await location_change_details(device.get("location_id"), location_id)
     )
     
     return {
@@ -954,23 +2358,23 @@ async def transfer_device(device_id: str, request: Request, admin: dict = Depend
     body = await request.json()
     new_worker_id = body.get("worker_id")
     
-    if not new_worker_id:
-        raise HTTPException(status_code=400, detail="Wymagane worker_id")
-    
     # Check if device exists
     device = await db.devices.find_one({"device_id": device_id})
     if not device:
         raise HTTPException(status_code=404, detail="Nie znaleziono urządzenia")
     
+    check_device_transition(device, "transfer", admin, body)
+    
     # Check if new worker exists
     new_worker = await db.users.find_one({"user_id": new_worker_id})
     if not new_worker:
         raise HTTPException(status_code=404, detail="Nie znaleziono pracownika")
     
     # Transfer device
+    location_id = await get_holder_location_id(new_worker_id)
     result = await db.devices.update_one(
         {"device_id": device_id},
-        {"$set": {"przypisany_do": new_worker_id, "status": "przypisany"}}
+        {"$set": {"przypisany_do": new_worker_id, "status": "przypisany", "location_id": location_id}}
     )
     
     if result.modified_count == 0:
@@ -991,20 +2395,92 @@ async def transfer_device(device_id: str, request: Request, admin: dict = Depend
         device_id=device_id,
         target_user_id=new_worker_id,
         target_user_name=new_worker.get("name"),
-        details={"old_worker_id": device.get("przypisany_do"), "old_worker_name": old_worker_name}
+        details={
+            "old_worker_id": device.get("przypisany_do"),
+            "old_worker_name": old_worker_name,
+            **await location_change_details(device.get("location_id"), location_id)
+        }
     )
     
+    # The previous holder also has to drop the device from their list
+    await emit_event(
+        "device:assigned",
+        {
+            "device_ids": [device_id],
+            "worker_id": new_worker_id,
+            "previous_worker_id": device.get("przypisany_do"),
+            "assigned_by": admin["user_id"]
+        },
+        user_ids=[new_worker_id, device.get("przypisany_do")],
+        admins=True
+    )
+    notify_users(
+        [new_worker_id], "devices", "Przekazano Ci urządzenie",
+        f"{device.get('nazwa', 'Nieznane')} ({device.get('numer_seryjny', 'brak SN')}) od {old_worker_name}", "/devices"
+    )
+    await check_stock_levels([new_worker_id, device.get("przypisany_do")])
+    
     return {
         "message": f"Urządzenie przeniesione do: {new_worker.get('name', 'Nieznany')}",
         "new_worker_id": new_worker_id,
         "new_worker_name": new_worker.get("name")
     }
 
+@api_router.post("/devices/move")
+async def move_devices(request: Request, admin: dict = Depends(require_admin)):
+    """Move available devices to a warehouse or van (admin only)"""
+    body = await request.json()
+    device_ids = body.get("device_ids", [])
+    
+    if not device_ids:
+        raise HTTPException(status_code=400, detail="Wymagana lista device_ids")
+    
+    location = await get_stock_location(body.get("location_id"))
+    
+    devices = await db.devices.find({"device_id": {"$in": device_ids}}, {"_id": 0}).to_list(len(device_ids))
+    movable = [
+        d for d in devices
+        if not get_device_transition_error(d, "move", admin, body) and d.get("location_id") != location["location_id"]
+    ]
+    skipped = len(device_ids) - len(movable)
+    
+    if not movable:
+        raise HTTPException(status_code=409, detail="Żadnego z wybranych urządzeń nie można przenieść do tej lokalizacji")
+    
+    # Stock in a warehouse or van does not belong to anyone
+    await db.devices.update_many(
+        {"device_id": {"$in": [d["device_id"] for d in movable]}},
+        {"$set": {"location_id": location["location_id"], "przypisany_do": None}}
+    )
+    
+    for device in movable:
+        details = await location_change_details(device.get("location_id"), location["location_id"])
+        await log_activity(
+            user_id=admin["user_id"],
+            user_name=admin["name"],
+            user_role="admin",
+            action_type="device_move",
+            action_description=f"Przeniesiono urządzenie {device.get('nazwa', 'Nieznane')} ({device.get('numer_seryjny', 'brak SN')}) z {details['from_location']} do {details['to_location']}",
+            device_serial=device.get("numer_seryjny"),
+            device_name=device.get("nazwa"),
+            device_id=device["device_id"],
+            details=details
+        )
+    
+    message = f"Przeniesiono {len(movable)} urządzeń do: {location['name']}"
+    if skipped > 0:
+        message += f" (pominięto {skipped})"
+    
+    return {"message": message, "moved": len(movable), "skipped": skipped}
+
 @api_router.get("/devices/scan/{code}")
 async def scan_device(code: str, user: dict = Depends(require_user)):
     """Find device by barcode, QR code, or serial number (exact or partial match)"""
     # Clean the code - remove whitespace and special characters
     clean_code = code.strip().replace('\r', '').replace('\n', '')
+    # Our own labels carry the serial behind a prefix
+    if clean_code.upper().startswith(DEVICE_LABEL_PREFIX):
+        clean_code = clean_code[len(DEVICE_LABEL_PREFIX):]
     
     # First check if device is in pending returns
     in_returns = await db.device_returns.find_one({
@@ -1082,85 +2558,645 @@ async def scan_device(code: str, user: dict = Depends(require_user)):
     
     return device
 
-# ==================== INSTALLATIONS ====================
+# ==================== CUSTOMER ADDRESSES ====================
 
-@api_router.post("/installations")
-async def create_installation(request: Request, user: dict = Depends(require_user)):
-    """Record device installation - moves device to admin account as installed"""
+ADDRESS_FIELDS = ("street", "number", "apartment", "postal_code", "city")
+# "ul. Długa" and "Długa" are the same street
+STREET_PREFIXES = ("ul. ", "ul.", "ul ", "ulica ")
+# "Długa 5/12, 00-001 Warszawa" - the one-line form the app sends and the GPS prefill produces
+ADDRESS_TEXT_PATTERN = re.compile(
+    r"^\s*(?P<street>.*?\D)?\s*(?P<number>\d+[A-Za-z]?)(?:\s*(?:/|m\.?|lok\.?)\s*(?P<apartment>\w+))?\s*,\s*(?:(?P<postal_code>\d{2}-?\d{3})\s+)?(?P<city>[^,\d]+?)\s*$",
+    re.IGNORECASE
+)
+
+@app.on_event("startup")
+async def create_address_indexes():
+    await db.customer_addresses.create_index("key", unique=True)
+    await db.customer_addresses.create_index([("last_used_at", -1)])
+    await db.installations.create_index("address_id")
+    await link_installations_to_addresses()
+
+def normalize_address(fields: dict) -> dict:
+    """One spelling for every part: no "ul.", collapsed spaces, capitalised names, 00-000 postal code"""
+    street = " ".join((fields.get("street") or "").split())
+    for prefix in STREET_PREFIXES:
+        if street.lower().startswith(prefix):
+            street = street[len(prefix):].strip()
+            break
+    postal_code = re.sub(r"\D", "", fields.get("postal_code") or "")
+    return {
+        "street": street[:1].upper() + street[1:],
+        "number": "".join((fields.get("number") or "").split()).upper(),
+        "apartment": "".join((fields.get("apartment") or "").split()).upper(),
+        "postal_code": f"{postal_code[:2]}-{postal_code[2:]}" if len(postal_code) == 5 else "",
+        "city": " ".join(word[:1].upper() + word[1:] for word in (fields.get("city") or "").split()),
+    }
+
+def address_key(address: dict) -> str:
+    """Identity of an address - case, Polish letters and punctuation do not make a new one"""
+    text = "|".join(address[field] for field in ("street", "number", "apartment", "city")).lower()
+    text = unicodedata.normalize("NFKD", text.replace("ł", "l"))
+    return "".join(c for c in text if c.isalnum() or c == "|")
+
+def format_address(address: dict) -> str:
+    """One-line form stored as adres_klienta - formatAddress in the app builds the same"""
+    line = " ".join(part for part in (address["street"], address["number"]) if part)
+    if address.get("apartment"):
+        line += f"/{address['apartment']}"
+    city = " ".join(part for part in (address.get("postal_code"), address["city"]) if part)
+    return f"{line}, {city}"
+
+def parse_address_text(text: str) -> Optional[dict]:
+    """Parts of a one-line address, None when it does not follow the usual format"""
+    match = ADDRESS_TEXT_PATTERN.match(text or "")
+    return normalize_address(match.groupdict()) if match else None
+
+def parse_address_body(body: dict) -> dict:
+    """Validate the address parts and customer details sent by the app"""
+    address = normalize_address(body)
+    if not address["number"] or not address["city"]:
+        raise HTTPException(status_code=400, detail="Podaj numer budynku i miejscowość")
+    if (body.get("postal_code") or "").strip() and not address["postal_code"]:
+        raise HTTPException(status_code=400, detail="Kod pocztowy musi mieć format 00-000")
+    return {
+        **address,
+        "customer_name": " ".join((body.get("customer_name") or "").split()),
+        "phone": (body.get("phone") or "").strip(),
+    }
+
+async def find_address(address_id: str) -> Optional[dict]:
+    """Address by id, also by the id of an entry that was merged into it"""
+    return await db.customer_addresses.find_one(
+        {"$or": [{"address_id": address_id}, {"merged_ids": address_id}]},
+        {"_id": 0}
+    )
+
+async def find_or_create_address(fields: dict, user_id: str) -> dict:
+    """Registry entry for the address - the existing one when it differs only in spelling"""
+    key = address_key(fields)
+    now = get_warsaw_now()
+    existing = await db.customer_addresses.find_one({"key": key}, {"_id": 0})
+    if existing:
+        # Details the first entry did not have
+        updates = {field: fields[field] for field in ("postal_code", "customer_name", "phone") if fields.get(field) and not existing.get(field)}
+        if updates:
+            updates["label"] = format_address({**existing, **updates})
+        await db.customer_addresses.update_one({"key": key}, {"$set": {**updates, "last_used_at": now}})
+        return {**existing, **updates, "last_used_at": now}
+    
+    address = {
+        "address_id": f"addr_{uuid.uuid4().hex[:12]}",
+        **{field: fields.get(field) or "" for field in ADDRESS_FIELDS},
+        "customer_name": fields.get("customer_name") or "",
+        "phone": fields.get("phone") or "",
+        "label": format_address(fields),
+        "key": key,
+        "merged_ids": [],
+        "created_at": now,
+        "created_by": user_id,
+        "last_used_at": now
+    }
+    await db.customer_addresses.insert_one(address)
+    address.pop("_id", None)
+    return address
+
+async def resolve_installation_address(body: dict, user: dict) -> Optional[dict]:
+    """Address an installation refers to: picked from the registry, entered in parts,
+    or parsed from the one-line field older app versions and offline queues send"""
+    if body.get("address_id"):
+        address = await find_address(body["address_id"])
+        if address:
+            await db.customer_addresses.update_one({"address_id": address["address_id"]}, {"$set": {"last_used_at": get_warsaw_now()}})
+            return address
+    
+    if isinstance(body.get("address"), dict):
+        return await find_or_create_address(parse_address_body(body["address"]), user["user_id"])
+    
+    parsed = parse_address_text(body.get("adres_klienta") or body.get("adres") or "")
+    if parsed and parsed["number"] and parsed["city"]:
+        return await find_or_create_address(parsed, user["user_id"])
+    return None
+
+async def link_installations_to_addresses():
+    """Give installations recorded before the registry an address (once - unparsable ones keep None)"""
+    async for inst in db.installations.find({"address_id": {"$exists": False}}, {"_id": 0, "installation_id": 1, "adres_klienta": 1, "user_id": 1}):
+        parsed = parse_address_text(inst.get("adres_klienta") or "")
+        address_id = None
+        if parsed and parsed["number"] and parsed["city"]:
+            address_id = (await find_or_create_address(parsed, inst.get("user_id")))["address_id"]
+        await db.installations.update_one({"installation_id": inst["installation_id"]}, {"$set": {"address_id": address_id}})
+
+async def record_device_removal(device: dict, user: dict, reason: str):
+    """Close the latest installation of a device leaving the customer, for the address history.
+    reason is the lifecycle action that took it out ("restore", "mark_damaged", "dismantle")"""
+    if device.get("status") != "zainstalowany":
+        return
+    installation = await db.installations.find_one(
+        {"device_id": device["device_id"], "removed_at": None},
+        {"_id": 0, "installation_id": 1},
+        sort=[("data_instalacji", -1)]
+    )
+    if installation:
+        await db.installations.update_one(
+            {"installation_id": installation["installation_id"]},
+            {"$set": {
+                "removed_at": get_warsaw_now(),
+                "removed_by": user["user_id"],
+                "removed_by_name": user["name"],
+                "removal_reason": reason
+            }}
+        )
+
+async def relabel_address_installations(address: dict):
+    """Installations keep the one-line address too - keep it in step with the registry"""
+    await db.installations.update_many({"address_id": address["address_id"]}, {"$set": {"adres_klienta": address["label"]}})
+    await db.installation_jobs.update_many({"address_id": address["address_id"]}, {"$set": {"adres_klienta": address["label"]}})
+    device_ids = await db.installations.distinct("device_id", {"address_id": address["address_id"], "removed_at": None})
+    await db.devices.update_many(
+        {"device_id": {"$in": device_ids}, "status": "zainstalowany"},
+        {"$set": {"adres_instalacji": address["label"]}}
+    )
+
+@api_router.get("/addresses")
+async def get_addresses(search: Optional[str] = None, limit: int = 20, user: dict = Depends(require_user)):
+    """Address registry, most recently used first - also the autocomplete source"""
+    query = {}
+    if search and search.strip():
+        # Every word has to appear in the address or the customer name
+        conditions = []
+        for word in search.split():
+            word_key = address_key({"street": word, "number": "", "apartment": "", "city": ""}).strip("|")
+            conditions.append({"$or": [
+                {"key": {"$regex": re.escape(word_key)}},
+                {"customer_name": {"$regex": re.escape(word), "$options": "i"}},
+            ]})
+        query = {"$and": conditions}
+    
+    addresses = await db.customer_addresses.find(query, {"_id": 0, "key": 0}).sort("last_used_at", -1).to_list(max(1, min(limit, 100)))
+    
+    counts = await db.installations.aggregate([
+        {"$match": {"address_id": {"$in": [a["address_id"] for a in addresses]}}},
+        {"$group": {
+            "_id": "$address_id",
+            "total": {"$sum": 1},
+            "installed": {"$sum": {"$cond": [{"$ifNull": ["$removed_at", False]}, 0, 1]}}
+        }}
+    ]).to_list(None)
+    count_map = {c["_id"]: c for c in counts}
+    for address in addresses:
+        address["installations_count"] = count_map.get(address["address_id"], {}).get("total", 0)
+        address["installed_count"] = count_map.get(address["address_id"], {}).get("installed", 0)
+    return addresses
+
+@api_router.post("/addresses")
+async def create_address(request: Request, user: dict = Depends(require_user)):
+    """Add an address to the registry - returns the existing entry when it is already there"""
     body = await request.json()
+    address = await find_or_create_address(parse_address_body(body), user["user_id"])
+    address.pop("key", None)
+    return address
+
+@api_router.get("/addresses/{address_id}")
+async def get_address(address_id: str, user: dict = Depends(require_user)):
+    """Address with every device ever installed there, newest first"""
+    address = await find_address(address_id)
+    if not address:
+        raise HTTPException(status_code=404, detail="Nie znaleziono adresu")
+    address.pop("key", None)
     
-    device_id = body.get("device_id")
-    adres_klienta = body.get("adres_klienta") or body.get("adres")
+    installations = await db.installations.find(
+        {"address_id": address["address_id"]}, {"_id": 0}
+    ).sort("data_instalacji", -1).to_list(None)
     
-    if not device_id:
-        raise HTTPException(status_code=400, detail="Wymagane device_id")
+    device_ids = list({i["device_id"] for i in installations})
+    devices = await db.devices.find(
+        {"device_id": {"$in": device_ids}},
+        {"_id": 0, "device_id": 1, "status": 1, "model_id": 1}
+    ).to_list(None)
+    device_map = {d["device_id"]: d for d in devices}
+    
+    # A device is still here only if its newest installation anywhere is this one
+    latest = await db.installations.aggregate([
+        {"$match": {"device_id": {"$in": device_ids}}},
+        {"$sort": {"data_instalacji": -1}},
+        {"$group": {"_id": "$device_id", "installation_id": {"$first": "$installation_id"}}}
+    ]).to_list(None)
+    latest_ids = {l["installation_id"] for l in latest}
     
-    if not adres_klienta or not adres_klienta.strip():
-        raise HTTPException(status_code=400, detail="Wymagany adres klienta")
+    for inst in installations:
+        device = device_map.get(inst["device_id"])
+        inst["device_status"] = device.get("status") if device else None
+        inst["model_id"] = device.get("model_id") if device else None
+        inst["current"] = (
+            not inst.get("removed_at")
+            and inst["device_status"] == "zainstalowany"
+            and inst["installation_id"] in latest_ids
+        )
     
-    device = await db.devices.find_one({"device_id": device_id}, {"_id": 0})
-    if not device:
-        raise HTTPException(status_code=404, detail="Nie znaleziono urządzenia")
+    return {**address, "installations": installations}
+
+@api_router.put("/addresses/{address_id}")
+async def update_address(address_id: str, request: Request, admin: dict = Depends(require_admin)):
+    """Correct an address or the customer details (admin only)"""
+    body = await request.json()
+    fields = parse_address_body(body)
     
-    # Check if device is assigned to this user
-    if device.get("przypisany_do") != user["user_id"] and user.get("role") != "admin":
-        raise HTTPException(status_code=403, detail="To urządzenie nie jest przypisane do Ciebie")
+    address = await find_address(address_id)
+    if not address:
+        raise HTTPException(status_code=404, detail="Nie znaleziono adresu")
+    
+    key = address_key(fields)
+    if await db.customer_addresses.find_one({"key": key, "address_id": {"$ne": address["address_id"]}}):
+        raise HTTPException(status_code=409, detail="Taki adres już jest w rejestrze - połącz oba wpisy")
+    
+    updated = {**address, **fields, "label": format_address(fields), "key": key}
+    await db.customer_addresses.update_one({"address_id": address["address_id"]}, {"$set": updated})
+    await relabel_address_installations(updated)
+    updated.pop("key", None)
+    return updated
+
+@api_router.post("/addresses/{address_id}/merge")
+async def merge_addresses(address_id: str, request: Request, admin: dict = Depends(require_admin)):
+    """Fold duplicate entries into this address, with their installation history (admin only)"""
+    body = await request.json()
+    target = await find_address(address_id)
+    if not target:
+        raise HTTPException(status_code=404, detail="Nie znaleziono adresu")
+    
+    # The path id may be an alias of the target - never merge the target (or its aliases) into itself
+    target_ids = {target["address_id"], *target.get("merged_ids", [])}
+    source_ids = list({i for i in body.get("source_ids") or [] if i and i not in target_ids})
+    if not source_ids:
+        raise HTTPException(status_code=400, detail="Wybierz adresy do połączenia")
+    
+    sources = await db.customer_addresses.find({"address_id": {"$in": source_ids}}, {"_id": 0}).to_list(None)
+    if len(sources) != len(source_ids):
+        raise HTTPException(status_code=404, detail="Nie znaleziono części adresów")
+    
+    merged_ids = [s["address_id"] for s in sources] + [i for s in sources for i in s.get("merged_ids", [])]
+    moved = await db.installations.update_many({"address_id": {"$in": merged_ids}}, {"$set": {"address_id": target["address_id"]}})
+    await db.installation_jobs.update_many({"address_id": {"$in": merged_ids}}, {"$set": {"address_id": target["address_id"]}})
+    await db.customer_addresses.delete_many({"address_id": {"$in": merged_ids}})
+    
+    # Customer details the target was missing
+    updates = {field: next((s[field] for s in sources if s.get(field)), "") for field in ("postal_code", "customer_name", "phone") if not target.get(field)}
+    updates = {field: value for field, value in updates.items() if value}
+    update = {"$addToSet": {"merged_ids": {"$each": merged_ids}}}
+    if updates:
+        updates["label"] = format_address({**target, **updates})
+        update["$set"] = updates
+    await db.customer_addresses.update_one({"address_id": target["address_id"]}, update)
+    await relabel_address_installations({**target, **updates})
+    
+    return {"message": f"Połączono {len(sources)} adresów", "moved_installations": moved.modified_count}
+
+# ==================== INSTALLATIONS ====================
+
+# One visit at a customer is one job. Every device installed there still gets its own
+# installation entry (device history, address registry), the job groups them for stats and logs.
+# Installations recorded before jobs existed count as a job of their own.
+INSTALLATION_JOB_KEY = {"$ifNull": ["$job_id", "$installation_id"]}
+# The installer takes the customer's old device away - it has to be scanned and goes to returns
+REPLACEMENT_ORDER_TYPES = ("wymiana", "awaria")
+# Proof of installation operators ask for - photos are attachments uploaded beforehand
+INSTALLATION_PHOTO_KINDS = {
+    "ont": "Umiejscowienie ONT",
+    "power_meter": "Pomiar mocy optycznej",
+    "label": "Etykieta urządzenia",
+    "other": "Inne",
+}
+SIGNATURE_IMAGE_WIDTH = 800
+SIGNATURE_STROKE_WIDTH = 4
+
+@app.on_event("startup")
+async def create_installation_job_indexes():
+    await db.installation_jobs.create_index("job_id", unique=True)
+    await db.installation_jobs.create_index("client_request_id")
+    await db.installations.create_index("job_id")
+
+def render_signature(signature: dict) -> Image.Image:
+    """The customer's signature comes as strokes drawn on the phone, drawn here in memory"""
+    try:
+        width = float(signature["width"])
+        height = float(signature["height"])
+        strokes = [[(float(x), float(y)) for x, y in stroke] for stroke in signature["strokes"]]
+    except (KeyError, TypeError, ValueError):
+        raise HTTPException(status_code=400, detail="Nieprawidłowy podpis")
+    strokes = [stroke for stroke in strokes if stroke]
+    if width <= 0 or height <= 0 or not strokes:
+        raise HTTPException(status_code=400, detail="Podpis klienta jest pusty")
+    
+    scale = SIGNATURE_IMAGE_WIDTH / width
+    image = Image.new("RGB", (SIGNATURE_IMAGE_WIDTH, max(1, round(height * scale))), "white")
+    draw = ImageDraw.Draw(image)
+    for stroke in strokes:
+        points = [(x * scale, y * scale) for x, y in stroke]
+        if len(points) == 1:
+            x, y = points[0]
+            r = SIGNATURE_STROKE_WIDTH / 2
+            draw.ellipse((x - r, y - r, x + r, y + r), fill="black")
+        else:
+            draw.line(points, fill="black", width=SIGNATURE_STROKE_WIDTH, joint="curve")
+    return image
+
+async def store_signature(image: Image.Image, user: dict) -> str:
+    """Save a rendered signature as a PNG attachment"""
+    output = BytesIO()
+    image.save(output, format="PNG")
+    attachment = await store_attachment(output.getvalue(), image, "PNG", "podpis.png", user)
+    return attachment["attachment_id"]
+
+async def parse_installation_documentation(body: dict, user: dict) -> dict:
+    """Photos and the customer's signature sent with a job, both optional.
+    The signature is only rendered here - store_signature saves it once the whole job is valid"""
+    photos = []
+    for photo in body.get("photos") or []:
+        kind = photo.get("kind") or "other"
+        if kind not in INSTALLATION_PHOTO_KINDS:
+            raise HTTPException(status_code=400, detail=f"Nieznany rodzaj zdjęcia: {kind}")
+        photos.append({"attachment_id": photo.get("attachment_id"), "kind": kind})
+    if len(await validate_attachment_ids([p["attachment_id"] for p in photos], user)) != len(photos):
+        raise HTTPException(status_code=400, detail="Nie znaleziono załącznika")
+    
+    signature = body.get("signature")
+    return {
+        "photos": photos,
+        "signature": render_signature(signature) if signature else None
+    }
+
+async def check_removed_devices(serials: List[str], devices: List[dict], user: dict) -> List[dict]:
+    """Devices taken from the customer in a replacement, with the inventory entry when there is one"""
+    installed_serials = {d.get("numer_seryjny") for d in devices}
+    removed = []
+    for serial in serials:
+        if serial in installed_serials:
+            raise HTTPException(status_code=400, detail=f"Urządzenie {serial} nie może być jednocześnie instalowane i zdemontowane")
+        
+        in_returns = await db.device_returns.find_one({"device_serial": serial, "returned_to_warehouse": {"$ne": True}})
+        if in_returns:
+            raise HTTPException(status_code=400, detail=f"Urządzenie {serial} już jest w zwrotach")
+        
+        # Devices from before the inventory existed are only recorded as a return
+        device = await db.devices.find_one({"numer_seryjny": serial}, {"_id": 0})
+        if device:
+            check_device_transition(device, "dismantle", user)
+        removed.append({"numer_seryjny": serial, "device": device})
+    return removed
+
+async def record_removed_devices(removed: List[dict], devices: List[dict], job: dict, user: dict) -> List[dict]:
+    """Return entry for every removed device and the known ones out of the customer's installation"""
+    model_ids = {d.get("model_id") for d in devices} | {r["device"].get("model_id") for r in removed if r["device"]}
+    categories = {
+        m["model_id"]: m.get("category", "")
+        for m in await db.device_models.find({"model_id": {"$in": list(model_ids)}}, {"_id": 0}).to_list(None)
+    }
+    # An unknown device was most likely swapped like for like
+    fallback_type = categories.get(devices[0].get("model_id"), "") if len(devices) == 1 else ""
+    
+    now = get_warsaw_now()
+    summary = []
+    for item in removed:
+        device = item["device"]
+        return_entry = {
+            "return_id": f"ret_{uuid.uuid4().hex[:12]}",
+            "device_serial": item["numer_seryjny"],
+            "device_type": categories.get(device.get("model_id"), "") if device else fallback_type,
+            "device_status": "z awarii",
+            "scanned_at": now,
+            "scanned_by": user["user_id"],
+            "scanned_by_name": user["name"],
+            "job_id": job["job_id"],
+            "adres_klienta": job["adres_klienta"]
+        }
+        await db.device_returns.insert_one(return_entry)
+        
+        if device:
+            await record_device_removal(device, user, "dismantle")
+            await db.devices.update_one(
+                {"device_id": device["device_id"]},
+                {"$set": {
+                    "status": "zwrocony",
+                    "przypisany_do": None,
+                    "location_id": MAIN_WAREHOUSE_ID,
+                    "returned_at": now,
+                    "returned_by": user["user_id"]
+                }}
+            )
+        
+        summary.append({
+            "numer_seryjny": item["numer_seryjny"],
+            "device_id": device["device_id"] if device else None,
+            "nazwa": device["nazwa"] if device else None,
+            "return_id": return_entry["return_id"]
+        })
+    return summary
+
+async def create_installation_job(body: dict, device_ids: List[str], user: dict, require_removed: bool = True) -> dict:
+    """Install the devices at one address as a single job - all of them or none"""
+    adres_klienta = body.get("adres_klienta") or body.get("adres")
+    rodzaj_zlecenia = body.get("rodzaj_zlecenia", "instalacja")
+    removed_serials = list(dict.fromkeys(
+        str(serial).strip() for serial in body.get("removed_serials") or [] if str(serial).strip()
+    ))
+    
+    if not device_ids:
+        raise HTTPException(status_code=400, detail="Wymagane device_id")
+    if len(set(device_ids)) != len(device_ids):
+        raise HTTPException(status_code=400, detail="To samo urządzenie dodano do zlecenia więcej niż raz")
+    
+    # Every device is checked before anything is written, so a job is never left half-installed
+    devices = []
+    for device_id in device_ids:
+        device = await db.devices.find_one({"device_id": device_id}, {"_id": 0})
+        if not device:
+            raise HTTPException(status_code=404, detail="Nie znaleziono urządzenia")
+        
+        if device.get("status") == "zainstalowany":
+            raise HTTPException(
+                status_code=409,
+                detail=f"Urządzenie {device.get('numer_seryjny', '')} zostało już zainstalowane przez {device.get('installer_name', 'innego pracownika')}"
+            )
+        
+        error = get_device_transition_error(device, "install", user, {"adres_klienta": adres_klienta})
+        if error:
+            if len(device_ids) > 1:
+                error.detail = f"{device['nazwa']} ({device.get('numer_seryjny', 'brak SN')}): {error.detail}"
+            raise error
+        devices.append(device)
+    
+    if require_removed and rodzaj_zlecenia in REPLACEMENT_ORDER_TYPES and not removed_serials:
+        raise HTTPException(status_code=400, detail=f"Zlecenie typu {rodzaj_zlecenia} wymaga zeskanowania urządzenia zdemontowanego u klienta")
+    removed = await check_removed_devices(removed_serials, devices, user)
+    documentation = await parse_installation_documentation(body, user)
     
     # Get admin user
     admin_user = await db.users.find_one({"role": "admin"}, {"_id": 0})
     if not admin_user:
         raise HTTPException(status_code=500, detail="Brak administratora w systemie")
     
-    installation = {
+    # Registry entry, its spelling replaces whatever was typed
+    address = await resolve_installation_address(body, user)
+    if address:
+        adres_klienta = address["label"]
+    adres_klienta = adres_klienta.strip()
+    
+    # Written only after every check passed, so a rejected job leaves no orphaned file
+    signature_attachment_id = await store_signature(documentation["signature"], user) if documentation["signature"] else None
+    
+    # Installations recorded offline keep the time they were actually done
+    data_instalacji = parse_client_timestamp(body.get("recorded_at"))
+    client_request_id = body.get("client_request_id")
+    job_id = f"job_{uuid.uuid4().hex[:12]}"
+    
+    installations = [{
         "installation_id": f"inst_{uuid.uuid4().hex[:12]}",
-        "device_id": device_id,
+        "job_id": job_id,
+        "device_id": device["device_id"],
         "user_id": user["user_id"],
         "installer_name": user["name"],
         "nazwa_urzadzenia": device["nazwa"],
         "numer_seryjny": device.get("numer_seryjny", ""),
         "kod_kreskowy": device.get("kod_kreskowy", ""),
-        "data_instalacji": get_warsaw_now(),
-        "adres_klienta": adres_klienta.strip(),
+        "data_instalacji": data_instalacji,
+        "adres_klienta": adres_klienta,
+        "address_id": address["address_id"] if address else None,
         "latitude": body.get("latitude"),
         "longitude": body.get("longitude"),
-        "rodzaj_zlecenia": body.get("rodzaj_zlecenia", "instalacja")
+        "rodzaj_zlecenia": rodzaj_zlecenia,
+        "removed_serials": removed_serials,
+        "client_request_id": client_request_id
+    } for device in devices]
+    
+    job = {
+        "job_id": job_id,
+        "user_id": user["user_id"],
+        "installer_name": user["name"],
+        "data_instalacji": data_instalacji,
+        "adres_klienta": adres_klienta,
+        "address_id": address["address_id"] if address else None,
+        "latitude": body.get("latitude"),
+        "longitude": body.get("longitude"),
+        "rodzaj_zlecenia": rodzaj_zlecenia,
+        "device_ids": device_ids,
+        "installation_ids": [inst["installation_id"] for inst in installations],
+        "removed_devices": [],
+        "photos": documentation["photos"],
+        "signature_attachment_id": signature_attachment_id,
+        "client_request_id": client_request_id
     }
     
-    await db.installations.insert_one(installation)
+    if removed:
+        job["removed_devices"] = await record_removed_devices(removed, devices, job, user)
     
-    # Move device to admin account as installed
-    await db.devices.update_one(
-        {"device_id": device_id},
+    await db.installations.insert_many(installations)
+    await db.installation_jobs.insert_one(job)
+    
+    # Move devices to admin account as installed
+    await db.devices.update_many(
+        {"device_id": {"$in": device_ids}},
         {"$set": {
             "status": "zainstalowany",
             "przypisany_do": admin_user["user_id"],
+            # At the customer now, out of every stock location
+            "location_id": None,
             "zainstalowany_przez": user["user_id"],
             "installer_name": user["name"],
-            "adres_instalacji": adres_klienta.strip(),
-            "data_instalacji": get_warsaw_now()
+            "adres_instalacji": adres_klienta,
+            "data_instalacji": data_instalacji
         }}
     )
     
-    # Log installation activity
+    # One log entry for the whole job, device history finds it through details.devices
+    single = devices[0] if len(devices) == 1 else None
+    device_labels = [f"{d['nazwa']} ({d.get('numer_seryjny', 'brak SN')})" for d in devices]
+    removed_note = f", zdemontowano: {', '.join(r['numer_seryjny'] for r in job['removed_devices'])}" if removed else ""
     await log_activity(
         user_id=user["user_id"],
         user_name=user["name"],
         user_role=user.get("role", "pracownik"),
         action_type="device_install",
-        action_description=f"Zainstalowano urządzenie {device['nazwa']} ({device.get('numer_seryjny', 'brak SN')})",
-        device_serial=device.get("numer_seryjny"),
-        device_name=device["nazwa"],
-        device_id=device_id,
+        action_description=(
+            f"Zainstalowano urządzenie {device_labels[0]}" if single
+            else f"Zainstalowano urządzenia ({len(devices)}) w jednym zleceniu: {', '.join(device_labels)}"
+        ) + removed_note,
+        device_serial=single.get("numer_seryjny") if single else None,
+        device_name=single["nazwa"] if single else None,
+        device_id=single["device_id"] if single else None,
         details={
-            "adres_klienta": adres_klienta.strip(),
-            "rodzaj_zlecenia": body.get("rodzaj_zlecenia", "instalacja"),
+            "job_id": job_id,
+            "devices": [
+                {"device_id": d["device_id"], "nazwa": d["nazwa"], "numer_seryjny": d.get("numer_seryjny")}
+                for d in devices
+            ],
+            "removed_devices": job["removed_devices"],
+            "photos": len(documentation["photos"]),
+            "signed": bool(signature_attachment_id),
+            "adres_klienta": adres_klienta,
+            "address_id": address["address_id"] if address else None,
+            "rodzaj_zlecenia": rodzaj_zlecenia,
             "latitude": body.get("latitude"),
-            "longitude": body.get("longitude")
+            "longitude": body.get("longitude"),
+            "offline": bool(client_request_id)
         }
     )
+    await check_stock_levels(list({d.get("przypisany_do") for d in devices}))
     
-    installation.pop("_id", None)
-    return installation
+    job.pop("_id", None)
+    for inst in installations:
+        inst.pop("_id", None)
+    return {**job, "installations": installations}
+
+async def get_job_with_installations(job: dict) -> dict:
+    installations = await db.installations.find(
+        {"installation_id": {"$in": job.get("installation_ids", [])}},
+        {"_id": 0}
+    ).to_list(None)
+    return {**job, "installations": installations}
+
+@api_router.post("/installation-jobs")
+async def create_installation_job_endpoint(request: Request, user: dict = Depends(require_user)):
+    """Record one visit at a customer with every device installed there"""
+    body = await request.json()
+    
+    # Replayed from the offline queue after the first attempt already went through
+    client_request_id = body.get("client_request_id")
+    if client_request_id:
+        existing = await db.installation_jobs.find_one({"client_request_id": client_request_id}, {"_id": 0})
+        if existing:
+            return await get_job_with_installations(existing)
+    
+    return await create_installation_job(body, body.get("device_ids") or [], user)
+
+@api_router.get("/installation-jobs/{job_id}")
+async def get_installation_job(job_id: str, user: dict = Depends(require_user)):
+    """Job with the installation entry of each of its devices"""
+    job = await db.installation_jobs.find_one({"job_id": job_id}, {"_id": 0})
+    if not job:
+        raise HTTPException(status_code=404, detail="Nie znaleziono zlecenia")
+    if user.get("role") != "admin" and job["user_id"] != user["user_id"]:
+        raise HTTPException(status_code=403, detail="Brak dostępu do tego zlecenia")
+    return await get_job_with_installations(job)
+
+@api_router.post("/installations")
+async def create_installation(request: Request, user: dict = Depends(require_user)):
+    """Record device installation - moves device to admin account as installed"""
+    body = await request.json()
+    
+    device_id = body.get("device_id")
+    if not device_id:
+        raise HTTPException(status_code=400, detail="Wymagane device_id")
+    
+    # Replayed from the offline queue after the first attempt already went through
+    client_request_id = body.get("client_request_id")
+    if client_request_id:
+        existing = await db.installations.find_one({"client_request_id": client_request_id}, {"_id": 0})
+        if existing:
+            return existing
+    
+    # A job with a single device, kept for older app versions and their offline queues
+    # (recorded before replacements asked for the removed device)
+    job = await create_installation_job(body, [device_id], user, require_removed=False)
+    return job["installations"][0]
 
 @api_router.get("/installations")
 async def get_installations(
@@ -1194,27 +3230,21 @@ async def get_installations(
 
 @api_router.get("/installations/stats")
 async def get_installation_stats(user: dict = Depends(require_user)):
-    """Get installation statistics"""
-    pipeline = [
-        {"$group": {
-            "_id": "$rodzaj_zlecenia",
-            "count": {"$sum": 1}
-        }}
-    ]
+    """Get installation statistics - a job with several devices counts once"""
+    def jobs_by(field: str) -> List[dict]:
+        return [
+            {"$group": {"_id": INSTALLATION_JOB_KEY, field: {"$first": f"${field}"}}},
+            {"$group": {"_id": f"${field}", "count": {"$sum": 1}}}
+        ]
     
-    stats_by_type = await db.installations.aggregate(pipeline).to_list(100)
+    stats_by_type = await db.installations.aggregate(jobs_by("rodzaj_zlecenia")).to_list(100)
     
-    pipeline_users = [
-        {"$group": {
-            "_id": "$user_id",
-            "count": {"$sum": 1}
-        }}
-    ]
-    stats_by_user = await db.installations.aggregate(pipeline_users).to_list(100)
+    stats_by_user = await db.installations.aggregate(jobs_by("user_id")).to_list(100)
     
     week_ago = get_warsaw_now() - timedelta(days=7)
     pipeline_daily = [
         {"$match": {"data_instalacji": {"$gte": week_ago}}},
+        {"$group": {"_id": INSTALLATION_JOB_KEY, "data_instalacji": {"$first": "$data_instalacji"}}},
         {"$group": {
             "_id": {"$dateToString": {"format": "%Y-%m-%d", "date": "$data_instalacji"}},
             "count": {"$sum": 1}
@@ -1223,49 +3253,624 @@ async def get_installation_stats(user: dict = Depends(require_user)):
     ]
     stats_daily = await db.installations.aggregate(pipeline_daily).to_list(100)
     
-    total = await db.installations.count_documents({})
+    total = await db.installations.aggregate([
+        {"$group": {"_id": INSTALLATION_JOB_KEY}},
+        {"$count": "total"}
+    ]).to_list(1)
     
     return {
-        "total": total,
+        "total": total[0]["total"] if total else 0,
+        "devices": await db.installations.count_documents({}),
         "by_type": {item["_id"]: item["count"] for item in stats_by_type if item["_id"]},
         "by_user": {item["_id"]: item["count"] for item in stats_by_user if item["_id"]},
         "daily": stats_daily
     }
 
+# ==================== ATTACHMENTS ====================
+
+# Photos are stored as files (local disk or an S3-compatible bucket) and documents
+# only keep the attachment_id. Set ATTACHMENTS_STORAGE=s3 and the S3_* variables to use a bucket.
+ATTACHMENTS_STORAGE = os.environ.get("ATTACHMENTS_STORAGE", "local")
+ATTACHMENTS_DIR = Path(os.environ.get("ATTACHMENTS_DIR", str(ROOT_DIR / "uploads")))
+S3_BUCKET = os.environ.get("S3_BUCKET")
+
+MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024  # 10 MB
+THUMBNAIL_SIZE = (320, 320)
+
+# Detected image format -> (content type, file extension)
+ALLOWED_IMAGE_FORMATS = {
+    "JPEG": ("image/jpeg", "jpg"),
+    "PNG": ("image/png", "png"),
+    "WEBP": ("image/webp", "webp"),
+}
+
+def get_s3_client():
+    return boto3.client(
+        "s3",
+        endpoint_url=os.environ.get("S3_ENDPOINT_URL"),
+        aws_access_key_id=os.environ.get("S3_ACCESS_KEY"),
+        aws_secret_access_key=os.environ.get("S3_SECRET_KEY"),
+        region_name=os.environ.get("S3_REGION")
+    )
+
+def write_attachment_blob(storage: str, key: str, data: bytes, content_type: str):
+    if storage == "s3":
+        get_s3_client().put_object(Bucket=S3_BUCKET, Key=key, Body=data, ContentType=content_type)
+        return
+    path = ATTACHMENTS_DIR / key
+    path.parent.mkdir(parents=True, exist_ok=True)
+    path.write_bytes(data)
+
+def read_attachment_blob(storage: str, key: str) -> bytes:
+    if storage == "s3":
+        return get_s3_client().get_object(Bucket=S3_BUCKET, Key=key)["Body"].read()
+    return (ATTACHMENTS_DIR / key).read_bytes()
+
+def make_thumbnail(image: Image.Image) -> bytes:
+    thumb = image.copy()
+    thumb.thumbnail(THUMBNAIL_SIZE)
+    if thumb.mode not in ("RGB", "L"):
+        thumb = thumb.convert("RGB")
+    output = BytesIO()
+    thumb.save(output, format="JPEG", quality=75)
+    return output.getvalue()
+
+async def get_attachment_user(request: Request, token: Optional[str]) -> dict:
+    """Header auth, or ?token= so <Image> components can load the file directly"""
+    user = await get_current_user(request)
+    if not user and token:
+        user = await get_user_by_session_token(token)
+    if not user:
+        raise HTTPException(status_code=401, detail="Nie zalogowany")
+    return user
+
+async def validate_attachment_ids(attachment_ids: list, user: dict) -> List[str]:
+    """Make sure the attachments exist and were uploaded by the user (admins may reuse any)"""
+    attachment_ids = [a for a in attachment_ids if a]
+    query = {"attachment_id": {"$in": attachment_ids}}
+    if user.get("role") != "admin":
+        query["uploaded_by"] = user["user_id"]
+    found = await db.attachments.count_documents(query)
+    if found != len(set(attachment_ids)):
+        raise HTTPException(status_code=400, detail="Nie znaleziono załącznika")
+    return attachment_ids
+
+@api_router.post("/attachments")
+async def upload_attachment(file: UploadFile = File(...), user: dict = Depends(require_user)):
+    """Upload a photo once, messages and tasks then refer to it by attachment_id"""
+    data = await file.read(MAX_ATTACHMENT_SIZE + 1)
+    if len(data) > MAX_ATTACHMENT_SIZE:
+        raise HTTPException(status_code=413, detail="Plik jest za duży (maksymalnie 10 MB)")
+    if not data:
+        raise HTTPException(status_code=400, detail="Pusty plik")
+    
+    # Trust the bytes, not the declared content type
+    try:
+        image = Image.open(BytesIO(data))
+        image_format = image.format
+        image = ImageOps.exif_transpose(image)
+    except (UnidentifiedImageError, OSError):
+        raise HTTPException(status_code=415, detail="Nieobsługiwany typ pliku - dozwolone są zdjęcia JPG, PNG lub WEBP")
+    
+    if image_format not in ALLOWED_IMAGE_FORMATS:
+        raise HTTPException(status_code=415, detail="Nieobsługiwany typ pliku - dozwolone są zdjęcia JPG, PNG lub WEBP")
+    
+    return await store_attachment(data, image, image_format, file.filename, user)
+
+async def store_attachment(data: bytes, image: Image.Image, image_format: str, original_name: Optional[str], user: dict) -> dict:
+    """Write the file and its thumbnail, then record the attachment"""
+    content_type, extension = ALLOWED_IMAGE_FORMATS[image_format]
+    attachment_id = f"att_{uuid.uuid4().hex[:12]}"
+    key = f"{attachment_id}/original.{extension}"
+    thumbnail_key = f"{attachment_id}/thumb.jpg"
+    
+    try:
+        thumbnail = make_thumbnail(image)
+        await asyncio.to_thread(write_attachment_blob, ATTACHMENTS_STORAGE, key, data, content_type)
+        await asyncio.to_thread(write_attachment_blob, ATTACHMENTS_STORAGE, thumbnail_key, thumbnail, "image/jpeg")
+    except Exception as e:
+        logger.error(f"Attachment upload failed: {e}")
+        raise HTTPException(status_code=500, detail="Nie udało się zapisać pliku")
+    
+    attachment = {
+        "attachment_id": attachment_id,
+        "uploaded_by": user["user_id"],
+        "original_name": original_name,
+        "content_type": content_type,
+        "size_bytes": len(data),
+        "width": image.width,
+        "height": image.height,
+        "storage": ATTACHMENTS_STORAGE,
+        "key": key,
+        "thumbnail_key": thumbnail_key,
+        "created_at": get_warsaw_now()
+    }
+    await db.attachments.insert_one(attachment)
+    attachment.pop("_id", None)
+    
+    return {k: v for k, v in attachment.items() if k not in ("storage", "key", "thumbnail_key")}
+
+async def serve_attachment(attachment_id: str, thumbnail: bool) -> Response:
+    attachment = await db.attachments.find_one({"attachment_id": attachment_id}, {"_id": 0})
+    if not attachment:
+        raise HTTPException(status_code=404, detail="Nie znaleziono załącznika")
+    
+    key = attachment["thumbnail_key"] if thumbnail else attachment["key"]
+    try:
+        data = await asyncio.to_thread(read_attachment_blob, attachment["storage"], key)
+    except Exception as e:
+        logger.error(f"Attachment read failed ({attachment_id}): {e}")
+        raise HTTPException(status_code=404, detail="Plik załącznika jest niedostępny")
+    
+    # Files never change once uploaded
+    return Response(
+        content=data,
+        media_type="image/jpeg" if thumbnail else attachment["content_type"],
+        headers={"Cache-Control": "private, max-age=31536000, immutable"}
+    )
+
+@api_router.get("/attachments/{attachment_id}")
+async def get_attachment(attachment_id: str, request: Request, token: Optional[str] = None):
+    """Full-size file"""
+    await get_attachment_user(request, token)
+    return await serve_attachment(attachment_id, thumbnail=False)
+
+@api_router.get("/attachments/{attachment_id}/thumbnail")
+async def get_attachment_thumbnail(attachment_id: str, request: Request, token: Optional[str] = None):
+    """Small JPEG preview for lists"""
+    await get_attachment_user(request, token)
+    return await serve_attachment(attachment_id, thumbnail=True)
+
 # ==================== MESSAGES / CHAT ====================
 
+# The original team-wide room; messages from before channels existed belong here
+GENERAL_CHANNEL_ID = "general"
+
+def general_channel() -> dict:
+    return {
+        "channel_id": GENERAL_CHANNEL_ID,
+        "type": "global",
+        "name": "Czat zespołu",
+        "members": [],
+        "created_by": None,
+        "created_at": None
+    }
+
+@app.on_event("startup")
+async def migrate_legacy_messages():
+    """Move messages and read cursors without a channel into the general room"""
+    await db.messages.update_many({"channel_id": {"$exists": False}}, {"$set": {"channel_id": GENERAL_CHANNEL_ID}})
+    await db.chat_read_cursors.update_many({"channel_id": {"$exists": False}}, {"$set": {"channel_id": GENERAL_CHANNEL_ID}})
+
+async def get_channel_for_user(channel_id: str, user: dict) -> dict:
+    """Load a channel the user may read - members, plus admins for groups"""
+    if channel_id == GENERAL_CHANNEL_ID:
+        return general_channel()
+    
+    channel = await db.chat_channels.find_one({"channel_id": channel_id}, {"_id": 0})
+    if not channel:
+        raise HTTPException(status_code=404, detail="Nie znaleziono rozmowy")
+    
+    is_member = user["user_id"] in channel.get("members", [])
+    if not is_member and not (channel["type"] == "group" and user.get("role") == "admin"):
+        raise HTTPException(status_code=403, detail="Brak dostępu do tej rozmowy")
+    return channel
+
+async def emit_to_channel(event: str, data, channel: dict, extra_user_ids: Optional[List[str]] = None):
+    """Push an event to everyone who can see the channel"""
+    if channel["type"] == "global":
+        await emit_event(event, data)
+        return
+    user_ids = list(channel.get("members", [])) + (extra_user_ids or [])
+    await emit_event(event, data, user_ids=user_ids, admins=channel["type"] == "group")
+
+MESSAGE_REFERENCE_TYPES = ["device", "task", "installation"]
+
+async def resolve_message_reference(ref: dict, user: dict) -> dict:
+    """Validate a device/task/installation reference and snapshot what the chat card shows"""
+    ref_type = ref.get("type")
+    ref_id = (ref.get("id") or "").strip()
+    
+    if ref_type not in MESSAGE_REFERENCE_TYPES or not ref_id:
+        raise HTTPException(status_code=400, detail="Nieprawidłowe powiązanie wiadomości")
+    
+    if ref_type == "device":
+        # Accept either the id or a serial number typed/scanned by the installer
+        device = await db.devices.find_one(
+            {"$or": [{"device_id": ref_id}, {"numer_seryjny": ref_id}]},
+            {"_id": 0}
+        )
+        if not device:
+            raise HTTPException(status_code=404, detail="Nie znaleziono urządzenia")
+        # Workers can point to devices they hold or installed themselves
+        if user.get("role") != "admin" and device.get("przypisany_do") != user["user_id"]:
+            installed = await db.installations.find_one({"device_id": device["device_id"], "user_id": user["user_id"]})
+            if not installed:
+                raise HTTPException(status_code=403, detail="Brak dostępu do tego urządzenia")
+        return {
+            "type": "device",
+            "id": device["device_id"],
+            "label": device["nazwa"],
+            "numer_seryjny": device.get("numer_seryjny"),
+            "status": device.get("status")
+        }
+    
+    if ref_type == "task":
+        task = await db.tasks.find_one({"task_id": ref_id}, {"_id": 0})
+        if not task:
+            raise HTTPException(status_code=404, detail="Nie znaleziono zadania")
+        if user.get("role") != "admin" and task.get("assigned_to") != user["user_id"]:
+            raise HTTPException(status_code=403, detail="Brak dostępu do tego zadania")
+        return {
+            "type": "task",
+            "id": task["task_id"],
+            "label": task["title"],
+            "status": task.get("status")
+        }
+    
+    installation = await db.installations.find_one({"installation_id": ref_id}, {"_id": 0})
+    if not installation:
+        raise HTTPException(status_code=404, detail="Nie znaleziono instalacji")
+    if user.get("role") != "admin" and installation.get("user_id") != user["user_id"]:
+        raise HTTPException(status_code=403, detail="Brak dostępu do tej instalacji")
+    return {
+        "type": "installation",
+        "id": installation["installation_id"],
+        "label": installation.get("nazwa_urzadzenia"),
+        "numer_seryjny": installation.get("numer_seryjny"),
+        "device_id": installation.get("device_id"),
+        "adres": installation.get("adres_klienta") or installation.get("adres"),
+        "rodzaj_zlecenia": installation.get("rodzaj_zlecenia")
+    }
+
 @api_router.post("/messages")
 async def send_message(request: Request, user: dict = Depends(require_user)):
     """Send a message"""
     body = await request.json()
+    channel = await get_channel_for_user(body.get("channel_id") or GENERAL_CHANNEL_ID, user)
+    reference = await resolve_message_reference(body["reference"], user) if body.get("reference") else None
+    attachment_id = body.get("attachment_id")
+    if attachment_id:
+        await validate_attachment_ids([attachment_id], user)
     
     message = {
         "message_id": f"msg_{uuid.uuid4().hex[:12]}",
+        "channel_id": channel["channel_id"],
         "sender_id": user["user_id"],
         "sender_name": user["name"],
         "content": body.get("content"),
         "attachment": body.get("attachment"),
-        "attachment_type": body.get("attachment_type"),
+        "attachment_type": "image" if attachment_id else body.get("attachment_type"),
+        "attachment_id": attachment_id,
+        "reference": reference,
         "created_at": get_warsaw_now()
     }
     
-    await db.messages.insert_one(message)
-    message.pop("_id", None)
-    return message
+    await db.messages.insert_one(message)
+    message.pop("_id", None)
+    
+    # Questions about a device show up in its history
+    if reference and reference.get("numer_seryjny"):
+        await log_activity(
+            user_id=user["user_id"],
+            user_name=user["name"],
+            user_role=user.get("role", "pracownik"),
+            action_type="device_chat_reference",
+            action_description=f"Wspomniano urządzenie {reference['label']} ({reference['numer_seryjny']}) w czacie: {channel['name'] or 'rozmowa prywatna'}",
+            device_serial=reference["numer_seryjny"],
+            device_name=reference["label"],
+            device_id=reference["id"] if reference["type"] == "device" else reference.get("device_id"),
+            details={"message_id": message["message_id"]}
+        )
+    
+    await emit_to_channel("message:new", message, channel)
+    
+    if channel["type"] == "global":
+        recipients = await db.users.distinct("user_id")
+    else:
+        recipients = channel["members"]
+    if channel["type"] == "direct":
+        push_title = user["name"]
+    else:
+        push_title = f"{user['name']} ({channel['name']})"
+    if message["content"]:
+        push_body = message["content"][:100]
+    elif reference:
+        push_body = f"📎 {reference['label']}"
+    else:
+        push_body = "📷 Zdjęcie"
+    notify_users(
+        [uid for uid in recipients if uid != user["user_id"]],
+        "messages", push_title, push_body, f"/chat?channel={channel['channel_id']}"
+    )
+    return message
+
+@api_router.get("/messages")
+async def get_messages(
+    limit: int = 50,
+    before: Optional[str] = None,
+    channel_id: str = GENERAL_CHANNEL_ID,
+    user: dict = Depends(require_user)
+):
+    """Get messages of one channel"""
+    await get_channel_for_user(channel_id, user)
+    
+    query = {"channel_id": channel_id}
+    if before:
+        query["created_at"] = {"$lt": datetime.fromisoformat(before)}
+    
+    messages = await db.messages.find(query, {"_id": 0}).sort("created_at", -1).limit(limit).to_list(limit)
+    return list(reversed(messages))
+
+# Users without a read cursor yet (first login after the upgrade) only see recent messages as unread
+UNREAD_DEFAULT_WINDOW = timedelta(hours=2)
+
+async def get_chat_read_cursor(user_id: str, channel_id: str) -> datetime:
+    """Time up to which the user has read the channel"""
+    cursor = await db.chat_read_cursors.find_one({"user_id": user_id, "channel_id": channel_id}, {"_id": 0})
+    if cursor:
+        return cursor["last_read_at"]
+    return get_warsaw_now() - UNREAD_DEFAULT_WINDOW
+
+async def count_unread_messages(user_id: str, channel_id: str) -> int:
+    last_read_at = await get_chat_read_cursor(user_id, channel_id)
+    return await db.messages.count_documents({
+        "channel_id": channel_id,
+        "sender_id": {"$ne": user_id},
+        "created_at": {"$gt": last_read_at}
+    })
+
+@api_router.get("/messages/unread-count")
+async def get_unread_messages_count(user: dict = Depends(require_user)):
+    """Unread messages from others in every channel the user belongs to"""
+    channels = await db.chat_channels.find({"members": user["user_id"]}, {"_id": 0, "channel_id": 1}).to_list(1000)
+    channel_ids = [GENERAL_CHANNEL_ID] + [c["channel_id"] for c in channels]
+    
+    by_channel = {}
+    for channel_id in channel_ids:
+        by_channel[channel_id] = await count_unread_messages(user["user_id"], channel_id)
+    
+    return {"count": sum(by_channel.values()), "by_channel": by_channel}
+
+@api_router.post("/messages/read")
+async def mark_messages_read(request: Request, user: dict = Depends(require_user)):
+    """Move the user's read cursor in a channel to the given message (or the newest one)"""
+    body = await request.json()
+    channel = await get_channel_for_user(body.get("channel_id") or GENERAL_CHANNEL_ID, user)
+    channel_id = channel["channel_id"]
+    message_id = body.get("message_id")
+    
+    if message_id:
+        message = await db.messages.find_one({"message_id": message_id, "channel_id": channel_id}, {"_id": 0})
+        if not message:
+            raise HTTPException(status_code=404, detail="Nie znaleziono wiadomości")
+    else:
+        message = await db.messages.find_one({"channel_id": channel_id}, {"_id": 0}, sort=[("created_at", -1)])
+    
+    # Never move the cursor backwards (e.g. an older device catching up)
+    current = await db.chat_read_cursors.find_one({"user_id": user["user_id"], "channel_id": channel_id}, {"_id": 0})
+    if not message or (current and current["last_read_at"] >= message["created_at"]):
+        return current or {"user_id": user["user_id"], "user_name": user["name"], "channel_id": channel_id, "last_read_at": None}
+    
+    cursor = {
+        "user_id": user["user_id"],
+        "user_name": user["name"],
+        "channel_id": channel_id,
+        "last_read_at": message["created_at"],
+        "last_read_message_id": message["message_id"],
+        "updated_at": get_warsaw_now()
+    }
+    await db.chat_read_cursors.update_one(
+        {"user_id": user["user_id"], "channel_id": channel_id},
+        {"$set": cursor},
+        upsert=True
+    )
+    
+    await emit_to_channel("message:read", cursor, channel)
+    return cursor
+
+@api_router.get("/messages/read-receipts")
+async def get_read_receipts(channel_id: str = GENERAL_CHANNEL_ID, user: dict = Depends(require_user)):
+    """Read cursors of a channel, used to show who has seen which message"""
+    await get_channel_for_user(channel_id, user)
+    cursors = await db.chat_read_cursors.find({"channel_id": channel_id}, {"_id": 0}).to_list(1000)
+    return cursors
+
+# ==================== CHAT CHANNELS ====================
+
+async def validate_channel_members(member_ids: list) -> List[str]:
+    """Drop duplicates and make sure every member exists"""
+    member_ids = list(dict.fromkeys(m for m in member_ids if m))
+    found = await db.users.count_documents({"user_id": {"$in": member_ids}})
+    if found != len(member_ids):
+        raise HTTPException(status_code=400, detail="Nie znaleziono niektórych członków grupy")
+    return member_ids
+
+@api_router.get("/channels")
+async def get_channels(user: dict = Depends(require_user)):
+    """Conversations visible to the user with unread counts and last message"""
+    query = {"members": user["user_id"]}
+    if user.get("role") == "admin":
+        # Admins manage every group, but other people's direct chats stay private
+        query = {"$or": [{"members": user["user_id"]}, {"type": "group"}]}
+    
+    channels = await db.chat_channels.find(query, {"_id": 0}).to_list(1000)
+    channels.insert(0, general_channel())
+    
+    users = await db.users.find({}, {"_id": 0, "user_id": 1, "name": 1}).to_list(1000)
+    user_names = {u["user_id"]: u.get("name", "Nieznany") for u in users}
+    
+    result = []
+    for channel in channels:
+        channel_id = channel["channel_id"]
+        is_member = channel["type"] == "global" or user["user_id"] in channel.get("members", [])
+        
+        if channel["type"] == "direct":
+            other_id = next((m for m in channel["members"] if m != user["user_id"]), user["user_id"])
+            channel["name"] = user_names.get(other_id, "Nieznany")
+        
+        channel["member_names"] = [user_names.get(m, "Nieznany") for m in channel.get("members", [])]
+        channel["is_member"] = is_member
+        channel["unread_count"] = await count_unread_messages(user["user_id"], channel_id) if is_member else 0
+        channel["last_message"] = await db.messages.find_one(
+            {"channel_id": channel_id},
+            {"_id": 0},
+            sort=[("created_at", -1)]
+        )
+        result.append(channel)
+    
+    # General room first, then the most recently active conversations
+    def sort_key(c):
+        last = c["last_message"]["created_at"] if c.get("last_message") else None
+        return (c["type"] != "global", -(last.timestamp() if last else 0))
+    result.sort(key=sort_key)
+    return result
+
+@api_router.get("/channels/contacts")
+async def get_chat_contacts(user: dict = Depends(require_user)):
+    """Everyone the user can start a direct chat with, admins included"""
+    users = await db.users.find(
+        {"user_id": {"$ne": user["user_id"]}},
+        {"_id": 0, "user_id": 1, "name": 1, "email": 1, "role": 1}
+    ).sort("name", 1).to_list(1000)
+    return users
+
+@api_router.post("/channels/direct")
+async def open_direct_channel(request: Request, user: dict = Depends(require_user)):
+    """Get or create the 1:1 conversation with another user"""
+    body = await request.json()
+    other_id = body.get("user_id")
+    
+    if not other_id:
+        raise HTTPException(status_code=400, detail="Wymagane user_id")
+    if other_id == user["user_id"]:
+        raise HTTPException(status_code=400, detail="Nie można rozpocząć rozmowy z samym sobą")
+    
+    other = await db.users.find_one({"user_id": other_id}, {"_id": 0})
+    if not other:
+        raise HTTPException(status_code=404, detail="Nie znaleziono użytkownika")
+    
+    channel = await db.chat_channels.find_one(
+        {"type": "direct", "members": {"$all": [user["user_id"], other_id], "$size": 2}},
+        {"_id": 0}
+    )
+    if not channel:
+        channel = {
+            "channel_id": f"chan_{uuid.uuid4().hex[:12]}",
+            "type": "direct",
+            "name": None,
+            "members": [user["user_id"], other_id],
+            "created_by": user["user_id"],
+            "created_at": get_warsaw_now()
+        }
+        await db.chat_channels.insert_one(channel)
+        channel.pop("_id", None)
+    
+    channel["name"] = other.get("name", "Nieznany")
+    return channel
+
+@api_router.post("/channels")
+async def create_channel(request: Request, admin: dict = Depends(require_admin)):
+    """Create a named group conversation (admin only)"""
+    body = await request.json()
+    name = (body.get("name") or "").strip()
+    
+    if not name:
+        raise HTTPException(status_code=400, detail="Wymagana nazwa grupy")
+    
+    members = await validate_channel_members(body.get("members", []))
+    if not members:
+        raise HTTPException(status_code=400, detail="Grupa musi mieć co najmniej jednego członka")
+    
+    channel = {
+        "channel_id": f"chan_{uuid.uuid4().hex[:12]}",
+        "type": "group",
+        "name": name,
+        "members": members,
+        "created_by": admin["user_id"],
+        "created_at": get_warsaw_now()
+    }
+    await db.chat_channels.insert_one(channel)
+    channel.pop("_id", None)
+    
+    await log_activity(
+        user_id=admin["user_id"],
+        user_name=admin["name"],
+        user_role="admin",
+        action_type="channel_create",
+        action_description=f"Utworzono grupę czatu: {name}",
+        details={"channel_id": channel["channel_id"], "members_count": len(members)}
+    )
+    
+    await emit_to_channel("channel:updated", channel, channel)
+    return channel
+
+@api_router.put("/channels/{channel_id}")
+async def update_channel(channel_id: str, request: Request, admin: dict = Depends(require_admin)):
+    """Rename a group or change its members (admin only)"""
+    body = await request.json()
+    
+    channel = await db.chat_channels.find_one({"channel_id": channel_id}, {"_id": 0})
+    if not channel:
+        raise HTTPException(status_code=404, detail="Nie znaleziono rozmowy")
+    if channel["type"] != "group":
+        raise HTTPException(status_code=400, detail="Można edytować tylko grupy")
+    
+    update_data = {}
+    if "name" in body:
+        name = (body.get("name") or "").strip()
+        if not name:
+            raise HTTPException(status_code=400, detail="Wymagana nazwa grupy")
+        update_data["name"] = name
+    if "members" in body:
+        members = await validate_channel_members(body.get("members") or [])
+        if not members:
+            raise HTTPException(status_code=400, detail="Grupa musi mieć co najmniej jednego członka")
+        update_data["members"] = members
+    
+    if not update_data:
+        raise HTTPException(status_code=400, detail="Brak danych do aktualizacji")
+    
+    await db.chat_channels.update_one({"channel_id": channel_id}, {"$set": update_data})
+    updated = {**channel, **update_data}
+    
+    await log_activity(
+        user_id=admin["user_id"],
+        user_name=admin["name"],
+        user_role="admin",
+        action_type="channel_update",
+        action_description=f"Zaktualizowano grupę czatu: {updated['name']}",
+        details={"channel_id": channel_id, "members_count": len(updated["members"])}
+    )
+    
+    # Removed members have to drop the group from their list too
+    await emit_to_channel("channel:updated", updated, updated, extra_user_ids=channel["members"])
+    return updated
 
-@api_router.get("/messages")
-async def get_messages(
-    limit: int = 50,
-    before: Optional[str] = None,
-    user: dict = Depends(require_user)
-):
-    """Get messages"""
-    query = {}
-    if before:
-        query["created_at"] = {"$lt": datetime.fromisoformat(before)}
+@api_router.delete("/channels/{channel_id}")
+async def delete_channel(channel_id: str, admin: dict = Depends(require_admin)):
+    """Delete a group together with its messages (admin only)"""
+    channel = await db.chat_channels.find_one({"channel_id": channel_id}, {"_id": 0})
+    if not channel:
+        raise HTTPException(status_code=404, detail="Nie znaleziono rozmowy")
+    if channel["type"] != "group":
+        raise HTTPException(status_code=400, detail="Można usuwać tylko grupy")
     
-    messages = await db.messages.find(query, {"_id": 0}).sort("created_at", -1).limit(limit).to_list(limit)
-    return list(reversed(messages))
+    await db.chat_channels.delete_one({"channel_id": channel_id})
+    await db.messages.delete_many({"channel_id": channel_id})
+    await db.chat_read_cursors.delete_many({"channel_id": channel_id})
+    
+    await log_activity(
+        user_id=admin["user_id"],
+        user_name=admin["name"],
+        user_role="admin",
+        action_type="channel_delete",
+        action_description=f"Usunięto grupę czatu: {channel['name']}",
+        details={"channel_id": channel_id}
+    )
+    
+    await emit_to_channel("channel:deleted", {"channel_id": channel_id}, channel)
+    return {"message": "Grupa usunięta"}
 
 # ==================== TASKS / PLANNER ====================
 
@@ -1288,6 +3893,8 @@ async def create_task(request: Request, admin: dict = Depends(require_admin)):
     
     await db.tasks.insert_one(task)
     task.pop("_id", None)
+    await emit_event("task:assigned", task, user_ids=[task["assigned_to"]], admins=True)
+    notify_users([task["assigned_to"]], "tasks", "Nowe zadanie", task["title"] or "", f"/tasks?task={task['task_id']}")
     return task
 
 @api_router.get("/tasks")
@@ -1330,6 +3937,10 @@ async def update_task(task_id: str, request: Request, user: dict = Depends(requi
         update_data["completion_photos"] = body["completion_photos"]
         update_data["completed_at"] = get_warsaw_now()
         update_data["completed_by"] = user["user_id"]
+    if "completion_attachments" in body:
+        update_data["completion_attachments"] = await validate_attachment_ids(body["completion_attachments"] or [], user)
+        update_data["completed_at"] = get_warsaw_now()
+        update_data["completed_by"] = user["user_id"]
     
     result = await db.tasks.update_one(
         {"task_id": task_id},
@@ -1339,6 +3950,21 @@ async def update_task(task_id: str, request: Request, user: dict = Depends(requi
     if result.modified_count == 0:
         raise HTTPException(status_code=404, detail="Nie znaleziono zadania")
     
+    task = await db.tasks.find_one({"task_id": task_id}, {"_id": 0})
+    if task:
+        await emit_event("task:updated", task, user_ids=[task.get("assigned_to")], admins=True)
+        # Tell the other side: the worker about admin edits, admins about finished tasks
+        if user.get("role") == "admin":
+            notify_users(
+                [task.get("assigned_to")], "tasks", "Zadanie zaktualizowane",
+                task.get("title") or "", f"/tasks?task={task_id}"
+            )
+        elif update_data.get("status") == "zakonczone":
+            notify_users(
+                await get_admin_ids(), "tasks", "Zadanie zakończone",
+                f"{user['name']}: {task.get('title') or ''}", f"/tasks?task={task_id}"
+            )
+    
     return {"message": "Zadanie zaktualizowane"}
 
 @api_router.get("/tasks/{task_id}")
@@ -1420,24 +4046,49 @@ async def get_daily_report(user: dict = Depends(require_user)):
             by_user[uid] = []
         by_user[uid].append(inst)
     
+    # Counted in jobs, devices installed at one customer together are one entry
+    def count_jobs(insts: List[dict]) -> int:
+        return len({inst.get("job_id") or inst["installation_id"] for inst in insts})
+    
     report = []
     for uid, insts in by_user.items():
         user_doc = await db.users.find_one({"user_id": uid}, {"_id": 0, "password_hash": 0})
         report.append({
             "user_id": uid,
             "user_name": user_doc["name"] if user_doc else "Nieznany",
-            "count": len(insts),
+            "count": count_jobs(insts),
+            "devices": len(insts),
             "installations": insts
         })
     
     return {
         "date": today.isoformat(),
-        "total": len(installations),
+        "total": count_jobs(installations),
+        "devices": len(installations),
         "by_user": report
     }
 
 # ==================== BACKUP FUNCTIONS ====================
 
+def isoformat_datetimes(value):
+    """Datetimes anywhere in a document (also in nested lists like stocktake scans) as strings for JSON"""
+    if isinstance(value, datetime):
+        return value.isoformat()
+    if isinstance(value, dict):
+        return {k: isoformat_datetimes(v) for k, v in value.items()}
+    if isinstance(value, list):
+        return [isoformat_datetimes(v) for v in value]
+    return value
+
+# Collections restored as they are, skipping documents whose id already exists
+BACKUP_COLLECTION_KEYS = {
+    "attachments": "attachment_id",
+    "serial_rules": "rule_id",
+    "stock_levels": "level_id",
+    "stocktakes": "stocktake_id",
+    "import_batches": "batch_id",
+}
+
 async def create_backup_data() -> dict:
     """Create backup of all database collections"""
     backup = {
@@ -1454,14 +4105,44 @@ async def create_backup_data() -> dict:
     devices = await db.devices.find({}, {"_id": 0}).to_list(10000)
     backup["data"]["devices"] = devices
     
+    # Backup the device model catalog the devices refer to
+    device_models = await db.device_models.find({}, {"_id": 0}).to_list(10000)
+    for model in device_models:
+        if "created_at" in model and isinstance(model["created_at"], datetime):
+            model["created_at"] = model["created_at"].isoformat()
+    backup["data"]["device_models"] = device_models
+    
+    # Backup warehouses, vans and worker locations the devices sit in
+    locations = await db.locations.find({}, {"_id": 0}).to_list(10000)
+    for location in locations:
+        if "created_at" in location and isinstance(location["created_at"], datetime):
+            location["created_at"] = location["created_at"].isoformat()
+    backup["data"]["locations"] = locations
+    
     # Backup installations
     installations = await db.installations.find({}, {"_id": 0}).to_list(10000)
     # Convert datetime objects to strings
     for inst in installations:
         if "data_instalacji" in inst and isinstance(inst["data_instalacji"], datetime):
             inst["data_instalacji"] = inst["data_instalacji"].isoformat()
+        if "removed_at" in inst and isinstance(inst["removed_at"], datetime):
+            inst["removed_at"] = inst["removed_at"].isoformat()
     backup["data"]["installations"] = installations
     
+    installation_jobs = await db.installation_jobs.find({}, {"_id": 0}).to_list(10000)
+    for job in installation_jobs:
+        if isinstance(job.get("data_instalacji"), datetime):
+            job["data_instalacji"] = job["data_instalacji"].isoformat()
+    backup["data"]["installation_jobs"] = installation_jobs
+    
+    # Backup the customer address registry the installations refer to
+    customer_addresses = await db.customer_addresses.find({}, {"_id": 0}).to_list(10000)
+    for address in customer_addresses:
+        for field in ("created_at", "last_used_at"):
+            if isinstance(address.get(field), datetime):
+                address[field] = address[field].isoformat()
+    backup["data"]["customer_addresses"] = customer_addresses
+    
     # Backup tasks
     tasks = await db.tasks.find({}, {"_id": 0}).to_list(10000)
     for task in tasks:
@@ -1478,6 +4159,19 @@ async def create_backup_data() -> dict:
             msg["created_at"] = msg["created_at"].isoformat()
     backup["data"]["messages"] = messages
     
+    # Backup chat channels (direct chats and groups)
+    chat_channels = await db.chat_channels.find({}, {"_id": 0}).to_list(10000)
+    for channel in chat_channels:
+        if "created_at" in channel and isinstance(channel["created_at"], datetime):
+            channel["created_at"] = channel["created_at"].isoformat()
+    backup["data"]["chat_channels"] = chat_channels
+    
+    # Attachment records (the files stay in their storage), serial rules, stock minimums,
+    # stocktake reports and import batches
+    for collection in BACKUP_COLLECTION_KEYS:
+        documents = await db[collection].find({}, {"_id": 0}).to_list(100000)
+        backup["data"][collection] = [isoformat_datetimes(d) for d in documents]
+    
     return backup
 
 def send_backup_email(backup_data: bytes, filename: str, settings: dict) -> bool:
@@ -1817,6 +4511,7 @@ async def download_backup_excel(request: Request):
         users = await db.users.find({}, {"_id": 0, "password_hash": 0}).to_list(10000)
         devices = await db.devices.find({}, {"_id": 0}).to_list(10000)
         installations = await db.installations.find({}, {"_id": 0}).to_list(10000)
+        installation_jobs = await db.installation_jobs.find({}, {"_id": 0}).to_list(10000)
         tasks = await db.tasks.find({}, {"_id": 0}).to_list(10000)
         
         # Create Excel workbook
@@ -1848,6 +4543,31 @@ async def download_backup_excel(request: Request):
                 i.get("adres_klienta"), str(i.get("data_instalacji", "")) if i.get("data_instalacji") else ""
             ])
         
+        # Installation jobs sheet - documentation as file name and download link (needs a logged in admin)
+        serials = {i["installation_id"]: i.get("numer_seryjny") for i in installations}
+        job_attachment_ids = [p.get("attachment_id") for j in installation_jobs for p in j.get("photos", [])]
+        job_attachment_ids += [j["signature_attachment_id"] for j in installation_jobs if j.get("signature_attachment_id")]
+        attachment_names = {
+            a["attachment_id"]: a.get("original_name") or a["key"].rsplit("/", 1)[-1]
+            for a in await db.attachments.find({"attachment_id": {"$in": job_attachment_ids}}, {"_id": 0}).to_list(None)
+        }
+        attachments_url = f"{str(request.base_url).rstrip('/')}/api/attachments"
+        
+        def attachment_cell(attachment_id: str) -> str:
+            return f"{attachment_names.get(attachment_id, attachment_id)} ({attachments_url}/{attachment_id})"
+        
+        ws_jobs = wb.create_sheet("Zlecenia")
+        ws_jobs.append(["ID", "Rodzaj", "Instalator", "Adres", "Data", "Urządzenia", "Zdemontowane", "Zdjęcia", "Podpis klienta"])
+        for j in installation_jobs:
+            ws_jobs.append([
+                j.get("job_id"), j.get("rodzaj_zlecenia"), j.get("installer_name"), j.get("adres_klienta"),
+                str(j.get("data_instalacji", "")) if j.get("data_instalacji") else "",
+                ", ".join(filter(None, (serials.get(i) for i in j.get("installation_ids", [])))),
+                ", ".join(r.get("numer_seryjny", "") for r in j.get("removed_devices", [])),
+                ", ".join(f"{INSTALLATION_PHOTO_KINDS.get(p.get('kind'), p.get('kind'))}: {attachment_cell(p.get('attachment_id'))}" for p in j.get("photos", [])),
+                attachment_cell(j["signature_attachment_id"]) if j.get("signature_attachment_id") else "brak"
+            ])
+        
         # Tasks sheet
         ws_tasks = wb.create_sheet("Zadania")
         ws_tasks.append(["ID", "Tytuł", "Opis", "Priorytet", "Status", "Przypisany do", "Data wykonania"])
@@ -1904,7 +4624,8 @@ async def import_backup_json(request: Request):
         content = await file.read()
         data = json.loads(content.decode('utf-8'))
         
-        result = {"users": 0, "devices": 0, "installations": 0, "tasks": 0, "messages": 0}
+        result = {"users": 0, "device_models": 0, "locations": 0, "devices": 0, "customer_addresses": 0, "installations": 0, "installation_jobs": 0, "tasks": 0, "messages": 0, "chat_channels": 0}
+        result.update({collection: 0 for collection in BACKUP_COLLECTION_KEYS})
         
         # Import users (skip if exists by email)
         if "users" in data:
@@ -1914,6 +4635,26 @@ async def import_backup_json(request: Request):
                     await db.users.insert_one(u)
                     result["users"] += 1
         
+        # Import device models (skip if exists by model_id or name)
+        if "device_models" in data:
+            for m in data["device_models"]:
+                existing = await db.device_models.find_one({
+                    "$or": [
+                        {"model_id": m.get("model_id")},
+                        {"name": m.get("name")}
+                    ]
+                })
+                if not existing:
+                    await db.device_models.insert_one(m)
+                    result["device_models"] += 1
+        
+        # Import locations (skip if exists by location_id)
+        if "locations" in data:
+            for loc in data["locations"]:
+                if not await db.locations.find_one({"location_id": loc.get("location_id")}):
+                    await db.locations.insert_one(loc)
+                    result["locations"] += 1
+        
         # Import devices (skip if exists by device_id or numer_seryjny)
         if "devices" in data:
             for d in data["devices"]:
@@ -1927,6 +4668,19 @@ async def import_backup_json(request: Request):
                     await db.devices.insert_one(d)
                     result["devices"] += 1
         
+        # Import customer addresses (skip if exists by address_id or the same address)
+        if "customer_addresses" in data:
+            for a in data["customer_addresses"]:
+                existing = await db.customer_addresses.find_one({
+                    "$or": [
+                        {"address_id": a.get("address_id")},
+                        {"key": a.get("key")}
+                    ]
+                })
+                if not existing:
+                    await db.customer_addresses.insert_one(a)
+                    result["customer_addresses"] += 1
+        
         # Import installations (skip if exists)
         if "installations" in data:
             for i in data["installations"]:
@@ -1935,6 +4689,13 @@ async def import_backup_json(request: Request):
                     await db.installations.insert_one(i)
                     result["installations"] += 1
         
+        if "installation_jobs" in data:
+            for j in data["installation_jobs"]:
+                existing = await db.installation_jobs.find_one({"job_id": j.get("job_id")})
+                if not existing:
+                    await db.installation_jobs.insert_one(j)
+                    result["installation_jobs"] += 1
+        
         # Import tasks (skip if exists)
         if "tasks" in data:
             for t in data["tasks"]:
@@ -1948,9 +4709,26 @@ async def import_backup_json(request: Request):
             for m in data["messages"]:
                 existing = await db.messages.find_one({"message_id": m.get("message_id")})
                 if not existing:
+                    m.setdefault("channel_id", GENERAL_CHANNEL_ID)
                     await db.messages.insert_one(m)
                     result["messages"] += 1
         
+        # Import chat channels (skip if exists)
+        if "chat_channels" in data:
+            for c in data["chat_channels"]:
+                existing = await db.chat_channels.find_one({"channel_id": c.get("channel_id")})
+                if not existing:
+                    await db.chat_channels.insert_one(c)
+                    result["chat_channels"] += 1
+        
+        # Import the remaining collections (skip if exists)
+        for collection, key in BACKUP_COLLECTION_KEYS.items():
+            for document in data.get(collection, []):
+                existing = await db[collection].find_one({key: document.get(key)})
+                if not existing:
+                    await db[collection].insert_one(document)
+                    result[collection] += 1
+        
         return result
         
     except json.JSONDecodeError:
@@ -2070,11 +4848,56 @@ class DeviceReturn(BaseModel):
     scanned_by: str
     scanned_by_name: str
 
+@app.on_event("startup")
+async def create_device_return_indexes():
+    await db.device_returns.create_index("client_request_id")
+
+def device_return_action(device: dict) -> str:
+    """Devices brought back from a customer are dismantled, the rest come back from stock"""
+    return "dismantle" if device.get("status") == "zainstalowany" else "return"
+
+async def move_device_to_returns(device: dict, admin: dict, return_reason: str):
+    """Lifecycle action from device_return_action - off the holder's account (or out of the
+    customer's installation) and back to the main warehouse. The caller checks the transition first."""
+    action = device_return_action(device)
+    await record_device_removal(device, admin, action)
+    await db.devices.update_one(
+        {"device_id": device["device_id"]},
+        {"$set": {
+            "status": DEVICE_LIFECYCLE[action]["to"],
+            "przypisany_do": None,
+            "location_id": MAIN_WAREHOUSE_ID,
+            "returned_at": get_warsaw_now(),
+            "returned_by": admin["user_id"]
+        }}
+    )
+    await log_activity(
+        user_id=admin["user_id"],
+        user_name=admin["name"],
+        user_role="admin",
+        action_type="device_return",
+        action_description=f"Zwrócono urządzenie {device.get('nazwa', 'Nieznane')} ({device.get('numer_seryjny')}) do magazynu",
+        device_serial=device.get("numer_seryjny"),
+        device_name=device.get("nazwa"),
+        device_id=device["device_id"],
+        details={
+            "return_reason": return_reason,
+            **await location_change_details(device.get("location_id"), MAIN_WAREHOUSE_ID)
+        }
+    )
+
 @api_router.post("/returns")
 async def add_device_return(request: Request, admin: dict = Depends(require_admin)):
     """Add a device to returns (admin only)"""
     body = await request.json()
     
+    # Replayed from the offline queue after the first attempt already went through
+    client_request_id = body.get("client_request_id")
+    if client_request_id:
+        existing = await db.device_returns.find_one({"client_request_id": client_request_id}, {"_id": 0})
+        if existing:
+            return existing
+    
     device_serial = body.get("device_serial")
     device_type = body.get("device_type")
     device_status = body.get("device_status")
@@ -2091,19 +4914,29 @@ async def add_device_return(request: Request, admin: dict = Depends(require_admi
     if existing:
         raise HTTPException(status_code=400, detail="Ten numer seryjny już jest w zwrotach")
     
+    # Serials unknown to the inventory can still be returned, known devices follow the lifecycle
+    device = await db.devices.find_one({"numer_seryjny": device_serial}, {"_id": 0})
+    if device:
+        check_device_transition(device, device_return_action(device), admin)
+    
     return_entry = {
         "return_id": f"ret_{uuid.uuid4().hex[:12]}",
         "device_serial": device_serial,
         "device_type": device_type,
         "device_status": device_status,
-        "scanned_at": get_warsaw_now(),
+        "scanned_at": parse_client_timestamp(body.get("recorded_at")),
         "scanned_by": admin["user_id"],
-        "scanned_by_name": admin["name"]
+        "scanned_by_name": admin["name"],
+        "client_request_id": client_request_id
     }
     
     await db.device_returns.insert_one(return_entry)
     return_entry.pop("_id", None)
     
+    if device:
+        await move_device_to_returns(device, admin, device_status)
+        await check_stock_levels([device.get("przypisany_do")])
+    
     return return_entry
 
 @api_router.get("/returns")
@@ -2133,12 +4966,20 @@ async def add_bulk_returns(request: Request, admin: dict = Depends(require_admin
     
     added = 0
     skipped = 0
+    rejected = 0
+    previous_holders = set()
     for serial in device_serials:
         # Check for duplicates
         existing = await db.device_returns.find_one({"device_serial": serial, "returned_to_warehouse": {"$ne": True}})
         if existing:
             skipped += 1
             continue
+        
+        # Serials unknown to the inventory can still be returned, known devices follow the lifecycle
+        device = await db.devices.find_one({"numer_seryjny": serial}, {"_id": 0})
+        if device and get_device_transition_error(device, device_return_action(device), admin):
+            rejected += 1
+            continue
             
         return_entry = {
             "return_id": f"ret_{uuid.uuid4().hex[:12]}",
@@ -2151,40 +4992,21 @@ async def add_bulk_returns(request: Request, admin: dict = Depends(require_admin
         }
         await db.device_returns.insert_one(return_entry)
         
-        # Remove device from employee's account (change status to 'zwrocony' or delete assignment)
-        device = await db.devices.find_one({"numer_seryjny": serial})
-        
-        await db.devices.update_one(
-            {"numer_seryjny": serial},
-            {"$set": {
-                "status": "zwrocony",
-                "przypisany_do": None,
-                "returned_at": get_warsaw_now(),
-                "returned_by": admin["user_id"]
-            }}
-        )
-        
-        # Log return activity
         if device:
-            await log_activity(
-                user_id=admin["user_id"],
-                user_name=admin["name"],
-                user_role="admin",
-                action_type="device_return",
-                action_description=f"Zwrócono urządzenie {device.get('nazwa', 'Nieznane')} ({serial}) do magazynu",
-                device_serial=serial,
-                device_name=device.get("nazwa"),
-                device_id=device.get("device_id"),
-                details={"return_reason": device_status}
-            )
+            previous_holders.add(device.get("przypisany_do"))
+            await move_device_to_returns(device, admin, device_status)
         
         added += 1
     
+    await check_stock_levels(list(previous_holders))
+    
     message = f"Dodano {added} urządzeń do zwrotów"
     if skipped > 0:
         message += f" (pominięto {skipped} duplikatów)"
+    if rejected > 0:
+        message += f" (pominięto {rejected} w niedozwolonym statusie)"
     
-    return {"message": message, "added": added, "skipped": skipped}
+    return {"message": message, "added": added, "skipped": skipped, "rejected": rejected}
 
 @api_router.put("/returns/{return_id}")
 async def update_device_return(return_id: str, request: Request, admin: dict = Depends(require_admin)):
@@ -2298,20 +5120,30 @@ async def mark_device_damaged(device_id: str, request: Request, user: dict = Dep
     if not device:
         raise HTTPException(status_code=404, detail="Nie znaleziono urządzenia")
     
-    # Check if user has access to this device
-    if user.get("role") != "admin" and device.get("przypisany_do") != user["user_id"]:
-        raise HTTPException(status_code=403, detail="Brak uprawnień do tego urządzenia")
+    client_request_id = body.get("client_request_id")
+    if client_request_id and device.get("damaged_request_id") == client_request_id:
+        return {"message": "Urządzenie oznaczone jako uszkodzone"}
+    
+    if device.get("status") == "uszkodzony":
+        raise HTTPException(
+            status_code=409,
+            detail=f"Urządzenie zostało już oznaczone jako uszkodzone przez {device.get('damaged_by_name', 'innego pracownika')}"
+        )
+    
+    check_device_transition(device, "mark_damaged", user)
     
     # Update device status to damaged
     await db.devices.update_one(
         {"device_id": device_id},
         {"$set": {
             "status": "uszkodzony",
-            "damaged_at": get_warsaw_now(),
+            "damaged_at": parse_client_timestamp(body.get("recorded_at")),
             "damaged_by": user["user_id"],
-            "damaged_by_name": user["name"]
+            "damaged_by_name": user["name"],
+            "damaged_request_id": client_request_id
         }}
     )
+    await record_device_removal(device, user, "mark_damaged")
     
     # Log damage activity
     await log_activity(
@@ -2324,6 +5156,7 @@ async def mark_device_damaged(device_id: str, request: Request, user: dict = Dep
         device_name=device.get("nazwa"),
         device_id=device_id
     )
+    await check_stock_levels([device.get("przypisany_do")])
     
     return {"message": "Urządzenie oznaczone jako uszkodzone"}
 
@@ -2348,21 +5181,49 @@ async def add_single_device(request: Request, admin: dict = Depends(require_admi
     if existing:
         raise HTTPException(status_code=400, detail="Urządzenie o tym numerze seryjnym już istnieje")
     
+    # A model picked in the app wins over matching by serial, barcode and name
+    model_id = body.get("model_id")
+    if model_id:
+        model = await db.device_models.find_one({"model_id": model_id}, {"_id": 0})
+        if not model:
+            raise HTTPException(status_code=404, detail="Nie znaleziono modelu")
+        nazwa = nazwa or model["name"]
+    else:
+        model_id = match_device_model(await get_device_models_list(), nazwa, numer_seryjny, kod_kreskowy)
+    
+    location = await get_stock_location(body.get("location_id") or MAIN_WAREHOUSE_ID)
+    
+    # The app sends back the batch of the first device added on the screen, a new session starts a new one
+    batch = None
+    if body.get("batch_id"):
+        batch = await db.import_batches.find_one({
+            "batch_id": body["batch_id"],
+            "source": "manual",
+            "created_by": admin["user_id"],
+            "status": "active"
+        }, {"_id": 0})
+    if not batch:
+        batch = await create_import_batch(admin, "manual")
+    
     device = {
         "device_id": f"dev_{uuid.uuid4().hex[:12]}",
         "nazwa": nazwa,
+        "model_id": model_id,
         "numer_seryjny": numer_seryjny,
         "kod_kreskowy": kod_kreskowy or numer_seryjny,
         "kod_qr": body.get("kod_qr"),
         "przypisany_do": None,
         "status": "dostepny",
+        "location_id": location["location_id"],
         "created_at": get_warsaw_now(),
         "added_by": admin["user_id"],
-        "added_manually": True
+        "added_manually": True,
+        "batch_id": batch["batch_id"]
     }
     
     await db.devices.insert_one(device)
     device.pop("_id", None)
+    await add_to_import_batch(batch["batch_id"], [device["device_id"]])
     
     # Log device addition activity
     await log_activity(
@@ -2370,7 +5231,7 @@ async def add_single_device(request: Request, admin: dict = Depends(require_admi
         user_name=admin["name"],
         user_role="admin",
         action_type="device_add",
-        action_description=f"Dodano nowe urządzenie {nazwa} ({numer_seryjny}) do magazynu",
+        action_description=f"Dodano nowe urządzenie {nazwa} ({numer_seryjny}) do lokalizacji {location['name']}",
         device_serial=numer_seryjny,
         device_name=nazwa,
         device_id=device["device_id"]
@@ -2378,6 +5239,120 @@ async def add_single_device(request: Request, admin: dict = Depends(require_admi
     
     return device
 
+# ==================== IMPORT BATCHES ====================
+
+@app.on_event("startup")
+async def create_import_batch_indexes():
+    await db.import_batches.create_index([("created_at", -1)])
+    await db.devices.create_index("batch_id")
+
+async def create_import_batch(admin: dict, source: str, filename: str = None) -> dict:
+    """Record of one file import or one session of adding devices by hand"""
+    batch = {
+        "batch_id": f"batch_{uuid.uuid4().hex[:12]}",
+        "source": source,
+        "filename": filename,
+        "created_by": admin["user_id"],
+        "created_by_name": admin["name"],
+        "created_at": get_warsaw_now(),
+        "device_ids": [],
+        "device_count": 0,
+        "status": "active"
+    }
+    await db.import_batches.insert_one(batch)
+    batch.pop("_id", None)
+    return batch
+
+async def add_to_import_batch(batch_id: str, device_ids: List[str]):
+    await db.import_batches.update_one(
+        {"batch_id": batch_id},
+        {"$push": {"device_ids": {"$each": device_ids}}, "$inc": {"device_count": len(device_ids)}}
+    )
+
+async def count_batch_devices_in_use(batch_ids: List[str]) -> dict:
+    """batch_id -> number of its devices that already left the warehouse"""
+    counts = await db.devices.aggregate([
+        {"$match": {"batch_id": {"$in": batch_ids}, "status": {"$ne": "dostepny"}}},
+        {"$group": {"_id": "$batch_id", "count": {"$sum": 1}}}
+    ]).to_list(None)
+    return {c["_id"]: c["count"] for c in counts}
+
+@api_router.get("/import-batches")
+async def get_import_batches(limit: int = 50, admin: dict = Depends(require_admin)):
+    """Import history, newest first (admin only)"""
+    batches = await db.import_batches.find(
+        {"device_count": {"$gt": 0}},
+        {"_id": 0, "device_ids": 0}
+    ).sort("created_at", -1).limit(min(limit, 200)).to_list(None)
+    
+    in_use = await count_batch_devices_in_use([b["batch_id"] for b in batches if b["status"] == "active"])
+    for batch in batches:
+        batch["devices_in_use"] = in_use.get(batch["batch_id"], 0)
+    return batches
+
+@api_router.get("/import-batches/{batch_id}")
+async def get_import_batch(batch_id: str, admin: dict = Depends(require_admin)):
+    """One batch with the devices it added (admin only)"""
+    batch = await db.import_batches.find_one({"batch_id": batch_id}, {"_id": 0, "device_ids": 0})
+    if not batch:
+        raise HTTPException(status_code=404, detail="Nie znaleziono importu")
+    
+    devices = await db.devices.find({"batch_id": batch_id}, {"_id": 0}).sort("numer_seryjny", 1).to_list(None)
+    batch["devices_in_use"] = sum(1 for d in devices if d.get("status") != "dostepny")
+    batch["devices"] = devices
+    return batch
+
+@api_router.post("/import-batches/{batch_id}/rollback")
+async def rollback_import_batch(batch_id: str, admin: dict = Depends(require_admin)):
+    """Delete every device of a batch - only while all of them are still in stock (admin only)"""
+    batch = await db.import_batches.find_one({"batch_id": batch_id}, {"_id": 0})
+    if not batch:
+        raise HTTPException(status_code=404, detail="Nie znaleziono importu")
+    if batch["status"] != "active":
+        raise HTTPException(status_code=400, detail="Ten import został już wycofany")
+    
+    devices = await db.devices.find({"batch_id": batch_id}, {"_id": 0}).to_list(None)
+    in_use = [d for d in devices if d.get("status") != "dostepny"]
+    if in_use:
+        serials = ", ".join(d.get("numer_seryjny") or d["device_id"] for d in in_use[:5])
+        raise HTTPException(
+            status_code=409,
+            detail=f"Nie można wycofać importu - {len(in_use)} urządzeń nie jest już w magazynie ({serials})"
+        )
+    
+    # The status condition keeps devices issued in the meantime
+    result = await db.devices.delete_many({"batch_id": batch_id, "status": "dostepny"})
+    now = get_warsaw_now()
+    await db.import_batches.update_one(
+        {"batch_id": batch_id},
+        {"$set": {
+            "status": "rolled_back",
+            "rolled_back_at": now,
+            "rolled_back_by": admin["user_id"],
+            "rolled_back_by_name": admin["name"],
+            "removed_count": result.deleted_count
+        }}
+    )
+    
+    source = f"pliku {batch['filename']}" if batch["source"] == "file" else "dodawania ręcznego"
+    for device in devices:
+        await log_activity(
+            user_id=admin["user_id"],
+            user_name=admin["name"],
+            user_role="admin",
+            action_type="import_rollback",
+            action_description=f"Wycofano import {source} - usunięto urządzenie {device.get('nazwa', 'Nieznane')} ({device.get('numer_seryjny', 'brak SN')})",
+            device_serial=device.get("numer_seryjny"),
+            device_name=device.get("nazwa"),
+            device_id=device["device_id"],
+            details={"batch_id": batch_id, "source": batch["source"], "filename": batch.get("filename")}
+        )
+    
+    return {
+        "message": f"Wycofano import - usunięto {result.deleted_count} urządzeń",
+        "removed": result.deleted_count
+    }
+
 # ==================== ACTIVITY LOGS ENDPOINTS ====================
 
 @api_router.get("/activity-logs/user/{user_id}")
@@ -2410,9 +5385,13 @@ async def get_device_history(
     # Get device info including import date
     device = await db.devices.find_one({"numer_seryjny": device_serial}, {"_id": 0})
     
-    # Get activity logs
+    # Get activity logs - a job logs its devices once under details.devices / details.removed_devices
     logs = await db.activity_logs.find(
-        {"device_serial": device_serial},
+        {"$or": [
+            {"device_serial": device_serial},
+            {"details.devices.numer_seryjny": device_serial},
+            {"details.removed_devices.numer_seryjny": device_serial}
+        ]},
         {"_id": 0}
     ).sort("timestamp", -1).limit(limit).to_list(limit)
     
@@ -2446,11 +5425,21 @@ async def get_device_history(
                 logs.sort(key=lambda x: x.get("timestamp", ""), reverse=True)
     
     # Get installation info if device was installed
-    installation = await db.installations.find_one({"device_id": device.get("device_id") if device else None}, {"_id": 0})
+    installation = await db.installations.find_one(
+        {"device_id": device.get("device_id") if device else None},
+        {"_id": 0},
+        sort=[("data_instalacji", -1)]
+    )
+    
+    # Photos and the customer's signature are kept on the job the device was installed in
+    job = None
+    if installation and installation.get("job_id"):
+        job = await db.installation_jobs.find_one({"job_id": installation["job_id"]}, {"_id": 0})
     
     return {
         "device": device,
         "installation": installation,
+        "job": job,
         "logs": logs,
         "total_events": len(logs)
     }
@@ -2535,6 +5524,12 @@ async def create_order(request: Request, user: dict = Depends(require_user)):
         details={"order_id": order["order_id"], "items_count": len(valid_items)}
     )
     
+    await emit_event("order:created", order, admins=True)
+    notify_users(
+        await get_admin_ids(), "orders", "Nowe zamówienie",
+        f"{user['name']} - pozycji: {len(valid_items)}", "/orders"
+    )
+    
     return order
 
 @api_router.get("/orders")
@@ -2676,8 +5671,499 @@ async def process_order(order_id: str, request: Request, admin: dict = Depends(r
         details={"order_id": order_id, "status": new_status}
     )
     
+    updated_order = await db.orders.find_one({"order_id": order_id}, {"_id": 0})
+    await emit_event("order:updated", updated_order, user_ids=[order.get("user_id")], admins=True)
+    notify_users([order.get("user_id")], "orders", f"Zamówienie {status_pl}", f"Przez: {admin['name']}", "/orders")
+    
     return {"message": f"Zamówienie zostało {status_pl}"}
 
+# ==================== STOCK LEVELS ====================
+
+async def get_stock_settings() -> dict:
+    settings = await db.stock_settings.find_one({}, {"_id": 0})
+    return settings or {"auto_draft_orders": False}
+
+async def get_worker_stock(user_id: str) -> dict:
+    """Devices a worker holds (przypisany), counted per model"""
+    counts = await db.devices.aggregate([
+        {"$match": {"przypisany_do": user_id, "status": "przypisany"}},
+        {"$group": {"_id": "$model_id", "count": {"$sum": 1}}}
+    ]).to_list(None)
+    return {entry["_id"]: entry["count"] for entry in counts if entry["_id"]}
+
+def build_stock_entry(level: dict, current: int, model_names: dict, user_names: dict) -> dict:
+    """Level with the current stock and how much to order to get back to the maximum"""
+    return {
+        **level,
+        "model_name": model_names.get(level["model_id"], "Nieznany model"),
+        "user_name": user_names.get(level["user_id"], "Nieznany"),
+        "current": current,
+        "suggested_qty": max(level["max_qty"] - current, 0) if current < level["min_qty"] else 0
+    }
+
+async def get_stock_entries(user_id: Optional[str] = None) -> List[dict]:
+    query = {"user_id": user_id} if user_id else {}
+    levels = await db.stock_levels.find(query, {"_id": 0}).to_list(None)
+    if not levels:
+        return []
+    
+    model_names = {m["model_id"]: m["name"] for m in await get_device_models_list()}
+    user_ids = list({level["user_id"] for level in levels})
+    users = await db.users.find({"user_id": {"$in": user_ids}}, {"_id": 0, "user_id": 1, "name": 1}).to_list(None)
+    user_names = {u["user_id"]: u["name"] for u in users}
+    
+    stocks = {uid: await get_worker_stock(uid) for uid in user_ids}
+    return [
+        build_stock_entry(level, stocks[level["user_id"]].get(level["model_id"], 0), model_names, user_names)
+        for level in levels
+    ]
+
+async def get_stock_alerts(user_id: Optional[str] = None) -> List[dict]:
+    return [entry for entry in await get_stock_entries(user_id) if entry["current"] < entry["min_qty"]]
+
+async def draft_replenishment_order(user_id: str, alerts: List[dict]) -> Optional[dict]:
+    """Pending order for the admin to approve, at most one open per worker"""
+    if await db.orders.find_one({"user_id": user_id, "status": "pending", "auto_generated": True}):
+        return None
+    
+    order = {
+        "order_id": f"order_{uuid.uuid4().hex[:12]}",
+        "user_id": user_id,
+        "user_name": alerts[0]["user_name"],
+        "items": [{
+            "id": alert["model_id"],
+            "name": alert["model_name"],
+            "category": "device",
+            "autoStock": True,
+            "currentStock": str(alert["current"]),
+            "orderQuantity": str(alert["suggested_qty"])
+        } for alert in alerts if alert["suggested_qty"] > 0],
+        "status": "pending",
+        "auto_generated": True,
+        "created_at": get_warsaw_now(),
+        "processed_at": None,
+        "processed_by": None,
+        "processed_by_name": None
+    }
+    if not order["items"]:
+        return None
+    
+    await db.orders.insert_one(order)
+    order.pop("_id", None)
+    await emit_event("order:created", order, admins=True)
+    return order
+
+async def check_stock_levels(user_ids: List[Optional[str]]):
+    """Alert admins when a worker drops below a minimum - once, until the stock recovers"""
+    for user_id in {uid for uid in user_ids if uid}:
+        entries = await get_stock_entries(user_id)
+        if not entries:
+            continue
+        
+        newly_low = []
+        for entry in entries:
+            is_low = entry["current"] < entry["min_qty"]
+            if is_low != entry.get("below_min", False):
+                await db.stock_levels.update_one({"level_id": entry["level_id"]}, {"$set": {"below_min": is_low}})
+                if is_low:
+                    newly_low.append(entry)
+        
+        if not newly_low:
+            continue
+        
+        alerts = [entry for entry in entries if entry["current"] < entry["min_qty"]]
+        user_name = newly_low[0]["user_name"]
+        await emit_event("stock:low", {"user_id": user_id, "user_name": user_name, "alerts": alerts}, admins=True)
+        
+        summary = ", ".join(f"{a['model_name']} {a['current']}/{a['min_qty']}" for a in newly_low)
+        order = None
+        if (await get_stock_settings()).get("auto_draft_orders"):
+            order = await draft_replenishment_order(user_id, alerts)
+        notify_users(
+            await get_admin_ids(), "orders" if order else "devices", "Niski stan urządzeń",
+            f"{user_name}: {summary}" + (" - przygotowano zamówienie" if order else ""),
+            "/orders" if order else "/devices?view=inventory"
+        )
+
+def parse_stock_quantity(value) -> int:
+    try:
+        quantity = int(value)
+    except (TypeError, ValueError):
+        raise HTTPException(status_code=400, detail="Stany muszą być liczbami całkowitymi")
+    if quantity < 0:
+        raise HTTPException(status_code=400, detail="Stany nie mogą być ujemne")
+    return quantity
+
+@api_router.get("/stock-levels")
+async def get_stock_levels(user_id: Optional[str] = None, admin: dict = Depends(require_admin)):
+    """Configured minimum / maximum per worker and model with the current stock (admin only)"""
+    return await get_stock_entries(user_id)
+
+@api_router.put("/stock-levels")
+async def set_stock_level(request: Request, admin: dict = Depends(require_admin)):
+    """Create or change the limits of one worker and model (admin only)"""
+    body = await request.json()
+    user_id = body.get("user_id")
+    model_id = body.get("model_id")
+    
+    if not await db.users.find_one({"user_id": user_id}):
+        raise HTTPException(status_code=404, detail="Nie znaleziono użytkownika")
+    if not await db.device_models.find_one({"model_id": model_id}):
+        raise HTTPException(status_code=404, detail="Nie znaleziono modelu")
+    
+    min_qty = parse_stock_quantity(body.get("min_qty"))
+    max_qty = parse_stock_quantity(body.get("max_qty"))
+    if max_qty < min_qty:
+        raise HTTPException(status_code=400, detail="Stan maksymalny nie może być mniejszy od minimalnego")
+    
+    await db.stock_levels.update_one(
+        {"user_id": user_id, "model_id": model_id},
+        {
+            "$set": {"min_qty": min_qty, "max_qty": max_qty, "updated_at": get_warsaw_now(), "updated_by": admin["user_id"]},
+            "$setOnInsert": {"level_id": f"stock_{uuid.uuid4().hex[:12]}", "below_min": False}
+        },
+        upsert=True
+    )
+    
+    # A raised minimum can put the worker below it right away
+    await check_stock_levels([user_id])
+    
+    entries = await get_stock_entries(user_id)
+    return next(entry for entry in entries if entry["model_id"] == model_id)
+
+@api_router.delete("/stock-levels/{level_id}")
+async def delete_stock_level(level_id: str, admin: dict = Depends(require_admin)):
+    """Remove the limits of one worker and model (admin only)"""
+    result = await db.stock_levels.delete_one({"level_id": level_id})
+    if result.deleted_count == 0:
+        raise HTTPException(status_code=404, detail="Nie znaleziono limitu")
+    return {"message": "Limit został usunięty"}
+
+@api_router.get("/stock-levels/alerts")
+async def get_my_stock_alerts(user: dict = Depends(require_user)):
+    """Models below the minimum - admins see every worker, workers only themselves"""
+    return await get_stock_alerts(None if user.get("role") == "admin" else user["user_id"])
+
+@api_router.get("/stock-levels/settings")
+async def get_stock_level_settings(admin: dict = Depends(require_admin)):
+    return await get_stock_settings()
+
+@api_router.put("/stock-levels/settings")
+async def update_stock_level_settings(request: Request, admin: dict = Depends(require_admin)):
+    """Whether a low stock alert also drafts an order (admin only)"""
+    body = await request.json()
+    settings = {"auto_draft_orders": bool(body.get("auto_draft_orders"))}
+    await db.stock_settings.update_one({}, {"$set": settings}, upsert=True)
+    return settings
+
+# ==================== STOCKTAKE ====================
+
+# Physical count of one location - a worker's own stock, a van or a warehouse.
+# The report is built when the count is closed and kept with the session.
+# Corrective action -> report lists it applies to
+STOCKTAKE_ACTIONS = {
+    "move_here": ("unexpected",),
+    "move_to_warehouse": ("missing",),
+    "write_off": ("missing",),
+    "acknowledge": ("missing", "unexpected"),
+}
+# Lifecycle action behind each correction that changes the device, acknowledge only closes the entry
+STOCKTAKE_LIFECYCLE_ACTIONS = {
+    "move_here": "stocktake_move",
+    "move_to_warehouse": "stocktake_move",
+    "write_off": "write_off",
+}
+
+@app.on_event("startup")
+async def create_stocktake_indexes():
+    await db.stocktakes.create_index([("opened_at", -1)])
+    await db.stocktakes.create_index([("location_id", 1), ("status", 1)])
+
+async def get_stocktake_for_user(stocktake_id: str, user: dict) -> dict:
+    """Admins see every count, workers only the ones they were asked to do"""
+    stocktake = await db.stocktakes.find_one({"stocktake_id": stocktake_id}, {"_id": 0})
+    if not stocktake:
+        raise HTTPException(status_code=404, detail="Nie znaleziono inwentaryzacji")
+    if user.get("role") != "admin" and stocktake["counted_by"] != user["user_id"]:
+        raise HTTPException(status_code=403, detail="Ta inwentaryzacja nie jest przypisana do Ciebie")
+    return stocktake
+
+async def find_device_by_exact_code(code: str) -> Optional[dict]:
+    """Unlike /devices/scan no partial matches - a count must not guess"""
+    pattern = {"$regex": f"^{re.escape(code)}$", "$options": "i"}
+    return await db.devices.find_one(
+        {"$or": [{"numer_seryjny": pattern}, {"kod_kreskowy": pattern}, {"kod_qr": pattern}]},
+        {"_id": 0}
+    )
+
+async def stocktake_entry(device: dict) -> dict:
+    """A device as listed in the report, with where the system has it"""
+    holder = await db.users.find_one({"user_id": device.get("przypisany_do")}, {"_id": 0, "name": 1}) \
+        if device.get("przypisany_do") else None
+    return {
+        "device_id": device["device_id"],
+        "numer_seryjny": device.get("numer_seryjny"),
+        "nazwa": device.get("nazwa"),
+        "status": device.get("status"),
+        "location_id": device.get("location_id"),
+        "location_name": await get_location_name(device.get("location_id")),
+        "holder_name": holder["name"] if holder else None,
+        "resolution": None
+    }
+
+def device_fields_for_location(location: dict) -> dict:
+    """Where a device ends up when a correction puts it in this location"""
+    if location["type"] == "worker":
+        return {"location_id": location["location_id"], "przypisany_do": location["user_id"], "status": "przypisany"}
+    return {"location_id": location["location_id"], "przypisany_do": None, "status": "dostepny"}
+
+@api_router.get("/stocktakes")
+async def get_stocktakes(limit: int = 50, user: dict = Depends(require_user)):
+    """Stocktake history, newest first - workers get only their own counts"""
+    query = {} if user.get("role") == "admin" else {"counted_by": user["user_id"]}
+    return await db.stocktakes.find(
+        query, {"_id": 0, "scans": 0, "report": 0}
+    ).sort("opened_at", -1).limit(min(limit, 200)).to_list(None)
+
+@api_router.get("/stocktakes/{stocktake_id}")
+async def get_stocktake(stocktake_id: str, user: dict = Depends(require_user)):
+    return await get_stocktake_for_user(stocktake_id, user)
+
+@api_router.post("/stocktakes")
+async def open_stocktake(request: Request, admin: dict = Depends(require_admin)):
+    """Start a count of a location (admin only) - a worker's own stock is counted by that worker"""
+    body = await request.json()
+    location = await db.locations.find_one({"location_id": body.get("location_id")}, {"_id": 0})
+    if not location:
+        raise HTTPException(status_code=404, detail="Nie znaleziono lokalizacji")
+    
+    if await db.stocktakes.find_one({"location_id": location["location_id"], "status": "open"}):
+        raise HTTPException(status_code=409, detail="W tej lokalizacji trwa już inwentaryzacja")
+    
+    counter_id = location["user_id"] if location["type"] == "worker" else (body.get("counted_by") or admin["user_id"])
+    counter = await db.users.find_one({"user_id": counter_id}, {"_id": 0})
+    if not counter:
+        raise HTTPException(status_code=404, detail="Nie znaleziono pracownika")
+    
+    stocktake = {
+        "stocktake_id": f"stk_{uuid.uuid4().hex[:12]}",
+        "location_id": location["location_id"],
+        "location_name": location["name"],
+        "location_type": location["type"],
+        "counted_by": counter["user_id"],
+        "counted_by_name": counter["name"],
+        "opened_by": admin["user_id"],
+        "opened_by_name": admin["name"],
+        "opened_at": get_warsaw_now(),
+        "status": "open",
+        "scans": [],
+        "scan_count": 0,
+        "closed_at": None,
+        "closed_by_name": None,
+        "report": None,
+        "summary": None
+    }
+    await db.stocktakes.insert_one(stocktake)
+    stocktake.pop("_id", None)
+    
+    if counter["user_id"] != admin["user_id"]:
+        notify_users(
+            [counter["user_id"]], "devices", "Inwentaryzacja",
+            f"Zeskanuj wszystkie urządzenia: {location['name']}", f"/stocktake?id={stocktake['stocktake_id']}"
+        )
+    
+    return stocktake
+
+@api_router.post("/stocktakes/{stocktake_id}/scan")
+async def scan_stocktake_device(stocktake_id: str, request: Request, user: dict = Depends(require_user)):
+    """Record one physically found device"""
+    stocktake = await get_stocktake_for_user(stocktake_id, user)
+    if stocktake["status"] != "open":
+        raise HTTPException(status_code=400, detail="Inwentaryzacja jest już zamknięta")
+    
+    body = await request.json()
+    code = (body.get("code") or "").strip()
+    if code.upper().startswith(DEVICE_LABEL_PREFIX):
+        code = code[len(DEVICE_LABEL_PREFIX):].strip()
+    if not code:
+        raise HTTPException(status_code=400, detail="Wymagany kod urządzenia")
+    
+    device = await find_device_by_exact_code(code)
+    already_scanned = any(
+        (device and scan.get("device_id") == device["device_id"]) or scan["code"].upper() == code.upper()
+        for scan in stocktake["scans"]
+    )
+    if already_scanned:
+        return {"result": "duplicate", "code": code, "device": device, "scan_count": stocktake["scan_count"]}
+    
+    if not device:
+        result = "unknown"
+    elif device.get("location_id") == stocktake["location_id"]:
+        result = "matched"
+    else:
+        result = "unexpected"
+    
+    scan = {
+        "code": code,
+        "device_id": device["device_id"] if device else None,
+        "numer_seryjny": device.get("numer_seryjny") if device else None,
+        "nazwa": device.get("nazwa") if device else None,
+        "result": result,
+        "scanned_at": get_warsaw_now()
+    }
+    await db.stocktakes.update_one(
+        {"stocktake_id": stocktake_id},
+        {"$push": {"scans": scan}, "$inc": {"scan_count": 1}}
+    )
+    
+    return {"result": result, "code": code, "device": device, "scan_count": stocktake["scan_count"] + 1}
+
+@api_router.post("/stocktakes/{stocktake_id}/close")
+async def close_stocktake(stocktake_id: str, user: dict = Depends(require_user)):
+    """Finish counting and build the reconciliation report"""
+    stocktake = await get_stocktake_for_user(stocktake_id, user)
+    if stocktake["status"] != "open":
+        raise HTTPException(status_code=400, detail="Inwentaryzacja jest już zamknięta")
+    
+    # Compared with the stock at closing time, devices may have moved while counting
+    expected = await db.devices.find({"location_id": stocktake["location_id"]}, {"_id": 0}).to_list(None)
+    expected_ids = {d["device_id"] for d in expected}
+    scanned_ids = {s["device_id"] for s in stocktake["scans"] if s.get("device_id")}
+    unexpected = await db.devices.find(
+        {"device_id": {"$in": list(scanned_ids - expected_ids)}}, {"_id": 0}
+    ).to_list(None)
+    
+    report = {
+        "matched": [await stocktake_entry(d) for d in expected if d["device_id"] in scanned_ids],
+        "missing": [await stocktake_entry(d) for d in expected if d["device_id"] not in scanned_ids],
+        "unexpected": [await stocktake_entry(d) for d in unexpected],
+        "unknown": [s["code"] for s in stocktake["scans"] if not s.get("device_id")]
+    }
+    summary = {kind: len(entries) for kind, entries in report.items()}
+    
+    await db.stocktakes.update_one(
+        {"stocktake_id": stocktake_id},
+        {"$set": {
+            "status": "closed",
+            "closed_at": get_warsaw_now(),
+            "closed_by_name": user["name"],
+            "report": report,
+            "summary": summary
+        }}
+    )
+    
+    await log_activity(
+        user_id=user["user_id"],
+        user_name=user["name"],
+        user_role=user.get("role", "pracownik"),
+        action_type="stocktake_close",
+        action_description=(
+            f"Zakończono inwentaryzację: {stocktake['location_name']} - zgodne {summary['matched']}, "
+            f"brakujące {summary['missing']}, nadmiarowe {summary['unexpected']}, nieznane {summary['unknown']}"
+        ),
+        details={"stocktake_id": stocktake_id, **summary}
+    )
+    if summary["missing"] or summary["unexpected"] or summary["unknown"]:
+        notify_users(
+            await get_admin_ids(), "devices", "Rozbieżności w inwentaryzacji",
+            f"{stocktake['location_name']}: brakuje {summary['missing']}, nadmiarowe {summary['unexpected'] + summary['unknown']}",
+            f"/stocktake?id={stocktake_id}"
+        )
+    
+    return await db.stocktakes.find_one({"stocktake_id": stocktake_id}, {"_id": 0})
+
+@api_router.post("/stocktakes/{stocktake_id}/cancel")
+async def cancel_stocktake(stocktake_id: str, admin: dict = Depends(require_admin)):
+    """Drop an open count without a report (admin only)"""
+    result = await db.stocktakes.update_one(
+        {"stocktake_id": stocktake_id, "status": "open"},
+        {"$set": {"status": "cancelled", "closed_at": get_warsaw_now(), "closed_by_name": admin["name"]}}
+    )
+    if result.matched_count == 0:
+        raise HTTPException(status_code=400, detail="Można anulować tylko trwającą inwentaryzację")
+    return {"message": "Inwentaryzacja anulowana"}
+
+@api_router.post("/stocktakes/{stocktake_id}/resolve")
+async def resolve_stocktake_entry(stocktake_id: str, request: Request, admin: dict = Depends(require_admin)):
+    """Apply a corrective action to a missing or unexpected device of a closed count (admin only)"""
+    body = await request.json()
+    device_id = body.get("device_id")
+    action = body.get("action")
+    if action not in STOCKTAKE_ACTIONS:
+        raise HTTPException(status_code=400, detail="Nieznana akcja korygująca")
+    
+    stocktake = await get_stocktake_for_user(stocktake_id, admin)
+    if stocktake["status"] != "closed":
+        raise HTTPException(status_code=400, detail="Korekty są możliwe po zakończeniu inwentaryzacji")
+    
+    kind = next(
+        (k for k in STOCKTAKE_ACTIONS[action] if any(e["device_id"] == device_id for e in stocktake["report"][k])),
+        None
+    )
+    if not kind:
+        raise HTTPException(status_code=400, detail="Tej akcji nie można wykonać dla tego urządzenia")
+    entry = next(e for e in stocktake["report"][kind] if e["device_id"] == device_id)
+    if entry.get("resolution"):
+        raise HTTPException(status_code=400, detail="Ta rozbieżność została już wyjaśniona")
+    
+    lifecycle_action = STOCKTAKE_LIFECYCLE_ACTIONS.get(action)
+    if lifecycle_action:
+        device = await db.devices.find_one({"device_id": device_id}, {"_id": 0})
+        if not device:
+            raise HTTPException(status_code=404, detail="Nie znaleziono urządzenia")
+        
+        if lifecycle_action == "write_off":
+            check_device_transition(device, "write_off", admin)
+            # Off the books until a later count finds it again
+            fields = {"status": DEVICE_LIFECYCLE["write_off"]["to"], "przypisany_do": None, "location_id": None}
+            await db.devices.update_one({"device_id": device_id}, {"$set": fields})
+            await log_activity(
+                user_id=admin["user_id"],
+                user_name=admin["name"],
+                user_role="admin",
+                action_type="stocktake_write_off",
+                action_description=f"Spisano jako zaginione po inwentaryzacji: urządzenie {device.get('nazwa', 'Nieznane')} ({device.get('numer_seryjny', 'brak SN')}) z {stocktake['location_name']}",
+                device_serial=device.get("numer_seryjny"),
+                device_name=device.get("nazwa"),
+                device_id=device_id,
+                details={**await location_change_details(device.get("location_id"), None), "stocktake_id": stocktake_id}
+            )
+        else:
+            target_id = stocktake["location_id"] if action == "move_here" else MAIN_WAREHOUSE_ID
+            check_device_transition(device, "stocktake_move", admin, {"location_id": target_id})
+            if device.get("location_id") == target_id:
+                raise HTTPException(status_code=400, detail="Urządzenie jest już w tej lokalizacji")
+            target = await db.locations.find_one({"location_id": target_id}, {"_id": 0})
+            if not target:
+                raise HTTPException(status_code=404, detail="Nie znaleziono lokalizacji")
+            fields = device_fields_for_location(target)
+            await db.devices.update_one({"device_id": device_id}, {"$set": fields})
+            
+            details = await location_change_details(device.get("location_id"), target_id)
+            await log_activity(
+                user_id=admin["user_id"],
+                user_name=admin["name"],
+                user_role="admin",
+                action_type="stocktake_correction",
+                action_description=f"Korekta po inwentaryzacji: urządzenie {device.get('nazwa', 'Nieznane')} ({device.get('numer_seryjny', 'brak SN')}) z {details['from_location']} do {details['to_location']}",
+                device_serial=device.get("numer_seryjny"),
+                device_name=device.get("nazwa"),
+                device_id=device_id,
+                details={**details, "stocktake_id": stocktake_id}
+            )
+        await check_stock_levels([device.get("przypisany_do"), fields["przypisany_do"]])
+    
+    await db.stocktakes.update_one(
+        {"stocktake_id": stocktake_id},
+        {"$set": {f"report.{kind}.$[entry].resolution": {
+            "action": action,
+            "by_name": admin["name"],
+            "at": get_warsaw_now()
+        }}},
+        array_filters=[{"entry.device_id": device_id}]
+    )
+    return await db.stocktakes.find_one({"stocktake_id": stocktake_id}, {"_id": 0})
+
 # ==================== VEHICLES & EQUIPMENT ====================
 
 @api_router.get("/vehicles")
@@ -2757,7 +6243,12 @@ async def delete_vehicle(vehicle_id: str, admin: dict = Depends(require_admin)):
     if not vehicle:
         raise HTTPException(status_code=404, detail="Nie znaleziono pojazdu")
     
+    van = await db.locations.find_one({"vehicle_id": vehicle_id}, {"_id": 0})
+    if van and await db.devices.count_documents({"location_id": van["location_id"]}):
+        raise HTTPException(status_code=409, detail="W pojeździe są urządzenia - przenieś je najpierw")
+    
     await db.vehicles.delete_one({"vehicle_id": vehicle_id})
+    await db.locations.delete_many({"vehicle_id": vehicle_id})
     
     await log_activity(
         user_id=admin["user_id"],
@@ -3034,3 +6525,7 @@ app.add_middleware(
 @app.on_event("shutdown")
 async def shutdown_db_client():
     client.close()
+
+# Socket.IO lives under /api so it goes through the same ingress as the REST routes;
+# everything else is handed over to FastAPI
+app = socketio.ASGIApp(sio, other_asgi_app=app, socketio_path="api/socket.io")
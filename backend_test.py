@@ -59,7 +59,7 @@ class InventoryAPITester:
         # First check if we have any existing devices
         response = self.session.get(f"{API_BASE}/devices")
         if response.status_code == 200:
-            devices = response.json()
+            devices = response.json()["items"]
             if devices:
                 # Use existing device
                 self.test_device_id = devices[0]["device_id"]
@@ -200,7 +200,7 @@ class InventoryAPITester:
             self.log("❌ Could not get devices for installation test")
             return False
             
-        devices = devices_response.json()
+        devices = devices_response.json()["items"]
         available_device = None
         
         # Look for a device that's assigned to current user
@@ -269,6 +269,495 @@ class InventoryAPITester:
         
         return test1 and test2
         
+    def add_test_device(self, location_id=None):
+        """Add a fresh device (main warehouse unless a location is given) for a test"""
+        body = {"nazwa": "Urządzenie testowe", "numer_seryjny": f"TEST{uuid.uuid4().hex[:10].upper()}"}
+        if location_id:
+            body["location_id"] = location_id
+            
+        response = self.session.post(f"{API_BASE}/devices/add-single", json=body)
+        if response.status_code != 200:
+            self.log(f"❌ Could not add test device: {response.status_code} - {response.text}")
+            return None
+        return response.json()
+        
+    def create_test_worker(self):
+        """Create a throwaway worker account, returns (user, password)"""
+        password = f"test{uuid.uuid4().hex[:8]}"
+        response = self.session.post(f"{API_BASE}/users", json={
+            "email": f"test_{uuid.uuid4().hex[:8]}@magazyn.its.kielce.pl",
+            "password": password,
+            "name": "Pracownik Testowy",
+            "role": "pracownik"
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Could not create test worker: {response.status_code} - {response.text}")
+            return None, None
+        return response.json(), password
+        
+    def login_as(self, email, password, device="backend-test"):
+        """Log in without touching the admin session, returns the token pair"""
+        response = requests.post(f"{API_BASE}/auth/login", json={
+            "email": email,
+            "password": password
+        }, headers={"User-Agent": device})
+        if response.status_code != 200:
+            self.log(f"❌ Login as {email} failed: {response.status_code} - {response.text}")
+            return None
+        return response.json()
+        
+    def get_me(self, session_token):
+        return requests.get(f"{API_BASE}/auth/me", headers={"Authorization": f"Bearer {session_token}"})
+        
+    def test_session_refresh(self):
+        """Test POST /api/auth/refresh - token rotation with a single-use refresh token"""
+        self.log("🔁 Testing session refresh...")
+        
+        worker, password = self.create_test_worker()
+        if not worker:
+            return False
+        try:
+            tokens = self.login_as(worker["email"], password)
+            if not tokens:
+                return False
+                
+            response = requests.post(f"{API_BASE}/auth/refresh", json={"refresh_token": tokens["refresh_token"]})
+            if response.status_code != 200:
+                self.log(f"❌ Refresh failed: {response.status_code} - {response.text}")
+                return False
+            refreshed = response.json()
+            if refreshed["session_token"] == tokens["session_token"] or refreshed["refresh_token"] == tokens["refresh_token"]:
+                self.log("❌ Refresh did not rotate the tokens")
+                return False
+            self.log("✅ Token pair rotated")
+            
+            if self.get_me(refreshed["session_token"]).status_code != 200:
+                self.log("❌ New access token rejected")
+                return False
+                
+            # The old refresh token was used up
+            response = requests.post(f"{API_BASE}/auth/refresh", json={"refresh_token": tokens["refresh_token"]})
+            if response.status_code != 401:
+                self.log(f"❌ Reused refresh token should be rejected but got: {response.status_code}")
+                return False
+            self.log("✅ Reused refresh token rejected")
+            return True
+        finally:
+            self.session.delete(f"{API_BASE}/users/{worker['user_id']}")
+            
+    def test_session_revocation(self):
+        """Test DELETE /api/users/{id}/sessions/{session_id} - one device logged out, the other kept"""
+        self.log("🚪 Testing session revocation...")
+        
+        worker, password = self.create_test_worker()
+        if not worker:
+            return False
+        try:
+            phone = self.login_as(worker["email"], password, device="backend-test-phone")
+            tablet = self.login_as(worker["email"], password, device="backend-test-tablet")
+            if not phone or not tablet:
+                return False
+                
+            response = self.session.get(f"{API_BASE}/users/{worker['user_id']}/sessions")
+            sessions = {s["device"]: s["session_id"] for s in response.json()} if response.status_code == 200 else {}
+            if "backend-test-phone" not in sessions or "backend-test-tablet" not in sessions:
+                self.log(f"❌ Sessions of both devices not listed: {response.status_code} - {response.text}")
+                return False
+                
+            response = self.session.delete(f"{API_BASE}/users/{worker['user_id']}/sessions/{sessions['backend-test-phone']}")
+            if response.status_code != 200:
+                self.log(f"❌ Revoking the session failed: {response.status_code} - {response.text}")
+                return False
+                
+            # Neither the access token nor the refresh token of the revoked session work any more
+            if self.get_me(phone["session_token"]).status_code != 401:
+                self.log("❌ Revoked access token still accepted")
+                return False
+            response = requests.post(f"{API_BASE}/auth/refresh", json={"refresh_token": phone["refresh_token"]})
+            if response.status_code != 401:
+                self.log(f"❌ Revoked refresh token should be rejected but got: {response.status_code}")
+                return False
+            self.log("✅ Revoked session rejected")
+            
+            if self.get_me(tablet["session_token"]).status_code != 200:
+                self.log("❌ The other device was logged out too")
+                return False
+            self.log("✅ Other device still logged in")
+            
+            response = self.session.delete(f"{API_BASE}/users/{worker['user_id']}/sessions")
+            if response.status_code != 200 or self.get_me(tablet["session_token"]).status_code != 401:
+                self.log("❌ Revoking every session left one active")
+                return False
+            self.log("✅ All sessions revoked")
+            return True
+        finally:
+            self.session.delete(f"{API_BASE}/users/{worker['user_id']}")
+            
+    def test_outbox_replay(self):
+        """Test that requests replayed from the offline queue (same client_request_id) are applied once"""
+        self.log("📮 Testing offline queue replays...")
+        
+        # Return of a serial unknown to the inventory
+        client_request_id = f"outbox_test_{uuid.uuid4().hex[:8]}"
+        body = {
+            "device_serial": f"TEST{uuid.uuid4().hex[:10].upper()}",
+            "device_type": "ONT",
+            "device_status": "z awarii",
+            "client_request_id": client_request_id,
+            "recorded_at": "2020-01-01T10:00:00Z"
+        }
+        first = self.session.post(f"{API_BASE}/returns", json=body)
+        replay = self.session.post(f"{API_BASE}/returns", json=body)
+        if first.status_code != 200 or replay.status_code != 200:
+            self.log(f"❌ Return replay failed: {first.status_code} / {replay.status_code} - {replay.text}")
+            return False
+        if first.json()["return_id"] != replay.json()["return_id"]:
+            self.log("❌ Replayed return created a second entry")
+            return False
+        if not first.json()["scanned_at"].startswith("2020-01-01"):
+            self.log(f"❌ Return did not keep the recorded time: {first.json()['scanned_at']}")
+            return False
+        self.session.delete(f"{API_BASE}/returns/{first.json()['return_id']}")
+        self.log("✅ Return replay answered with the first entry")
+        
+        # Installation job
+        device = self.add_test_device()
+        if not device:
+            return False
+        body = {
+            "device_ids": [device["device_id"]],
+            "adres_klienta": "ul. Testowa 1, 25-001 Kielce",
+            "rodzaj_zlecenia": "instalacja",
+            "client_request_id": f"outbox_test_{uuid.uuid4().hex[:8]}"
+        }
+        first = self.session.post(f"{API_BASE}/installation-jobs", json=body)
+        replay = self.session.post(f"{API_BASE}/installation-jobs", json=body)
+        if first.status_code != 200 or replay.status_code != 200:
+            self.log(f"❌ Installation job replay failed: {first.status_code} / {replay.status_code} - {replay.text}")
+            return False
+        if first.json()["job_id"] != replay.json()["job_id"]:
+            self.log("❌ Replayed installation job created a second job")
+            return False
+        self.log("✅ Installation job replay answered with the first job")
+        
+        # Damage report
+        device = self.add_test_device()
+        if not device:
+            return False
+        body = {"client_request_id": f"outbox_test_{uuid.uuid4().hex[:8]}"}
+        first = self.session.post(f"{API_BASE}/devices/{device['device_id']}/mark-damaged", json=body)
+        replay = self.session.post(f"{API_BASE}/devices/{device['device_id']}/mark-damaged", json=body)
+        if first.status_code != 200 or replay.status_code != 200:
+            self.log(f"❌ Damage report replay failed: {first.status_code} / {replay.status_code} - {replay.text}")
+            return False
+        self.log("✅ Damage report replay accepted without a conflict")
+        return True
+        
+    def test_installation_jobs(self):
+        """Test POST /api/installation-jobs - several devices at one customer, all of them or none"""
+        self.log("🧰 Testing installation jobs...")
+        
+        first, second = self.add_test_device(), self.add_test_device()
+        if not first or not second:
+            return False
+        address = "ul. Testowa 2, 25-001 Kielce"
+        
+        response = self.session.post(f"{API_BASE}/installation-jobs", json={
+            "device_ids": [first["device_id"], first["device_id"]],
+            "adres_klienta": address
+        })
+        if response.status_code != 400:
+            self.log(f"❌ Job with a duplicated device should be rejected but got: {response.status_code}")
+            return False
+        self.log("✅ Duplicated device rejected")
+        
+        response = self.session.post(f"{API_BASE}/installation-jobs", json={
+            "device_ids": [first["device_id"], second["device_id"]],
+            "adres_klienta": address,
+            "rodzaj_zlecenia": "instalacja"
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Installation job failed: {response.status_code} - {response.text}")
+            return False
+        job = response.json()
+        if len(job["installations"]) != 2 or {i["job_id"] for i in job["installations"]} != {job["job_id"]}:
+            self.log("❌ Job does not hold an installation of each device")
+            return False
+            
+        response = self.session.get(f"{API_BASE}/installation-jobs/{job['job_id']}")
+        if response.status_code != 200 or len(response.json()["installations"]) != 2:
+            self.log(f"❌ Job lookup failed: {response.status_code} - {response.text}")
+            return False
+        self.log("✅ Both devices installed in one job")
+        
+        # One device already installed - the other one must not be installed either
+        third = self.add_test_device()
+        if not third:
+            return False
+        response = self.session.post(f"{API_BASE}/installation-jobs", json={
+            "device_ids": [third["device_id"], first["device_id"]],
+            "adres_klienta": address
+        })
+        if response.status_code != 409:
+            self.log(f"❌ Job with an installed device should be rejected but got: {response.status_code}")
+            return False
+        if self.session.get(f"{API_BASE}/devices/{third['device_id']}").json().get("status") != "dostepny":
+            self.log("❌ Rejected job left a device installed")
+            return False
+        self.log("✅ Rejected job left every device untouched")
+        return True
+        
+    def test_replacement_job(self):
+        """Test a replacement job - the device taken from the customer goes to returns"""
+        self.log("🔀 Testing replacement jobs...")
+        
+        old_device, new_device = self.add_test_device(), self.add_test_device()
+        if not old_device or not new_device:
+            return False
+        address = "ul. Testowa 3, 25-001 Kielce"
+        
+        response = self.session.post(f"{API_BASE}/installation-jobs", json={
+            "device_ids": [old_device["device_id"]],
+            "adres_klienta": address,
+            "rodzaj_zlecenia": "instalacja"
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Installing the customer's current device failed: {response.status_code} - {response.text}")
+            return False
+            
+        response = self.session.post(f"{API_BASE}/installation-jobs", json={
+            "device_ids": [new_device["device_id"]],
+            "adres_klienta": address,
+            "rodzaj_zlecenia": "wymiana"
+        })
+        if response.status_code != 400:
+            self.log(f"❌ Replacement without the removed device should be rejected but got: {response.status_code}")
+            return False
+        self.log("✅ Replacement without the removed device rejected")
+        
+        response = self.session.post(f"{API_BASE}/installation-jobs", json={
+            "device_ids": [new_device["device_id"]],
+            "adres_klienta": address,
+            "rodzaj_zlecenia": "wymiana",
+            "removed_serials": [old_device["numer_seryjny"]]
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Replacement failed: {response.status_code} - {response.text}")
+            return False
+        job = response.json()
+        if [r["device_id"] for r in job["removed_devices"]] != [old_device["device_id"]]:
+            self.log(f"❌ Removed device not recorded with the job: {job['removed_devices']}")
+            return False
+            
+        removed = self.session.get(f"{API_BASE}/devices/{old_device['device_id']}").json()
+        if removed.get("status") != "zwrocony":
+            self.log(f"❌ Removed device not moved to returns: {removed.get('status')}")
+            return False
+        returns = self.session.get(f"{API_BASE}/returns").json()
+        if not any(r["device_serial"] == old_device["numer_seryjny"] and r.get("job_id") == job["job_id"] for r in returns):
+            self.log("❌ No return entry for the removed device")
+            return False
+        self.log("✅ Removed device sent to returns with the job")
+        return True
+        
+    def test_damaged_device_replacement(self):
+        """Test a breakdown job taking away a device already marked as damaged"""
+        self.log("🛠️ Testing replacement of a damaged device...")
+        
+        old_device, new_device = self.add_test_device(), self.add_test_device()
+        if not old_device or not new_device:
+            return False
+        address = "ul. Testowa 5, 25-001 Kielce"
+        
+        response = self.session.post(f"{API_BASE}/installation-jobs", json={
+            "device_ids": [old_device["device_id"]],
+            "adres_klienta": address,
+            "rodzaj_zlecenia": "instalacja"
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Installing the customer's current device failed: {response.status_code} - {response.text}")
+            return False
+        response = self.session.post(f"{API_BASE}/devices/{old_device['device_id']}/mark-damaged", json={})
+        if response.status_code != 200:
+            self.log(f"❌ Marking the installed device as damaged failed: {response.status_code} - {response.text}")
+            return False
+            
+        response = self.session.post(f"{API_BASE}/installation-jobs", json={
+            "device_ids": [new_device["device_id"]],
+            "adres_klienta": address,
+            "rodzaj_zlecenia": "awaria",
+            "removed_serials": [old_device["numer_seryjny"]]
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Replacement of a damaged device failed: {response.status_code} - {response.text}")
+            return False
+        job = response.json()
+        if [r["device_id"] for r in job["removed_devices"]] != [old_device["device_id"]]:
+            self.log(f"❌ Damaged device not recorded with the job: {job['removed_devices']}")
+            return False
+            
+        removed = self.session.get(f"{API_BASE}/devices/{old_device['device_id']}").json()
+        if removed.get("status") != "zwrocony":
+            self.log(f"❌ Damaged device not moved to returns: {removed.get('status')}")
+            return False
+        self.log("✅ Damaged device taken away and sent to returns")
+        return True
+        
+    def test_stocktake_resolution(self):
+        """Test a stocktake from the first scan to the corrective actions on its report"""
+        self.log("📋 Testing stocktake resolution...")
+        
+        response = self.session.post(f"{API_BASE}/locations", json={
+            "type": "warehouse",
+            "name": f"Magazyn testowy {uuid.uuid4().hex[:6]}"
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Could not create test location: {response.status_code} - {response.text}")
+            return False
+        location_id = response.json()["location_id"]
+        
+        counted, missing, extra = self.add_test_device(location_id), self.add_test_device(location_id), self.add_test_device()
+        if not counted or not missing or not extra:
+            return False
+            
+        response = self.session.post(f"{API_BASE}/stocktakes", json={"location_id": location_id})
+        if response.status_code != 200:
+            self.log(f"❌ Could not open stocktake: {response.status_code} - {response.text}")
+            return False
+        stocktake_id = response.json()["stocktake_id"]
+        
+        for device, expected in ((counted, "matched"), (extra, "unexpected")):
+            result = self.session.post(f"{API_BASE}/stocktakes/{stocktake_id}/scan", json={"code": device["numer_seryjny"]}).json()
+            if result.get("result") != expected:
+                self.log(f"❌ Scan of {device['numer_seryjny']} gave {result.get('result')} instead of {expected}")
+                return False
+                
+        summary = self.session.post(f"{API_BASE}/stocktakes/{stocktake_id}/close").json().get("summary") or {}
+        if (summary.get("matched"), summary.get("missing"), summary.get("unexpected")) != (1, 1, 1):
+            self.log(f"❌ Unexpected report summary: {summary}")
+            return False
+        self.log("✅ Report lists matched, missing and unexpected devices")
+        
+        def resolve(device, action):
+            return self.session.post(f"{API_BASE}/stocktakes/{stocktake_id}/resolve", json={
+                "device_id": device["device_id"],
+                "action": action
+            })
+            
+        response = resolve(extra, "move_here")
+        moved = self.session.get(f"{API_BASE}/devices/{extra['device_id']}").json()
+        if response.status_code != 200 or moved.get("location_id") != location_id:
+            self.log(f"❌ Unexpected device not moved here: {response.status_code} - {response.text}")
+            return False
+        self.log("✅ Unexpected device moved to the counted location")
+        
+        response = resolve(missing, "write_off")
+        written_off = self.session.get(f"{API_BASE}/devices/{missing['device_id']}").json()
+        if response.status_code != 200 or written_off.get("status") != "zaginiony" or written_off.get("location_id"):
+            self.log(f"❌ Missing device not written off: {response.status_code} - {response.text}")
+            return False
+        self.log("✅ Missing device written off")
+        
+        if resolve(missing, "write_off").status_code != 400:
+            self.log("❌ A resolved entry was resolved again")
+            return False
+        if resolve(missing, "move_here").status_code != 400:
+            self.log("❌ Move here accepted for a missing device")
+            return False
+        self.log("✅ Resolved entries and actions for the wrong list rejected")
+        return True
+        
+    def test_device_lifecycle(self):
+        """Test that status changes follow the lifecycle (GET /api/devices/lifecycle)"""
+        self.log("🔄 Testing device lifecycle transitions...")
+        
+        response = self.session.get(f"{API_BASE}/devices/lifecycle")
+        if response.status_code != 200 or "return" not in response.json().get("actions", {}):
+            self.log(f"❌ Lifecycle rules not served: {response.status_code} - {response.text}")
+            return False
+            
+        device = self.add_test_device()
+        if not device:
+            return False
+            
+        # An available device was never installed, so it cannot be restored
+        response = self.session.post(f"{API_BASE}/devices/{device['device_id']}/restore")
+        if response.status_code != 409:
+            self.log(f"❌ Restore of an available device should be rejected but got: {response.status_code}")
+            return False
+        self.log("✅ Restore of an available device rejected")
+        
+        # A return goes through the lifecycle "return" action
+        response = self.session.post(f"{API_BASE}/returns", json={
+            "device_serial": device["numer_seryjny"],
+            "device_type": "ONT",
+            "device_status": "nowy/uszkodzony"
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Return failed: {response.status_code} - {response.text}")
+            return False
+        return_id = response.json()["return_id"]
+        
+        returned = self.session.get(f"{API_BASE}/devices/{device['device_id']}").json()
+        if returned.get("status") != "zwrocony" or returned.get("location_id") != "loc_main":
+            self.log(f"❌ Returned device not moved to the warehouse: {returned.get('status')} / {returned.get('location_id')}")
+            return False
+        self.log("✅ Returned device moved to returns in the main warehouse")
+        
+        # A returned device cannot be handed out again
+        response = self.session.post(f"{API_BASE}/devices/{device['device_id']}/assign", json={"worker_id": self.test_user_id})
+        if response.status_code != 409:
+            self.log(f"❌ Assigning a returned device should be rejected but got: {response.status_code}")
+            return False
+        self.log("✅ Assigning a returned device rejected")
+        
+        self.session.delete(f"{API_BASE}/returns/{return_id}")
+        return True
+        
+    def test_return_installed_device(self):
+        """Test POST /api/returns for a device brought back from a customer"""
+        self.log("↩️ Testing return of an installed device...")
+        
+        device = self.add_test_device()
+        if not device:
+            return False
+        response = self.session.post(f"{API_BASE}/installation-jobs", json={
+            "device_ids": [device["device_id"]],
+            "adres_klienta": "ul. Testowa 4, 25-001 Kielce",
+            "rodzaj_zlecenia": "instalacja"
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Installing the test device failed: {response.status_code} - {response.text}")
+            return False
+        job = response.json()
+        installation_id = job["installations"][0]["installation_id"]
+        
+        response = self.session.post(f"{API_BASE}/returns", json={
+            "device_serial": device["numer_seryjny"],
+            "device_type": "ONT",
+            "device_status": "z awarii"
+        })
+        if response.status_code != 200:
+            self.log(f"❌ Return of an installed device failed: {response.status_code} - {response.text}")
+            return False
+        return_id = response.json()["return_id"]
+        
+        returned = self.session.get(f"{API_BASE}/devices/{device['device_id']}").json()
+        if returned.get("status") != "zwrocony" or returned.get("location_id") != "loc_main":
+            self.log(f"❌ Installed device not moved to returns: {returned.get('status')} / {returned.get('location_id')}")
+            return False
+            
+        # The address history shows the device as taken away
+        installations = self.session.get(f"{API_BASE}/addresses/{job['address_id']}").json().get("installations", [])
+        installation = next((i for i in installations if i["installation_id"] == installation_id), None)
+        if not installation or not installation.get("removed_at"):
+            self.log("❌ Installation at the customer not closed")
+            return False
+        self.log("✅ Installed device dismantled and moved to returns")
+        
+        self.session.delete(f"{API_BASE}/returns/{return_id}")
+        return True
+        
     def run_all_tests(self):
         """Run all inventory API tests"""
         self.log("🚀 Starting Magazyn ITS Kielce Backend API Tests")
@@ -279,7 +768,16 @@ class InventoryAPITester:
             ("Create Test Device", self.create_test_device),
             ("Inventory Summary", self.test_inventory_summary),
             ("User Inventory", self.test_user_inventory),
-            ("Installation Endpoints", self.test_installation_endpoints)
+            ("Installation Endpoints", self.test_installation_endpoints),
+            ("Device Lifecycle", self.test_device_lifecycle),
+            ("Session Refresh", self.test_session_refresh),
+            ("Session Revocation", self.test_session_revocation),
+            ("Offline Queue Replay", self.test_outbox_replay),
+            ("Installation Jobs", self.test_installation_jobs),
+            ("Replacement Job", self.test_replacement_job),
+            ("Damaged Device Replacement", self.test_damaged_device_replacement),
+            ("Stocktake Resolution", self.test_stocktake_resolution),
+            ("Return Installed Device", self.test_return_installed_device)
         ]
         
         results = {}
@@ -0,0 +1,435 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import { getAddress, updateAddress } from '../src/utils/apiClient';
+import { pickAddressInput } from '../src/utils/addresses';
+import AddressPicker from '../src/components/AddressPicker';
+import { AddressInstallation, CustomerAddressDetail, CustomerAddressInput, DeviceRemovalReason } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+const REMOVAL_LABELS: Record<DeviceRemovalReason, string> = {
+  restore: 'przywrócone do magazynu',
+  mark_damaged: 'oznaczone jako uszkodzone',
+  dismantle: 'zdemontowane przy wymianie',
+};
+
+const ORDER_TYPE_COLORS: Record<string, string> = {
+  instalacja: '#3b82f6',
+  wymiana: '#8b5cf6',
+  awaria: '#f59e0b',
+};
+
+export default function AddressDetail() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const params = useLocalSearchParams<{ id: string }>();
+  const [address, setAddress] = useState<CustomerAddressDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Correcting the address (admin only)
+  const [editVisible, setEditVisible] = useState(false);
+  const [form, setForm] = useState<CustomerAddressInput | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+  }, [isLoading, isAuthenticated]);
+
+  const loadAddress = useCallback(async () => {
+    if (!params.id) return;
+    try {
+      setAddress(await getAddress(params.id));
+    } catch (error) {
+      console.error('Error loading address:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [params.id]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadAddress();
+    }
+  }, [isAuthenticated, loadAddress]);
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleString('pl-PL', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const openEdit = () => {
+    if (!address) return;
+    setForm(pickAddressInput(address));
+    setEditVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!address || !form) return;
+    setSaving(true);
+    try {
+      await updateAddress(address.address_id, form);
+      setEditVisible(false);
+      loadAddress();
+    } catch (error: any) {
+      showError(error.message || 'Nie udało się zapisać adresu');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderInstallation = (item: AddressInstallation) => (
+    <View key={item.installation_id} style={[styles.installationCard, item.current && styles.installationCurrent]}>
+      <View style={styles.installationHeader}>
+        <Ionicons
+          name={item.current ? 'checkmark-circle' : 'remove-circle-outline'}
+          size={20}
+          color={item.current ? '#10b981' : '#666'}
+        />
+        <Text style={styles.deviceName} numberOfLines={1}>{item.nazwa_urzadzenia}</Text>
+        <View style={[styles.typeBadge, { backgroundColor: ORDER_TYPE_COLORS[item.rodzaj_zlecenia] || '#666' }]}>
+          <Text style={styles.typeBadgeText}>{item.rodzaj_zlecenia}</Text>
+        </View>
+      </View>
+      {!!item.numer_seryjny && <Text style={styles.serial}>S/N: {item.numer_seryjny}</Text>}
+      <Text style={styles.meta}>
+        Zainstalowano {formatDate(item.data_instalacji)}
+        {item.installer_name ? ` • ${item.installer_name}` : ''}
+      </Text>
+      {item.removed_at ? (
+        <Text style={styles.removed}>
+          Zdemontowano {formatDate(item.removed_at)}
+          {item.removal_reason ? ` • ${REMOVAL_LABELS[item.removal_reason]}` : ''}
+          {item.removed_by_name ? ` • ${item.removed_by_name}` : ''}
+        </Text>
+      ) : !item.current && (
+        <Text style={styles.removed}>Urządzenie nie jest już u klienta</Text>
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+      </SafeAreaView>
+    );
+  }
+
+  const current = address?.installations.filter((i) => i.current) || [];
+  const history = address?.installations.filter((i) => !i.current) || [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Adres klienta</Text>
+        {isAdmin && address ? (
+          <TouchableOpacity onPress={openEdit} style={styles.backButton}>
+            <Ionicons name="create-outline" size={24} color="#3b82f6" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
+      </View>
+
+      {!address ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="home-outline" size={64} color="#333" />
+          <Text style={styles.emptyText}>Nie znaleziono adresu</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadAddress();
+              }}
+              tintColor="#3b82f6"
+            />
+          }
+        >
+          <View style={styles.addressCard}>
+            <Ionicons name="home" size={28} color="#3b82f6" />
+            <View style={styles.addressInfo}>
+              <Text style={styles.addressLabel}>{address.label}</Text>
+              {!!address.customer_name && <Text style={styles.addressMeta}>{address.customer_name}</Text>}
+              {!!address.phone && <Text style={styles.addressMeta}>tel. {address.phone}</Text>}
+            </View>
+          </View>
+
+          <Text style={styles.sectionTitle}>Zainstalowane teraz ({current.length})</Text>
+          {current.length === 0 ? (
+            <Text style={styles.sectionEmpty}>Brak urządzeń u klienta</Text>
+          ) : (
+            current.map(renderInstallation)
+          )}
+
+          <Text style={styles.sectionTitle}>Historia ({history.length})</Text>
+          {history.length === 0 ? (
+            <Text style={styles.sectionEmpty}>Brak zdemontowanych urządzeń</Text>
+          ) : (
+            history.map(renderInstallation)
+          )}
+        </ScrollView>
+      )}
+
+      {/* Edit Address Modal */}
+      <Modal
+        visible={editVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setEditVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Popraw adres</Text>
+              <TouchableOpacity onPress={() => setEditVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody} keyboardShouldPersistTaps="handled">
+              {form && (
+                <AddressPicker
+                  value={form}
+                  addressId={null}
+                  suggest={false}
+                  onChange={(value) => setForm(value)}
+                />
+              )}
+              <Text style={styles.hint}>
+                Zmiana obejmie też adres zapisany przy instalacjach i zainstalowanych urządzeniach.
+              </Text>
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={20} color="#fff" />
+                  <Text style={styles.submitButtonText}>Zapisz</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  content: {
+    padding: 16,
+  },
+  addressCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  addressInfo: {
+    flex: 1,
+  },
+  addressLabel: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  addressMeta: {
+    color: '#888',
+    fontSize: 14,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  sectionEmpty: {
+    color: '#666',
+    fontSize: 14,
+  },
+  installationCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+    borderLeftWidth: 3,
+    borderLeftColor: '#333',
+  },
+  installationCurrent: {
+    borderLeftColor: '#10b981',
+  },
+  installationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  deviceName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  typeBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  typeBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  serial: {
+    color: '#ccc',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  meta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  removed: {
+    color: '#f59e0b',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 16,
+    marginTop: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '85%',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    margin: 20,
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,373 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import { getAddresses, mergeAddresses } from '../src/utils/apiClient';
+import { CustomerAddress } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+const PAGE_SIZE = 50;
+const SEARCH_DELAY = 300;
+
+export default function Addresses() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Merging duplicates (admin only) - the first address picked is kept
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [merging, setMerging] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+  }, [isLoading, isAuthenticated]);
+
+  const loadAddresses = useCallback(async (query: string) => {
+    try {
+      setAddresses(await getAddresses(query.trim() || undefined, PAGE_SIZE));
+    } catch (error) {
+      console.error('Error loading addresses:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  // Runs again when the search changes and when coming back from an edited address
+  useFocusEffect(
+    useCallback(() => {
+      if (!isAuthenticated) return;
+      const timer = setTimeout(() => loadAddresses(search), SEARCH_DELAY);
+      return () => clearTimeout(timer);
+    }, [isAuthenticated, search, loadAddresses])
+  );
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const toggleSelected = (addressId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(addressId) ? prev.filter((id) => id !== addressId) : [...prev, addressId]
+    );
+  };
+
+  const handleMerge = () => {
+    const [targetId, ...sourceIds] = selectedIds;
+    const target = addresses.find((a) => a.address_id === targetId);
+    if (!target || sourceIds.length === 0) return;
+
+    const performMerge = async () => {
+      setMerging(true);
+      try {
+        const result = await mergeAddresses(targetId, sourceIds);
+        setSelectedIds([]);
+        loadAddresses(search);
+        if (Platform.OS === 'web') {
+          window.alert(result.message);
+        } else {
+          Alert.alert('Sukces', result.message);
+        }
+      } catch (error: any) {
+        showError(error.message || 'Nie udało się połączyć adresów');
+      } finally {
+        setMerging(false);
+      }
+    };
+
+    const message = `Historia ${sourceIds.length} pozostałych adresów zostanie przeniesiona do "${target.label}", a ich wpisy usunięte.`;
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) {
+        performMerge();
+      }
+      return;
+    }
+
+    Alert.alert('Połącz adresy', message, [
+      { text: 'Anuluj', style: 'cancel' },
+      { text: 'Połącz', onPress: performMerge },
+    ]);
+  };
+
+  const renderAddress = ({ item }: { item: CustomerAddress }) => {
+    const selectedIndex = selectedIds.indexOf(item.address_id);
+    const selecting = selectedIds.length > 0;
+
+    return (
+      <TouchableOpacity
+        style={[styles.card, selectedIndex >= 0 && styles.cardSelected]}
+        onPress={() => selecting ? toggleSelected(item.address_id) : router.push(`/address?id=${item.address_id}`)}
+        onLongPress={isAdmin ? () => toggleSelected(item.address_id) : undefined}
+      >
+        <View style={styles.cardIcon}>
+          {selectedIndex >= 0 ? (
+            <Text style={styles.selectedIndex}>{selectedIndex + 1}</Text>
+          ) : (
+            <Ionicons name="home-outline" size={22} color="#3b82f6" />
+          )}
+        </View>
+        <View style={styles.cardInfo}>
+          <Text style={styles.cardTitle}>{item.label}</Text>
+          {!!(item.customer_name || item.phone) && (
+            <Text style={styles.cardMeta}>
+              {[item.customer_name, item.phone].filter(Boolean).join(' • ')}
+            </Text>
+          )}
+          <Text style={styles.cardMeta}>
+            Zainstalowane: {item.installed_count || 0} • Wszystkie instalacje: {item.installations_count || 0}
+          </Text>
+        </View>
+        {!selecting && <Ionicons name="chevron-forward" size={20} color="#666" />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Klienci i adresy</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.searchBox}>
+        <Ionicons name="search" size={18} color="#888" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Ulica, miejscowość lub klient"
+          placeholderTextColor="#666"
+          value={search}
+          onChangeText={setSearch}
+          autoCorrect={false}
+        />
+        {!!search && (
+          <TouchableOpacity onPress={() => setSearch('')}>
+            <Ionicons name="close-circle" size={18} color="#666" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {isAdmin && selectedIds.length > 0 && (
+        <View style={styles.mergeBar}>
+          <Text style={styles.mergeText}>
+            Wybrano {selectedIds.length} • zostaje adres nr 1
+          </Text>
+          <TouchableOpacity onPress={() => setSelectedIds([])} style={styles.mergeCancel}>
+            <Text style={styles.mergeCancelText}>Anuluj</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.mergeButton, (selectedIds.length < 2 || merging) && styles.mergeButtonDisabled]}
+            onPress={handleMerge}
+            disabled={selectedIds.length < 2 || merging}
+          >
+            {merging ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.mergeButtonText}>Połącz</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={addresses}
+          renderItem={renderAddress}
+          keyExtractor={(item) => item.address_id}
+          contentContainerStyle={styles.listContainer}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadAddresses(search);
+              }}
+              tintColor="#3b82f6"
+            />
+          }
+          ListHeaderComponent={isAdmin ? (
+            <Text style={styles.hint}>
+              Przytrzymaj adres, aby zaznaczyć duplikaty i połączyć je w jeden wpis.
+            </Text>
+          ) : null}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="home-outline" size={64} color="#333" />
+              <Text style={styles.emptyText}>
+                {search.trim() ? 'Brak adresów pasujących do wyszukiwania' : 'Brak adresów w rejestrze'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginTop: 16,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    paddingVertical: 12,
+  },
+  mergeBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 12,
+  },
+  mergeText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  mergeCancel: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  mergeCancelText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  mergeButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  mergeButtonDisabled: {
+    opacity: 0.5,
+  },
+  mergeButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#1a1a1a',
+  },
+  cardSelected: {
+    borderColor: '#3b82f6',
+  },
+  cardIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#0a0a0a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  selectedIndex: {
+    color: '#3b82f6',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardMeta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
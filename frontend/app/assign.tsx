@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -15,25 +15,23 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Camera, CameraView } from 'expo-camera';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import { getWorkers, scanDevice, assignDevice, assignMultipleDevices } from '../src/utils/apiClient';
+import { ScanFeedback, signalScan } from '../src/utils/scanFeedback';
+import { extractSerial, useSerialRules } from '../src/utils/serialRules';
+import { Device, DeviceAssignResult, Worker } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 
-interface Device {
-  device_id: string;
-  nazwa: string;
-  numer_seryjny: string;
-  kod_kreskowy?: string;
-  kod_qr?: string;
-  przypisany_do?: string;
-  status: string;
-}
+type AssignMode = 'single' | 'batch';
 
-interface Worker {
-  user_id: string;
-  name: string;
-  email: string;
+// A scanned device waiting in the batch - flagged ones are not sent
+interface BatchEntry {
+  device: Device;
+  problem: string | null;
 }
 
+// The camera keeps reporting a code while it is in view, it counts again after this pause
+const RESCAN_INTERVAL = 2000;
+
 export default function AssignDevice() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
@@ -42,11 +40,22 @@ export default function AssignDevice() {
   const [isSearching, setIsSearching] = useState(false);
   const [foundDevice, setFoundDevice] = useState<Device | null>(null);
   const [workers, setWorkers] = useState<Worker[]>([]);
+  const serialRules = useSerialRules();
   const [selectedWorker, setSelectedWorker] = useState<Worker | null>(null);
   const [workerModalVisible, setWorkerModalVisible] = useState(false);
   const [isAssigning, setIsAssigning] = useState(false);
   const [recentAssignments, setRecentAssignments] = useState<Array<{device: Device; worker: Worker; time: Date}>>([]);
 
+  // Batch mode: the camera stays open and every scan lands in the list
+  const [mode, setMode] = useState<AssignMode>('single');
+  const [batch, setBatch] = useState<BatchEntry[]>([]);
+  const [lastScan, setLastScan] = useState<{ text: string; feedback: ScanFeedback } | null>(null);
+  const [batchResults, setBatchResults] = useState<DeviceAssignResult[] | null>(null);
+  const lastCodeRef = useRef<{ code: string; time: number } | null>(null);
+  const batchLookupRef = useRef(false);
+  const batchRef = useRef(batch);
+  batchRef.current = batch;
+
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       router.replace('/');
@@ -71,29 +80,19 @@ export default function AssignDevice() {
 
   const loadWorkers = async () => {
     try {
-      const data = await apiFetch('/api/workers');
+      const data = await getWorkers();
       setWorkers(data);
     } catch (error) {
       console.error('Error loading workers:', error);
     }
   };
 
-  const parseScannedData = (rawData: string): string => {
-    let data = rawData.trim();
-    if (data.includes('\n') || data.includes('\r')) {
-      const lines = data.split(/[\r\n]+/).filter(line => line.trim());
-      for (const line of lines) {
-        if (line.match(/^S[N]?[0-9A-Z]/i) || line.match(/^[0-9]{2}S[A-Z0-9]/i)) {
-          return line.trim();
-        }
-      }
-      return lines[0]?.trim() || data;
-    }
-    return data;
-  };
-
   const handleBarCodeScanned = async ({ type, data }: { type: string; data: string }) => {
-    const parsedCode = parseScannedData(data);
+    const parsedCode = extractSerial(data, serialRules).serial;
+    if (mode === 'batch') {
+      addToBatch(parsedCode);
+      return;
+    }
     setShowCamera(false);
     setSearchQuery(parsedCode);
     await searchDevice(parsedCode);
@@ -109,7 +108,7 @@ export default function AssignDevice() {
     setFoundDevice(null);
     
     try {
-      const device = await apiFetch(`/api/devices/scan/${encodeURIComponent(code.trim())}`);
+      const device = await scanDevice(code);
       setFoundDevice(device);
     } catch (error: any) {
       Alert.alert('Nie znaleziono', `Urządzenie o kodzie "${code}" nie istnieje w systemie.`);
@@ -118,15 +117,101 @@ export default function AssignDevice() {
     }
   };
 
+  const reportScan = (text: string, feedback: ScanFeedback) => {
+    setLastScan({ text, feedback });
+    signalScan(feedback);
+  };
+
+  const addToBatch = async (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+
+    const now = Date.now();
+    const last = lastCodeRef.current;
+    lastCodeRef.current = { code: trimmed, time: now };
+    if ((last && last.code === trimmed && now - last.time < RESCAN_INTERVAL) || batchLookupRef.current) return;
+
+    batchLookupRef.current = true;
+    setIsSearching(true);
+    try {
+      const device = await scanDevice(trimmed);
+      if (batchRef.current.some((entry) => entry.device.device_id === device.device_id)) {
+        reportScan(`${device.numer_seryjny} jest już na liście`, 'warning');
+        return;
+      }
+
+      const problem = device.status === 'dostepny' ? null : `Status: ${device.status}`;
+      setBatch((prev) => [{ device, problem }, ...prev]);
+      if (problem) {
+        reportScan(`${device.numer_seryjny} - nie można przypisać (${device.status})`, 'error');
+      } else {
+        reportScan(`Dodano ${device.nazwa} ${device.numer_seryjny}`, 'success');
+      }
+    } catch {
+      reportScan(`Nie znaleziono urządzenia "${trimmed}"`, 'error');
+    } finally {
+      batchLookupRef.current = false;
+      setIsSearching(false);
+    }
+  };
+
+  const handleManualSearch = () => {
+    if (mode === 'single') {
+      searchDevice(searchQuery);
+      return;
+    }
+    // Typing the same code again is deliberate, unlike the camera repeating itself
+    lastCodeRef.current = null;
+    addToBatch(searchQuery);
+    setSearchQuery('');
+  };
+
+  const removeFromBatch = (deviceId: string) => {
+    setBatch((prev) => prev.filter((entry) => entry.device.device_id !== deviceId));
+  };
+
+  const readyEntries = batch.filter((entry) => !entry.problem);
+  const flaggedCount = batch.length - readyEntries.length;
+
+  const handleBatchAssign = async () => {
+    if (!selectedWorker || readyEntries.length === 0) return;
+
+    setIsAssigning(true);
+    try {
+      const result = await assignMultipleDevices(
+        readyEntries.map((entry) => entry.device.device_id),
+        selectedWorker.user_id
+      );
+      setBatchResults(result.results);
+
+      // Assigned devices leave the list, the rest stays for a second look
+      const assignedIds = new Set(result.results.filter((r) => r.assigned).map((r) => r.device_id));
+      const assignedEntries = readyEntries.filter((entry) => assignedIds.has(entry.device.device_id));
+      setBatch((prev) => prev.filter((entry) => !assignedIds.has(entry.device.device_id)));
+      setRecentAssignments((prev) => [
+        ...assignedEntries.map((entry) => ({ device: entry.device, worker: selectedWorker, time: new Date() })),
+        ...prev,
+      ].slice(0, 10));
+      signalScan(result.skipped > 0 ? 'warning' : 'success');
+    } catch (error: any) {
+      Alert.alert('Błąd', error.message || 'Nie udało się przypisać urządzeń');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const switchMode = (nextMode: AssignMode) => {
+    resetForm();
+    setMode(nextMode);
+    setShowCamera(nextMode === 'batch' && !!hasPermission);
+  };
+
   const handleAssign = async () => {
     if (!foundDevice || !selectedWorker) return;
     
     setIsAssigning(true);
     try {
-      await apiFetch(`/api/devices/${foundDevice.device_id}/assign`, {
-        method: 'POST',
-        body: { worker_id: selectedWorker.user_id },
-      });
+      await assignDevice(foundDevice.device_id, selectedWorker.user_id);
       
       // Add to recent assignments
       setRecentAssignments(prev => [
@@ -150,12 +235,55 @@ export default function AssignDevice() {
     setFoundDevice(null);
     setSearchQuery('');
     setSelectedWorker(null);
+    setBatch([]);
+    setBatchResults(null);
+    setLastScan(null);
+    lastCodeRef.current = null;
   };
 
   const getWorkerById = (userId: string) => {
     return workers.find(w => w.user_id === userId);
   };
 
+  const renderWorkerStep = (step: number) => (
+    <View style={styles.stepSection}>
+      <View style={styles.stepHeader}>
+        <View style={[styles.stepNumber, selectedWorker && styles.stepNumberActive]}>
+          {selectedWorker ? (
+            <Ionicons name="checkmark" size={16} color="#fff" />
+          ) : (
+            <Text style={styles.stepNumberText}>{step}</Text>
+          )}
+        </View>
+        <Text style={styles.stepTitle}>Wybierz pracownika</Text>
+      </View>
+
+      <TouchableOpacity
+        style={styles.selectWorkerButton}
+        onPress={() => setWorkerModalVisible(true)}
+      >
+        {selectedWorker ? (
+          <View style={styles.selectedWorkerInfo}>
+            <View style={styles.workerAvatar}>
+              <Ionicons name="person" size={24} color="#fff" />
+            </View>
+            <View style={styles.workerDetails}>
+              <Text style={styles.workerName}>{selectedWorker.name}</Text>
+              <Text style={styles.workerEmail}>{selectedWorker.email}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={24} color="#888" />
+          </View>
+        ) : (
+          <View style={styles.selectWorkerPlaceholder}>
+            <Ionicons name="person-add" size={24} color="#3b82f6" />
+            <Text style={styles.selectWorkerText}>Wybierz pracownika</Text>
+            <Ionicons name="chevron-forward" size={24} color="#888" />
+          </View>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -176,14 +304,37 @@ export default function AssignDevice() {
         </TouchableOpacity>
       </View>
 
-      <ScrollView style={styles.content}>
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.modeToggle}>
+          <TouchableOpacity
+            style={[styles.modeButton, mode === 'single' && styles.modeButtonActive]}
+            onPress={() => switchMode('single')}
+          >
+            <Ionicons name="hardware-chip-outline" size={18} color={mode === 'single' ? '#fff' : '#888'} />
+            <Text style={[styles.modeButtonText, mode === 'single' && styles.modeButtonTextActive]}>
+              Pojedynczo
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.modeButton, mode === 'batch' && styles.modeButtonActive]}
+            onPress={() => switchMode('batch')}
+          >
+            <Ionicons name="layers-outline" size={18} color={mode === 'batch' ? '#fff' : '#888'} />
+            <Text style={[styles.modeButtonText, mode === 'batch' && styles.modeButtonTextActive]}>
+              Seria
+            </Text>
+          </TouchableOpacity>
+        </View>
+
         {/* Step 1: Find Device */}
         <View style={styles.stepSection}>
           <View style={styles.stepHeader}>
             <View style={styles.stepNumber}>
               <Text style={styles.stepNumberText}>1</Text>
             </View>
-            <Text style={styles.stepTitle}>Znajdź urządzenie</Text>
+            <Text style={styles.stepTitle}>
+              {mode === 'batch' ? 'Skanuj urządzenia' : 'Znajdź urządzenie'}
+            </Text>
           </View>
 
           {/* Scanner */}
@@ -206,7 +357,9 @@ export default function AssignDevice() {
                 <Ionicons name="close" size={24} color="#fff" />
               </TouchableOpacity>
               <View style={styles.scanHint}>
-                <Text style={styles.scanHintText}>Skieruj kamerę na kod</Text>
+                <Text style={styles.scanHintText}>
+                  {mode === 'batch' ? 'Skanuj kolejne kody' : 'Skieruj kamerę na kod'}
+                </Text>
               </View>
             </View>
           ) : (
@@ -233,12 +386,12 @@ export default function AssignDevice() {
                 value={searchQuery}
                 onChangeText={setSearchQuery}
                 autoCapitalize="characters"
-                onSubmitEditing={() => searchDevice(searchQuery)}
+                onSubmitEditing={handleManualSearch}
                 returnKeyType="search"
               />
               <TouchableOpacity
                 style={styles.searchButton}
-                onPress={() => searchDevice(searchQuery)}
+                onPress={handleManualSearch}
                 disabled={isSearching}
               >
                 {isSearching ? (
@@ -251,8 +404,106 @@ export default function AssignDevice() {
           </View>
         </View>
 
+        {/* Result of the last batch scan */}
+        {mode === 'batch' && lastScan && (
+          <View style={[
+            styles.lastScanBanner,
+            lastScan.feedback === 'warning' && styles.lastScanBannerWarning,
+            lastScan.feedback === 'error' && styles.lastScanBannerError,
+          ]}>
+            <Ionicons
+              name={lastScan.feedback === 'success' ? 'checkmark-circle' : lastScan.feedback === 'warning' ? 'copy' : 'alert-circle'}
+              size={20}
+              color="#fff"
+            />
+            <Text style={styles.lastScanText}>{lastScan.text}</Text>
+          </View>
+        )}
+
+        {/* Batch List */}
+        {mode === 'batch' && batch.length > 0 && (
+          <View style={styles.stepSection}>
+            <View style={styles.batchHeader}>
+              <Text style={styles.recentTitle}>
+                Do przypisania: {readyEntries.length}
+                {flaggedCount > 0 ? ` · odrzucone: ${flaggedCount}` : ''}
+              </Text>
+              <TouchableOpacity onPress={() => setBatch([])}>
+                <Text style={styles.batchClearText}>Wyczyść</Text>
+              </TouchableOpacity>
+            </View>
+            {batch.map((entry) => (
+              <View
+                key={entry.device.device_id}
+                style={[styles.recentItem, !!entry.problem && styles.batchItemFlagged]}
+              >
+                <View style={styles.recentIcon}>
+                  <Ionicons
+                    name={entry.problem ? 'alert-circle' : 'hardware-chip'}
+                    size={20}
+                    color={entry.problem ? '#ef4444' : '#3b82f6'}
+                  />
+                </View>
+                <View style={styles.recentInfo}>
+                  <Text style={styles.recentDevice}>{entry.device.nazwa}</Text>
+                  <Text style={styles.recentDetails}>
+                    {entry.device.numer_seryjny}
+                    {entry.problem ? ` · ${entry.problem}` : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => removeFromBatch(entry.device.device_id)}>
+                  <Ionicons name="close-circle" size={22} color="#666" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {mode === 'batch' && readyEntries.length > 0 && renderWorkerStep(2)}
+
+        {mode === 'batch' && readyEntries.length > 0 && selectedWorker && (
+          <TouchableOpacity
+            style={styles.assignButton}
+            onPress={handleBatchAssign}
+            disabled={isAssigning}
+          >
+            {isAssigning ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="checkmark-done-circle" size={24} color="#fff" />
+                <Text style={styles.assignButtonText}>Przypisz {readyEntries.length} urządzeń</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {/* Per-device summary of the last batch */}
+        {mode === 'batch' && batchResults && (
+          <View style={styles.recentSection}>
+            <Text style={styles.recentTitle}>
+              Wynik: przypisano {batchResults.filter((r) => r.assigned).length} z {batchResults.length}
+            </Text>
+            {batchResults.map((result) => (
+              <View key={result.device_id} style={styles.recentItem}>
+                <View style={styles.recentIcon}>
+                  <Ionicons
+                    name={result.assigned ? 'checkmark-circle' : 'close-circle'}
+                    size={20}
+                    color={result.assigned ? '#10b981' : '#ef4444'}
+                  />
+                </View>
+                <View style={styles.recentInfo}>
+                  <Text style={styles.recentDevice}>{result.numer_seryjny || result.device_id}</Text>
+                  {!!result.reason && <Text style={styles.recentDetails}>{result.reason}</Text>}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Device Info */}
-        {foundDevice && (
+        {mode === 'single' && foundDevice && (
           <View style={styles.stepSection}>
             <View style={styles.stepHeader}>
               <View style={[styles.stepNumber, styles.stepNumberActive]}>
@@ -298,47 +549,10 @@ export default function AssignDevice() {
         )}
 
         {/* Step 2: Select Worker */}
-        {foundDevice && (
-          <View style={styles.stepSection}>
-            <View style={styles.stepHeader}>
-              <View style={[styles.stepNumber, selectedWorker && styles.stepNumberActive]}>
-                {selectedWorker ? (
-                  <Ionicons name="checkmark" size={16} color="#fff" />
-                ) : (
-                  <Text style={styles.stepNumberText}>2</Text>
-                )}
-              </View>
-              <Text style={styles.stepTitle}>Wybierz pracownika</Text>
-            </View>
-
-            <TouchableOpacity
-              style={styles.selectWorkerButton}
-              onPress={() => setWorkerModalVisible(true)}
-            >
-              {selectedWorker ? (
-                <View style={styles.selectedWorkerInfo}>
-                  <View style={styles.workerAvatar}>
-                    <Ionicons name="person" size={24} color="#fff" />
-                  </View>
-                  <View style={styles.workerDetails}>
-                    <Text style={styles.workerName}>{selectedWorker.name}</Text>
-                    <Text style={styles.workerEmail}>{selectedWorker.email}</Text>
-                  </View>
-                  <Ionicons name="chevron-forward" size={24} color="#888" />
-                </View>
-              ) : (
-                <View style={styles.selectWorkerPlaceholder}>
-                  <Ionicons name="person-add" size={24} color="#3b82f6" />
-                  <Text style={styles.selectWorkerText}>Wybierz pracownika</Text>
-                  <Ionicons name="chevron-forward" size={24} color="#888" />
-                </View>
-              )}
-            </TouchableOpacity>
-          </View>
-        )}
+        {mode === 'single' && foundDevice && renderWorkerStep(2)}
 
         {/* Assign Button */}
-        {foundDevice && selectedWorker && (
+        {mode === 'single' && foundDevice && selectedWorker && (
           <TouchableOpacity
             style={styles.assignButton}
             onPress={handleAssign}
@@ -471,6 +685,33 @@ const styles = StyleSheet.create({
   resetButton: {
     padding: 8,
   },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 20,
+  },
+  modeButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    gap: 6,
+  },
+  modeButtonActive: {
+    backgroundColor: '#3b82f6',
+  },
+  modeButtonText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  modeButtonTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
   content: {
     flex: 1,
     padding: 16,
@@ -749,6 +990,41 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
+  lastScanBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#10b981',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  lastScanBannerWarning: {
+    backgroundColor: '#f59e0b',
+  },
+  lastScanBannerError: {
+    backgroundColor: '#ef4444',
+  },
+  lastScanText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  batchHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  batchClearText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  batchItemFlagged: {
+    borderWidth: 1,
+    borderColor: '#ef4444',
+  },
   recentTime: {
     color: '#666',
     fontSize: 12,
@@ -14,38 +14,20 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import {
+  getBackupSettings,
+  getBackupLogs,
+  updateBackupSettings,
+  createBackup,
+  testEmailBackup,
+  testFtpBackup,
+  importBackupJson,
+  importBackupExcel,
+} from '../src/utils/apiClient';
+import { getAccessToken } from '../src/utils/api';
+import { BackupSettings, BackupLog } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 
-interface BackupSettings {
-  smtp_host: string;
-  smtp_port: number;
-  smtp_user: string;
-  smtp_password: string;
-  smtp_use_tls: boolean;
-  email_recipient: string;
-  email_enabled: boolean;
-  ftp_host: string;
-  ftp_port: number;
-  ftp_user: string;
-  ftp_password: string;
-  ftp_path: string;
-  ftp_enabled: boolean;
-  schedule_enabled: boolean;
-  schedule_time: string;
-}
-
-interface BackupLog {
-  backup_id: string;
-  created_at: string;
-  size_bytes: number;
-  status: string;
-  sent_email: boolean;
-  sent_ftp: boolean;
-  downloaded?: boolean;
-  error_message?: string;
-}
-
 const SCHEDULE_TIMES = [
   '00:00', '01:00', '02:00', '03:00', '04:00', '05:00',
   '06:00', '07:00', '08:00', '09:00', '10:00', '11:00',
@@ -102,7 +84,7 @@ export default function BackupScreen() {
 
   const loadSettings = async () => {
     try {
-      const data = await apiFetch('/api/backup/settings');
+      const data = await getBackupSettings();
       setSettings(prev => ({ ...prev, ...data }));
     } catch (error) {
       console.error('Error loading backup settings:', error);
@@ -113,7 +95,7 @@ export default function BackupScreen() {
 
   const loadLogs = async () => {
     try {
-      const data = await apiFetch('/api/backup/logs');
+      const data = await getBackupLogs();
       setLogs(data);
     } catch (error) {
       console.error('Error loading backup logs:', error);
@@ -123,10 +105,7 @@ export default function BackupScreen() {
   const saveSettings = async () => {
     setSavingSettings(true);
     try {
-      await apiFetch('/api/backup/settings', {
-        method: 'POST',
-        body: settings
-      });
+      await updateBackupSettings(settings);
       Alert.alert('Sukces', 'Ustawienia zostały zapisane');
     } catch (error: any) {
       Alert.alert('Błąd', error.message || 'Nie udało się zapisać ustawień');
@@ -135,13 +114,10 @@ export default function BackupScreen() {
     }
   };
 
-  const createBackup = async (sendEmail: boolean = false, sendFtp: boolean = false) => {
+  const handleCreateBackup = async (sendEmail: boolean = false, sendFtp: boolean = false) => {
     setCreatingBackup(true);
     try {
-      const result = await apiFetch('/api/backup/create', {
-        method: 'POST',
-        body: { send_email: sendEmail, send_ftp: sendFtp }
-      });
+      const result = await createBackup({ send_email: sendEmail, send_ftp: sendFtp });
       
       let message = `Kopia zapasowa została utworzona.\nRozmiar: ${(result.size_bytes / 1024).toFixed(2)} KB`;
       
@@ -169,7 +145,7 @@ export default function BackupScreen() {
     try {
       if (Platform.OS === 'web') {
         // For web, trigger download
-        const token = await require('@react-native-async-storage/async-storage').default.getItem('session_token');
+        const token = await getAccessToken();
         const response = await fetch('/api/backup/download', {
           headers: { 'Authorization': `Bearer ${token}` }
         });
@@ -201,7 +177,7 @@ export default function BackupScreen() {
   const testEmail = async () => {
     setTestingEmail(true);
     try {
-      await apiFetch('/api/backup/test-email', { method: 'POST' });
+      await testEmailBackup();
       Alert.alert('Sukces', 'Email testowy został wysłany. Sprawdź skrzynkę odbiorczą.');
     } catch (error: any) {
       Alert.alert('Błąd', error.message || 'Nie udało się wysłać emaila testowego');
@@ -213,7 +189,7 @@ export default function BackupScreen() {
   const testFtp = async () => {
     setTestingFtp(true);
     try {
-      await apiFetch('/api/backup/test-ftp', { method: 'POST' });
+      await testFtpBackup();
       Alert.alert('Sukces', 'Plik testowy został wysłany na FTP.');
     } catch (error: any) {
       Alert.alert('Błąd', error.message || 'Nie udało się wysłać pliku na FTP');
@@ -226,7 +202,7 @@ export default function BackupScreen() {
     setDownloadingExcel(true);
     try {
       if (Platform.OS === 'web') {
-        const token = await require('@react-native-async-storage/async-storage').default.getItem('session_token');
+        const token = await getAccessToken();
         const response = await fetch('/api/backup/download-excel', {
           headers: { 'Authorization': `Bearer ${token}` }
         });
@@ -255,7 +231,7 @@ export default function BackupScreen() {
     }
   };
 
-  const importBackupJSON = async () => {
+  const handleImportBackupJSON = async () => {
     if (Platform.OS !== 'web') {
       Alert.alert('Info', 'Import jest dostępny tylko w wersji webowej');
       return;
@@ -270,23 +246,8 @@ export default function BackupScreen() {
       
       setImportingBackup(true);
       try {
-        const token = await require('@react-native-async-storage/async-storage').default.getItem('session_token');
-        const formData = new FormData();
-        formData.append('file', file);
-        
-        const response = await fetch('/api/backup/import-json', {
-          method: 'POST',
-          headers: { 'Authorization': `Bearer ${token}` },
-          body: formData
-        });
-        
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.detail || 'Nie udało się zaimportować kopii');
-        }
-        
-        const result = await response.json();
-        Alert.alert('Sukces', `Import zakończony!\n\nZaimportowano:\n- Użytkownicy: ${result.users || 0}\n- Urządzenia: ${result.devices || 0}\n- Instalacje: ${result.installations || 0}\n- Zadania: ${result.tasks || 0}\n- Wiadomości: ${result.messages || 0}`);
+        const result = await importBackupJson(file);
+        Alert.alert('Sukces', `Import zakończony!\n\nZaimportowano:\n- Użytkownicy: ${result.users || 0}\n- Modele urządzeń: ${result.device_models || 0}\n- Lokalizacje: ${result.locations || 0}\n- Urządzenia: ${result.devices || 0}\n- Adresy klientów: ${result.customer_addresses || 0}\n- Instalacje: ${result.installations || 0}\n- Zlecenia instalacyjne: ${result.installation_jobs || 0}\n- Zadania: ${result.tasks || 0}\n- Wiadomości: ${result.messages || 0}\n- Rozmowy: ${result.chat_channels || 0}\n- Załączniki: ${result.attachments || 0}\n- Reguły numerów seryjnych: ${result.serial_rules || 0}\n- Stany minimalne: ${result.stock_levels || 0}\n- Inwentaryzacje: ${result.stocktakes || 0}\n- Importy urządzeń: ${result.import_batches || 0}`);
         loadLogs();
       } catch (error: any) {
         Alert.alert('Błąd', error.message || 'Nie udało się zaimportować kopii');
@@ -297,7 +258,7 @@ export default function BackupScreen() {
     input.click();
   };
 
-  const importBackupExcel = async () => {
+  const handleImportBackupExcel = async () => {
     if (Platform.OS !== 'web') {
       Alert.alert('Info', 'Import jest dostępny tylko w wersji webowej');
       return;
@@ -312,22 +273,7 @@ export default function BackupScreen() {
       
       setImportingBackup(true);
       try {
-        const token = await require('@react-native-async-storage/async-storage').default.getItem('session_token');
-        const formData = new FormData();
-        formData.append('file', file);
-        
-        const response = await fetch('/api/backup/import-excel', {
-          method: 'POST',
-          headers: { 'Authorization': `Bearer ${token}` },
-          body: formData
-        });
-        
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.detail || 'Nie udało się zaimportować kopii Excel');
-        }
-        
-        const result = await response.json();
+        const result = await importBackupExcel(file);
         Alert.alert('Sukces', `Import Excel zakończony!\n\nZaimportowano:\n- Użytkownicy: ${result.users || 0}\n- Urządzenia: ${result.devices || 0}\n- Instalacje: ${result.installations || 0}\n- Zadania: ${result.tasks || 0}`);
         loadLogs();
       } catch (error: any) {
@@ -452,7 +398,7 @@ export default function BackupScreen() {
               <View style={styles.buttonRow}>
                 <TouchableOpacity
                   style={[styles.secondaryButton, !settings.email_enabled && styles.buttonDisabled]}
-                  onPress={() => createBackup(true, false)}
+                  onPress={() => handleCreateBackup(true, false)}
                   disabled={creatingBackup || !settings.email_enabled}
                 >
                   <Ionicons name="mail" size={20} color={settings.email_enabled ? '#3b82f6' : '#666'} />
@@ -463,7 +409,7 @@ export default function BackupScreen() {
 
                 <TouchableOpacity
                   style={[styles.secondaryButton, !settings.ftp_enabled && styles.buttonDisabled]}
-                  onPress={() => createBackup(false, true)}
+                  onPress={() => handleCreateBackup(false, true)}
                   disabled={creatingBackup || !settings.ftp_enabled}
                 >
                   <Ionicons name="server" size={20} color={settings.ftp_enabled ? '#3b82f6' : '#666'} />
@@ -491,7 +437,7 @@ export default function BackupScreen() {
               <View style={styles.buttonRow}>
                 <TouchableOpacity
                   style={[styles.importButton, { backgroundColor: '#f59e0b' }]}
-                  onPress={importBackupJSON}
+                  onPress={handleImportBackupJSON}
                   disabled={importingBackup}
                 >
                   {importingBackup ? (
@@ -506,7 +452,7 @@ export default function BackupScreen() {
 
                 <TouchableOpacity
                   style={[styles.importButton, { backgroundColor: '#8b5cf6' }]}
-                  onPress={importBackupExcel}
+                  onPress={handleImportBackupExcel}
                   disabled={importingBackup}
                 >
                   {importingBackup ? (
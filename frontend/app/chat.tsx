@@ -10,13 +10,35 @@ import {
   Platform,
   Image,
   ActivityIndicator,
+  Modal,
+  ScrollView,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '../src/context/AuthContext';
 import { useNotifications } from '../src/context/NotificationContext';
-import { apiFetch } from '../src/utils/api';
+import { useRealtimeEvent, usePollingFallback } from '../src/context/RealtimeContext';
+import {
+  getAttachmentUrl,
+  getChannels,
+  getMessages,
+  getReadReceipts,
+  sendMessage,
+  getDevices,
+  getTasks,
+  getInstallations,
+  uploadAttachment,
+} from '../src/utils/apiClient';
+import { RequestOptions } from '../src/utils/api';
+import {
+  ChatReadCursor,
+  GENERAL_CHANNEL_ID,
+  Message,
+  MessageReference,
+  MessageReferenceType,
+} from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
@@ -24,6 +46,21 @@ import { pl } from 'date-fns/locale';
 
 const WARSAW_TZ = 'Europe/Warsaw';
 
+// Max rows shown per tab in the reference picker
+const REFERENCE_PICKER_LIMIT = 30;
+
+interface ReferenceOption {
+  id: string;
+  title: string;
+  subtitle: string;
+}
+
+const REFERENCE_TABS: { key: MessageReferenceType; label: string; icon: string }[] = [
+  { key: 'device', label: 'Urządzenie', icon: 'hardware-chip-outline' },
+  { key: 'task', label: 'Zadanie', icon: 'clipboard-outline' },
+  { key: 'installation', label: 'Instalacja', icon: 'construct-outline' },
+];
+
 // Helper to format date in Warsaw timezone
 const formatInWarsaw = (dateStr: string, formatStr: string) => {
   const date = new Date(dateStr);
@@ -31,24 +68,27 @@ const formatInWarsaw = (dateStr: string, formatStr: string) => {
   return format(warsawDate, formatStr, { locale: pl });
 };
 
-interface Message {
-  message_id: string;
-  sender_id: string;
-  sender_name: string;
-  content?: string;
-  attachment?: string;
-  attachment_type?: string;
-  created_at: string;
-}
-
 export default function Chat() {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { user, sessionToken, isAuthenticated, isLoading } = useAuth();
   const { markChatAsRead } = useNotifications();
+  const { channel } = useLocalSearchParams<{ channel?: string }>();
+  const channelId = channel || GENERAL_CHANNEL_ID;
+  const [channelName, setChannelName] = useState('Czat zespołu');
   const [messages, setMessages] = useState<Message[]>([]);
+  const [readReceipts, setReadReceipts] = useState<ChatReadCursor[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [sending, setSending] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const flatListRef = useRef<FlatList>(null);
+  // Full-size photo opened from the message list
+  const [previewImageUri, setPreviewImageUri] = useState<string | null>(null);
+  
+  // Reference picker (device / task / installation card)
+  const [referenceModalVisible, setReferenceModalVisible] = useState(false);
+  const [referenceType, setReferenceType] = useState<MessageReferenceType>('device');
+  const [referenceSearch, setReferenceSearch] = useState('');
+  const [referenceOptions, setReferenceOptions] = useState<ReferenceOption[]>([]);
+  const [referenceLoading, setReferenceLoading] = useState(false);
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -56,10 +96,18 @@ export default function Chat() {
     }
   }, [isLoading, isAuthenticated]);
 
-  const loadMessages = async () => {
+  const loadMessages = async (options: RequestOptions = {}) => {
     try {
-      const data = await apiFetch('/api/messages?limit=100');
+      const [data, receipts] = await Promise.all([
+        getMessages({ channel_id: channelId, limit: 100 }, options),
+        getReadReceipts(channelId, options),
+      ]);
       setMessages(data);
+      setReadReceipts(receipts);
+      // Everything on screen counts as read
+      if (data.length > 0) {
+        markChatAsRead(channelId, data[data.length - 1].message_id, options);
+      }
     } catch (error) {
       console.error('Error loading messages:', error);
     }
@@ -68,23 +116,56 @@ export default function Chat() {
   useEffect(() => {
     if (isAuthenticated) {
       loadMessages();
-      // Mark chat as read when entering chat screen
-      markChatAsRead();
-      // Poll for new messages every 5 seconds
-      const interval = setInterval(loadMessages, 5000);
-      return () => clearInterval(interval);
+      if (channelId !== GENERAL_CHANNEL_ID) {
+        getChannels()
+          .then((channels) => {
+            const current = channels.find((c) => c.channel_id === channelId);
+            if (current) setChannelName(current.name);
+          })
+          .catch(() => {});
+      }
     }
-  }, [isAuthenticated]);
+  }, [isAuthenticated, channelId]);
+
+  // New messages are pushed over the socket; poll only while it is down
+  usePollingFallback(loadMessages, 5000);
+
+  useRealtimeEvent('message:new', (message) => {
+    if (message.channel_id !== channelId) return;
+    setMessages((prev) =>
+      prev.some((m) => m.message_id === message.message_id) ? prev : [...prev, message]
+    );
+    markChatAsRead(channelId, message.message_id);
+  });
+
+  // The group was removed while it was open
+  useRealtimeEvent('channel:deleted', ({ channel_id }) => {
+    if (channel_id === channelId) {
+      router.back();
+    }
+  });
+
+  useRealtimeEvent('message:read', (cursor) => {
+    if (cursor.channel_id !== channelId) return;
+    setReadReceipts((prev) => [...prev.filter((r) => r.user_id !== cursor.user_id), cursor]);
+  });
+
+  // Other users whose read cursor has reached the message
+  const getSeenBy = (message: Message) =>
+    readReceipts.filter((r) =>
+      r.user_id !== message.sender_id &&
+      r.last_read_at &&
+      new Date(r.last_read_at) >= new Date(message.created_at)
+    );
+
+  const lastOwnMessageId = [...messages].reverse().find((m) => m.sender_id === user?.user_id)?.message_id;
 
   const handleSend = async () => {
     if (!newMessage.trim()) return;
     
     setSending(true);
     try {
-      await apiFetch('/api/messages', {
-        method: 'POST',
-        body: { content: newMessage.trim() },
-      });
+      await sendMessage({ channel_id: channelId, content: newMessage.trim() });
       setNewMessage('');
       await loadMessages();
       flatListRef.current?.scrollToEnd();
@@ -100,31 +181,166 @@ export default function Chat() {
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
       allowsEditing: true,
       quality: 0.5,
-      base64: true,
     });
 
-    if (!result.canceled && result.assets[0].base64) {
+    if (!result.canceled && result.assets[0]) {
+      const asset = result.assets[0];
       setSending(true);
       try {
-        await apiFetch('/api/messages', {
-          method: 'POST',
-          body: {
-            attachment: `data:image/jpeg;base64,${result.assets[0].base64}`,
-            attachment_type: 'image',
-          },
+        // Upload once, the message only keeps the attachment id
+        const attachment = await uploadAttachment({
+          uri: asset.uri,
+          name: asset.fileName || 'zdjecie.jpg',
+          type: asset.mimeType || 'image/jpeg',
         });
+        await sendMessage({ channel_id: channelId, attachment_id: attachment.attachment_id });
         await loadMessages();
         flatListRef.current?.scrollToEnd();
-      } catch (error) {
+      } catch (error: any) {
         console.error('Error sending image:', error);
+        Alert.alert('Błąd', error.message);
       } finally {
         setSending(false);
       }
     }
   };
 
+  const loadReferenceOptions = async (type: MessageReferenceType) => {
+    // Devices are searched on the server by the effect below
+    if (type === 'device') return;
+    setReferenceLoading(true);
+    try {
+      if (type === 'task') {
+        const tasks = await getTasks();
+        setReferenceOptions(tasks.map((t) => ({
+          id: t.task_id,
+          title: t.title,
+          subtitle: formatInWarsaw(t.due_date, 'd MMM, HH:mm'),
+        })));
+      } else {
+        const installations = await getInstallations();
+        setReferenceOptions(installations.map((i) => ({
+          id: i.installation_id,
+          title: i.nazwa_urzadzenia,
+          subtitle: [i.numer_seryjny, i.adres_klienta || i.adres].filter(Boolean).join(' • '),
+        })));
+      }
+    } catch (error) {
+      console.error('Error loading reference options:', error);
+      setReferenceOptions([]);
+    } finally {
+      setReferenceLoading(false);
+    }
+  };
+
+  // There are too many devices to load them all and filter here
+  useEffect(() => {
+    if (!referenceModalVisible || referenceType !== 'device') return;
+    let cancelled = false;
+    setReferenceLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const { items } = await getDevices({ search: referenceSearch.trim(), limit: REFERENCE_PICKER_LIMIT });
+        if (cancelled) return;
+        setReferenceOptions(items.map((d) => ({
+          id: d.device_id,
+          title: d.nazwa,
+          subtitle: d.numer_seryjny,
+        })));
+      } catch (error) {
+        console.error('Error loading reference options:', error);
+        if (!cancelled) setReferenceOptions([]);
+      } finally {
+        if (!cancelled) setReferenceLoading(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [referenceModalVisible, referenceType, referenceSearch]);
+
+  const openReferenceModal = () => {
+    setReferenceSearch('');
+    setReferenceModalVisible(true);
+    loadReferenceOptions(referenceType);
+  };
+
+  const changeReferenceType = (type: MessageReferenceType) => {
+    setReferenceType(type);
+    setReferenceSearch('');
+    loadReferenceOptions(type);
+  };
+
+  // Sends the card together with whatever is typed in the input
+  const handleSendReference = async (id: string) => {
+    setSending(true);
+    try {
+      await sendMessage({
+        channel_id: channelId,
+        content: newMessage.trim() || undefined,
+        reference: { type: referenceType, id },
+      });
+      setNewMessage('');
+      setReferenceModalVisible(false);
+      await loadMessages();
+      flatListRef.current?.scrollToEnd();
+    } catch (error: any) {
+      Alert.alert('Błąd', error.message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const filteredReferenceOptions = referenceOptions
+    .filter((o) => {
+      const query = referenceSearch.trim().toLowerCase();
+      // Device results already match the search (also by barcode)
+      return !query || referenceType === 'device' || o.title.toLowerCase().includes(query) || o.subtitle.toLowerCase().includes(query);
+    })
+    .slice(0, REFERENCE_PICKER_LIMIT);
+
+  const openReference = (reference: MessageReference) => {
+    if (reference.type === 'task') {
+      router.push(`/tasks?task=${reference.id}`);
+    } else if (reference.numer_seryjny) {
+      router.push(`/devices?history=${encodeURIComponent(reference.numer_seryjny)}`);
+    }
+  };
+
+  const getReferenceIcon = (type: MessageReferenceType) =>
+    REFERENCE_TABS.find((t) => t.key === type)?.icon || 'link-outline';
+
+  const renderReferenceCard = (reference: MessageReference, isOwnMessage: boolean) => {
+    const details = reference.type === 'installation'
+      ? [reference.numer_seryjny, reference.adres].filter(Boolean).join(' • ')
+      : reference.type === 'device'
+        ? [reference.numer_seryjny, reference.status].filter(Boolean).join(' • ')
+        : reference.status;
+
+    return (
+      <TouchableOpacity
+        style={[styles.referenceCard, isOwnMessage && styles.ownReferenceCard]}
+        onPress={() => openReference(reference)}
+      >
+        <Ionicons name={getReferenceIcon(reference.type) as any} size={22} color="#fff" />
+        <View style={styles.referenceInfo}>
+          <Text style={styles.referenceType}>
+            {REFERENCE_TABS.find((t) => t.key === reference.type)?.label}
+          </Text>
+          <Text style={styles.referenceLabel} numberOfLines={1}>{reference.label}</Text>
+          {!!details && (
+            <Text style={styles.referenceDetails} numberOfLines={1}>{details}</Text>
+          )}
+        </View>
+        <Ionicons name="chevron-forward" size={18} color="rgba(255,255,255,0.7)" />
+      </TouchableOpacity>
+    );
+  };
+
   const renderMessage = ({ item }: { item: Message }) => {
     const isOwnMessage = item.sender_id === user?.user_id;
+    const seenBy = isOwnMessage ? getSeenBy(item) : [];
     const messageDate = new Date(item.created_at);
     
     return (
@@ -136,14 +352,26 @@ export default function Chat() {
           <Text style={styles.senderName}>{item.sender_name}</Text>
         )}
         
-        {item.attachment && item.attachment_type === 'image' && (
-          <Image
-            source={{ uri: item.attachment }}
-            style={styles.messageImage}
-            resizeMode="cover"
-          />
+        {item.attachment_id ? (
+          <TouchableOpacity onPress={() => setPreviewImageUri(getAttachmentUrl(item.attachment_id!, sessionToken))}>
+            <Image
+              source={{ uri: getAttachmentUrl(item.attachment_id, sessionToken, true) }}
+              style={styles.messageImage}
+              resizeMode="cover"
+            />
+          </TouchableOpacity>
+        ) : item.attachment && item.attachment_type === 'image' && (
+          <TouchableOpacity onPress={() => setPreviewImageUri(item.attachment!)}>
+            <Image
+              source={{ uri: item.attachment }}
+              style={styles.messageImage}
+              resizeMode="cover"
+            />
+          </TouchableOpacity>
         )}
         
+        {item.reference && renderReferenceCard(item.reference, isOwnMessage)}
+        
         {item.content && (
           <Text style={[
             styles.messageText,
@@ -159,6 +387,16 @@ export default function Chat() {
         ]}>
           {formatInWarsaw(item.created_at, 'HH:mm')}
         </Text>
+        
+        {isOwnMessage && seenBy.length > 0 && (
+          item.message_id === lastOwnMessageId ? (
+            <Text style={styles.seenByText} numberOfLines={2}>
+              Wyświetlone: {seenBy.map((r) => r.user_name).join(', ')}
+            </Text>
+          ) : (
+            <Ionicons name="checkmark-done" size={14} color="rgba(255,255,255,0.7)" style={styles.seenIcon} />
+          )
+        )}
       </View>
     );
   };
@@ -191,8 +429,8 @@ export default function Chat() {
         <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#fff" />
         </TouchableOpacity>
-        <Text style={styles.title}>Czat zespołu</Text>
-        <TouchableOpacity onPress={loadMessages} style={styles.refreshButton}>
+        <Text style={styles.title} numberOfLines={1}>{channelName}</Text>
+        <TouchableOpacity onPress={() => loadMessages()} style={styles.refreshButton}>
           <Ionicons name="refresh" size={24} color="#fff" />
         </TouchableOpacity>
       </View>
@@ -227,6 +465,10 @@ export default function Chat() {
             <Ionicons name="image-outline" size={24} color="#3b82f6" />
           </TouchableOpacity>
           
+          <TouchableOpacity style={styles.attachButton} onPress={openReferenceModal}>
+            <Ionicons name="link-outline" size={24} color="#3b82f6" />
+          </TouchableOpacity>
+          
           <TextInput
             style={styles.input}
             placeholder="Napisz wiadomość..."
@@ -250,6 +492,113 @@ export default function Chat() {
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
+
+      {/* Reference Picker Modal */}
+      <Modal
+        visible={referenceModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setReferenceModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Dołącz do wiadomości</Text>
+              <TouchableOpacity onPress={() => setReferenceModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.referenceTabs}>
+              {REFERENCE_TABS.map((tab) => (
+                <TouchableOpacity
+                  key={tab.key}
+                  style={[styles.referenceTab, referenceType === tab.key && styles.referenceTabActive]}
+                  onPress={() => changeReferenceType(tab.key)}
+                >
+                  <Ionicons
+                    name={tab.icon as any}
+                    size={18}
+                    color={referenceType === tab.key ? '#fff' : '#888'}
+                  />
+                  <Text style={[styles.referenceTabText, referenceType === tab.key && styles.referenceTabTextActive]}>
+                    {tab.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.referenceSearch}
+              placeholder={referenceType === 'device' ? 'Szukaj po nazwie lub numerze seryjnym...' : 'Szukaj...'}
+              placeholderTextColor="#888"
+              value={referenceSearch}
+              onChangeText={setReferenceSearch}
+              autoCapitalize="none"
+            />
+
+            <ScrollView style={styles.referenceList}>
+              {referenceLoading ? (
+                <ActivityIndicator size="small" color="#3b82f6" style={{ marginTop: 20 }} />
+              ) : (
+                <>
+                  {filteredReferenceOptions.map((option) => (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={styles.referenceOption}
+                      onPress={() => handleSendReference(option.id)}
+                      disabled={sending}
+                    >
+                      <View style={styles.referenceInfo}>
+                        <Text style={styles.referenceOptionTitle} numberOfLines={1}>{option.title}</Text>
+                        {!!option.subtitle && (
+                          <Text style={styles.referenceOptionSubtitle} numberOfLines={1}>{option.subtitle}</Text>
+                        )}
+                      </View>
+                      <Ionicons name="send" size={18} color="#3b82f6" />
+                    </TouchableOpacity>
+                  ))}
+
+                  {/* Serial typed by hand - the server looks it up */}
+                  {referenceType === 'device' && filteredReferenceOptions.length === 0 && referenceSearch.trim() && (
+                    <TouchableOpacity
+                      style={styles.referenceOption}
+                      onPress={() => handleSendReference(referenceSearch.trim())}
+                      disabled={sending}
+                    >
+                      <View style={styles.referenceInfo}>
+                        <Text style={styles.referenceOptionTitle}>Użyj numeru: {referenceSearch.trim()}</Text>
+                      </View>
+                      <Ionicons name="send" size={18} color="#3b82f6" />
+                    </TouchableOpacity>
+                  )}
+
+                  {filteredReferenceOptions.length === 0 && !(referenceType === 'device' && referenceSearch.trim()) && (
+                    <Text style={styles.referenceEmpty}>Brak wyników</Text>
+                  )}
+                </>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Full-size Photo Modal */}
+      <Modal
+        visible={!!previewImageUri}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPreviewImageUri(null)}
+      >
+        <View style={styles.previewOverlay}>
+          <TouchableOpacity style={styles.previewClose} onPress={() => setPreviewImageUri(null)}>
+            <Ionicons name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+          {previewImageUri && (
+            <Image source={{ uri: previewImageUri }} style={styles.previewImage} resizeMode="contain" />
+          )}
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -272,9 +621,12 @@ const styles = StyleSheet.create({
     padding: 8,
   },
   title: {
+    flex: 1,
     color: '#fff',
     fontSize: 18,
     fontWeight: '600',
+    textAlign: 'center',
+    marginHorizontal: 12,
   },
   refreshButton: {
     padding: 8,
@@ -325,12 +677,39 @@ const styles = StyleSheet.create({
   ownMessageTime: {
     color: 'rgba(255,255,255,0.7)',
   },
+  seenByText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 11,
+    marginTop: 2,
+    alignSelf: 'flex-end',
+  },
+  seenIcon: {
+    marginTop: 2,
+    alignSelf: 'flex-end',
+  },
   messageImage: {
     width: 200,
     height: 150,
     borderRadius: 8,
     marginBottom: 4,
   },
+  previewOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.95)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  previewClose: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 50 : 20,
+    right: 20,
+    zIndex: 1,
+    padding: 8,
+  },
+  previewImage: {
+    width: '100%',
+    height: '80%',
+  },
   dateSeparator: {
     alignItems: 'center',
     marginVertical: 16,
@@ -393,4 +772,130 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     backgroundColor: '#333',
   },
+  referenceCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(59, 130, 246, 0.25)',
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 6,
+    minWidth: 200,
+  },
+  ownReferenceCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  referenceInfo: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  referenceType: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 11,
+    textTransform: 'uppercase',
+  },
+  referenceLabel: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  referenceDetails: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '85%',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  referenceTabs: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  referenceTab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#0a0a0a',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  referenceTabActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  referenceTabText: {
+    color: '#888',
+    fontSize: 13,
+    marginLeft: 6,
+  },
+  referenceTabTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  referenceSearch: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: '#333',
+    marginHorizontal: 20,
+    marginTop: 12,
+  },
+  referenceList: {
+    paddingHorizontal: 20,
+    marginTop: 12,
+    minHeight: 200,
+  },
+  referenceOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  referenceOptionTitle: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  referenceOptionSubtitle: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  referenceEmpty: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 20,
+  },
 });
@@ -0,0 +1,638 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  RefreshControl,
+  Alert,
+  Modal,
+  TextInput,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import { useRealtimeEvent, usePollingFallback } from '../src/context/RealtimeContext';
+import {
+  getChannels,
+  getChatContacts,
+  openDirectChannel,
+  createChannel,
+  updateChannel,
+  deleteChannel,
+} from '../src/utils/apiClient';
+import { RequestOptions } from '../src/utils/api';
+import { ChatChannel, Worker } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+import { format, isToday } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { pl } from 'date-fns/locale';
+
+const WARSAW_TZ = 'Europe/Warsaw';
+
+// Helper to format date in Warsaw timezone
+const formatInWarsaw = (dateStr: string, formatStr: string) => {
+  const date = new Date(dateStr);
+  const warsawDate = toZonedTime(date, WARSAW_TZ);
+  return format(warsawDate, formatStr, { locale: pl });
+};
+
+export default function Conversations() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [channels, setChannels] = useState<ChatChannel[]>([]);
+  const [contacts, setContacts] = useState<Worker[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Modal states
+  const [directModalVisible, setDirectModalVisible] = useState(false);
+  const [groupModalVisible, setGroupModalVisible] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<ChatChannel | null>(null);
+  const [groupName, setGroupName] = useState('');
+  const [groupMembers, setGroupMembers] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+  }, [isLoading, isAuthenticated]);
+
+  const loadChannels = async (options: RequestOptions = {}) => {
+    try {
+      const data = await getChannels(options);
+      setChannels(data);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    }
+  };
+
+  const loadContacts = async () => {
+    try {
+      const data = await getChatContacts();
+      setContacts(data);
+    } catch (error) {
+      console.error('Error loading contacts:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadChannels();
+      loadContacts();
+    }
+  }, [isAuthenticated]);
+
+  // Last message and unread counters follow pushed events
+  usePollingFallback(loadChannels, 10000);
+  useRealtimeEvent('message:new', () => loadChannels());
+  useRealtimeEvent('channel:updated', () => loadChannels());
+  useRealtimeEvent('channel:deleted', () => loadChannels());
+  useRealtimeEvent('message:read', (cursor) => {
+    if (cursor.user_id === user?.user_id) {
+      loadChannels();
+    }
+  });
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadChannels();
+    setRefreshing(false);
+  };
+
+  const openChannel = (channel: ChatChannel) => {
+    router.push(`/chat?channel=${channel.channel_id}`);
+  };
+
+  const handleStartDirect = async (contact: Worker) => {
+    try {
+      const channel = await openDirectChannel(contact.user_id);
+      setDirectModalVisible(false);
+      openChannel(channel);
+    } catch (error: any) {
+      Alert.alert('Błąd', error.message);
+    }
+  };
+
+  const openGroupModal = (group?: ChatChannel) => {
+    if (group) {
+      setEditingGroup(group);
+      setGroupName(group.name);
+      setGroupMembers(group.members);
+    } else {
+      setEditingGroup(null);
+      setGroupName('');
+      setGroupMembers(user ? [user.user_id] : []);
+    }
+    setGroupModalVisible(true);
+  };
+
+  const toggleGroupMember = (userId: string) => {
+    setGroupMembers((prev) =>
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+    );
+  };
+
+  const handleSaveGroup = async () => {
+    if (!groupName.trim()) {
+      Alert.alert('Błąd', 'Podaj nazwę grupy');
+      return;
+    }
+    if (groupMembers.length === 0) {
+      Alert.alert('Błąd', 'Wybierz co najmniej jednego członka grupy');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingGroup) {
+        await updateChannel(editingGroup.channel_id, { name: groupName.trim(), members: groupMembers });
+      } else {
+        await createChannel({ name: groupName.trim(), members: groupMembers });
+      }
+      setGroupModalVisible(false);
+      loadChannels();
+    } catch (error: any) {
+      Alert.alert('Błąd', error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteGroup = (group: ChatChannel) => {
+    const performDelete = async () => {
+      try {
+        await deleteChannel(group.channel_id);
+        setGroupModalVisible(false);
+        loadChannels();
+      } catch (error: any) {
+        Alert.alert('Błąd', error.message);
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Czy na pewno chcesz usunąć grupę "${group.name}" wraz z wiadomościami?`)) {
+        performDelete();
+      }
+      return;
+    }
+
+    Alert.alert(
+      'Usuń grupę',
+      `Czy na pewno chcesz usunąć grupę "${group.name}" wraz z wiadomościami?`,
+      [
+        { text: 'Anuluj', style: 'cancel' },
+        { text: 'Usuń', style: 'destructive', onPress: performDelete },
+      ]
+    );
+  };
+
+  const getChannelIcon = (channel: ChatChannel) => {
+    switch (channel.type) {
+      case 'global': return 'chatbubbles';
+      case 'group': return 'people';
+      default: return 'person';
+    }
+  };
+
+  const getChannelColor = (channel: ChatChannel) => {
+    switch (channel.type) {
+      case 'global': return '#10b981';
+      case 'group': return '#8b5cf6';
+      default: return '#3b82f6';
+    }
+  };
+
+  const renderChannel = ({ item }: { item: ChatChannel }) => {
+    const lastMessage = item.last_message;
+    const unread = item.unread_count || 0;
+    const preview = lastMessage
+      ? `${lastMessage.sender_id === user?.user_id ? 'Ty' : lastMessage.sender_name}: ${lastMessage.content || '[załącznik]'}`
+      : 'Brak wiadomości';
+
+    return (
+      <TouchableOpacity
+        style={styles.channelCard}
+        onPress={() => openChannel(item)}
+        onLongPress={() => isAdmin && item.type === 'group' && openGroupModal(item)}
+      >
+        <View style={[styles.channelAvatar, { backgroundColor: getChannelColor(item) }]}>
+          <Ionicons name={getChannelIcon(item)} size={22} color="#fff" />
+        </View>
+
+        <View style={styles.channelInfo}>
+          <View style={styles.channelNameRow}>
+            <Text style={[styles.channelName, unread > 0 && styles.channelNameUnread]} numberOfLines={1}>
+              {item.name}
+            </Text>
+            {lastMessage && (
+              <Text style={styles.channelTime}>
+                {isToday(new Date(lastMessage.created_at))
+                  ? formatInWarsaw(lastMessage.created_at, 'HH:mm')
+                  : formatInWarsaw(lastMessage.created_at, 'd MMM')}
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.channelPreviewRow}>
+            <Text style={styles.channelPreview} numberOfLines={1}>
+              {preview}
+            </Text>
+            {unread > 0 && (
+              <View style={styles.unreadBadge}>
+                <Text style={styles.unreadBadgeText}>{unread > 99 ? '99+' : unread}</Text>
+              </View>
+            )}
+          </View>
+
+          {item.type === 'group' && (
+            <Text style={styles.channelMembers} numberOfLines={1}>
+              {item.member_names?.join(', ')}
+            </Text>
+          )}
+        </View>
+
+        {isAdmin && item.type === 'group' && (
+          <TouchableOpacity style={styles.editButton} onPress={() => openGroupModal(item)}>
+            <Ionicons name="settings-outline" size={20} color="#888" />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  // Everyone who can be put in a group, the admin included
+  const memberCandidates: Worker[] = user
+    ? [{ user_id: user.user_id, name: `${user.name} (Ty)`, email: user.email }, ...contacts]
+    : contacts;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Rozmowy</Text>
+        <View style={styles.headerActions}>
+          {isAdmin && (
+            <TouchableOpacity onPress={() => openGroupModal()} style={styles.addButton}>
+              <Ionicons name="people-outline" size={24} color="#8b5cf6" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => setDirectModalVisible(true)} style={styles.addButton}>
+            <Ionicons name="create-outline" size={24} color="#3b82f6" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <FlatList
+        data={channels}
+        renderItem={renderChannel}
+        keyExtractor={(item) => item.channel_id}
+        contentContainerStyle={styles.listContainer}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#3b82f6" />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="chatbubbles-outline" size={64} color="#333" />
+            <Text style={styles.emptyText}>Brak rozmów</Text>
+          </View>
+        }
+      />
+
+      {/* New Direct Chat Modal */}
+      <Modal
+        visible={directModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setDirectModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Nowa rozmowa</Text>
+              <TouchableOpacity onPress={() => setDirectModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              {contacts.map((contact) => (
+                <TouchableOpacity
+                  key={contact.user_id}
+                  style={styles.contactItem}
+                  onPress={() => handleStartDirect(contact)}
+                >
+                  <Ionicons
+                    name={contact.role === 'admin' ? 'shield' : 'person'}
+                    size={20}
+                    color="#3b82f6"
+                  />
+                  <View style={styles.contactInfo}>
+                    <Text style={styles.contactName}>{contact.name}</Text>
+                    <Text style={styles.contactEmail}>{contact.email}</Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color="#666" />
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Group Modal (admin) */}
+      <Modal
+        visible={groupModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setGroupModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingGroup ? 'Edytuj grupę' : 'Nowa grupa'}</Text>
+              <TouchableOpacity onPress={() => setGroupModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              <Text style={styles.inputLabel}>Nazwa grupy</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="np. Ekipa Kielce Północ"
+                placeholderTextColor="#888"
+                value={groupName}
+                onChangeText={setGroupName}
+              />
+
+              <Text style={styles.inputLabel}>Członkowie ({groupMembers.length})</Text>
+              {memberCandidates.map((candidate) => {
+                const selected = groupMembers.includes(candidate.user_id);
+                return (
+                  <TouchableOpacity
+                    key={candidate.user_id}
+                    style={[styles.contactItem, selected && styles.contactItemSelected]}
+                    onPress={() => toggleGroupMember(candidate.user_id)}
+                  >
+                    <Ionicons
+                      name={selected ? 'checkbox' : 'square-outline'}
+                      size={22}
+                      color={selected ? '#8b5cf6' : '#666'}
+                    />
+                    <View style={styles.contactInfo}>
+                      <Text style={styles.contactName}>{candidate.name}</Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+
+              {editingGroup && (
+                <TouchableOpacity
+                  style={styles.deleteGroupButton}
+                  onPress={() => handleDeleteGroup(editingGroup)}
+                >
+                  <Ionicons name="trash-outline" size={18} color="#ef4444" />
+                  <Text style={styles.deleteGroupButtonText}>Usuń grupę</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+              onPress={handleSaveGroup}
+              disabled={saving}
+            >
+              <Ionicons name="checkmark" size={20} color="#fff" />
+              <Text style={styles.submitButtonText}>
+                {editingGroup ? 'Zapisz zmiany' : 'Utwórz grupę'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  addButton: {
+    padding: 8,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  channelCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  channelAvatar: {
+    width: 46,
+    height: 46,
+    borderRadius: 23,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  channelInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  channelNameRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  channelName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  channelNameUnread: {
+    fontWeight: '700',
+  },
+  channelTime: {
+    color: '#888',
+    fontSize: 12,
+    marginLeft: 8,
+  },
+  channelPreviewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  channelPreview: {
+    flex: 1,
+    color: '#888',
+    fontSize: 13,
+  },
+  channelMembers: {
+    color: '#666',
+    fontSize: 11,
+    marginTop: 4,
+  },
+  unreadBadge: {
+    backgroundColor: '#ef4444',
+    borderRadius: 10,
+    minWidth: 20,
+    height: 20,
+    paddingHorizontal: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  unreadBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  editButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 16,
+    marginTop: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '85%',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  inputLabel: {
+    color: '#888',
+    fontSize: 14,
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    color: '#fff',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  contactItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#0a0a0a',
+  },
+  contactItemSelected: {
+    borderColor: '#8b5cf6',
+  },
+  contactInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  contactName: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  contactEmail: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  deleteGroupButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 16,
+    marginBottom: 20,
+  },
+  deleteGroupButtonText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#8b5cf6',
+    margin: 20,
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -4,21 +4,19 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useFocusEffect } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
 import { useNotifications } from '../src/context/NotificationContext';
-import { apiFetch } from '../src/utils/api';
+import { useSync } from '../src/context/SyncContext';
+import { useRealtimeEvent, usePollingFallback } from '../src/context/RealtimeContext';
+import { getInstallationStats, getDeviceCounts, getTasks, getPendingOrdersCount } from '../src/utils/apiClient';
+import { RequestOptions } from '../src/utils/api';
+import { InstallationStats, Task } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-interface Stats {
-  total: number;
-  by_type: Record<string, number>;
-  by_user: Record<string, number>;
-  daily: Array<{ _id: string; count: number }>;
-}
-
 export default function Dashboard() {
   const { user, isLoading, isAuthenticated, logout } = useAuth();
   const { unreadChatCount } = useNotifications();
-  const [stats, setStats] = useState<Stats | null>(null);
+  const { pendingCount: pendingSyncCount, conflictCount: syncConflictCount, isSyncing } = useSync();
+  const [stats, setStats] = useState<InstallationStats | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [devicesCount, setDevicesCount] = useState(0);
   const [tasksCount, setTasksCount] = useState(0);
@@ -32,12 +30,12 @@ export default function Dashboard() {
     }
   }, [isLoading, isAuthenticated]);
 
-  const checkForNewTasks = async (tasks: any[]) => {
+  const checkForNewTasks = async (tasks: Task[]) => {
     // Only check for workers (not admins)
     if (user?.role === 'admin') return;
     
     const lastCheckTimestamp = await AsyncStorage.getItem(`lastTaskCheck_${user?.user_id}`);
-    const myPendingTasks = tasks.filter((t: any) => 
+    const myPendingTasks = tasks.filter((t) => 
       t.status !== 'zakonczone' && t.assigned_to === user?.user_id
     );
     
@@ -47,7 +45,7 @@ export default function Dashboard() {
     if (lastCheckTimestamp) {
       const lastCheck = new Date(lastCheckTimestamp);
       // Show tasks created after last check
-      const newTasks = myPendingTasks.filter((t: any) => {
+      const newTasks = myPendingTasks.filter((t) => {
         const taskCreated = new Date(t.created_at);
         return taskCreated > lastCheck;
       });
@@ -55,14 +53,14 @@ export default function Dashboard() {
       if (newTasks.length > 0) {
         setNewTasksAlert({
           count: newTasks.length,
-          titles: newTasks.slice(0, 3).map((t: any) => t.title)
+          titles: newTasks.slice(0, 3).map((t) => t.title)
         });
       }
     } else {
       // First time login - show all pending tasks as "new"
       setNewTasksAlert({
         count: myPendingTasks.length,
-        titles: myPendingTasks.slice(0, 3).map((t: any) => t.title)
+        titles: myPendingTasks.slice(0, 3).map((t) => t.title)
       });
     }
   };
@@ -72,18 +70,18 @@ export default function Dashboard() {
     setNewTasksAlert(null);
   };
 
-  const loadData = async () => {
+  const loadData = async (options: RequestOptions = {}) => {
     try {
-      const [statsData, devices, tasks] = await Promise.all([
-        apiFetch('/api/installations/stats'),
-        apiFetch('/api/devices'),
-        apiFetch('/api/tasks'),
+      const [statsData, deviceCounts, tasks] = await Promise.all([
+        getInstallationStats(options),
+        getDeviceCounts({}, options),
+        getTasks({}, options),
       ]);
       setStats(statsData);
-      setDevicesCount(devices.length);
+      setDevicesCount(deviceCounts.total);
       
       // Count pending tasks (not completed)
-      const pending = tasks.filter((t: any) => t.status !== 'zakonczone').length;
+      const pending = tasks.filter((t) => t.status !== 'zakonczone').length;
       setTasksCount(pending);
       setPendingTasks(pending);
       
@@ -93,7 +91,7 @@ export default function Dashboard() {
       // Load pending orders count for admins
       if (user?.role === 'admin') {
         try {
-          const ordersData = await apiFetch('/api/orders/pending/count');
+          const ordersData = await getPendingOrdersCount(options);
           setPendingOrdersCount(ordersData.count || 0);
         } catch (e) {
           console.log('Could not load pending orders count');
@@ -116,13 +114,17 @@ export default function Dashboard() {
   useEffect(() => {
     if (isAuthenticated) {
       loadData();
-      
-      // Poll for updates every 10 seconds (for chat notifications)
-      const interval = setInterval(loadData, 10000);
-      return () => clearInterval(interval);
     }
   }, [isAuthenticated]);
 
+  // Counters follow pushed events; poll only while the socket is down
+  usePollingFallback(loadData, 10000);
+  useRealtimeEvent('task:assigned', () => loadData());
+  useRealtimeEvent('task:updated', () => loadData());
+  useRealtimeEvent('device:assigned', () => loadData());
+  useRealtimeEvent('order:created', () => loadData());
+  useRealtimeEvent('order:updated', () => loadData());
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadData();
@@ -159,6 +161,9 @@ export default function Dashboard() {
           <View style={styles.roleBadge}>
             <Text style={styles.roleText}>{isAdmin ? 'Admin' : 'Pracownik'}</Text>
           </View>
+          <TouchableOpacity onPress={() => router.push('/notifications')} style={styles.logoutButton}>
+            <Ionicons name="notifications-outline" size={24} color="#888" />
+          </TouchableOpacity>
           <TouchableOpacity onPress={logout} style={styles.logoutButton}>
             <Ionicons name="log-out-outline" size={24} color="#ef4444" />
           </TouchableOpacity>
@@ -192,6 +197,32 @@ export default function Dashboard() {
           </View>
         )}
 
+        {/* Offline queue - operations waiting to be sent */}
+        {(pendingSyncCount > 0 || syncConflictCount > 0) && (
+          <TouchableOpacity
+            style={[styles.syncAlert, syncConflictCount > 0 && styles.syncAlertConflict]}
+            onPress={() => router.push('/sync')}
+          >
+            <View style={styles.actionIconContainer}>
+              <Ionicons name={isSyncing ? 'sync' : 'cloud-offline'} size={24} color="#fff" />
+              {renderBadge(pendingSyncCount + syncConflictCount)}
+            </View>
+            <View style={styles.newTasksAlertContent}>
+              <Text style={styles.newTasksAlertTitle}>
+                {pendingSyncCount > 0
+                  ? `Oczekuje na wysłanie: ${pendingSyncCount}`
+                  : 'Wymaga uwagi'}
+              </Text>
+              <Text style={styles.newTasksAlertSubtitle}>
+                {syncConflictCount > 0
+                  ? `Konflikty synchronizacji: ${syncConflictCount}`
+                  : 'Zostaną wysłane po odzyskaniu połączenia'}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#fff" />
+          </TouchableOpacity>
+        )}
+
         {/* New Tasks Alert - for workers */}
         {newTasksAlert && (
           <TouchableOpacity 
@@ -275,11 +306,7 @@ export default function Dashboard() {
             
             <TouchableOpacity
               style={styles.actionButton}
-              onPress={async () => {
-                // Mark messages as read when entering chat
-                await AsyncStorage.setItem('lastReadMessageTimestamp', new Date().toISOString());
-                router.push('/chat');
-              }}
+              onPress={() => router.push('/conversations')}
             >
               <View style={styles.actionIconContainer}>
                 <Ionicons name="chatbubbles-outline" size={32} color="#8b5cf6" />
@@ -310,6 +337,28 @@ export default function Dashboard() {
               </TouchableOpacity>
             )}
             
+            {/* Stocktakes the employee was asked to do */}
+            {!isAdmin && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => router.push('/stocktakes')}
+              >
+                <Ionicons name="clipboard-outline" size={32} color="#10b981" />
+                <Text style={styles.actionText}>Inwentaryzacja</Text>
+              </TouchableOpacity>
+            )}
+            
+            {/* What is installed at a customer's address */}
+            {!isAdmin && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => router.push('/addresses')}
+              >
+                <Ionicons name="home-outline" size={32} color="#8b5cf6" />
+                <Text style={styles.actionText}>Adresy</Text>
+              </TouchableOpacity>
+            )}
+            
             {/* Vehicle & Equipment button for employees */}
             {!isAdmin && (
               <TouchableOpacity
@@ -388,6 +437,51 @@ export default function Dashboard() {
                 <Ionicons name="chevron-forward" size={20} color="#888" />
               </TouchableOpacity>
               
+              <TouchableOpacity
+                style={styles.adminButton}
+                onPress={() => router.push('/device-models')}
+              >
+                <Ionicons name="albums-outline" size={24} color="#fff" />
+                <Text style={styles.adminButtonText}>Katalog modeli urządzeń</Text>
+                <Ionicons name="chevron-forward" size={20} color="#888" />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.adminButton}
+                onPress={() => router.push('/serial-rules')}
+              >
+                <Ionicons name="barcode-outline" size={24} color="#fff" />
+                <Text style={styles.adminButtonText}>Reguły numerów seryjnych</Text>
+                <Ionicons name="chevron-forward" size={20} color="#888" />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.adminButton}
+                onPress={() => router.push('/locations')}
+              >
+                <Ionicons name="business-outline" size={24} color="#fff" />
+                <Text style={styles.adminButtonText}>Magazyny i busy</Text>
+                <Ionicons name="chevron-forward" size={20} color="#888" />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.adminButton}
+                onPress={() => router.push('/stocktakes')}
+              >
+                <Ionicons name="clipboard-outline" size={24} color="#fff" />
+                <Text style={styles.adminButtonText}>Inwentaryzacja</Text>
+                <Ionicons name="chevron-forward" size={20} color="#888" />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.adminButton}
+                onPress={() => router.push('/addresses')}
+              >
+                <Ionicons name="home-outline" size={24} color="#fff" />
+                <Text style={styles.adminButtonText}>Klienci i adresy</Text>
+                <Ionicons name="chevron-forward" size={20} color="#888" />
+              </TouchableOpacity>
+
               <TouchableOpacity
                 style={styles.adminButton}
                 onPress={() => router.push('/backup')}
@@ -680,6 +774,19 @@ const styles = StyleSheet.create({
   newTasksAlertClose: {
     padding: 8,
   },
+  syncAlert: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#b45309',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 16,
+  },
+  syncAlertConflict: {
+    backgroundColor: '#b91c1c',
+  },
   versionFooter: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,606 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  RefreshControl,
+  Alert,
+  Modal,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Image,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import {
+  getDeviceModels,
+  createDeviceModel,
+  updateDeviceModel,
+  deleteDeviceModel,
+  getAttachmentUrl,
+  uploadAttachment,
+} from '../src/utils/apiClient';
+import { DeviceModel, DeviceModelCategory, DeviceModelInput } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+
+const CATEGORIES: DeviceModelCategory[] = ['ONT', 'CPE', 'STB'];
+
+const EMPTY_FORM = {
+  name: '',
+  operator: '',
+  category: 'ONT' as DeviceModelCategory,
+  serialPattern: '',
+  barcodePrefixes: '',
+  photoAttachmentId: null as string | null,
+};
+
+export default function DeviceModels() {
+  const { user, sessionToken, isAuthenticated, isLoading } = useAuth();
+  const [models, setModels] = useState<DeviceModel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Add / edit modal
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingModel, setEditingModel] = useState<DeviceModel | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [uploadingPhoto, setUploadingPhoto] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+    if (!isLoading && user?.role !== 'admin') {
+      router.replace('/dashboard');
+    }
+  }, [isLoading, isAuthenticated, user]);
+
+  const loadModels = async () => {
+    try {
+      setModels(await getDeviceModels());
+    } catch (error) {
+      console.error('Error loading device models:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'admin') {
+      loadModels();
+    }
+  }, [isAuthenticated, user]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadModels();
+    setRefreshing(false);
+  };
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const openModal = (model: DeviceModel | null) => {
+    setEditingModel(model);
+    setForm(model ? {
+      name: model.name,
+      operator: model.operator,
+      category: model.category,
+      serialPattern: model.serial_pattern || '',
+      barcodePrefixes: model.barcode_prefixes.join(', '),
+      photoAttachmentId: model.photo_attachment_id,
+    } : EMPTY_FORM);
+    setModalVisible(true);
+  };
+
+  const pickPhoto = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: false,
+      quality: 0.7,
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    const asset = result.assets[0];
+    setUploadingPhoto(true);
+    try {
+      const attachment = await uploadAttachment({
+        uri: asset.uri,
+        name: asset.fileName || 'model.jpg',
+        type: asset.mimeType || 'image/jpeg',
+      });
+      setForm((prev) => ({ ...prev, photoAttachmentId: attachment.attachment_id }));
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setUploadingPhoto(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      showError('Podaj nazwę modelu');
+      return;
+    }
+
+    const data: DeviceModelInput = {
+      name: form.name.trim(),
+      operator: form.operator.trim(),
+      category: form.category,
+      serial_pattern: form.serialPattern.trim() || null,
+      barcode_prefixes: form.barcodePrefixes.split(',').map((p) => p.trim()).filter(Boolean),
+      photo_attachment_id: form.photoAttachmentId,
+    };
+
+    setSaving(true);
+    try {
+      if (editingModel) {
+        await updateDeviceModel(editingModel.model_id, data);
+      } else {
+        await createDeviceModel(data);
+      }
+      setModalVisible(false);
+      loadModels();
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (model: DeviceModel) => {
+    const performDelete = async () => {
+      try {
+        await deleteDeviceModel(model.model_id);
+        loadModels();
+      } catch (error: any) {
+        showError(error.message);
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Czy na pewno chcesz usunąć model "${model.name}"?`)) {
+        performDelete();
+      }
+      return;
+    }
+
+    Alert.alert(
+      'Usuń model',
+      `Czy na pewno chcesz usunąć model "${model.name}"?`,
+      [
+        { text: 'Anuluj', style: 'cancel' },
+        { text: 'Usuń', style: 'destructive', onPress: performDelete },
+      ]
+    );
+  };
+
+  const renderModel = ({ item }: { item: DeviceModel }) => (
+    <TouchableOpacity style={styles.modelCard} onPress={() => openModal(item)}>
+      {item.photo_attachment_id ? (
+        <Image
+          source={{ uri: getAttachmentUrl(item.photo_attachment_id, sessionToken, true) }}
+          style={styles.modelPhoto}
+        />
+      ) : (
+        <View style={[styles.modelPhoto, styles.modelPhotoEmpty]}>
+          <Ionicons name="hardware-chip" size={24} color="#3b82f6" />
+        </View>
+      )}
+
+      <View style={styles.modelInfo}>
+        <View style={styles.nameRow}>
+          <Text style={styles.modelName}>{item.name}</Text>
+          <View style={styles.categoryBadge}>
+            <Text style={styles.categoryBadgeText}>{item.category}</Text>
+          </View>
+        </View>
+        {!!item.operator && <Text style={styles.modelMeta}>{item.operator}</Text>}
+        {!!item.serial_pattern && (
+          <Text style={styles.modelMeta}>Wzorzec S/N: {item.serial_pattern}</Text>
+        )}
+        {item.barcode_prefixes.length > 0 && (
+          <Text style={styles.modelMeta}>Prefiksy: {item.barcode_prefixes.join(', ')}</Text>
+        )}
+      </View>
+
+      <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(item)}>
+        <Ionicons name="trash-outline" size={20} color="#ef4444" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Katalog modeli</Text>
+        <TouchableOpacity onPress={() => openModal(null)} style={styles.addButton}>
+          <Ionicons name="add" size={28} color="#3b82f6" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={models}
+          renderItem={renderModel}
+          keyExtractor={(item) => item.model_id}
+          contentContainerStyle={styles.listContainer}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#3b82f6" />
+          }
+          ListHeaderComponent={
+            <Text style={styles.hint}>
+              Importowane i skanowane urządzenia są przypisywane do modelu według wzorca numeru seryjnego, prefiksu kodu kreskowego lub nazwy.
+            </Text>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="albums-outline" size={64} color="#333" />
+              <Text style={styles.emptyText}>Brak modeli w katalogu</Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* Add / Edit Model Modal */}
+      <Modal
+        visible={modalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingModel ? 'Edytuj model' : 'Nowy model'}</Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              <Text style={styles.inputLabel}>Nazwa</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="np. PLAY CPE"
+                placeholderTextColor="#888"
+                value={form.name}
+                onChangeText={(name) => setForm((prev) => ({ ...prev, name }))}
+                autoCapitalize="characters"
+              />
+
+              <Text style={styles.inputLabel}>Operator</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="np. Play"
+                placeholderTextColor="#888"
+                value={form.operator}
+                onChangeText={(operator) => setForm((prev) => ({ ...prev, operator }))}
+              />
+
+              <Text style={styles.inputLabel}>Kategoria</Text>
+              <View style={styles.categorySelect}>
+                {CATEGORIES.map((category) => (
+                  <TouchableOpacity
+                    key={category}
+                    style={[
+                      styles.categoryOption,
+                      form.category === category && styles.categoryOptionActive,
+                    ]}
+                    onPress={() => setForm((prev) => ({ ...prev, category }))}
+                  >
+                    <Text style={[
+                      styles.categoryOptionText,
+                      form.category === category && styles.categoryOptionTextActive,
+                    ]}>{category}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.inputLabel}>Wzorzec numeru seryjnego (wyrażenie regularne)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="np. ALCL[0-9A-F]{8}"
+                placeholderTextColor="#888"
+                value={form.serialPattern}
+                onChangeText={(serialPattern) => setForm((prev) => ({ ...prev, serialPattern }))}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              <Text style={styles.inputLabel}>Prefiksy kodu kreskowego (po przecinku)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="np. 48575443, ZTEG"
+                placeholderTextColor="#888"
+                value={form.barcodePrefixes}
+                onChangeText={(barcodePrefixes) => setForm((prev) => ({ ...prev, barcodePrefixes }))}
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+
+              <Text style={styles.inputLabel}>Zdjęcie</Text>
+              <View style={styles.photoRow}>
+                {form.photoAttachmentId ? (
+                  <Image
+                    source={{ uri: getAttachmentUrl(form.photoAttachmentId, sessionToken, true) }}
+                    style={styles.photoPreview}
+                  />
+                ) : (
+                  <View style={[styles.photoPreview, styles.modelPhotoEmpty]}>
+                    <Ionicons name="image-outline" size={28} color="#555" />
+                  </View>
+                )}
+                <View style={styles.photoActions}>
+                  <TouchableOpacity style={styles.photoButton} onPress={pickPhoto} disabled={uploadingPhoto}>
+                    {uploadingPhoto ? (
+                      <ActivityIndicator size="small" color="#3b82f6" />
+                    ) : (
+                      <Text style={styles.photoButtonText}>
+                        {form.photoAttachmentId ? 'Zmień zdjęcie' : 'Dodaj zdjęcie'}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                  {!!form.photoAttachmentId && (
+                    <TouchableOpacity
+                      style={styles.photoButton}
+                      onPress={() => setForm((prev) => ({ ...prev, photoAttachmentId: null }))}
+                    >
+                      <Text style={styles.photoRemoveText}>Usuń zdjęcie</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.submitButton, (saving || uploadingPhoto) && styles.submitButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving || uploadingPhoto}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={20} color="#fff" />
+                  <Text style={styles.submitButtonText}>Zapisz</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  addButton: {
+    padding: 8,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  modelCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 12,
+  },
+  modelPhoto: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+  },
+  modelPhotoEmpty: {
+    backgroundColor: '#0a0a0a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modelInfo: {
+    flex: 1,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  modelName: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  categoryBadge: {
+    backgroundColor: '#3b82f6',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  categoryBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  modelMeta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 16,
+    marginTop: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '85%',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  inputLabel: {
+    color: '#888',
+    fontSize: 14,
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    color: '#fff',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  categorySelect: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  categoryOption: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  categoryOptionActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  categoryOptionText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  categoryOptionTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  photoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 20,
+  },
+  photoPreview: {
+    width: 96,
+    height: 96,
+    borderRadius: 12,
+  },
+  photoActions: {
+    flex: 1,
+    gap: 8,
+  },
+  photoButton: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  photoButtonText: {
+    color: '#3b82f6',
+    fontSize: 14,
+  },
+  photoRemoveText: {
+    color: '#ef4444',
+    fontSize: 14,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    margin: 20,
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
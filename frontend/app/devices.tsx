@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -12,76 +12,96 @@ import {
   ScrollView,
   Platform,
   KeyboardAvoidingView,
+  ActivityIndicator,
+  ViewToken,
+  Image,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import { useRealtimeEvent } from '../src/context/RealtimeContext';
+import {
+  getDevices,
+  getDeviceCounts,
+  getWorkers,
+  getInventorySummary,
+  getLocationInventory,
+  getLocations,
+  getDeviceHistory,
+  getAttachmentUrl,
+  assignDevice,
+  assignMultipleDevices,
+  addBulkReturns,
+  restoreDevice,
+  transferDevice,
+  moveDevices,
+} from '../src/utils/apiClient';
+import { canPerformAction, loadDeviceLifecycle } from '../src/utils/deviceLifecycle';
+import { openDeviceLabels } from '../src/utils/deviceLabels';
+import { INSTALLATION_PHOTO_LABELS } from '../src/utils/installationPhotos';
+import {
+  Device,
+  DeviceAction,
+  DeviceCounts,
+  DeviceFilters,
+  DeviceLifecycle,
+  DeviceStatus,
+  Worker,
+  ActivityLog,
+  InstallationJob,
+  InventorySummary,
+  LabelLayout,
+  Location,
+  LocationInventory,
+} from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 
-interface Device {
-  device_id: string;
-  nazwa: string;
-  numer_seryjny: string;
-  kod_kreskowy?: string;
-  kod_qr?: string;
-  przypisany_do?: string;
-  status: string;
-  instalacja?: {
-    adres?: string;
-    data_instalacji?: string;
-    rodzaj_zlecenia?: string;
-    instalator_id?: string;
-  };
-}
+const DEVICE_PAGE_SIZE = 50;
 
-interface Worker {
-  user_id: string;
-  name: string;
-  email: string;
+// Devices of one category loaded so far
+interface CategoryPage {
+  items: Device[];
+  hasMore: boolean;
+  loading: boolean;
 }
 
-interface DeviceCategory {
-  name: string;
-  devices: Device[];
-  expanded: boolean;
-}
+// The list is flat so that every category can scroll in more devices on its own
+type DeviceListRow =
+  | { type: 'category'; name: string; count: number; hasBody: boolean }
+  | { type: 'device'; category: string; device: Device; last: boolean }
+  | { type: 'more'; category: string; loading: boolean };
 
-interface ActivityLog {
-  log_id: string;
-  timestamp: string;
-  user_id: string;
-  user_name: string;
-  user_role: string;
-  action_type: string;
-  action_description: string;
-  device_serial?: string;
-  device_name?: string;
-  device_id?: string;
-  task_id?: string;
-  target_user_id?: string;
-  target_user_name?: string;
-  details?: any;
-  ip_address?: string;
-}
+const LIST_VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 10 };
+
+const LOCATION_ICONS: Record<Location['type'], string> = {
+  warehouse: 'business',
+  van: 'bus',
+  worker: 'person',
+};
 
 export default function Devices() {
-  const { user, isAuthenticated, isLoading } = useAuth();
-  const { view } = useLocalSearchParams<{ view?: string }>();
-  const [devices, setDevices] = useState<Device[]>([]);
+  const { user, sessionToken, isAuthenticated, isLoading } = useAuth();
+  const { view, history } = useLocalSearchParams<{ view?: string; history?: string }>();
+  const [counts, setCounts] = useState<DeviceCounts | null>(null);
+  const [categoryPages, setCategoryPages] = useState<Record<string, CategoryPage>>({});
   const [workers, setWorkers] = useState<Worker[]>([]);
+  const [lifecycle, setLifecycle] = useState<DeviceLifecycle | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<DeviceStatus | null>(null);
   const [workerFilter, setWorkerFilter] = useState<string | null>(null);
   const [nameFilter, setNameFilter] = useState<string | null>(null);
+  const [locationFilter, setLocationFilter] = useState<string | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [showFiltersModal, setShowFiltersModal] = useState(false);
   
   // View mode: 'devices' or 'inventory'
   const [viewMode, setViewMode] = useState<'devices' | 'inventory'>(
     view === 'inventory' ? 'inventory' : 'devices'
   );
-  const [inventoryData, setInventoryData] = useState<any[]>([]);
+  const [inventoryData, setInventoryData] = useState<InventorySummary[]>([]);
+  const [locationInventory, setLocationInventory] = useState<LocationInventory[]>([]);
   const [inventoryLoading, setInventoryLoading] = useState(false);
   
   // Single device assign modal
@@ -96,6 +116,8 @@ export default function Devices() {
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedDevices, setSelectedDevices] = useState<Set<string>>(new Set());
   const [bulkAssignModalVisible, setBulkAssignModalVisible] = useState(false);
+  const [moveModalVisible, setMoveModalVisible] = useState(false);
+  const [labelsModalVisible, setLabelsModalVisible] = useState(false);
   
   // Categories expanded state
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
@@ -108,35 +130,125 @@ export default function Devices() {
   const [deviceHistory, setDeviceHistory] = useState<ActivityLog[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
   const [historyDevice, setHistoryDevice] = useState<Device | null>(null);
-  const [deviceFullInfo, setDeviceFullInfo] = useState<any>(null); // Device info from API with import date
+  const [deviceFullInfo, setDeviceFullInfo] = useState<Device | null>(null); // Device info from API with import date
+  // Photos and signature of the job the device was installed in
+  const [historyJob, setHistoryJob] = useState<Omit<InstallationJob, 'installations'> | null>(null);
+  const [previewPhotoUri, setPreviewPhotoUri] = useState<string | null>(null);
 
   const isAdmin = user?.role === 'admin';
 
+  // Buttons are offered only for transitions the server would accept
+  const can = (device: Device, action: DeviceAction) => canPerformAction(lifecycle, device, user, action);
+
+  // In the damaged tab selected devices go to returns, everywhere else they get assigned
+  const bulkAction: DeviceAction = statusFilter === 'uszkodzony' ? 'return' : 'assign';
+  const isSelectable = (device: Device) => can(device, bulkAction);
+
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       router.replace('/');
     }
   }, [isLoading, isAuthenticated]);
 
+  // Filtering, searching and sorting happen on the server
+  const filters = useMemo<DeviceFilters>(() => ({
+    status: statusFilter || undefined,
+    assigned_to: workerFilter || undefined,
+    nazwa: nameFilter || undefined,
+    search: debouncedSearch.trim() || undefined,
+    location_id: locationFilter || undefined,
+  }), [statusFilter, workerFilter, nameFilter, locationFilter, debouncedSearch]);
+
+  // Responses for filters that changed in the meantime are dropped
+  const loadGenerationRef = useRef(0);
+  const loadingCategoriesRef = useRef<Set<string>>(new Set());
+  const categoryPagesRef = useRef(categoryPages);
+  categoryPagesRef.current = categoryPages;
+
+  const loadCategoryPage = async (name: string, reset = false) => {
+    const current = reset ? undefined : categoryPagesRef.current[name];
+    if (loadingCategoriesRef.current.has(name) || (current && !current.hasMore)) return;
+
+    const generation = loadGenerationRef.current;
+    const skip = current ? current.items.length : 0;
+    loadingCategoriesRef.current.add(name);
+    setCategoryPages((prev) => ({
+      ...prev,
+      [name]: { items: current ? current.items : [], hasMore: true, loading: true },
+    }));
+
+    try {
+      const page = await getDevices({
+        ...filters,
+        nazwa: name,
+        // Installed devices newest first, everything else by serial number
+        sort: statusFilter === 'zainstalowany' ? 'data_instalacji' : 'numer_seryjny',
+        order: statusFilter === 'zainstalowany' ? 'desc' : 'asc',
+        skip,
+        limit: DEVICE_PAGE_SIZE,
+      });
+      if (generation !== loadGenerationRef.current) return;
+      setCategoryPages((prev) => ({
+        ...prev,
+        [name]: {
+          items: skip === 0 ? page.items : [...(prev[name]?.items || []), ...page.items],
+          hasMore: page.has_more,
+          loading: false,
+        },
+      }));
+    } catch (error) {
+      console.error('Error loading devices:', error);
+      if (generation === loadGenerationRef.current) {
+        setCategoryPages((prev) => ({
+          ...prev,
+          [name]: { items: prev[name]?.items || [], hasMore: false, loading: false },
+        }));
+      }
+    } finally {
+      loadingCategoriesRef.current.delete(name);
+    }
+  };
+
   const loadData = async () => {
+    loadGenerationRef.current += 1;
+    loadingCategoriesRef.current.clear();
+    setCategoryPages({});
+    // Categories that stay open get their first page again
+    expandedCategories.forEach((name) => loadCategoryPage(name, true));
+
     try {
-      const [devicesData, workersData] = await Promise.all([
-        apiFetch('/api/devices'),
-        apiFetch('/api/workers'),
+      const [countsData, workersData, locationsData] = await Promise.all([
+        getDeviceCounts(filters),
+        getWorkers(),
+        isAdmin ? getLocations() : Promise.resolve([]),
       ]);
-      setDevices(devicesData);
+      setCounts(countsData);
       setWorkers(workersData);
+      setLocations(locationsData);
+      setLifecycle(await loadDeviceLifecycle());
     } catch (error) {
       console.error('Error loading data:', error);
     }
   };
 
+  // The viewability callback has to stay the same function, it reads the loader from here
+  const loadMoreRef = useRef(loadCategoryPage);
+  loadMoreRef.current = loadCategoryPage;
+  const onViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    viewableItems.forEach(({ item }) => {
+      if (item?.type === 'more' && !item.loading) {
+        loadMoreRef.current(item.category);
+      }
+    });
+  }).current;
+
   const loadInventory = async () => {
     if (!isAdmin) return;
     setInventoryLoading(true);
     try {
-      const data = await apiFetch('/api/devices/inventory/summary');
+      const [data, locationData] = await Promise.all([getInventorySummary(), getLocationInventory()]);
       setInventoryData(data);
+      setLocationInventory(locationData);
     } catch (error) {
       console.error('Error loading inventory:', error);
     } finally {
@@ -148,14 +260,16 @@ export default function Devices() {
   const loadDeviceHistory = async (deviceSerial: string) => {
     setHistoryLoading(true);
     try {
-      const data = await apiFetch(`/api/activity-logs/device/${encodeURIComponent(deviceSerial)}?limit=100`);
+      const data = await getDeviceHistory(deviceSerial);
       // API returns { device, installation, logs, total_events }
       setDeviceFullInfo(data.device || null);
       setDeviceHistory(data.logs || []);
+      setHistoryJob(data.job || null);
     } catch (error) {
       console.error('Error loading device history:', error);
       setDeviceHistory([]);
       setDeviceFullInfo(null);
+      setHistoryJob(null);
     } finally {
       setHistoryLoading(false);
     }
@@ -164,6 +278,7 @@ export default function Devices() {
   const openDeviceHistory = (device: Device) => {
     setHistoryDevice(device);
     setDeviceFullInfo(null);
+    setHistoryJob(null);
     setHistoryModalVisible(true);
     loadDeviceHistory(device.numer_seryjny);
   };
@@ -176,11 +291,16 @@ export default function Devices() {
       case 'device_assign': return 'arrow-forward-circle-outline';
       case 'device_add': return 'add-circle-outline';
       case 'device_import': return 'cloud-download-outline';
+      case 'import_rollback': return 'arrow-undo-outline';
+      case 'stocktake_close': return 'clipboard-outline';
+      case 'stocktake_correction': return 'git-compare-outline';
+      case 'stocktake_write_off': return 'help-circle-outline';
       case 'device_scan': return 'scan-outline';
       case 'device_return': return 'return-down-back-outline';
       case 'device_damage': return 'warning-outline';
       case 'device_restore': return 'refresh-outline';
       case 'device_transfer': return 'swap-horizontal-outline';
+      case 'device_chat_reference': return 'chatbubble-ellipses-outline';
       default: return 'ellipse-outline';
     }
   };
@@ -193,11 +313,16 @@ export default function Devices() {
       case 'device_assign': return '#f59e0b';
       case 'device_add': return '#10b981';
       case 'device_import': return '#10b981';
+      case 'import_rollback': return '#ef4444';
+      case 'stocktake_close': return '#06b6d4';
+      case 'stocktake_correction': return '#f59e0b';
+      case 'stocktake_write_off': return '#ef4444';
       case 'device_scan': return '#8b5cf6';
       case 'device_return': return '#ef4444';
       case 'device_damage': return '#ef4444';
       case 'device_restore': return '#3b82f6';
       case 'device_transfer': return '#8b5cf6';
+      case 'device_chat_reference': return '#10b981';
       default: return '#888';
     }
   };
@@ -218,11 +343,40 @@ export default function Devices() {
     }
   };
 
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
   useEffect(() => {
     if (isAuthenticated) {
       loadData();
     }
-  }, [isAuthenticated]);
+  }, [isAuthenticated, filters]);
+
+  // Opened from a device card in the chat - admins get the history, workers a filtered list
+  useEffect(() => {
+    if (!isAuthenticated || !history) return;
+    if (!isAdmin) {
+      setSearchQuery(history);
+      return;
+    }
+    setHistoryDevice(null);
+    setDeviceFullInfo(null);
+    setHistoryModalVisible(true);
+    setHistoryLoading(true);
+    getDeviceHistory(history)
+      .then((data) => {
+        setHistoryDevice(data.device || null);
+        setDeviceFullInfo(data.device || null);
+        setDeviceHistory(data.logs || []);
+      })
+      .catch((error) => {
+        console.error('Error loading device history:', error);
+        setDeviceHistory([]);
+      })
+      .finally(() => setHistoryLoading(false));
+  }, [isAuthenticated, isAdmin, history]);
 
   // Load inventory when switching to inventory view
   useEffect(() => {
@@ -231,6 +385,10 @@ export default function Devices() {
     }
   }, [viewMode, isAdmin]);
 
+  useRealtimeEvent('stock:low', () => {
+    if (viewMode === 'inventory') loadInventory();
+  });
+
   // Set default filter to 'przypisany' for employees
   useEffect(() => {
     if (user && user.role !== 'admin' && statusFilter === null) {
@@ -244,58 +402,43 @@ export default function Devices() {
     setRefreshing(false);
   };
 
-  // Get unique device names for filter
-  const deviceNames = useMemo(() => {
-    const names = new Set(devices.map(d => d.nazwa));
-    return Array.from(names).sort();
-  }, [devices]);
-
-  // Group devices by name (category)
-  const categorizedDevices = useMemo(() => {
-    const filtered = devices.filter((device) => {
-      const matchesSearch =
-        device.nazwa.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        device.numer_seryjny.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesStatus = !statusFilter || device.status === statusFilter;
-      // For installed devices, check installer_id instead of przypisany_do
-      const matchesWorker = !workerFilter || 
-        device.przypisany_do === workerFilter || 
-        (device.status === 'zainstalowany' && device.instalacja?.instalator_id === workerFilter);
-      const matchesName = !nameFilter || device.nazwa === nameFilter;
-      return matchesSearch && matchesStatus && matchesWorker && matchesName;
-    });
+  // Device names for the filter modal
+  const deviceNames = useMemo(
+    () => (counts?.by_name || []).map((c) => c.nazwa).sort((a, b) => a.localeCompare(b)),
+    [counts]
+  );
 
-    const categoryMap = new Map<string, Device[]>();
-    
-    filtered.forEach((device) => {
-      const categoryName = device.nazwa || 'Bez nazwy';
-      if (!categoryMap.has(categoryName)) {
-        categoryMap.set(categoryName, []);
+  // Devices loaded so far, in every open category
+  const devices = useMemo(
+    () => Object.values(categoryPages).flatMap((page) => page.items),
+    [categoryPages]
+  );
+
+  // Categories come from the per-name counts, their devices are loaded page by page when opened
+  const listRows = useMemo(() => {
+    const rows: DeviceListRow[] = [];
+    const categories = [...(counts?.by_name || [])].sort((a, b) => a.nazwa.localeCompare(b.nazwa));
+
+    categories.forEach(({ nazwa, count }) => {
+      const page = categoryPages[nazwa];
+      const isExpanded = expandedCategories.has(nazwa);
+      const items = isExpanded ? page?.items || [] : [];
+      const showMore = isExpanded && (!page || page.hasMore);
+
+      rows.push({ type: 'category', name: nazwa, count, hasBody: items.length > 0 || showMore });
+      items.forEach((device, index) => {
+        rows.push({ type: 'device', category: nazwa, device, last: index === items.length - 1 && !showMore });
+      });
+      if (showMore) {
+        rows.push({ type: 'more', category: nazwa, loading: !page || page.loading });
       }
-      categoryMap.get(categoryName)!.push(device);
     });
 
-    // Sort categories alphabetically
-    const sortedCategories = Array.from(categoryMap.entries())
-      .sort((a, b) => a[0].localeCompare(b[0]))
-      .map(([name, devs]) => ({
-        name,
-        devices: devs.sort((a, b) => {
-          // For installed devices, sort by installation date (newest first)
-          if (statusFilter === 'zainstalowany') {
-            const dateA = a.instalacja?.data_instalacji ? new Date(a.instalacja.data_instalacji).getTime() : 0;
-            const dateB = b.instalacja?.data_instalacji ? new Date(b.instalacja.data_instalacji).getTime() : 0;
-            return dateB - dateA; // Descending order (newest first)
-          }
-          // For other statuses, sort by serial number
-          return a.numer_seryjny.localeCompare(b.numer_seryjny);
-        }),
-        count: devs.length,
-        availableCount: devs.filter(d => d.status === 'dostepny').length,
-      }));
+    return rows;
+  }, [counts, categoryPages, expandedCategories]);
 
-    return sortedCategories;
-  }, [devices, searchQuery, statusFilter, workerFilter, nameFilter]);
+  const statusCount = (status: DeviceStatus) => counts?.by_status[status] || 0;
+  const totalCount = counts ? Object.values(counts.by_status).reduce((sum, count) => sum + (count || 0), 0) : 0;
 
   const toggleCategory = (categoryName: string) => {
     setExpandedCategories((prev) => {
@@ -307,6 +450,9 @@ export default function Devices() {
       }
       return newSet;
     });
+    if (!expandedCategories.has(categoryName) && !categoryPages[categoryName]) {
+      loadCategoryPage(categoryName, true);
+    }
   };
 
   const toggleDeviceSelection = (deviceId: string) => {
@@ -321,19 +467,19 @@ export default function Devices() {
     });
   };
 
-  const selectAllInCategory = (category: { name: string; devices: Device[] }) => {
-    const availableDevices = category.devices.filter(d => d.status === 'dostepny');
+  const selectAllInCategory = (categoryName: string) => {
+    const selectableDevices = (categoryPages[categoryName]?.items || []).filter(isSelectable);
     setSelectedDevices((prev) => {
       const newSet = new Set(prev);
-      availableDevices.forEach(d => newSet.add(d.device_id));
+      selectableDevices.forEach(d => newSet.add(d.device_id));
       return newSet;
     });
   };
 
-  const deselectAllInCategory = (category: { name: string; devices: Device[] }) => {
+  const deselectAllInCategory = (categoryName: string) => {
     setSelectedDevices((prev) => {
       const newSet = new Set(prev);
-      category.devices.forEach(d => newSet.delete(d.device_id));
+      (categoryPages[categoryName]?.items || []).forEach(d => newSet.delete(d.device_id));
       return newSet;
     });
   };
@@ -342,10 +488,7 @@ export default function Devices() {
     if (!selectedDevice) return;
     
     try {
-      await apiFetch(`/api/devices/${selectedDevice.device_id}/assign`, {
-        method: 'POST',
-        body: { worker_id: workerId },
-      });
+      await assignDevice(selectedDevice.device_id, workerId);
       
       Alert.alert('Sukces', 'Urządzenie zostało przypisane');
       setAssignModalVisible(false);
@@ -360,15 +503,9 @@ export default function Devices() {
     if (selectedDevices.size === 0) return;
     
     try {
-      await apiFetch('/api/devices/assign-multiple', {
-        method: 'POST',
-        body: { 
-          device_ids: Array.from(selectedDevices),
-          worker_id: workerId 
-        },
-      });
+      const result = await assignMultipleDevices(Array.from(selectedDevices), workerId);
       
-      Alert.alert('Sukces', `Przypisano ${selectedDevices.size} urządzeń`);
+      Alert.alert('Sukces', result.message);
       setBulkAssignModalVisible(false);
       setSelectedDevices(new Set());
       setSelectionMode(false);
@@ -378,6 +515,33 @@ export default function Devices() {
     }
   };
 
+  const handleBulkMove = async (locationId: string) => {
+    if (selectedDevices.size === 0) return;
+
+    try {
+      const result = await moveDevices(Array.from(selectedDevices), locationId);
+
+      Alert.alert('Sukces', result.message);
+      setMoveModalVisible(false);
+      setSelectedDevices(new Set());
+      setSelectionMode(false);
+      loadData();
+    } catch (error: any) {
+      Alert.alert('Błąd', error.message);
+    }
+  };
+
+  const handlePrintLabels = async (layout: LabelLayout) => {
+    if (selectedDevices.size === 0) return;
+
+    try {
+      await openDeviceLabels(Array.from(selectedDevices), layout, sessionToken);
+      setLabelsModalVisible(false);
+    } catch (error: any) {
+      Alert.alert('Błąd', error.message);
+    }
+  };
+
   const cancelSelection = () => {
     setSelectionMode(false);
     setSelectedDevices(new Set());
@@ -386,6 +550,7 @@ export default function Devices() {
   const clearFilters = () => {
     setWorkerFilter(null);
     setNameFilter(null);
+    setLocationFilter(null);
     setShowFiltersModal(false);
   };
 
@@ -399,18 +564,15 @@ export default function Devices() {
           .filter((d) => selectedDevices.has(d.device_id))
           .map((d) => d.numer_seryjny);
 
-        await apiFetch('/api/returns/bulk', {
-          method: 'POST',
-          body: {
-            device_serials: serials,
-            device_status: 'nowy/uszkodzony',
-          },
+        const result = await addBulkReturns({
+          device_serials: serials,
+          device_status: 'nowy/uszkodzony',
         });
 
         if (Platform.OS === 'web') {
-          window.alert(`Przeniesiono ${serials.length} urządzeń do zwrotów`);
+          window.alert(result.message);
         } else {
-          Alert.alert('Sukces', `Przeniesiono ${serials.length} urządzeń do zwrotów`);
+          Alert.alert('Sukces', result.message);
         }
         
         cancelSelection();
@@ -450,9 +612,7 @@ export default function Devices() {
 
     const performRestore = async () => {
       try {
-        const result = await apiFetch(`/api/devices/${device.device_id}/restore`, {
-          method: 'POST',
-        });
+        const result = await restoreDevice(device.device_id);
         if (Platform.OS === 'web') {
           window.alert(result.message || 'Urządzenie zostało przywrócone');
         } else {
@@ -493,10 +653,7 @@ export default function Devices() {
     if (!deviceToTransfer) return;
     
     try {
-      const result = await apiFetch(`/api/devices/${deviceToTransfer.device_id}/transfer`, {
-        method: 'POST',
-        body: { worker_id: newWorkerId },
-      });
+      const result = await transferDevice(deviceToTransfer.device_id, newWorkerId);
       
       if (Platform.OS === 'web') {
         window.alert(result.message || 'Urządzenie zostało przeniesione');
@@ -516,14 +673,18 @@ export default function Devices() {
     }
   };
 
-  const activeFiltersCount = (workerFilter ? 1 : 0) + (nameFilter ? 1 : 0);
+  const activeFiltersCount = (workerFilter ? 1 : 0) + (nameFilter ? 1 : 0) + (locationFilter ? 1 : 0);
 
-  const statusFilters = [
+  // Devices can only be moved between warehouses and vans
+  const stockLocations = locations.filter((l) => l.type !== 'worker');
+
+  const statusFilters: { key: DeviceStatus | null; label: string }[] = [
     { key: null, label: 'Wszystkie' },
     { key: 'dostepny', label: 'Dostępne' },
     { key: 'przypisany', label: 'Przypisane' },
     { key: 'zainstalowany', label: 'Zainstalowane' },
     { key: 'uszkodzony', label: 'Uszkodzone' },
+    { key: 'zaginiony', label: 'Zaginione' },
   ];
 
   const formatDate = (dateStr: string) => {
@@ -544,10 +705,13 @@ export default function Devices() {
       ? workers.find((w) => w.user_id === device.instalacja?.instalator_id)
       : null;
     const isSelected = selectedDevices.has(device.device_id);
-    const isAvailable = device.status === 'dostepny';
     const isInstalled = device.status === 'zainstalowany';
     const isDamaged = device.status === 'uszkodzony';
-    const canSelect = isAvailable || (isDamaged && statusFilter === 'uszkodzony');
+    const canSelect = isSelectable(device);
+    // Assigned devices already show their worker
+    const stockLocation = device.status === 'dostepny'
+      ? locations.find((l) => l.location_id === device.location_id)
+      : undefined;
 
     return (
       <TouchableOpacity
@@ -561,7 +725,7 @@ export default function Devices() {
         onPress={() => {
           if (selectionMode && canSelect) {
             toggleDeviceSelection(device.device_id);
-          } else if (isAdmin && isAvailable && !selectionMode) {
+          } else if (can(device, 'assign') && !selectionMode) {
             setSelectedDevice(device);
             setAssignModalVisible(true);
           }
@@ -588,6 +752,12 @@ export default function Devices() {
           {device.kod_kreskowy && (
             <Text style={styles.deviceCode}>Kod: {device.kod_kreskowy}</Text>
           )}
+          {stockLocation && (
+            <View style={styles.locationBadge}>
+              <Ionicons name={LOCATION_ICONS[stockLocation.type] as any} size={12} color="#10b981" />
+              <Text style={styles.locationBadgeText}>{stockLocation.name}</Text>
+            </View>
+          )}
           {assignedWorker && !isInstalled && (
             <View style={styles.assignedInfo}>
               <View style={styles.assignedBadge}>
@@ -595,7 +765,7 @@ export default function Devices() {
                 <Text style={styles.assignedName}>{assignedWorker.name}</Text>
               </View>
               {/* Transfer button for admin on assigned devices */}
-              {isAdmin && device.status === 'przypisany' && (
+              {can(device, 'transfer') && (
                 <TouchableOpacity
                   style={styles.transferButton}
                   onPress={(e) => {
@@ -614,12 +784,17 @@ export default function Devices() {
           {isInstalled && device.instalacja && (
             <View style={styles.installationInfo}>
               {device.instalacja.adres && (
-                <View style={styles.installationRow}>
+                <TouchableOpacity
+                  style={styles.installationRow}
+                  disabled={!device.instalacja.address_id}
+                  onPress={() => router.push(`/address?id=${device.instalacja?.address_id}`)}
+                >
                   <Ionicons name="location" size={14} color="#f59e0b" />
                   <Text style={styles.installationAddress} numberOfLines={2}>
                     {device.instalacja.adres}
                   </Text>
-                </View>
+                  {!!device.instalacja.address_id && <Ionicons name="chevron-forward" size={14} color="#888" />}
+                </TouchableOpacity>
               )}
               {device.instalacja.data_instalacji && (
                 <View style={styles.installationRow}>
@@ -648,16 +823,18 @@ export default function Devices() {
               {/* Restore button for admin */}
               {isAdmin && (
                 <View style={styles.deviceActionRow}>
-                  <TouchableOpacity
-                    style={styles.restoreButton}
-                    onPress={(e) => {
-                      e.stopPropagation();
-                      handleRestoreDevice(device);
-                    }}
-                  >
-                    <Ionicons name="refresh" size={16} color="#3b82f6" />
-                    <Text style={styles.restoreButtonText}>Przywróć</Text>
-                  </TouchableOpacity>
+                  {can(device, 'restore') && (
+                    <TouchableOpacity
+                      style={styles.restoreButton}
+                      onPress={(e) => {
+                        e.stopPropagation();
+                        handleRestoreDevice(device);
+                      }}
+                    >
+                      <Ionicons name="refresh" size={16} color="#3b82f6" />
+                      <Text style={styles.restoreButtonText}>Przywróć</Text>
+                    </TouchableOpacity>
+                  )}
                   
                   <TouchableOpacity
                     style={styles.historyButton}
@@ -700,12 +877,14 @@ export default function Devices() {
     );
   };
 
-  const renderCategory = ({ item: category }: { item: { name: string; devices: Device[]; count: number; availableCount: number } }) => {
+  const renderCategoryHeader = (category: { name: string; count: number; hasBody: boolean }) => {
     const isExpanded = expandedCategories.has(category.name);
-    const selectedInCategory = category.devices.filter(d => selectedDevices.has(d.device_id)).length;
+    const categoryDevices = categoryPages[category.name]?.items || [];
+    const selectedInCategory = categoryDevices.filter(d => selectedDevices.has(d.device_id)).length;
+    const selectableCount = selectionMode ? categoryDevices.filter(isSelectable).length : 0;
 
     return (
-      <View style={styles.categoryContainer}>
+      <View style={[styles.categoryContainer, category.hasBody && styles.categoryContainerOpen]}>
         <TouchableOpacity
           style={styles.categoryHeader}
           onPress={() => toggleCategory(category.name)}
@@ -743,35 +922,60 @@ export default function Devices() {
           />
         </TouchableOpacity>
         
-        {isExpanded && (
+        {category.hasBody && (
           <View style={styles.categoryContent}>
-            {/* Quick select buttons for admin in selection mode */}
-            {isAdmin && selectionMode && category.availableCount > 0 && (
+            {/* Quick select buttons for admin in selection mode (devices loaded so far) */}
+            {isAdmin && selectionMode && selectableCount > 0 && (
               <View style={styles.quickSelectRow}>
                 <TouchableOpacity
                   style={styles.quickSelectButton}
-                  onPress={() => selectAllInCategory(category)}
+                  onPress={() => selectAllInCategory(category.name)}
                 >
                   <Ionicons name="checkbox" size={16} color="#10b981" />
-                  <Text style={styles.quickSelectText}>Zaznacz wszystkie ({category.availableCount})</Text>
+                  <Text style={styles.quickSelectText}>Zaznacz wszystkie ({selectableCount})</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.quickSelectButton}
-                  onPress={() => deselectAllInCategory(category)}
+                  onPress={() => deselectAllInCategory(category.name)}
                 >
                   <Ionicons name="square-outline" size={16} color="#888" />
                   <Text style={styles.quickSelectText}>Odznacz</Text>
                 </TouchableOpacity>
               </View>
             )}
-            
-            {category.devices.map(renderDeviceItem)}
           </View>
         )}
       </View>
     );
   };
 
+  const renderListRow = ({ item: row }: { item: DeviceListRow }) => {
+    if (row.type === 'category') {
+      return renderCategoryHeader(row);
+    }
+
+    if (row.type === 'device') {
+      return (
+        <View style={[styles.categoryBodyRow, row.last && styles.categoryBodyLast]}>
+          {renderDeviceItem(row.device)}
+        </View>
+      );
+    }
+
+    // Becoming visible loads the next page, the button is there for slow scrolling on web
+    return (
+      <View style={[styles.categoryBodyRow, styles.categoryBodyLast, styles.loadMoreRow]}>
+        {row.loading ? (
+          <ActivityIndicator size="small" color="#3b82f6" />
+        ) : (
+          <TouchableOpacity onPress={() => loadCategoryPage(row.category)}>
+            <Text style={styles.loadMoreText}>Wczytaj więcej</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -817,10 +1021,8 @@ export default function Devices() {
               <TouchableOpacity
                 style={styles.selectAllButton}
                 onPress={() => {
-                  // Select all devices that can be selected (available or damaged when filter is 'uszkodzony')
-                  const selectableDevices = devices.filter(d => 
-                    d.status === 'dostepny' || (d.status === 'uszkodzony' && statusFilter === 'uszkodzony')
-                  );
+                  // Select all devices the current bulk action can be applied to
+                  const selectableDevices = devices.filter(isSelectable);
                   const newSelection = new Set(selectableDevices.map(d => d.device_id));
                   setSelectedDevices(newSelection);
                 }}
@@ -836,7 +1038,15 @@ export default function Devices() {
             </View>
           </View>
           <View style={styles.selectionActions}>
-            {statusFilter === 'uszkodzony' && selectedDevices.size > 0 && (
+            {selectedDevices.size > 0 && (
+              <TouchableOpacity
+                style={styles.labelsButton}
+                onPress={() => setLabelsModalVisible(true)}
+              >
+                <Ionicons name="print-outline" size={20} color="#3b82f6" />
+              </TouchableOpacity>
+            )}
+            {bulkAction === 'return' && selectedDevices.size > 0 && (
               <TouchableOpacity
                 style={styles.moveToReturnsButton}
                 onPress={handleMoveToReturns}
@@ -845,21 +1055,40 @@ export default function Devices() {
                 <Text style={styles.moveToReturnsText}>Do zwrotów</Text>
               </TouchableOpacity>
             )}
-            <TouchableOpacity
-              style={[
-                styles.assignSelectedButton,
-                selectedDevices.size === 0 && styles.assignSelectedButtonDisabled,
-              ]}
-              onPress={() => {
-                if (selectedDevices.size > 0) {
-                  setBulkAssignModalVisible(true);
-                }
-              }}
-              disabled={selectedDevices.size === 0}
-            >
-              <Ionicons name="person-add" size={20} color="#fff" />
-              <Text style={styles.assignSelectedButtonText}>Przypisz wybrane</Text>
-            </TouchableOpacity>
+            {bulkAction === 'assign' && stockLocations.length > 0 && (
+              <TouchableOpacity
+                style={[
+                  styles.moveSelectedButton,
+                  selectedDevices.size === 0 && styles.assignSelectedButtonDisabled,
+                ]}
+                onPress={() => {
+                  if (selectedDevices.size > 0) {
+                    setMoveModalVisible(true);
+                  }
+                }}
+                disabled={selectedDevices.size === 0}
+              >
+                <Ionicons name="swap-horizontal" size={20} color="#fff" />
+                <Text style={styles.assignSelectedButtonText}>Przenieś</Text>
+              </TouchableOpacity>
+            )}
+            {bulkAction === 'assign' && (
+              <TouchableOpacity
+                style={[
+                  styles.assignSelectedButton,
+                  selectedDevices.size === 0 && styles.assignSelectedButtonDisabled,
+                ]}
+                onPress={() => {
+                  if (selectedDevices.size > 0) {
+                    setBulkAssignModalVisible(true);
+                  }
+                }}
+                disabled={selectedDevices.size === 0}
+              >
+                <Ionicons name="person-add" size={20} color="#fff" />
+                <Text style={styles.assignSelectedButtonText}>Przypisz wybrane</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       )}
@@ -882,7 +1111,7 @@ export default function Devices() {
           >
             <Ionicons name="people" size={18} color={viewMode === 'inventory' ? '#fff' : '#888'} />
             <Text style={[styles.viewModeText, viewMode === 'inventory' && styles.viewModeTextActive]}>
-              Stany pracowników
+              Stany magazynowe
             </Text>
           </TouchableOpacity>
         </View>
@@ -896,6 +1125,92 @@ export default function Devices() {
             <RefreshControl refreshing={inventoryLoading} onRefresh={loadInventory} tintColor="#3b82f6" />
           }
         >
+          {/* Warehouses and vans */}
+          <View style={styles.inventorySectionHeader}>
+            <Text style={styles.inventorySectionTitle}>Lokalizacje</Text>
+            <TouchableOpacity style={styles.manageLocationsButton} onPress={() => router.push('/locations')}>
+              <Ionicons name="settings-outline" size={16} color="#3b82f6" />
+              <Text style={styles.stockLimitsButtonText}>Zarządzaj</Text>
+            </TouchableOpacity>
+          </View>
+          {locationInventory.map((location) => (
+            <TouchableOpacity
+              key={location.location_id}
+              style={styles.inventoryUserCard}
+              onPress={() => {
+                const newExpanded = new Set(expandedUsers);
+                if (newExpanded.has(location.location_id)) {
+                  newExpanded.delete(location.location_id);
+                } else {
+                  newExpanded.add(location.location_id);
+                }
+                setExpandedUsers(newExpanded);
+              }}
+            >
+              <View style={styles.inventoryUserHeader}>
+                <View style={styles.inventoryUserInfo}>
+                  <Ionicons name={LOCATION_ICONS[location.type] as any} size={32} color="#10b981" />
+                  <View>
+                    <Text style={styles.inventoryUserName}>{location.name}</Text>
+                    <Text style={styles.inventoryUserEmail}>
+                      {location.type === 'van' ? 'Bus' : 'Magazyn'}
+                    </Text>
+                  </View>
+                </View>
+                <Ionicons
+                  name={expandedUsers.has(location.location_id) ? 'chevron-up' : 'chevron-down'}
+                  size={24}
+                  color="#888"
+                />
+              </View>
+
+              <View style={styles.inventoryStatsRow}>
+                <View style={styles.inventoryStatBox}>
+                  <Text style={styles.inventoryStatNumber}>{location.total}</Text>
+                  <Text style={styles.inventoryStatLabel}>Razem</Text>
+                </View>
+                <View style={styles.inventoryStatBox}>
+                  <Text style={[styles.inventoryStatNumber, { color: '#10b981' }]}>
+                    {location.by_status.dostepny || 0}
+                  </Text>
+                  <Text style={styles.inventoryStatLabel}>Dostępnych</Text>
+                </View>
+                <View style={styles.inventoryStatBox}>
+                  <Text style={[styles.inventoryStatNumber, { color: '#f59e0b' }]}>
+                    {(location.by_status.uszkodzony || 0) + (location.by_status.zwrocony || 0)}
+                  </Text>
+                  <Text style={styles.inventoryStatLabel}>Uszk./zwroty</Text>
+                </View>
+              </View>
+
+              {expandedUsers.has(location.location_id) && Object.keys(location.by_model).length > 0 && (
+                <View style={styles.inventoryDetails}>
+                  <Text style={styles.inventoryDetailsTitle}>Urządzenia wg modelu:</Text>
+                  {Object.entries(location.by_model).map(([modelName, count]) => (
+                    <View key={modelName} style={styles.inventoryDetailRow}>
+                      <Text style={styles.inventoryDetailName}>{modelName}</Text>
+                      <Text style={styles.inventoryDetailCount}>{count} szt.</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {expandedUsers.has(location.location_id) && (
+                <TouchableOpacity
+                  style={styles.stockLimitsButton}
+                  onPress={() => {
+                    setLocationFilter(location.location_id);
+                    setViewMode('devices');
+                  }}
+                >
+                  <Ionicons name="list-outline" size={16} color="#3b82f6" />
+                  <Text style={styles.stockLimitsButtonText}>Pokaż urządzenia</Text>
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          ))}
+
+          <Text style={styles.inventorySectionTitle}>Pracownicy</Text>
           {inventoryData.filter(u => u.role !== 'admin').map((userData) => (
             <TouchableOpacity
               key={userData.user_id}
@@ -952,18 +1267,35 @@ export default function Devices() {
                 {userData.has_low_stock && (
                   <View style={[styles.inventoryStatBox, styles.inventoryStatBoxAlert]}>
                     <Text style={[styles.inventoryStatNumber, { color: '#ef4444' }]}>
-                      {userData.low_stock.length}
+                      {userData.stock_alerts.length || userData.low_stock.length}
                     </Text>
                     <Text style={[styles.inventoryStatLabel, { color: '#ef4444' }]}>Niski stan</Text>
                   </View>
                 )}
               </View>
               
+              {/* Models below the configured minimum with the replenishment suggestion */}
+              {userData.stock_alerts.length > 0 && (
+                <View style={styles.inventoryDetails}>
+                  <Text style={styles.inventoryDetailsTitle}>Poniżej minimum:</Text>
+                  {userData.stock_alerts.map((alert) => (
+                    <View key={alert.level_id} style={[styles.inventoryDetailRow, styles.inventoryDetailRowAlert]}>
+                      <Text style={[styles.inventoryDetailName, styles.inventoryDetailNameAlert]}>
+                        {alert.model_name}
+                      </Text>
+                      <Text style={[styles.inventoryDetailCount, styles.inventoryDetailCountAlert]}>
+                        {alert.current}/{alert.min_qty} szt. → uzupełnij {alert.suggested_qty}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              
               {/* Expanded details */}
               {expandedUsers.has(userData.user_id) && userData.by_barcode.length > 0 && (
                 <View style={styles.inventoryDetails}>
                   <Text style={styles.inventoryDetailsTitle}>Urządzenia wg typu:</Text>
-                  {userData.by_barcode.map((item: any, idx: number) => (
+                  {userData.by_barcode.map((item, idx) => (
                     <View 
                       key={idx} 
                       style={[
@@ -988,6 +1320,16 @@ export default function Devices() {
                   ))}
                 </View>
               )}
+              
+              {expandedUsers.has(userData.user_id) && (
+                <TouchableOpacity
+                  style={styles.stockLimitsButton}
+                  onPress={() => router.push(`/stock-levels?user=${userData.user_id}`)}
+                >
+                  <Ionicons name="options-outline" size={16} color="#3b82f6" />
+                  <Text style={styles.stockLimitsButtonText}>Limity stanów</Text>
+                </TouchableOpacity>
+              )}
             </TouchableOpacity>
           ))}
           
@@ -1069,30 +1411,30 @@ export default function Devices() {
           {/* Stats */}
           <View style={styles.statsRow}>
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{devices.length}</Text>
+          <Text style={styles.statNumber}>{totalCount}</Text>
           <Text style={styles.statLabel}>Urządzeń</Text>
         </View>
         <View style={styles.statItem}>
           <Text style={[styles.statNumber, { color: '#10b981' }]}>
-            {devices.filter(d => d.status === 'dostepny').length}
+            {statusCount('dostepny')}
           </Text>
           <Text style={styles.statLabel}>Dostępnych</Text>
         </View>
         <View style={styles.statItem}>
           <Text style={[styles.statNumber, { color: '#3b82f6' }]}>
-            {devices.filter(d => d.status === 'przypisany').length}
+            {statusCount('przypisany')}
           </Text>
           <Text style={styles.statLabel}>Przypisanych</Text>
         </View>
         <View style={styles.statItem}>
           <Text style={[styles.statNumber, { color: '#8b5cf6' }]}>
-            {devices.filter(d => d.status === 'zainstalowany').length}
+            {statusCount('zainstalowany')}
           </Text>
           <Text style={styles.statLabel}>Zainstalowanych</Text>
         </View>
         <View style={styles.statItem}>
           <Text style={[styles.statNumber, { color: '#f59e0b' }]}>
-            {devices.filter(d => d.status === 'uszkodzony').length}
+            {statusCount('uszkodzony')}
           </Text>
           <Text style={styles.statLabel}>Uszkodzonych</Text>
         </View>
@@ -1100,9 +1442,13 @@ export default function Devices() {
 
       {/* Categories List */}
       <FlatList
-        data={categorizedDevices}
-        renderItem={renderCategory}
-        keyExtractor={(item) => item.name}
+        data={listRows}
+        renderItem={renderListRow}
+        keyExtractor={(row) =>
+          row.type === 'device' ? row.device.device_id : `${row.type}:${row.type === 'category' ? row.name : row.category}`
+        }
+        onViewableItemsChanged={onViewableItemsChanged}
+        viewabilityConfig={LIST_VIEWABILITY_CONFIG}
         contentContainerStyle={styles.listContainer}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#3b82f6" />
@@ -1217,6 +1563,87 @@ export default function Devices() {
         </View>
       </Modal>
 
+      {/* Move To Location Modal */}
+      <Modal
+        visible={moveModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setMoveModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Przenieś {selectedDevices.size} urządzeń</Text>
+              <TouchableOpacity onPress={() => setMoveModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.selectWorkerLabel}>Wybierz lokalizację:</Text>
+
+            <FlatList
+              data={stockLocations}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={styles.workerItem}
+                  onPress={() => handleBulkMove(item.location_id)}
+                >
+                  <View style={[styles.workerAvatar, { backgroundColor: '#10b981' }]}>
+                    <Ionicons name={LOCATION_ICONS[item.type] as any} size={24} color="#fff" />
+                  </View>
+                  <View style={styles.workerInfo}>
+                    <Text style={styles.workerName}>{item.name}</Text>
+                    <Text style={styles.workerEmail}>{item.type === 'van' ? 'Bus' : 'Magazyn'}</Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color="#888" />
+                </TouchableOpacity>
+              )}
+              keyExtractor={(item) => item.location_id}
+            />
+          </View>
+        </View>
+      </Modal>
+
+      {/* Print Labels Modal */}
+      <Modal
+        visible={labelsModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setLabelsModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Etykiety dla {selectedDevices.size} urządzeń</Text>
+              <TouchableOpacity onPress={() => setLabelsModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity style={styles.workerItem} onPress={() => handlePrintLabels('sheet')}>
+              <View style={styles.workerAvatar}>
+                <Ionicons name="document-outline" size={24} color="#fff" />
+              </View>
+              <View style={styles.workerInfo}>
+                <Text style={styles.workerName}>Arkusz A4</Text>
+                <Text style={styles.workerEmail}>24 etykiety 70 × 37 mm na stronie</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#888" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.workerItem} onPress={() => handlePrintLabels('thermal')}>
+              <View style={styles.workerAvatar}>
+                <Ionicons name="pricetag-outline" size={24} color="#fff" />
+              </View>
+              <View style={styles.workerInfo}>
+                <Text style={styles.workerName}>Drukarka termiczna</Text>
+                <Text style={styles.workerEmail}>Pojedyncze etykiety 50 × 25 mm</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#888" />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
       {/* Transfer Device Modal */}
       <Modal
         visible={transferModalVisible}
@@ -1327,6 +1754,43 @@ export default function Devices() {
                 ))}
               </View>
 
+              {/* Filter by Location */}
+              <View style={styles.filterSection}>
+                <Text style={styles.filterSectionTitle}>Filtruj po lokalizacji</Text>
+                <TouchableOpacity
+                  style={[styles.filterOption, !locationFilter && styles.filterOptionActive]}
+                  onPress={() => setLocationFilter(null)}
+                >
+                  <Ionicons
+                    name={!locationFilter ? 'radio-button-on' : 'radio-button-off'}
+                    size={20}
+                    color={!locationFilter ? '#3b82f6' : '#888'}
+                  />
+                  <Text style={[styles.filterOptionText, !locationFilter && styles.filterOptionTextActive]}>
+                    Wszystkie lokalizacje
+                  </Text>
+                </TouchableOpacity>
+                {locations.map(location => (
+                  <TouchableOpacity
+                    key={location.location_id}
+                    style={[styles.filterOption, locationFilter === location.location_id && styles.filterOptionActive]}
+                    onPress={() => setLocationFilter(location.location_id)}
+                  >
+                    <Ionicons
+                      name={locationFilter === location.location_id ? 'radio-button-on' : 'radio-button-off'}
+                      size={20}
+                      color={locationFilter === location.location_id ? '#3b82f6' : '#888'}
+                    />
+                    <Text style={[
+                      styles.filterOptionText,
+                      locationFilter === location.location_id && styles.filterOptionTextActive,
+                    ]}>
+                      {location.name} ({counts?.by_location[location.location_id] || 0})
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
               {/* Filter by Worker */}
               <View style={styles.filterSection}>
                 <Text style={styles.filterSectionTitle}>Filtruj po pracowniku</Text>
@@ -1430,12 +1894,47 @@ export default function Devices() {
                 <View style={styles.importDateContent}>
                   <Text style={styles.importDateLabel}>Data importu do magazynu</Text>
                   <Text style={styles.importDateValue}>
-                    {formatHistoryDate(deviceFullInfo.created_at || deviceFullInfo.imported_at)}
+                    {formatHistoryDate(deviceFullInfo.created_at || deviceFullInfo.imported_at || '')}
                   </Text>
                 </View>
               </View>
             )}
             
+            {/* Proof of installation */}
+            {historyJob && ((historyJob.photos?.length || 0) > 0 || !!historyJob.signature_attachment_id) && (
+              <View style={styles.jobDocsSection}>
+                <Text style={styles.importDateLabel}>Dokumentacja instalacji</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.jobDocsStrip}>
+                  {(historyJob.photos || []).map((photo) => (
+                    <TouchableOpacity
+                      key={photo.attachment_id}
+                      style={styles.jobDocItem}
+                      onPress={() => setPreviewPhotoUri(getAttachmentUrl(photo.attachment_id, sessionToken))}
+                    >
+                      <Image
+                        source={{ uri: getAttachmentUrl(photo.attachment_id, sessionToken, true) }}
+                        style={styles.jobDocImage}
+                      />
+                      <Text style={styles.jobDocLabel} numberOfLines={1}>{INSTALLATION_PHOTO_LABELS[photo.kind] || photo.kind}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  {!!historyJob.signature_attachment_id && (
+                    <TouchableOpacity
+                      style={styles.jobDocItem}
+                      onPress={() => setPreviewPhotoUri(getAttachmentUrl(historyJob.signature_attachment_id!, sessionToken))}
+                    >
+                      <Image
+                        source={{ uri: getAttachmentUrl(historyJob.signature_attachment_id, sessionToken, true) }}
+                        style={[styles.jobDocImage, styles.jobDocSignature]}
+                        resizeMode="contain"
+                      />
+                      <Text style={styles.jobDocLabel} numberOfLines={1}>Podpis klienta</Text>
+                    </TouchableOpacity>
+                  )}
+                </ScrollView>
+              </View>
+            )}
+            
             {historyLoading ? (
               <View style={styles.historyLoading}>
                 <Text style={styles.loadingText}>Ładowanie historii...</Text>
@@ -1492,6 +1991,23 @@ export default function Devices() {
             )}
           </View>
         </View>
+
+        {/* Full-size documentation photo, nested so it opens over the history */}
+        <Modal
+          visible={!!previewPhotoUri}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setPreviewPhotoUri(null)}
+        >
+          <View style={styles.previewOverlay}>
+            <TouchableOpacity style={styles.previewClose} onPress={() => setPreviewPhotoUri(null)}>
+              <Ionicons name="close" size={28} color="#fff" />
+            </TouchableOpacity>
+            {previewPhotoUri && (
+              <Image source={{ uri: previewPhotoUri }} style={styles.previewImage} resizeMode="contain" />
+            )}
+          </View>
+        </Modal>
       </Modal>
     </SafeAreaView>
   );
@@ -1571,6 +2087,20 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     gap: 8,
   },
+  labelsButton: {
+    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+    padding: 10,
+    borderRadius: 8,
+  },
+  moveSelectedButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#10b981',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    gap: 8,
+  },
   assignSelectedButtonDisabled: {
     backgroundColor: '#333',
   },
@@ -1712,11 +2242,34 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  categoryContainerOpen: {
+    borderBottomLeftRadius: 0,
+    borderBottomRightRadius: 0,
+    marginBottom: 0,
+  },
   categoryContent: {
     borderTopWidth: 1,
     borderTopColor: '#2a2a2a',
     paddingTop: 8,
+  },
+  categoryBodyRow: {
+    backgroundColor: '#1a1a1a',
+  },
+  categoryBodyLast: {
+    borderBottomLeftRadius: 12,
+    borderBottomRightRadius: 12,
+    marginBottom: 12,
     paddingBottom: 8,
+    overflow: 'hidden',
+  },
+  loadMoreRow: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  loadMoreText: {
+    color: '#3b82f6',
+    fontSize: 14,
+    fontWeight: '600',
   },
   quickSelectRow: {
     flexDirection: 'row',
@@ -1784,6 +2337,16 @@ const styles = StyleSheet.create({
     color: '#3b82f6',
     fontSize: 12,
   },
+  locationBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    gap: 4,
+  },
+  locationBadgeText: {
+    color: '#10b981',
+    fontSize: 12,
+  },
   statusDot: {
     width: 10,
     height: 10,
@@ -2157,6 +2720,28 @@ const styles = StyleSheet.create({
     color: '#fff',
   },
   // Inventory view styles
+  inventorySectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginRight: 16,
+  },
+  inventorySectionTitle: {
+    color: '#888',
+    fontSize: 14,
+    marginHorizontal: 16,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  manageLocationsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    gap: 6,
+  },
   inventoryUserCard: {
     backgroundColor: '#1a1a1a',
     borderRadius: 12,
@@ -2252,6 +2837,21 @@ const styles = StyleSheet.create({
     color: '#ef4444',
     fontWeight: '600',
   },
+  stockLimitsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginTop: 12,
+    gap: 6,
+  },
+  stockLimitsButtonText: {
+    color: '#3b82f6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   // Device action row styles
   deviceActionRow: {
     flexDirection: 'row',
@@ -2403,6 +3003,49 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginTop: 2,
   },
+  jobDocsSection: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  jobDocsStrip: {
+    gap: 8,
+    marginTop: 8,
+  },
+  jobDocItem: {
+    width: 88,
+  },
+  jobDocImage: {
+    width: 88,
+    height: 88,
+    borderRadius: 8,
+    backgroundColor: '#0a0a0a',
+  },
+  jobDocSignature: {
+    backgroundColor: '#fff',
+  },
+  jobDocLabel: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 4,
+  },
+  previewOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.95)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  previewClose: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 50 : 20,
+    right: 20,
+    zIndex: 1,
+    padding: 8,
+  },
+  previewImage: {
+    width: '100%',
+    height: '80%',
+  },
   // Timeline styles
   historyTimelineHeader: {
     paddingHorizontal: 16,
@@ -0,0 +1,455 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  FlatList,
+  Modal,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import { getImportBatches, getImportBatch, rollbackImportBatch } from '../src/utils/apiClient';
+import { loadDeviceLifecycle } from '../src/utils/deviceLifecycle';
+import { DeviceLifecycle, ImportBatch, ImportBatchDetail } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+export default function ImportHistory() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [lifecycle, setLifecycle] = useState<DeviceLifecycle | null>(null);
+  const [detail, setDetail] = useState<ImportBatchDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+    if (!isLoading && user?.role !== 'admin') {
+      router.replace('/dashboard');
+    }
+  }, [isLoading, isAuthenticated, user]);
+
+  const loadBatches = useCallback(async () => {
+    try {
+      setBatches(await getImportBatches());
+    } catch (error) {
+      console.error('Error loading import batches:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'admin') {
+      loadBatches();
+      loadDeviceLifecycle()
+        .then(setLifecycle)
+        .catch((error) => console.error('Error loading device lifecycle:', error));
+    }
+  }, [isAuthenticated, user, loadBatches]);
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleString('pl-PL', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const batchTitle = (batch: ImportBatch) =>
+    batch.source === 'file' ? batch.filename || 'Import z pliku' : 'Dodane ręcznie';
+
+  const openBatch = async (batch: ImportBatch) => {
+    setDetailLoading(true);
+    setDetail({ ...batch, devices: [] });
+    try {
+      setDetail(await getImportBatch(batch.batch_id));
+    } catch (error: any) {
+      setDetail(null);
+      showError(error.message || 'Nie udało się pobrać importu');
+    } finally {
+      setDetailLoading(false);
+    }
+  };
+
+  const runRollback = async (batch: ImportBatchDetail) => {
+    setRollingBack(true);
+    try {
+      const result = await rollbackImportBatch(batch.batch_id);
+      setDetail(null);
+      loadBatches();
+      if (Platform.OS === 'web') {
+        window.alert(result.message);
+      } else {
+        Alert.alert('Sukces', result.message);
+      }
+    } catch (error: any) {
+      showError(error.message || 'Nie udało się wycofać importu');
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  const handleRollback = (batch: ImportBatchDetail) => {
+    const message = `Usunąć ${batch.devices.length} urządzeń dodanych w imporcie "${batchTitle(batch)}"? Tej operacji nie można cofnąć.`;
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) runRollback(batch);
+      return;
+    }
+    Alert.alert('Wycofaj import', message, [
+      { text: 'Anuluj', style: 'cancel' },
+      { text: 'Wycofaj', style: 'destructive', onPress: () => runRollback(batch) },
+    ]);
+  };
+
+  const renderBatch = ({ item }: { item: ImportBatch }) => {
+    const rolledBack = item.status === 'rolled_back';
+
+    return (
+      <TouchableOpacity
+        style={[styles.batchCard, rolledBack && styles.batchCardInactive]}
+        onPress={() => openBatch(item)}
+      >
+        <View style={styles.batchIcon}>
+          <Ionicons
+            name={item.source === 'file' ? 'document-text-outline' : 'hand-left-outline'}
+            size={22}
+            color={rolledBack ? '#666' : '#3b82f6'}
+          />
+        </View>
+        <View style={styles.batchInfo}>
+          <Text style={styles.batchTitle} numberOfLines={1}>{batchTitle(item)}</Text>
+          <Text style={styles.batchMeta}>
+            {item.created_by_name} • {formatDate(item.created_at)}
+          </Text>
+          {rolledBack ? (
+            <Text style={styles.batchRolledBack}>
+              Wycofany {item.rolled_back_at ? formatDate(item.rolled_back_at) : ''}
+              {item.rolled_back_by_name ? ` przez ${item.rolled_back_by_name}` : ''}
+            </Text>
+          ) : item.devices_in_use > 0 ? (
+            <Text style={styles.batchInUse}>Poza magazynem: {item.devices_in_use}</Text>
+          ) : null}
+        </View>
+        <Text style={[styles.batchCount, rolledBack && styles.batchCountInactive]}>{item.device_count}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDetail = () => {
+    if (!detail) return null;
+    const active = detail.status === 'active';
+
+    return (
+      <>
+        <Text style={styles.modalMeta}>
+          {detail.created_by_name} • {formatDate(detail.created_at)} • {detail.device_count} urządzeń
+        </Text>
+
+        {detailLoading ? (
+          <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+        ) : (
+          <ScrollView style={styles.deviceList}>
+            {detail.devices.map((device) => (
+              <View key={device.device_id} style={styles.deviceRow}>
+                <View style={styles.deviceInfo}>
+                  <Text style={styles.deviceSerial}>{device.numer_seryjny}</Text>
+                  <Text style={styles.deviceName}>{device.nazwa || 'Bez nazwy'}</Text>
+                </View>
+                <Text style={[styles.deviceStatus, device.status !== 'dostepny' && styles.deviceStatusInUse]}>
+                  {lifecycle?.statuses[device.status] || device.status}
+                </Text>
+              </View>
+            ))}
+            {detail.devices.length === 0 && (
+              <Text style={styles.hint}>
+                {active ? 'Urządzenia z tego importu zostały już usunięte' : `Usunięto ${detail.removed_count ?? 0} urządzeń`}
+              </Text>
+            )}
+          </ScrollView>
+        )}
+
+        {active && !detailLoading && detail.devices.length > 0 && (
+          detail.devices_in_use > 0 ? (
+            <View style={styles.blockedCard}>
+              <Ionicons name="lock-closed-outline" size={18} color="#f59e0b" />
+              <Text style={styles.blockedText}>
+                Nie można wycofać - {detail.devices_in_use} urządzeń opuściło już magazyn
+              </Text>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[styles.rollbackButton, rollingBack && styles.rollbackButtonDisabled]}
+              onPress={() => handleRollback(detail)}
+              disabled={rollingBack}
+            >
+              {rollingBack ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="arrow-undo-outline" size={20} color="#fff" />
+                  <Text style={styles.rollbackButtonText}>Wycofaj import</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )
+        )}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Historia importów</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={batches}
+          keyExtractor={(item) => item.batch_id}
+          renderItem={renderBatch}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadBatches();
+              }}
+              tintColor="#3b82f6"
+            />
+          }
+          ListEmptyComponent={<Text style={styles.hint}>Brak importów</Text>}
+        />
+      )}
+
+      <Modal
+        visible={!!detail}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setDetail(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle} numberOfLines={1}>{detail ? batchTitle(detail) : ''}</Text>
+              <TouchableOpacity onPress={() => setDetail(null)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+            {renderDetail()}
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  list: {
+    padding: 16,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  batchCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+    gap: 12,
+  },
+  batchCardInactive: {
+    opacity: 0.6,
+  },
+  batchIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  batchInfo: {
+    flex: 1,
+  },
+  batchTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  batchMeta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  batchRolledBack: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  batchInUse: {
+    color: '#f59e0b',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  batchCount: {
+    color: '#3b82f6',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  batchCountInactive: {
+    color: '#666',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '80%',
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+    flex: 1,
+  },
+  modalMeta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  deviceList: {
+    flexGrow: 0,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#262626',
+  },
+  deviceInfo: {
+    flex: 1,
+  },
+  deviceSerial: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  deviceName: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  deviceStatus: {
+    color: '#10b981',
+    fontSize: 12,
+  },
+  deviceStatusInUse: {
+    color: '#f59e0b',
+    fontWeight: '600',
+  },
+  blockedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 16,
+    gap: 8,
+  },
+  blockedText: {
+    color: '#f59e0b',
+    fontSize: 13,
+    flex: 1,
+  },
+  rollbackButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 16,
+    gap: 8,
+  },
+  rollbackButtonDisabled: {
+    opacity: 0.5,
+  },
+  rollbackButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
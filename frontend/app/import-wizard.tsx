@@ -0,0 +1,793 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import { useAuth } from '../src/context/AuthContext';
+import { uploadImportFile, dryRunImport, commitImport } from '../src/utils/apiClient';
+import { openDeviceLabels } from '../src/utils/deviceLabels';
+import {
+  ImportDryRun,
+  ImportField,
+  ImportMapping,
+  ImportResult,
+  ImportRowStatus,
+  ImportUpload,
+  LabelLayout,
+} from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+type WizardStep = 'upload' | 'mapping' | 'review' | 'done';
+
+const FIELDS: { key: ImportField; label: string; required?: boolean }[] = [
+  { key: 'numer_seryjny', label: 'Numer seryjny', required: true },
+  { key: 'nazwa', label: 'Nazwa' },
+  { key: 'kod_kreskowy', label: 'Kod kreskowy' },
+  { key: 'kod_qr', label: 'Kod QR' },
+];
+
+const STATUS_INFO: Record<ImportRowStatus, { label: string; color: string }> = {
+  ok: { label: 'Do importu', color: '#10b981' },
+  duplicate: { label: 'Już w systemie', color: '#f59e0b' },
+  duplicate_in_file: { label: 'Powtórzone w pliku', color: '#f59e0b' },
+  invalid: { label: 'Błędne', color: '#ef4444' },
+};
+
+const PREVIEW_ROWS = 5;
+const MAX_PROBLEM_ROWS = 50;
+
+const FILE_MIME_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/csv',
+  'text/comma-separated-values',
+];
+
+export default function ImportWizard() {
+  const { user, sessionToken, isAuthenticated, isLoading } = useAuth();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [busy, setBusy] = useState(false);
+  const [upload, setUpload] = useState<ImportUpload | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [dryRun, setDryRun] = useState<ImportDryRun | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+    if (!isLoading && user?.role !== 'admin') {
+      router.replace('/dashboard');
+    }
+  }, [isLoading, isAuthenticated, user]);
+
+  const sheet = upload?.sheets.find((s) => s.name === sheetName) || null;
+  const columnCount = sheet?.sample_rows[0]?.length || 0;
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const columnLabel = (index: number) => {
+    const header = headerRow > 0 ? sheet?.sample_rows[headerRow - 1]?.[index] : '';
+    return header ? `${index + 1}. ${header}` : `Kolumna ${index + 1}`;
+  };
+
+  const selectSheet = (data: ImportUpload, name: string) => {
+    const selected = data.sheets.find((s) => s.name === name);
+    if (!selected) return;
+    setSheetName(selected.name);
+    setHeaderRow(selected.header_row);
+    setMapping(selected.suggested_mapping);
+    setDryRun(null);
+  };
+
+  const handleUpload = async (file: File | { uri: string; name: string; type: string }) => {
+    setBusy(true);
+    try {
+      const data = await uploadImportFile(file);
+      setUpload(data);
+      // Start on the first sheet that has any rows
+      selectSheet(data, (data.sheets.find((s) => s.total_rows > 0) || data.sheets[0]).name);
+      setStep('mapping');
+    } catch (error: any) {
+      showError(error.message || 'Nie udało się wczytać pliku');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFilePick = async () => {
+    try {
+      // For web platform, use native file input for better compatibility
+      if (Platform.OS === 'web') {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = ['.xlsx', '.csv', ...FILE_MIME_TYPES].join(',');
+        input.onchange = (e: any) => {
+          const selectedFile = e.target.files?.[0];
+          if (selectedFile) handleUpload(selectedFile);
+        };
+        input.click();
+        return;
+      }
+
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: FILE_MIME_TYPES,
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) {
+        return;
+      }
+
+      const file = picked.assets[0];
+      await handleUpload({
+        uri: file.uri,
+        name: file.name,
+        type: file.mimeType || (file.name.toLowerCase().endsWith('.csv') ? 'text/csv' : FILE_MIME_TYPES[0]),
+      });
+    } catch (error: any) {
+      showError(error.message || 'Nie udało się wybrać pliku');
+    }
+  };
+
+  const setFieldColumn = (field: ImportField, column: number | null) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: column });
+    setDryRun(null);
+  };
+
+  const changeHeaderRow = (delta: number) => {
+    if (!sheet) return;
+    setHeaderRow(Math.min(Math.max(headerRow + delta, 0), sheet.sample_rows.length));
+    setDryRun(null);
+  };
+
+  const importRequest = () => ({
+    upload_id: upload!.upload_id,
+    sheet: sheetName,
+    header_row: headerRow,
+    mapping: mapping!,
+  });
+
+  const handleDryRun = async () => {
+    if (!upload || !mapping) return;
+    if (mapping.numer_seryjny === null) {
+      showError('Wskaż kolumnę z numerem seryjnym');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      setDryRun(await dryRunImport(importRequest()));
+      setStep('review');
+    } catch (error: any) {
+      showError(error.message || 'Nie udało się sprawdzić pliku');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = async () => {
+    setBusy(true);
+    try {
+      setResult(await commitImport(importRequest()));
+      setStep('done');
+    } catch (error: any) {
+      showError(error.message || 'Nie udało się zaimportować pliku');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!dryRun) return;
+    const message = `Zaimportować ${dryRun.summary.ok} urządzeń do magazynu? Pozostałe wiersze zostaną pominięte.`;
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) runImport();
+      return;
+    }
+    Alert.alert('Potwierdź import', message, [
+      { text: 'Anuluj', style: 'cancel' },
+      { text: 'Importuj', onPress: runImport },
+    ]);
+  };
+
+  const handleRestart = () => {
+    setUpload(null);
+    setSheetName('');
+    setMapping(null);
+    setDryRun(null);
+    setResult(null);
+    setStep('upload');
+  };
+
+  const handleBack = () => {
+    if (step === 'mapping') setStep('upload');
+    else if (step === 'review') setStep('mapping');
+    else router.back();
+  };
+
+  const printLabels = async (deviceIds: string[], layout: LabelLayout) => {
+    try {
+      await openDeviceLabels(deviceIds, layout, sessionToken);
+    } catch (error: any) {
+      showError(error.message || 'Nie udało się otworzyć etykiet');
+    }
+  };
+
+  const renderUploadStep = () => (
+    <>
+      <View style={styles.infoCard}>
+        <Text style={styles.infoText}>
+          Wgraj plik XLSX lub CSV z listą urządzeń. W kolejnym kroku wskażesz arkusz i kolumny,
+          a przed zapisem zobaczysz, które wiersze zostaną zaimportowane.
+        </Text>
+      </View>
+
+      <TouchableOpacity style={styles.uploadButton} onPress={handleFilePick} disabled={busy}>
+        {busy ? (
+          <ActivityIndicator size="large" color="#3b82f6" />
+        ) : (
+          <>
+            <Ionicons name="cloud-upload-outline" size={40} color="#3b82f6" />
+            <Text style={styles.uploadButtonText}>Wybierz plik XLSX lub CSV</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderPreview = () => {
+    if (!sheet || !mapping) return null;
+    const rows = sheet.sample_rows.slice(headerRow, headerRow + PREVIEW_ROWS);
+
+    return (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.preview}>
+        <View>
+          <View style={styles.previewRow}>
+            {FIELDS.map((field) => (
+              <Text key={field.key} style={[styles.previewCell, styles.previewHeader]}>{field.label}</Text>
+            ))}
+          </View>
+          {rows.map((row, index) => (
+            <View key={index} style={styles.previewRow}>
+              {FIELDS.map((field) => {
+                const column = mapping[field.key];
+                return (
+                  <Text key={field.key} style={styles.previewCell} numberOfLines={1}>
+                    {column !== null ? row[column] || '-' : '-'}
+                  </Text>
+                );
+              })}
+            </View>
+          ))}
+          {rows.length === 0 && <Text style={styles.hint}>Brak wierszy z danymi</Text>}
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const renderMappingStep = () => {
+    if (!upload || !sheet || !mapping) return null;
+
+    return (
+      <>
+        <View style={styles.fileCard}>
+          <Ionicons name="document-text-outline" size={24} color="#3b82f6" />
+          <View style={styles.fileInfo}>
+            <Text style={styles.fileName} numberOfLines={1}>{upload.filename}</Text>
+            <Text style={styles.fileMeta}>Wierszy z danymi: {sheet.total_rows}</Text>
+          </View>
+        </View>
+
+        {upload.sheets.length > 1 && (
+          <>
+            <Text style={styles.sectionTitle}>Arkusz</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+              {upload.sheets.map((s) => (
+                <TouchableOpacity
+                  key={s.name}
+                  style={[styles.chip, sheetName === s.name && styles.chipActive]}
+                  onPress={() => selectSheet(upload, s.name)}
+                >
+                  <Text style={[styles.chipText, sheetName === s.name && styles.chipTextActive]}>
+                    {s.name} ({s.total_rows})
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Wiersz nagłówka</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => changeHeaderRow(-1)}>
+            <Ionicons name="remove" size={20} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.stepperValue}>
+            {headerRow > 0 ? `Wiersz ${headerRow}` : 'Brak nagłówka'}
+          </Text>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => changeHeaderRow(1)}>
+            <Ionicons name="add" size={20} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        {FIELDS.map((field) => (
+          <View key={field.key}>
+            <Text style={styles.sectionTitle}>
+              {field.label}{field.required ? ' *' : ''}
+            </Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+              {!field.required && (
+                <TouchableOpacity
+                  style={[styles.chip, mapping[field.key] === null && styles.chipActive]}
+                  onPress={() => setFieldColumn(field.key, null)}
+                >
+                  <Text style={[styles.chipText, mapping[field.key] === null && styles.chipTextActive]}>
+                    Pomiń
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {Array.from({ length: columnCount }, (_, index) => (
+                <TouchableOpacity
+                  key={index}
+                  style={[styles.chip, mapping[field.key] === index && styles.chipActive]}
+                  onPress={() => setFieldColumn(field.key, index)}
+                >
+                  <Text style={[styles.chipText, mapping[field.key] === index && styles.chipTextActive]}>
+                    {columnLabel(index)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>Podgląd pierwszych wierszy</Text>
+        {renderPreview()}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (busy || mapping.numer_seryjny === null) && styles.primaryButtonDisabled]}
+          onPress={handleDryRun}
+          disabled={busy || mapping.numer_seryjny === null}
+        >
+          {busy ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="checkmark-done-outline" size={20} color="#fff" />
+              <Text style={styles.primaryButtonText}>Sprawdź plik</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderReviewStep = () => {
+    if (!dryRun) return null;
+    const problems = dryRun.rows.filter((r) => r.status !== 'ok');
+    const unmatched = dryRun.rows.filter((r) => r.status === 'ok' && !r.model_id).length;
+
+    return (
+      <>
+        <View style={styles.summaryGrid}>
+          {(Object.keys(STATUS_INFO) as ImportRowStatus[]).map((status) => (
+            <View key={status} style={styles.summaryItem}>
+              <Text style={[styles.summaryValue, { color: STATUS_INFO[status].color }]}>
+                {dryRun.summary[status]}
+              </Text>
+              <Text style={styles.summaryLabel}>{STATUS_INFO[status].label}</Text>
+            </View>
+          ))}
+        </View>
+
+        {unmatched > 0 && (
+          <View style={styles.warningCard}>
+            <Ionicons name="help-circle-outline" size={20} color="#f59e0b" />
+            <Text style={styles.warningText}>
+              {unmatched} urządzeń nie pasuje do żadnego modelu z katalogu - zostaną dodane bez modelu
+            </Text>
+          </View>
+        )}
+
+        {problems.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Wiersze do pominięcia ({problems.length})</Text>
+            {problems.slice(0, MAX_PROBLEM_ROWS).map((row) => (
+              <View key={row.row} style={styles.problemRow}>
+                <View style={[styles.statusDot, { backgroundColor: STATUS_INFO[row.status].color }]} />
+                <View style={styles.problemInfo}>
+                  <Text style={styles.problemTitle}>
+                    Wiersz {row.row}{row.numer_seryjny ? `: ${row.numer_seryjny}` : ''}
+                  </Text>
+                  <Text style={styles.problemMessage}>{row.message}</Text>
+                </View>
+              </View>
+            ))}
+            {problems.length > MAX_PROBLEM_ROWS && (
+              <Text style={styles.hint}>...i {problems.length - MAX_PROBLEM_ROWS} więcej</Text>
+            )}
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (busy || dryRun.summary.ok === 0) && styles.primaryButtonDisabled]}
+          onPress={handleConfirm}
+          disabled={busy || dryRun.summary.ok === 0}
+        >
+          {busy ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="download-outline" size={20} color="#fff" />
+              <Text style={styles.primaryButtonText}>Importuj {dryRun.summary.ok} urządzeń</Text>
+            </>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('mapping')}>
+          <Text style={styles.secondaryButtonText}>Zmień mapowanie</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderDoneStep = () => {
+    if (!result) return null;
+
+    return (
+      <>
+        <View style={styles.resultCard}>
+          <Ionicons
+            name={result.imported > 0 ? 'checkmark-circle' : 'alert-circle'}
+            size={48}
+            color={result.imported > 0 ? '#10b981' : '#f59e0b'}
+          />
+          <Text style={styles.resultTitle}>{result.message}</Text>
+          {result.errors.length > 0 && (
+            <Text style={styles.hint}>Pominięte wiersze: {result.errors.length}</Text>
+          )}
+        </View>
+
+        {result.device_ids.length > 0 && (
+          <View style={styles.labelButtons}>
+            <TouchableOpacity style={styles.labelButton} onPress={() => printLabels(result.device_ids, 'sheet')}>
+              <Ionicons name="print-outline" size={18} color="#3b82f6" />
+              <Text style={styles.labelButtonText}>Etykiety A4</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.labelButton} onPress={() => printLabels(result.device_ids, 'thermal')}>
+              <Ionicons name="pricetag-outline" size={18} color="#3b82f6" />
+              <Text style={styles.labelButtonText}>Drukarka termiczna</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.primaryButton} onPress={() => router.back()}>
+          <Text style={styles.primaryButtonText}>Gotowe</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleRestart}>
+          <Text style={styles.secondaryButtonText}>Importuj kolejny plik</Text>
+        </TouchableOpacity>
+        {result.batch_id && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/import-history')}>
+            <Text style={styles.secondaryButtonText}>Historia importów - wycofaj ten import</Text>
+          </TouchableOpacity>
+        )}
+      </>
+    );
+  };
+
+  const stepTitles: Record<WizardStep, string> = {
+    upload: 'Import - plik',
+    mapping: 'Import - kolumny',
+    review: 'Import - sprawdzenie',
+    done: 'Import zakończony',
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>{stepTitles[step]}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {step === 'upload' && renderUploadStep()}
+        {step === 'mapping' && renderMappingStep()}
+        {step === 'review' && renderReviewStep()}
+        {step === 'done' && renderDoneStep()}
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  infoCard: {
+    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  infoText: {
+    color: '#3b82f6',
+    fontSize: 13,
+    lineHeight: 20,
+  },
+  uploadButton: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#333',
+    borderStyle: 'dashed',
+  },
+  uploadButtonText: {
+    color: '#3b82f6',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  fileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  fileMeta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    color: '#888',
+    fontSize: 14,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexGrow: 0,
+  },
+  chip: {
+    backgroundColor: '#1a1a1a',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperButton: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  stepperValue: {
+    color: '#fff',
+    fontSize: 15,
+    minWidth: 110,
+    textAlign: 'center',
+  },
+  preview: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    flexGrow: 0,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  previewCell: {
+    width: 140,
+    color: '#ccc',
+    fontSize: 13,
+    paddingVertical: 6,
+    paddingRight: 8,
+  },
+  previewHeader: {
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginTop: 24,
+    gap: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  secondaryButtonText: {
+    color: '#3b82f6',
+    fontSize: 15,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  summaryItem: {
+    flexGrow: 1,
+    flexBasis: '45%',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  summaryLabel: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  warningCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+    gap: 8,
+  },
+  warningText: {
+    color: '#f59e0b',
+    fontSize: 13,
+    flex: 1,
+  },
+  problemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 6,
+    gap: 10,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  problemInfo: {
+    flex: 1,
+  },
+  problemTitle: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  problemMessage: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  resultCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 24,
+    alignItems: 'center',
+  },
+  resultTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  labelButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  labelButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+    paddingVertical: 10,
+    borderRadius: 8,
+    gap: 6,
+  },
+  labelButtonText: {
+    color: '#3b82f6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
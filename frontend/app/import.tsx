@@ -15,21 +15,14 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import * as DocumentPicker from 'expo-document-picker';
 import { CameraView, useCameraPermissions } from 'expo-camera';
 import { useAuth } from '../src/context/AuthContext';
-import { uploadFile, uploadFileWeb, apiFetch } from '../src/utils/api';
+import { addSingleDevice, getDeviceModels } from '../src/utils/apiClient';
+import { openDeviceLabels } from '../src/utils/deviceLabels';
+import { extractSerial, useSerialRules } from '../src/utils/serialRules';
+import { DeviceModel, LabelLayout } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 
-// Device type options for selection
-const DEVICE_TYPES = [
-  'ONT',
-  'T-MOBILE CPE',
-  'T-MOBILE STB',
-  'PLAY CPE',
-  'UPC CPE',
-];
-
 interface ScannedCode {
   type: string;
   data: string;
@@ -37,25 +30,30 @@ interface ScannedCode {
 }
 
 export default function Import() {
-  const { user, isAuthenticated, isLoading } = useAuth();
-  const [uploading, setUploading] = useState(false);
-  const [result, setResult] = useState<{ imported: number; duplicates?: number; errors: string[]; message?: string } | null>(null);
+  const { user, sessionToken, isAuthenticated, isLoading } = useAuth();
   const [permission, requestPermission] = useCameraPermissions();
   
   // Manual add state
   const [showManualModal, setShowManualModal] = useState(false);
   const [scannerActive, setScannerActive] = useState(false);
-  const [deviceName, setDeviceName] = useState('');
+  const [modelId, setModelId] = useState('');
   const [serialNumber, setSerialNumber] = useState('');
   const [barcode, setBarcode] = useState('');
   const [addingDevice, setAddingDevice] = useState(false);
+  // Added by hand while the screen is open, so labels can be printed for all of them
+  const [addedDeviceIds, setAddedDeviceIds] = useState<string[]>([]);
+  // Devices added while the screen is open form one import batch, so they can be rolled back together
+  const [batchId, setBatchId] = useState<string | undefined>();
   
   // Multiple codes handling
   const [scannedCodes, setScannedCodes] = useState<ScannedCode[]>([]);
   const [showCodeSelection, setShowCodeSelection] = useState(false);
   
-  // Device type selection
+  // Device type selection (from the model catalog)
   const [showDeviceTypePicker, setShowDeviceTypePicker] = useState(false);
+  const [deviceModels, setDeviceModels] = useState<DeviceModel[]>([]);
+  const serialRules = useSerialRules();
+  const selectedModel = deviceModels.find((m) => m.model_id === modelId);
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -66,109 +64,16 @@ export default function Import() {
     }
   }, [isLoading, isAuthenticated, user]);
 
-  const handleFilePick = async () => {
-    try {
-      // For web platform, use native file input for better compatibility
-      if (Platform.OS === 'web') {
-        const input = document.createElement('input');
-        input.type = 'file';
-        input.accept = '.xlsx,.xls,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel';
-        
-        input.onchange = async (e: any) => {
-          const selectedFile = e.target.files?.[0];
-          if (!selectedFile) return;
-          
-          setUploading(true);
-          setResult(null);
-          
-          try {
-            const uploadResult = await uploadFileWeb('/api/devices/import', selectedFile);
-            setResult(uploadResult);
-            
-            if (uploadResult.imported > 0) {
-              Alert.alert('Sukces', uploadResult.message || `Zaimportowano ${uploadResult.imported} urządzeń`);
-            } else if (uploadResult.errors.length > 0) {
-              Alert.alert('Uwaga', 'Nie zaimportowano żadnych urządzeń. Sprawdź błędy poniżej.');
-            }
-          } catch (error: any) {
-            Alert.alert('Błąd', error.message || 'Nie udało się zaimportować pliku');
-          } finally {
-            setUploading(false);
-          }
-        };
-        
-        input.click();
-        return;
-      }
-      
-      // For mobile platforms, use DocumentPicker
-      const result = await DocumentPicker.getDocumentAsync({
-        type: [
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'application/vnd.ms-excel',
-        ],
-        copyToCacheDirectory: true,
-      });
-
-      if (result.canceled || !result.assets?.[0]) {
-        return;
-      }
-
-      const file = result.assets[0];
-      
-      setUploading(true);
-      setResult(null);
-
-      const uploadResult = await uploadFile('/api/devices/import', {
-        uri: file.uri,
-        name: file.name,
-        type: file.mimeType || 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      });
-      
-      setResult(uploadResult);
-      
-      if (uploadResult.imported > 0) {
-        Alert.alert('Sukces', uploadResult.message || `Zaimportowano ${uploadResult.imported} urządzeń`);
-      } else if (uploadResult.errors.length > 0) {
-        Alert.alert('Uwaga', 'Nie zaimportowano żadnych urządzeń. Sprawdź błędy poniżej.');
-      }
-    } catch (error: any) {
-      Alert.alert('Błąd', error.message || 'Nie udało się zaimportować pliku');
-    } finally {
-      setUploading(false);
-    }
-  };
-
-  const parseScannedData = (rawData: string): string => {
-    let data = rawData.trim();
-    
-    if (data.includes('\n') || data.includes('\r')) {
-      const lines = data.split(/[\r\n]+/).filter(line => line.trim());
-      
-      for (const line of lines) {
-        if (line.match(/^S[N]?[0-9A-Z]/i) || line.match(/^[0-9]{2}S[A-Z0-9]/i)) {
-          return line.trim();
-        }
-        if (line.match(/^20S[A-Z]/i)) {
-          return line.trim();
-        }
-      }
-      
-      const sortedLines = lines.sort((a, b) => b.length - a.length);
-      for (const line of sortedLines) {
-        if (line.match(/^[A-Z0-9]+$/i) && line.length >= 6) {
-          return line.trim();
-        }
-      }
-      
-      return lines[0]?.trim() || data;
+  useEffect(() => {
+    if (isAuthenticated) {
+      getDeviceModels()
+        .then(setDeviceModels)
+        .catch((error) => console.error('Error loading device models:', error));
     }
-    
-    return data;
-  };
+  }, [isAuthenticated]);
 
   const handleBarCodeScanned = ({ type, data }: { type: string; data: string }) => {
-    const parsedCode = parseScannedData(data);
+    const parsedCode = extractSerial(data, serialRules).serial;
     const now = Date.now();
     
     // Check if this code was already scanned recently (within 2 seconds)
@@ -210,24 +115,25 @@ export default function Import() {
       return;
     }
 
-    if (!deviceName.trim()) {
+    if (!selectedModel) {
       Alert.alert('Błąd', 'Wybierz typ urządzenia');
       return;
     }
 
     setAddingDevice(true);
     try {
-      await apiFetch('/api/devices/add-single', {
-        method: 'POST',
-        body: {
-          nazwa: deviceName.trim(),
-          numer_seryjny: serialNumber.trim(),
-          kod_kreskowy: barcode.trim() || serialNumber.trim(),
-        },
+      const device = await addSingleDevice({
+        nazwa: selectedModel.name,
+        model_id: selectedModel.model_id,
+        numer_seryjny: serialNumber.trim(),
+        kod_kreskowy: barcode.trim() || serialNumber.trim(),
+        batch_id: batchId,
       });
 
       Alert.alert('Sukces', `Dodano urządzenie: ${serialNumber}`);
-      setDeviceName('');
+      setAddedDeviceIds((prev) => [...prev, device.device_id]);
+      setBatchId(device.batch_id);
+      setModelId('');
       setSerialNumber('');
       setBarcode('');
       setShowManualModal(false);
@@ -238,6 +144,27 @@ export default function Import() {
     }
   };
 
+  const printLabels = async (deviceIds: string[], layout: LabelLayout) => {
+    try {
+      await openDeviceLabels(deviceIds, layout, sessionToken);
+    } catch (error: any) {
+      Alert.alert('Błąd', error.message || 'Nie udało się otworzyć etykiet');
+    }
+  };
+
+  const renderLabelButtons = (deviceIds: string[]) => (
+    <View style={styles.labelButtons}>
+      <TouchableOpacity style={styles.labelButton} onPress={() => printLabels(deviceIds, 'sheet')}>
+        <Ionicons name="print-outline" size={18} color="#3b82f6" />
+        <Text style={styles.labelButtonText}>Etykiety A4</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.labelButton} onPress={() => printLabels(deviceIds, 'thermal')}>
+        <Ionicons name="pricetag-outline" size={18} color="#3b82f6" />
+        <Text style={styles.labelButtonText}>Drukarka termiczna</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
   const resetScanner = () => {
     setScannedCodes([]);
     setShowCodeSelection(false);
@@ -371,7 +298,9 @@ export default function Import() {
           <Ionicons name="arrow-back" size={24} color="#fff" />
         </TouchableOpacity>
         <Text style={styles.title}>Dodaj urządzenia</Text>
-        <View style={{ width: 40 }} />
+        <TouchableOpacity onPress={() => router.push('/import-history')} style={styles.backButton}>
+          <Ionicons name="time-outline" size={24} color="#fff" />
+        </TouchableOpacity>
       </View>
 
       <ScrollView style={styles.content}>
@@ -379,29 +308,22 @@ export default function Import() {
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Ionicons name="document-outline" size={24} color="#3b82f6" />
-            <Text style={styles.sectionTitle}>Import z pliku Excel</Text>
+            <Text style={styles.sectionTitle}>Import z pliku</Text>
           </View>
           
           <View style={styles.infoCard}>
             <Text style={styles.infoText}>
-              Plik XLSX powinien zawierać kolumny:{'\n'}
-              1. Nazwa • 2. Numer seryjny • 3. Kod kreskowy • 4. Kod QR
+              Pliki XLSX i CSV z dowolnym układem kolumn.{'\n'}
+              Przed importem wskażesz kolumny i sprawdzisz, które wiersze zostaną dodane.
             </Text>
           </View>
 
           <TouchableOpacity
             style={styles.uploadButton}
-            onPress={handleFilePick}
-            disabled={uploading}
+            onPress={() => router.push('/import-wizard')}
           >
-            {uploading ? (
-              <ActivityIndicator size="large" color="#3b82f6" />
-            ) : (
-              <>
-                <Ionicons name="cloud-upload-outline" size={40} color="#3b82f6" />
-                <Text style={styles.uploadButtonText}>Wybierz plik XLSX</Text>
-              </>
-            )}
+            <Ionicons name="cloud-upload-outline" size={40} color="#3b82f6" />
+            <Text style={styles.uploadButtonText}>Wybierz plik XLSX lub CSV</Text>
           </TouchableOpacity>
         </View>
 
@@ -425,32 +347,14 @@ export default function Import() {
           </TouchableOpacity>
         </View>
 
-        {/* Import result */}
-        {result && (
+        {/* Devices added by hand in this session */}
+        {addedDeviceIds.length > 0 && (
           <View style={styles.resultCard}>
             <View style={styles.resultHeader}>
-              <Ionicons
-                name={result.imported > 0 ? 'checkmark-circle' : 'alert-circle'}
-                size={24}
-                color={result.imported > 0 ? '#10b981' : '#f59e0b'}
-              />
-              <Text style={styles.resultTitle}>
-                Zaimportowano: {result.imported} urządzeń
-                {result.duplicates ? ` (pominięto ${result.duplicates} duplikatów)` : ''}
-              </Text>
+              <Ionicons name="checkmark-circle" size={24} color="#10b981" />
+              <Text style={styles.resultTitle}>Dodano ręcznie: {addedDeviceIds.length} urządzeń</Text>
             </View>
-
-            {result.errors && result.errors.length > 0 && (
-              <View style={styles.errorsContainer}>
-                <Text style={styles.errorsTitle}>Błędy ({result.errors.length}):</Text>
-                {result.errors.slice(0, 5).map((error, index) => (
-                  <Text key={index} style={styles.errorItem}>• {error}</Text>
-                ))}
-                {result.errors.length > 5 && (
-                  <Text style={styles.moreErrors}>...i {result.errors.length - 5} więcej</Text>
-                )}
-              </View>
-            )}
+            {renderLabelButtons(addedDeviceIds)}
           </View>
         )}
       </ScrollView>
@@ -495,29 +399,29 @@ export default function Import() {
               >
                 <Text style={[
                   styles.deviceTypePickerText,
-                  !deviceName && styles.deviceTypePickerPlaceholder
+                  !selectedModel && styles.deviceTypePickerPlaceholder
                 ]}>
-                  {deviceName || 'Wybierz typ urządzenia...'}
+                  {selectedModel?.name || 'Wybierz typ urządzenia...'}
                 </Text>
                 <Ionicons name="chevron-down" size={20} color="#888" />
               </TouchableOpacity>
 
               {/* Device Type Chips */}
               <View style={styles.deviceTypeChips}>
-                {DEVICE_TYPES.map((type) => (
+                {deviceModels.map((model) => (
                   <TouchableOpacity
-                    key={type}
+                    key={model.model_id}
                     style={[
                       styles.deviceTypeChip,
-                      deviceName === type && styles.deviceTypeChipActive,
+                      modelId === model.model_id && styles.deviceTypeChipActive,
                     ]}
-                    onPress={() => setDeviceName(type)}
+                    onPress={() => setModelId(model.model_id)}
                   >
                     <Text style={[
                       styles.deviceTypeChipText,
-                      deviceName === type && styles.deviceTypeChipTextActive,
+                      modelId === model.model_id && styles.deviceTypeChipTextActive,
                     ]}>
-                      {type}
+                      {model.name}
                     </Text>
                   </TouchableOpacity>
                 ))}
@@ -557,10 +461,10 @@ export default function Import() {
             <TouchableOpacity
               style={[
                 styles.submitButton, 
-                (addingDevice || !serialNumber.trim() || !deviceName.trim()) && styles.submitButtonDisabled
+                (addingDevice || !serialNumber.trim() || !selectedModel) && styles.submitButtonDisabled
               ]}
               onPress={handleAddSingleDevice}
-              disabled={addingDevice || !serialNumber.trim() || !deviceName.trim()}
+              disabled={addingDevice || !serialNumber.trim() || !selectedModel}
             >
               {addingDevice ? (
                 <ActivityIndicator color="#fff" />
@@ -592,33 +496,33 @@ export default function Import() {
               </TouchableOpacity>
             </View>
             <FlatList
-              data={DEVICE_TYPES}
+              data={deviceModels}
               renderItem={({ item }) => (
                 <TouchableOpacity
                   style={[
                     styles.deviceTypeSelectItem,
-                    deviceName === item && styles.deviceTypeSelectItemActive,
+                    modelId === item.model_id && styles.deviceTypeSelectItemActive,
                   ]}
                   onPress={() => {
-                    setDeviceName(item);
+                    setModelId(item.model_id);
                     setShowDeviceTypePicker(false);
                   }}
                 >
                   <View style={styles.deviceTypeSelectIcon}>
-                    <Ionicons name="hardware-chip" size={24} color={deviceName === item ? '#fff' : '#3b82f6'} />
+                    <Ionicons name="hardware-chip" size={24} color={modelId === item.model_id ? '#fff' : '#3b82f6'} />
                   </View>
                   <Text style={[
                     styles.deviceTypeSelectText,
-                    deviceName === item && styles.deviceTypeSelectTextActive,
+                    modelId === item.model_id && styles.deviceTypeSelectTextActive,
                   ]}>
-                    {item}
+                    {item.name}
                   </Text>
-                  {deviceName === item && (
+                  {modelId === item.model_id && (
                     <Ionicons name="checkmark-circle" size={24} color="#10b981" />
                   )}
                 </TouchableOpacity>
               )}
-              keyExtractor={(item) => item}
+              keyExtractor={(item) => item.model_id}
             />
           </View>
         </View>
@@ -729,28 +633,25 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     flex: 1,
   },
-  errorsContainer: {
+  labelButtons: {
+    flexDirection: 'row',
+    gap: 8,
     marginTop: 12,
-    paddingTop: 12,
-    borderTopWidth: 1,
-    borderTopColor: '#333',
   },
-  errorsTitle: {
-    color: '#f59e0b',
+  labelButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+    paddingVertical: 10,
+    borderRadius: 8,
+    gap: 6,
+  },
+  labelButtonText: {
+    color: '#3b82f6',
     fontSize: 14,
     fontWeight: '600',
-    marginBottom: 8,
-  },
-  errorItem: {
-    color: '#888',
-    fontSize: 13,
-    marginBottom: 4,
-  },
-  moreErrors: {
-    color: '#666',
-    fontSize: 12,
-    fontStyle: 'italic',
-    marginTop: 4,
   },
   // Modal styles
   modalOverlay: {
@@ -0,0 +1,535 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  RefreshControl,
+  Alert,
+  Modal,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import {
+  getLocations,
+  createLocation,
+  updateLocation,
+  deleteLocation,
+  getVehicles,
+} from '../src/utils/apiClient';
+import { Location, LocationInput, Vehicle } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+type EditableType = NonNullable<LocationInput['type']>;
+
+const LOCATION_TYPES: { key: EditableType; label: string; icon: string }[] = [
+  { key: 'warehouse', label: 'Magazyn', icon: 'business' },
+  { key: 'van', label: 'Bus', icon: 'bus' },
+];
+
+const TYPE_LABELS: Record<Location['type'], string> = {
+  warehouse: 'Magazyn',
+  van: 'Bus',
+  worker: 'Pracownik',
+};
+
+const EMPTY_FORM = {
+  name: '',
+  type: 'warehouse' as EditableType,
+  vehicleId: null as string | null,
+};
+
+export default function Locations() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Add / edit modal
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+    if (!isLoading && user?.role !== 'admin') {
+      router.replace('/dashboard');
+    }
+  }, [isLoading, isAuthenticated, user]);
+
+  const loadLocations = async () => {
+    try {
+      const [locationList, vehicleList] = await Promise.all([getLocations(), getVehicles()]);
+      setLocations(locationList);
+      setVehicles(vehicleList);
+    } catch (error) {
+      console.error('Error loading locations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'admin') {
+      loadLocations();
+    }
+  }, [isAuthenticated, user]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadLocations();
+    setRefreshing(false);
+  };
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const openModal = (location: Location | null) => {
+    setEditingLocation(location);
+    setForm(location && location.type !== 'worker' ? {
+      name: location.name,
+      type: location.type,
+      vehicleId: location.vehicle_id,
+    } : EMPTY_FORM);
+    setModalVisible(true);
+  };
+
+  // A vehicle can back only one van
+  const freeVehicles = vehicles.filter((vehicle) => !locations.some((l) =>
+    l.vehicle_id === vehicle.vehicle_id && l.location_id !== editingLocation?.location_id
+  ));
+
+  const handleSave = async () => {
+    if (form.type === 'van' && !form.vehicleId) {
+      showError('Wybierz pojazd');
+      return;
+    }
+    if (form.type === 'warehouse' && !form.name.trim()) {
+      showError('Podaj nazwę lokalizacji');
+      return;
+    }
+
+    const data: LocationInput = {
+      name: form.name.trim(),
+      type: form.type,
+      vehicle_id: form.type === 'van' ? form.vehicleId : null,
+    };
+
+    setSaving(true);
+    try {
+      if (editingLocation) {
+        await updateLocation(editingLocation.location_id, data);
+      } else {
+        await createLocation(data);
+      }
+      setModalVisible(false);
+      loadLocations();
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (location: Location) => {
+    const performDelete = async () => {
+      try {
+        await deleteLocation(location.location_id);
+        loadLocations();
+      } catch (error: any) {
+        showError(error.message);
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Czy na pewno chcesz usunąć lokalizację "${location.name}"?`)) {
+        performDelete();
+      }
+      return;
+    }
+
+    Alert.alert(
+      'Usuń lokalizację',
+      `Czy na pewno chcesz usunąć lokalizację "${location.name}"?`,
+      [
+        { text: 'Anuluj', style: 'cancel' },
+        { text: 'Usuń', style: 'destructive', onPress: performDelete },
+      ]
+    );
+  };
+
+  const renderLocation = ({ item }: { item: Location }) => {
+    // Worker locations follow the worker, the main warehouse always stays
+    const isEditable = item.type !== 'worker';
+    const isRemovable = isEditable && item.location_id !== 'loc_main';
+    const vehicle = vehicles.find((v) => v.vehicle_id === item.vehicle_id);
+
+    return (
+      <TouchableOpacity
+        style={styles.locationCard}
+        onPress={() => isEditable && openModal(item)}
+        disabled={!isEditable}
+      >
+        <View style={styles.locationIcon}>
+          <Ionicons
+            name={(LOCATION_TYPES.find((t) => t.key === item.type)?.icon || 'person') as any}
+            size={24}
+            color={isEditable ? '#10b981' : '#3b82f6'}
+          />
+        </View>
+
+        <View style={styles.locationInfo}>
+          <Text style={styles.locationName}>{item.name}</Text>
+          <Text style={styles.locationMeta}>
+            {TYPE_LABELS[item.type]}
+            {vehicle ? ` · ${vehicle.plate_number} ${vehicle.brand} ${vehicle.model}` : ''}
+          </Text>
+        </View>
+
+        {isRemovable && (
+          <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(item)}>
+            <Ionicons name="trash-outline" size={20} color="#ef4444" />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Lokalizacje</Text>
+        <TouchableOpacity onPress={() => openModal(null)} style={styles.addButton}>
+          <Ionicons name="add" size={28} color="#3b82f6" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={locations}
+          renderItem={renderLocation}
+          keyExtractor={(item) => item.location_id}
+          contentContainerStyle={styles.listContainer}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#3b82f6" />
+          }
+          ListHeaderComponent={
+            <Text style={styles.hint}>
+              Każde urządzenie jest w jednej lokalizacji. Pracownicy mają swoje lokalizacje automatycznie - urządzenia trafiają do nich przez przypisanie.
+            </Text>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="business-outline" size={64} color="#333" />
+              <Text style={styles.emptyText}>Brak lokalizacji</Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* Add / Edit Location Modal */}
+      <Modal
+        visible={modalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {editingLocation ? 'Edytuj lokalizację' : 'Nowa lokalizacja'}
+              </Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              {/* The type of an existing location cannot change */}
+              {!editingLocation && (
+                <>
+                  <Text style={styles.inputLabel}>Rodzaj</Text>
+                  <View style={styles.typeSelect}>
+                    {LOCATION_TYPES.map((type) => (
+                      <TouchableOpacity
+                        key={type.key}
+                        style={[styles.typeOption, form.type === type.key && styles.typeOptionActive]}
+                        onPress={() => setForm((prev) => ({ ...prev, type: type.key }))}
+                      >
+                        <Ionicons name={type.icon as any} size={18} color={form.type === type.key ? '#fff' : '#888'} />
+                        <Text style={[
+                          styles.typeOptionText,
+                          form.type === type.key && styles.typeOptionTextActive,
+                        ]}>{type.label}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.inputLabel}>Nazwa</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={form.type === 'van' ? 'Domyślnie: Bus <rejestracja>' : 'np. Magazyn Radom'}
+                placeholderTextColor="#888"
+                value={form.name}
+                onChangeText={(name) => setForm((prev) => ({ ...prev, name }))}
+              />
+
+              {form.type === 'van' && (
+                <>
+                  <Text style={styles.inputLabel}>Pojazd</Text>
+                  {freeVehicles.map((vehicle) => (
+                    <TouchableOpacity
+                      key={vehicle.vehicle_id}
+                      style={[
+                        styles.vehicleOption,
+                        form.vehicleId === vehicle.vehicle_id && styles.vehicleOptionActive,
+                      ]}
+                      onPress={() => setForm((prev) => ({ ...prev, vehicleId: vehicle.vehicle_id }))}
+                    >
+                      <Ionicons
+                        name={form.vehicleId === vehicle.vehicle_id ? 'radio-button-on' : 'radio-button-off'}
+                        size={20}
+                        color={form.vehicleId === vehicle.vehicle_id ? '#3b82f6' : '#888'}
+                      />
+                      <Text style={styles.vehicleOptionText}>
+                        {vehicle.plate_number} · {vehicle.brand} {vehicle.model}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                  {freeVehicles.length === 0 && (
+                    <Text style={styles.hint}>Wszystkie pojazdy mają już swoje lokalizacje</Text>
+                  )}
+                </>
+              )}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={20} color="#fff" />
+                  <Text style={styles.submitButtonText}>Zapisz</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  addButton: {
+    padding: 8,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 13,
+    marginBottom: 16,
+  },
+  locationCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 12,
+  },
+  locationIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#0a0a0a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  locationInfo: {
+    flex: 1,
+  },
+  locationName: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  locationMeta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 16,
+    marginTop: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '85%',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  inputLabel: {
+    color: '#888',
+    fontSize: 14,
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    color: '#fff',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  typeSelect: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  typeOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#0a0a0a',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    gap: 8,
+  },
+  typeOptionActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  typeOptionText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  typeOptionTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  vehicleOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  vehicleOptionActive: {
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+  },
+  vehicleOptionText: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    margin: 20,
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
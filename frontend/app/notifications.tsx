@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import { getNotificationPreferences, updateNotificationPreferences } from '../src/utils/apiClient';
+import { NotificationCategory, NotificationPreferences } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+const CATEGORIES: { key: NotificationCategory; label: string; description: string; icon: string }[] = [
+  { key: 'tasks', label: 'Zadania', description: 'Nowe i zmienione zadania', icon: 'clipboard-outline' },
+  { key: 'messages', label: 'Wiadomości', description: 'Nowe wiadomości w rozmowach', icon: 'chatbubbles-outline' },
+  { key: 'orders', label: 'Zamówienia', description: 'Nowe zamówienia i ich realizacja', icon: 'cart-outline' },
+  { key: 'devices', label: 'Urządzenia', description: 'Przypisanie i przekazanie urządzeń', icon: 'hardware-chip-outline' },
+];
+
+export default function Notifications() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+  }, [isLoading, isAuthenticated]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      getNotificationPreferences()
+        .then(setPreferences)
+        .catch((error) => console.error('Error loading notification preferences:', error));
+    }
+  }, [isAuthenticated]);
+
+  const handleToggle = async (category: NotificationCategory, value: boolean) => {
+    if (!preferences) return;
+    const previous = preferences;
+    setPreferences({ ...preferences, [category]: value });
+    try {
+      setPreferences(await updateNotificationPreferences({ [category]: value }));
+    } catch (error: any) {
+      setPreferences(previous);
+      if (Platform.OS === 'web') {
+        window.alert('Błąd: ' + error.message);
+      } else {
+        Alert.alert('Błąd', error.message);
+      }
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Powiadomienia</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={styles.hint}>
+          Wybierz, o czym telefon ma Cię powiadamiać, gdy aplikacja jest zamknięta.
+        </Text>
+
+        {!preferences ? (
+          <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+        ) : (
+          CATEGORIES.map((category) => (
+            <View key={category.key} style={styles.categoryCard}>
+              <Ionicons name={category.icon as any} size={24} color="#3b82f6" />
+              <View style={styles.categoryInfo}>
+                <Text style={styles.categoryLabel}>{category.label}</Text>
+                <Text style={styles.categoryDescription}>{category.description}</Text>
+              </View>
+              <Switch
+                value={preferences[category.key]}
+                onValueChange={(value) => handleToggle(category.key, value)}
+                trackColor={{ false: '#333', true: '#3b82f6' }}
+                thumbColor="#fff"
+              />
+            </View>
+          ))
+        )}
+
+        {Platform.OS === 'web' && (
+          <Text style={styles.webNote}>
+            Powiadomienia push działają tylko w aplikacji mobilnej.
+          </Text>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  categoryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+  },
+  categoryInfo: {
+    flex: 1,
+  },
+  categoryLabel: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  categoryDescription: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  webNote: {
+    color: '#f59e0b',
+    fontSize: 13,
+    marginTop: 8,
+  },
+});
@@ -18,7 +18,18 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import {
+  getDeviceCounts,
+  getDeviceModels,
+  getOrderableItems,
+  getOrders,
+  getStockAlerts,
+  createOrder,
+  processOrder,
+  addOrderableItem,
+  deleteOrderableItem,
+} from '../src/utils/apiClient';
+import { DeviceModel, Order, OrderItem, OrderableItem, StockLevel } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
@@ -32,58 +43,30 @@ const formatInWarsaw = (dateStr: string, formatStr: string) => {
   return format(warsawDate, formatStr, { locale: pl });
 };
 
-// Default order items
-const DEFAULT_ORDER_ITEMS = [
-  { id: 'ont', name: 'ONT', category: 'device', autoStock: true },
-  { id: 'tmobile_cpe', name: 'T-Mobile CPE', category: 'device', autoStock: true },
-  { id: 'tmobile_stb', name: 'T-Mobile STB', category: 'device', autoStock: true },
-  { id: 'gap', name: 'GAP', category: 'material', autoStock: false },
-  { id: 'wkrety', name: 'WKRĘTY', category: 'material', autoStock: false },
-  { id: 'adapter', name: 'ADAPTER', category: 'material', autoStock: false },
-  { id: 'patchcord', name: 'PATCHCORD', category: 'material', autoStock: false },
-  { id: 'pigtail', name: 'PIGTAIL', category: 'material', autoStock: false },
-  { id: 'kabel', name: 'KABEL', category: 'material', autoStock: false },
-  { id: 'oslonki_spawu', name: 'OSŁONKI SPAWU', category: 'material', autoStock: false },
-  { id: 'uchwyt_odc', name: 'UCHWYT ODC', category: 'material', autoStock: false },
-  { id: 'uchwyt_usmo6', name: 'UCHWYT USMO6', category: 'material', autoStock: false },
-  { id: 'uchwyt_flop', name: 'UCHWYT FLOP', category: 'material', autoStock: false },
-  { id: 'kotwa', name: 'KOTWA', category: 'material', autoStock: false },
-  { id: 'hak_swinski_ogon', name: 'HAK „ŚWIŃSKI OGON"', category: 'material', autoStock: false },
-  { id: 'play_cpe', name: 'PLAY CPE', category: 'device', autoStock: true, subItem: true },
-  { id: 'play_stb', name: 'PLAY STB', category: 'device', autoStock: true, subItem: true },
-  { id: 'upc_cpe', name: 'UPC CPE', category: 'device', autoStock: true, subItem: true },
-  { id: 'upc_stb', name: 'UPC STB', category: 'device', autoStock: true, subItem: true },
+// Materials always on the order form, devices come from the model catalog
+const MATERIAL_ORDER_ITEMS = [
+  { id: 'gap', name: 'GAP' },
+  { id: 'wkrety', name: 'WKRĘTY' },
+  { id: 'adapter', name: 'ADAPTER' },
+  { id: 'patchcord', name: 'PATCHCORD' },
+  { id: 'pigtail', name: 'PIGTAIL' },
+  { id: 'kabel', name: 'KABEL' },
+  { id: 'oslonki_spawu', name: 'OSŁONKI SPAWU' },
+  { id: 'uchwyt_odc', name: 'UCHWYT ODC' },
+  { id: 'uchwyt_usmo6', name: 'UCHWYT USMO6' },
+  { id: 'uchwyt_flop', name: 'UCHWYT FLOP' },
+  { id: 'kotwa', name: 'KOTWA' },
+  { id: 'hak_swinski_ogon', name: 'HAK „ŚWIŃSKI OGON"' },
 ];
 
-interface OrderItem {
-  id: string;
-  name: string;
-  category: string;
-  autoStock: boolean;
-  subItem?: boolean;
-  currentStock: string;
-  orderQuantity: string;
-  isCustom?: boolean;
-}
-
-interface Order {
-  order_id: string;
-  user_id: string;
-  user_name: string;
-  items: OrderItem[];
-  status: string;
-  created_at: string;
-  processed_at?: string;
-  processed_by?: string;
-  processed_by_name?: string;
-}
-
 export default function Orders() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [customItems, setCustomItems] = useState<OrderItem[]>([]);
   const [customItemText, setCustomItemText] = useState('');
   const [deviceStocks, setDeviceStocks] = useState<Record<string, number>>({});
+  const [deviceModels, setDeviceModels] = useState<DeviceModel[]>([]);
+  const [stockAlerts, setStockAlerts] = useState<StockLevel[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -94,7 +77,7 @@ export default function Orders() {
   const [orderModalVisible, setOrderModalVisible] = useState(false);
   const [addItemModalVisible, setAddItemModalVisible] = useState(false);
   const [newItemName, setNewItemName] = useState('');
-  const [additionalItems, setAdditionalItems] = useState<{id: string, name: string}[]>([]);
+  const [additionalItems, setAdditionalItems] = useState<OrderableItem[]>([]);
 
   const isAdmin = user?.role === 'admin';
 
@@ -117,38 +100,22 @@ export default function Orders() {
   }, [isAuthenticated, user]);
 
   const loadDeviceStocks = async () => {
+    let models: DeviceModel[] = [];
     try {
-      const devices = await apiFetch('/api/devices');
-      const stocks: Record<string, number> = {};
-      
-      // Count devices by type
-      devices.forEach((device: any) => {
-        if (device.status === 'przypisany') {
-          const name = device.nazwa?.toUpperCase() || '';
-          
-          if (name.includes('ONT')) {
-            stocks['ont'] = (stocks['ont'] || 0) + 1;
-          } else if (name.includes('T-MOBILE') && name.includes('CPE')) {
-            stocks['tmobile_cpe'] = (stocks['tmobile_cpe'] || 0) + 1;
-          } else if (name.includes('T-MOBILE') && name.includes('STB')) {
-            stocks['tmobile_stb'] = (stocks['tmobile_stb'] || 0) + 1;
-          } else if (name.includes('PLAY') && name.includes('CPE')) {
-            stocks['play_cpe'] = (stocks['play_cpe'] || 0) + 1;
-          } else if (name.includes('PLAY') && (name.includes('STB') || name.includes('BOX'))) {
-            stocks['play_stb'] = (stocks['play_stb'] || 0) + 1;
-          } else if (name.includes('UPC') && name.includes('CPE')) {
-            stocks['upc_cpe'] = (stocks['upc_cpe'] || 0) + 1;
-          } else if (name.includes('UPC') && name.includes('STB')) {
-            stocks['upc_stb'] = (stocks['upc_stb'] || 0) + 1;
-          }
-        }
-      });
-      
-      setDeviceStocks(stocks);
-      initializeOrderItems(stocks);
+      // Only the per-model counts are needed, not the devices themselves
+      const [modelList, counts, alerts] = await Promise.all([
+        getDeviceModels(),
+        getDeviceCounts({ status: 'przypisany' }),
+        getStockAlerts(),
+      ]);
+      models = modelList;
+      setDeviceModels(models);
+      setDeviceStocks(counts.by_model);
+      setStockAlerts(alerts);
+      initializeOrderItems(models, counts.by_model, alerts);
     } catch (error) {
       console.error('Error loading device stocks:', error);
-      initializeOrderItems({});
+      initializeOrderItems(models, {});
     } finally {
       setLoading(false);
     }
@@ -156,25 +123,39 @@ export default function Orders() {
 
   const loadAdditionalItems = async () => {
     try {
-      const items = await apiFetch('/api/orders/items');
+      const items = await getOrderableItems();
       setAdditionalItems(items || []);
     } catch (error) {
       console.error('Error loading additional items:', error);
     }
   };
 
-  const initializeOrderItems = (stocks: Record<string, number>) => {
-    const items = DEFAULT_ORDER_ITEMS.map(item => ({
+  // Models below the minimum start with the replenishment suggestion filled in
+  const initializeOrderItems = (models: DeviceModel[], stocks: Record<string, number>, alerts: StockLevel[] = []) => {
+    const deviceItems: OrderItem[] = models.map(model => {
+      const alert = alerts.find(a => a.model_id === model.model_id);
+      return {
+        id: model.model_id,
+        name: model.name,
+        category: 'device',
+        autoStock: true,
+        currentStock: String(stocks[model.model_id] || 0),
+        orderQuantity: alert?.suggested_qty ? String(alert.suggested_qty) : '',
+      };
+    });
+    const materialItems: OrderItem[] = MATERIAL_ORDER_ITEMS.map(item => ({
       ...item,
-      currentStock: item.autoStock ? String(stocks[item.id] || 0) : '',
+      category: 'material',
+      autoStock: false,
+      currentStock: '',
       orderQuantity: '',
     }));
-    setOrderItems(items);
+    setOrderItems([...deviceItems, ...materialItems]);
   };
 
   const loadOrders = async () => {
     try {
-      const data = await apiFetch('/api/orders');
+      const data = await getOrders();
       setOrders(data || []);
     } catch (error) {
       console.error('Error loading orders:', error);
@@ -235,15 +216,13 @@ export default function Orders() {
 
     setSubmitting(true);
     try {
-      await apiFetch('/api/orders', {
-        method: 'POST',
-        body: { items: itemsToOrder },
-      });
+      await createOrder(itemsToOrder);
       
       Alert.alert('Sukces', 'Zamówienie zostało wysłane do administratora.');
       
       // Reset form
-      initializeOrderItems(deviceStocks);
+      initializeOrderItems(deviceModels, deviceStocks);
+      setStockAlerts([]);
       setCustomItems([]);
     } catch (error: any) {
       Alert.alert('Błąd', error.message || 'Nie udało się wysłać zamówienia.');
@@ -252,12 +231,9 @@ export default function Orders() {
     }
   };
 
-  const processOrder = async (orderId: string, status: 'completed' | 'rejected') => {
+  const handleProcessOrder = async (orderId: string, status: 'completed' | 'rejected') => {
     try {
-      await apiFetch(`/api/orders/${orderId}/process`, {
-        method: 'POST',
-        body: { status },
-      });
+      await processOrder(orderId, status);
       
       Alert.alert('Sukces', status === 'completed' ? 'Zamówienie zostało zrealizowane.' : 'Zamówienie zostało odrzucone.');
       setOrderModalVisible(false);
@@ -271,10 +247,7 @@ export default function Orders() {
     if (!newItemName.trim()) return;
     
     try {
-      await apiFetch('/api/orders/items', {
-        method: 'POST',
-        body: { name: newItemName.trim() },
-      });
+      await addOrderableItem(newItemName.trim());
       
       Alert.alert('Sukces', 'Pozycja została dodana.');
       setNewItemName('');
@@ -287,7 +260,7 @@ export default function Orders() {
 
   const deleteItem = async (itemId: string) => {
     try {
-      await apiFetch(`/api/orders/items/${itemId}`, { method: 'DELETE' });
+      await deleteOrderableItem(itemId);
       loadAdditionalItems();
     } catch (error) {
       console.error('Error deleting item:', error);
@@ -441,7 +414,14 @@ export default function Orders() {
                   <View style={styles.orderUserInfo}>
                     <Ionicons name="person-circle" size={32} color="#3b82f6" />
                     <View>
-                      <Text style={styles.orderUserName}>{order.user_name}</Text>
+                      <View style={styles.orderUserNameRow}>
+                        <Text style={styles.orderUserName}>{order.user_name}</Text>
+                        {order.auto_generated && (
+                          <View style={styles.autoOrderBadge}>
+                            <Text style={styles.autoOrderBadgeText}>Automatyczne</Text>
+                          </View>
+                        )}
+                      </View>
                       <Text style={styles.orderDate}>
                         {formatInWarsaw(order.created_at, 'd MMM yyyy, HH:mm')}
                       </Text>
@@ -551,14 +531,14 @@ export default function Orders() {
                     <View style={styles.actionButtons}>
                       <TouchableOpacity 
                         style={[styles.actionButton, { backgroundColor: '#10b981' }]}
-                        onPress={() => processOrder(selectedOrder.order_id, 'completed')}
+                        onPress={() => handleProcessOrder(selectedOrder.order_id, 'completed')}
                       >
                         <Ionicons name="checkmark-circle" size={20} color="#fff" />
                         <Text style={styles.actionButtonText}>Zrealizuj</Text>
                       </TouchableOpacity>
                       <TouchableOpacity 
                         style={[styles.actionButton, { backgroundColor: '#ef4444' }]}
-                        onPress={() => processOrder(selectedOrder.order_id, 'rejected')}
+                        onPress={() => handleProcessOrder(selectedOrder.order_id, 'rejected')}
                       >
                         <Ionicons name="close-circle" size={20} color="#fff" />
                         <Text style={styles.actionButtonText}>Odrzuć</Text>
@@ -634,6 +614,16 @@ export default function Orders() {
             </Text>
           </View>
 
+          {stockAlerts.length > 0 && (
+            <View style={[styles.infoBox, styles.stockAlertBox]}>
+              <Ionicons name="warning" size={20} color="#f59e0b" />
+              <Text style={styles.stockAlertText}>
+                Poniżej minimum: {stockAlerts.map(a => `${a.model_name} (${a.current}/${a.min_qty})`).join(', ')}.
+                {' '}Wpisano sugerowane ilości do uzupełnienia.
+              </Text>
+            </View>
+          )}
+
           {/* Table Header */}
           <View style={styles.tableHeader}>
             <View style={styles.checkboxCell}>
@@ -764,6 +754,15 @@ const styles = StyleSheet.create({
     fontSize: 13,
     flex: 1,
   },
+  stockAlertBox: {
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    marginTop: 0,
+  },
+  stockAlertText: {
+    color: '#f59e0b',
+    fontSize: 13,
+    flex: 1,
+  },
   tableHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -954,11 +953,27 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 10,
   },
+  orderUserNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
   orderUserName: {
     color: '#fff',
     fontSize: 15,
     fontWeight: '600',
   },
+  autoOrderBadge: {
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  autoOrderBadgeText: {
+    color: '#8b5cf6',
+    fontSize: 10,
+    fontWeight: '600',
+  },
   orderDate: {
     color: '#888',
     fontSize: 12,
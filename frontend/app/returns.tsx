@@ -16,25 +16,24 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import { useSync } from '../src/context/SyncContext';
+import { getAccessToken, isNetworkError } from '../src/utils/api';
+import {
+  getDeviceModels,
+  getDeviceReturns,
+  addDeviceReturn,
+  deleteDeviceReturn,
+  updateDeviceReturn,
+  markReturnsAsReturned,
+} from '../src/utils/apiClient';
+import { extractSerial, useSerialRules } from '../src/utils/serialRules';
+import { DeviceReturn } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 import { CameraView, useCameraPermissions } from 'expo-camera';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { format } from 'date-fns';
 import { pl } from 'date-fns/locale';
 
-interface DeviceReturn {
-  return_id: string;
-  device_serial: string;
-  device_type: string;
-  device_status: string;
-  scanned_at: string;
-  scanned_by: string;
-  scanned_by_name: string;
-  returned_to_warehouse?: boolean;
-}
-
-const DEVICE_TYPES = ['ONT', 'CPE', 'STB'];
 const DEVICE_STATUSES = ['z awarii', 'nowy/uszkodzony'];
 const SORT_OPTIONS = [
   { key: 'date_desc', label: 'Data (najnowsze)' },
@@ -44,11 +43,13 @@ const SORT_OPTIONS = [
 
 export default function Returns() {
   const { user, isAuthenticated, isLoading } = useAuth();
+  const { enqueue } = useSync();
   const [returns, setReturns] = useState<DeviceReturn[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [addModalVisible, setAddModalVisible] = useState(false);
   const [scannerActive, setScannerActive] = useState(false);
   const [permission, requestPermission] = useCameraPermissions();
+  const serialRules = useSerialRules();
   
   // Tabs
   const [activeTab, setActiveTab] = useState<'pending' | 'returned'>('pending');
@@ -59,6 +60,8 @@ export default function Returns() {
   // Form state
   const [deviceSerial, setDeviceSerial] = useState('');
   const [deviceType, setDeviceType] = useState('');
+  // Categories present in the device model catalog
+  const [deviceTypes, setDeviceTypes] = useState<string[]>([]);
   const [deviceStatus, setDeviceStatus] = useState('');
   
   // Edit modal
@@ -94,7 +97,7 @@ export default function Returns() {
 
   const loadReturns = async () => {
     try {
-      const data = await apiFetch('/api/returns');
+      const data = await getDeviceReturns();
       setReturns(data);
       
       // Calculate stats
@@ -103,7 +106,7 @@ export default function Returns() {
       let pending = 0;
       let returned = 0;
       
-      data.forEach((r: DeviceReturn) => {
+      data.forEach((r) => {
         byType[r.device_type] = (byType[r.device_type] || 0) + 1;
         byStatus[r.device_status] = (byStatus[r.device_status] || 0) + 1;
         if (r.returned_to_warehouse) {
@@ -121,6 +124,9 @@ export default function Returns() {
   useEffect(() => {
     if (isAuthenticated && user?.role === 'admin') {
       loadReturns();
+      getDeviceModels()
+        .then((models) => setDeviceTypes(Array.from(new Set(models.map((m) => m.category)))))
+        .catch((error) => console.error('Error loading device models:', error));
     }
   }, [isAuthenticated, user]);
 
@@ -153,15 +159,14 @@ export default function Returns() {
       return;
     }
 
+    const body = {
+      device_serial: deviceSerial.trim(),
+      device_type: deviceType,
+      device_status: deviceStatus,
+    };
+
     try {
-      await apiFetch('/api/returns', {
-        method: 'POST',
-        body: {
-          device_serial: deviceSerial.trim(),
-          device_type: deviceType,
-          device_status: deviceStatus,
-        },
-      });
+      await addDeviceReturn(body);
       
       // Save last selections
       await saveLastSelections(deviceType, deviceStatus);
@@ -176,14 +181,27 @@ export default function Returns() {
         Alert.alert('Sukces', 'Urządzenie dodane do zwrotów');
       }
     } catch (error: any) {
-      Alert.alert('Błąd', error.message);
+      if (isNetworkError(error)) {
+        await enqueue({
+          kind: 'return',
+          endpoint: '/api/returns',
+          body,
+          label: `Zwrot: ${deviceType} ${body.device_serial} (${deviceStatus})`,
+        });
+        await saveLastSelections(deviceType, deviceStatus);
+        setDeviceSerial('');
+        setAddModalVisible(false);
+        Alert.alert('Zapisano offline', 'Brak połączenia. Zwrot zostanie wysłany automatycznie po odzyskaniu zasięgu.');
+      } else {
+        Alert.alert('Błąd', error.message);
+      }
     }
   };
 
   const handleDeleteReturn = async (returnId: string) => {
     const doDelete = async () => {
       try {
-        await apiFetch(`/api/returns/${returnId}`, { method: 'DELETE' });
+        await deleteDeviceReturn(returnId);
         loadReturns();
       } catch (error: any) {
         Alert.alert('Błąd', error.message);
@@ -206,12 +224,9 @@ export default function Returns() {
     if (!editingReturn) return;
     
     try {
-      await apiFetch(`/api/returns/${editingReturn.return_id}`, {
-        method: 'PUT',
-        body: {
-          device_type: deviceType,
-          device_status: deviceStatus,
-        },
+      await updateDeviceReturn(editingReturn.return_id, {
+        device_type: deviceType,
+        device_status: deviceStatus,
       });
       
       setEditModalVisible(false);
@@ -226,7 +241,7 @@ export default function Returns() {
 
   const handleExport = async () => {
     try {
-      const token = await AsyncStorage.getItem('session_token');
+      const token = await getAccessToken();
       const backendUrl = process.env.EXPO_PUBLIC_BACKEND_URL || '';
       
       if (Platform.OS === 'web') {
@@ -255,10 +270,7 @@ export default function Returns() {
       }
       
       // Move exported items to "returned to warehouse"
-      await apiFetch('/api/returns/mark-returned', {
-        method: 'POST',
-        body: {},
-      });
+      await markReturnsAsReturned();
       
       loadReturns();
       setActiveTab('returned');
@@ -284,7 +296,7 @@ export default function Returns() {
     });
 
   const handleBarCodeScanned = ({ data }: { data: string }) => {
-    setDeviceSerial(data);
+    setDeviceSerial(extractSerial(data, serialRules).serial);
     setScannerActive(false);
   };
 
@@ -350,6 +362,12 @@ export default function Returns() {
           <Ionicons name="person-outline" size={14} color="#888" style={{ marginLeft: 12 }} />
           <Text style={styles.metaText}>{item.scanned_by_name}</Text>
         </View>
+        {!!item.adres_klienta && (
+          <View style={styles.metaRow}>
+            <Ionicons name="swap-horizontal-outline" size={14} color="#888" />
+            <Text style={styles.metaText} numberOfLines={1}>Zdemontowane u klienta: {item.adres_klienta}</Text>
+          </View>
+        )}
       </View>
     </View>
   );
@@ -526,7 +544,7 @@ export default function Returns() {
 
               <Text style={styles.inputLabel}>Rodzaj urządzenia</Text>
               <View style={styles.optionsRow}>
-                {DEVICE_TYPES.map((type) => (
+                {deviceTypes.map((type) => (
                   <TouchableOpacity
                     key={type}
                     style={[
@@ -610,7 +628,7 @@ export default function Returns() {
 
                 <Text style={styles.inputLabel}>Rodzaj urządzenia</Text>
                 <View style={styles.optionsRow}>
-                  {DEVICE_TYPES.map((type) => (
+                  {deviceTypes.map((type) => (
                     <TouchableOpacity
                       key={type}
                       style={[
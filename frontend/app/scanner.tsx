@@ -14,54 +14,71 @@ import {
   KeyboardAvoidingView,
   Keyboard,
   Dimensions,
+  Image,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { Camera, CameraView } from 'expo-camera';
 import * as Location from 'expo-location';
+import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import { useSync } from '../src/context/SyncContext';
+import { apiFetch, isNetworkError } from '../src/utils/api';
+import { getDeviceModels, scanDevice, uploadAttachment } from '../src/utils/apiClient';
+import { CustomerAddressInput, Device, DeviceModel, InstallationPhotoKind, SignatureDrawing } from '../src/types/models';
+import { OutboxUpload, findCachedDevice } from '../src/utils/outbox';
+import { SerialExtraction, extractSerial, useSerialRules } from '../src/utils/serialRules';
+import { EMPTY_ADDRESS, formatAddress } from '../src/utils/addresses';
+import { INSTALLATION_PHOTO_KINDS, INSTALLATION_PHOTO_LABELS } from '../src/utils/installationPhotos';
+import AddressPicker from '../src/components/AddressPicker';
+import SignaturePad from '../src/components/SignaturePad';
 import { Ionicons } from '@expo/vector-icons';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
-interface Device {
-  device_id: string;
-  nazwa: string;
-  numer_seryjny: string;
-  kod_kreskowy?: string;
-  kod_qr?: string;
-  status: string;
-}
-
 interface ScannedCode {
   type: string;
   data: string;
+  extraction: SerialExtraction;
   timestamp: number;
   bounds?: { x: number; y: number; width: number; height: number };
 }
 
-// Device type options for selection
-const DEVICE_TYPES = [
-  'ONT',
-  'T-MOBILE CPE',
-  'T-MOBILE STB', 
-  'PLAY CPE',
-  'UPC CPE',
-];
+// Photo of the job - attachmentId stays empty while it could not be uploaded (no signal)
+interface JobPhoto extends OutboxUpload {
+  attachmentId?: string;
+}
 
 export default function Scanner() {
   const { user, isAuthenticated, isLoading } = useAuth();
+  const { enqueue } = useSync();
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [scanned, setScanned] = useState(false);
   const [manualCode, setManualCode] = useState('');
   const [device, setDevice] = useState<Device | null>(null);
+  // Devices already scanned into this job - the one on screen joins them on submit
+  const [jobDevices, setJobDevices] = useState<Device[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [isInstalling, setIsInstalling] = useState(false);
   const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [gpsAddress, setGpsAddress] = useState('');
-  const [clientAddress, setClientAddress] = useState('');
+  const [gpsPlace, setGpsPlace] = useState<CustomerAddressInput | null>(null);
+  const [address, setAddress] = useState<CustomerAddressInput>(EMPTY_ADDRESS);
+  const [addressId, setAddressId] = useState<string | null>(null);
+  const clientAddress = formatAddress(address);
   const [orderType, setOrderType] = useState<string>('instalacja');
+  // Serials of the devices taken from the customer in a replacement
+  const [removedSerials, setRemovedSerials] = useState<string[]>([]);
+  const [removedCode, setRemovedCode] = useState('');
+  // Which field the camera fills in
+  const [scanTarget, setScanTarget] = useState<'install' | 'removed'>('install');
+  
+  // Proof of installation
+  const [photos, setPhotos] = useState<JobPhoto[]>([]);
+  const [uploadingPhoto, setUploadingPhoto] = useState(false);
+  const [signature, setSignature] = useState<SignatureDrawing | null>(null);
+  const [signatureDraft, setSignatureDraft] = useState<SignatureDrawing | null>(null);
+  const [showSignaturePad, setShowSignaturePad] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
   
   // Scroll ref for keyboard handling
@@ -69,18 +86,23 @@ export default function Scanner() {
   
   // Multiple codes handling
   const [scannedCodes, setScannedCodes] = useState<ScannedCode[]>([]);
+  const serialRules = useSerialRules();
   const [showCodeSelection, setShowCodeSelection] = useState(false);
   
   // Scanned serial number display
   const [scannedSerialNumber, setScannedSerialNumber] = useState<string>('');
   
   // Device type selection
-  const [selectedDeviceType, setSelectedDeviceType] = useState<string>('');
+  const [selectedModelId, setSelectedModelId] = useState<string>('');
+  const [deviceModels, setDeviceModels] = useState<DeviceModel[]>([]);
+  const selectedModel = deviceModels.find((m) => m.model_id === selectedModelId);
   const [showDeviceTypePicker, setShowDeviceTypePicker] = useState(false);
 
   const isAdmin = user?.role === 'admin';
 
   const orderTypes = ['instalacja', 'wymiana', 'awaria', 'uszkodzony'];
+  // The customer's old device is taken away and has to be scanned too
+  const replacementOrderTypes = ['wymiana', 'awaria'];
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -88,6 +110,15 @@ export default function Scanner() {
     }
   }, [isLoading, isAuthenticated]);
 
+  // Only admins pick the device type
+  useEffect(() => {
+    if (isAdmin) {
+      getDeviceModels()
+        .then(setDeviceModels)
+        .catch((error) => console.error('Error loading device models:', error));
+    }
+  }, [isAdmin]);
+
   useEffect(() => {
     (async () => {
       const { status: cameraStatus } = await Camera.requestCameraPermissionsAsync();
@@ -108,6 +139,13 @@ export default function Scanner() {
           });
           if (addr) {
             setGpsAddress(`${addr.street || ''} ${addr.streetNumber || ''}, ${addr.city || ''}`);
+            setGpsPlace({
+              ...EMPTY_ADDRESS,
+              street: addr.street || '',
+              number: addr.streetNumber || '',
+              postal_code: addr.postalCode || '',
+              city: addr.city || '',
+            });
           }
         } catch (error) {
           console.error('Location error:', error);
@@ -116,36 +154,9 @@ export default function Scanner() {
     })();
   }, []);
 
-  const parseScannedData = (rawData: string): string => {
-    let data = rawData.trim();
-    
-    if (data.includes('\n') || data.includes('\r')) {
-      const lines = data.split(/[\r\n]+/).filter(line => line.trim());
-      
-      for (const line of lines) {
-        if (line.match(/^S[N]?[0-9A-Z]/i) || line.match(/^[0-9]{2}S[A-Z0-9]/i)) {
-          return line.trim();
-        }
-        if (line.match(/^20S[A-Z]/i)) {
-          return line.trim();
-        }
-      }
-      
-      const sortedLines = lines.sort((a, b) => b.length - a.length);
-      for (const line of sortedLines) {
-        if (line.match(/^[A-Z0-9]+$/i) && line.length >= 6) {
-          return line.trim();
-        }
-      }
-      
-      return lines[0]?.trim() || data;
-    }
-    
-    return data;
-  };
-
   const handleBarCodeScanned = async ({ type, data }: { type: string; data: string }) => {
-    const parsedCode = parseScannedData(data);
+    const extraction = extractSerial(data, serialRules);
+    const parsedCode = extraction.serial;
     const now = Date.now();
     
     // Check if this code was already scanned recently (within 2 seconds)
@@ -155,7 +166,7 @@ export default function Scanner() {
     
     if (existingCode) return;
     
-    const newCode: ScannedCode = { type, data: parsedCode, timestamp: now };
+    const newCode: ScannedCode = { type, data: parsedCode, extraction, timestamp: now };
     const updatedCodes = [...scannedCodes.filter(c => now - c.timestamp < 3000), newCode];
     setScannedCodes(updatedCodes);
     
@@ -166,22 +177,27 @@ export default function Scanner() {
       // Single code - process immediately after a short delay
       setTimeout(() => {
         if (scannedCodes.length <= 1) {
-          selectCode(parsedCode);
+          selectCode(newCode);
         }
       }, 500);
     }
   };
 
-  const selectCode = async (code: string) => {
+  const selectCode = async ({ data: code, extraction }: ScannedCode) => {
     setShowCodeSelection(false);
     setShowCamera(false);
-    setScanned(true);
     setScannedCodes([]);
+    if (scanTarget === 'removed') {
+      setScanTarget('install');
+      addRemovedSerial(code);
+      return;
+    }
+    setScanned(true);
     setScannedSerialNumber(code); // Save the scanned serial number for display
-    await searchDevice(code);
+    await searchDevice(code, extraction);
   };
 
-  const searchDevice = async (code: string) => {
+  const searchDevice = async (code: string, extraction: SerialExtraction = extractSerial(code, serialRules)) => {
     if (!code.trim()) {
       Alert.alert('Błąd', 'Wprowadź kod urządzenia');
       return;
@@ -192,34 +208,55 @@ export default function Scanner() {
     
     setIsSearching(true);
     try {
-      const foundDevice = await apiFetch(`/api/devices/scan/${encodeURIComponent(cleanCode)}`);
+      const foundDevice = await scanDevice(cleanCode);
       setDevice(foundDevice);
       setManualCode(foundDevice.numer_seryjny || cleanCode);
-      setSelectedDeviceType(foundDevice.nazwa || ''); // Pre-select device type if found
+      setSelectedModelId(foundDevice.model_id || ''); // Pre-select device type if found
       // Pre-fill client address with GPS address
-      if (gpsAddress && !clientAddress) {
-        setClientAddress(gpsAddress);
+      if (gpsPlace && !clientAddress) {
+        setAddress(gpsPlace);
       }
     } catch (error: any) {
-      const parts = code.split(/[\r\n\s]+/).filter(p => p.trim());
+      // Other values the extraction rules found in the payload, instead of guessing every token
+      const parts = extraction.candidates.filter(c => c !== cleanCode);
       let found = false;
       
+      // No connection - fall back to the device list cached while online
+      if (isNetworkError(error) && user) {
+        const cachedDevice = await findCachedDevice(user.user_id, [cleanCode, ...parts]);
+        if (cachedDevice) {
+          setDevice(cachedDevice);
+          setManualCode(cachedDevice.numer_seryjny || cleanCode);
+          setSelectedModelId(cachedDevice.model_id || '');
+          if (gpsPlace && !clientAddress) {
+            setAddress(gpsPlace);
+          }
+        } else {
+          setDevice(null);
+          setManualCode(cleanCode);
+          Alert.alert(
+            'Brak połączenia',
+            `Nie można sprawdzić urządzenia "${cleanCode}" - brak zasięgu, a urządzenie nie znajduje się w pamięci telefonu.`,
+            [{ text: 'OK' }]
+          );
+        }
+        return;
+      }
+      
       for (const part of parts) {
-        if (part.length >= 4) {
-          try {
-            const foundDevice = await apiFetch(`/api/devices/scan/${encodeURIComponent(part.trim())}`);
-            setDevice(foundDevice);
-            setManualCode(foundDevice.numer_seryjny || part.trim());
-            setSelectedDeviceType(foundDevice.nazwa || '');
-            // Pre-fill client address with GPS address
-            if (gpsAddress && !clientAddress) {
-              setClientAddress(gpsAddress);
-            }
-            found = true;
-            break;
-          } catch (e) {
-            // Continue trying
+        try {
+          const foundDevice = await scanDevice(part);
+          setDevice(foundDevice);
+          setManualCode(foundDevice.numer_seryjny || part.trim());
+          setSelectedModelId(foundDevice.model_id || '');
+          // Pre-fill client address with GPS address
+          if (gpsPlace && !clientAddress) {
+            setAddress(gpsPlace);
           }
+          found = true;
+          break;
+        } catch (e) {
+          // Continue trying
         }
       }
       
@@ -227,6 +264,10 @@ export default function Scanner() {
         // Device not found - allow user to register anyway with device type selection
         setDevice(null);
         setManualCode(cleanCode);
+        // A model-specific rule already tells which type it is
+        if (extraction.rule?.model_id) {
+          setSelectedModelId(extraction.rule.model_id);
+        }
         Alert.alert(
           'Nie znaleziono w systemie',
           `Urządzenie o kodzie "${cleanCode}" nie istnieje w bazie.\n\nMożesz wybrać typ urządzenia i kontynuować.`,
@@ -238,50 +279,217 @@ export default function Scanner() {
     }
   };
 
+  const addToJob = () => {
+    // Damaged devices are reported one by one, never as a job
+    if (!device || orderType === 'uszkodzony') return;
+    if (jobDevices.some((d) => d.device_id === device.device_id)) {
+      Alert.alert('Błąd', 'To urządzenie jest już w zleceniu');
+      return;
+    }
+    
+    // Address and order type stay, only the scanning starts over
+    setJobDevices((prev) => [...prev, device]);
+    setDevice(null);
+    setScanned(false);
+    setManualCode('');
+    setScannedCodes([]);
+    setScannedSerialNumber('');
+    setSelectedModelId('');
+    if (hasPermission) {
+      setShowCamera(true);
+    }
+  };
+
+  const jobSize = jobDevices.length + (device ? 1 : 0);
+  const isReplacement = replacementOrderTypes.includes(orderType);
+
+  const addRemovedSerial = (code: string) => {
+    const serial = code.trim().replace(/[\r\n]/g, '');
+    if (!serial) return;
+    if (removedSerials.includes(serial)) {
+      Alert.alert('Błąd', 'To urządzenie jest już na liście zdemontowanych');
+      return;
+    }
+    if ([...jobDevices, device].some((d) => d?.numer_seryjny === serial)) {
+      Alert.alert('Błąd', 'To urządzenie jest instalowane w tym zleceniu');
+      return;
+    }
+    setRemovedSerials((prev) => [...prev, serial]);
+    setRemovedCode('');
+  };
+
+  const scanRemovedDevice = () => {
+    setScanTarget('removed');
+    setScannedCodes([]);
+    setShowCamera(true);
+    // The camera sits at the top of the form
+    scrollViewRef.current?.scrollTo({ y: 0, animated: true });
+  };
+
+  const removeFromJob = (deviceId: string) => {
+    setJobDevices((prev) => prev.filter((d) => d.device_id !== deviceId));
+  };
+
+  const takePhoto = async (kind: InstallationPhotoKind) => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Błąd', 'Brak dostępu do kamery');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      allowsEditing: false,
+      quality: 0.7,
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    const asset = result.assets[0];
+    const photo: JobPhoto = {
+      uri: asset.uri,
+      name: asset.fileName || `${kind}.jpg`,
+      type: asset.mimeType || 'image/jpeg',
+      kind,
+    };
+    setPhotos((prev) => [...prev, photo]);
+
+    setUploadingPhoto(true);
+    try {
+      const attachment = await uploadAttachment(photo);
+      setPhotos((prev) => prev.map((p) => (p.uri === photo.uri ? { ...p, attachmentId: attachment.attachment_id } : p)));
+    } catch (error: any) {
+      // Without signal the photo waits on the phone and goes with the job
+      if (!isNetworkError(error)) {
+        setPhotos((prev) => prev.filter((p) => p.uri !== photo.uri));
+        Alert.alert('Błąd', error.message || 'Nie udało się wysłać zdjęcia');
+      }
+    } finally {
+      setUploadingPhoto(false);
+    }
+  };
+
+  const removePhoto = (uri: string) => {
+    setPhotos((prev) => prev.filter((p) => p.uri !== uri));
+  };
+
+  // Photos taken without signal are uploaded now, or by the offline queue later.
+  // Fills in the list as it goes, so a connection lost halfway keeps what already went through.
+  const uploadPendingPhotos = async (jobPhotos: JobPhoto[]) => {
+    for (let i = 0; i < jobPhotos.length; i++) {
+      if (!jobPhotos[i].attachmentId) {
+        jobPhotos[i] = { ...jobPhotos[i], attachmentId: (await uploadAttachment(jobPhotos[i])).attachment_id };
+      }
+    }
+  };
+
+  const openSignaturePad = () => {
+    setSignatureDraft(signature);
+    setShowSignaturePad(true);
+  };
+
   const handleInstall = async () => {
-    if (!device) return;
+    const devices = device && !jobDevices.some((d) => d.device_id === device.device_id)
+      ? [...jobDevices, device]
+      : jobDevices;
+    if (devices.length === 0) return;
+    if (orderType === 'uszkodzony' && devices.length > 1) {
+      Alert.alert('Błąd', 'Uszkodzone urządzenia oznacz pojedynczo, poza zleceniem');
+      return;
+    }
     
     // For damaged devices, don't require address
-    if (orderType !== 'uszkodzony' && !clientAddress.trim()) {
-      Alert.alert('Błąd', 'Wprowadź adres klienta');
+    if (orderType !== 'uszkodzony' && !clientAddress) {
+      Alert.alert('Błąd', 'Wprowadź adres klienta (co najmniej numer i miejscowość)');
+      return;
+    }
+    if (isReplacement && removedSerials.length === 0) {
+      Alert.alert('Błąd', 'Zeskanuj urządzenie zdemontowane u klienta');
       return;
     }
     
+    const deviceLabel = devices.map((d) => `${d.nazwa} (${d.numer_seryjny})`).join(', ');
+    const request = orderType === 'uszkodzony'
+      ? {
+          kind: 'mark_damaged' as const,
+          endpoint: `/api/devices/${devices[0].device_id}/mark-damaged`,
+          body: { device_id: devices[0].device_id },
+          label: `Uszkodzone: ${deviceLabel}`,
+        }
+      : {
+          kind: 'installation_job' as const,
+          endpoint: '/api/installation-jobs',
+          body: {
+            device_ids: devices.map((d) => d.device_id),
+            adres_klienta: clientAddress,
+            address_id: addressId,
+            address,
+            latitude: location?.latitude,
+            longitude: location?.longitude,
+            rodzaj_zlecenia: orderType,
+            removed_serials: isReplacement ? removedSerials : [],
+            signature,
+          },
+          label: `${orderType}: ${deviceLabel} - ${clientAddress}`,
+        };
+    
+    const jobPhotos = [...photos];
     setIsInstalling(true);
     try {
-      if (orderType === 'uszkodzony') {
+      if (request.kind === 'mark_damaged') {
         // Mark device as damaged
-        await apiFetch(`/api/devices/${device.device_id}/mark-damaged`, {
+        await apiFetch(request.endpoint, {
           method: 'POST',
-          body: {},
+          body: request.body,
         });
         
         Alert.alert(
           'Sukces',
-          `Urządzenie "${device.nazwa}"\nNumer seryjny: ${device.numer_seryjny}\n\nZostało oznaczone jako uszkodzone`,
+          `Urządzenie "${devices[0].nazwa}"\nNumer seryjny: ${devices[0].numer_seryjny}\n\nZostało oznaczone jako uszkodzone`,
           [{ text: 'OK', onPress: resetScanner }]
         );
       } else {
-        // Normal installation
-        await apiFetch('/api/installations', {
+        // Installation job - one entry for every device at this customer
+        await uploadPendingPhotos(jobPhotos);
+        await apiFetch(request.endpoint, {
           method: 'POST',
           body: {
-            device_id: device.device_id,
-            adres_klienta: clientAddress.trim(),
-            latitude: location?.latitude,
-            longitude: location?.longitude,
-            rodzaj_zlecenia: orderType,
+            ...request.body,
+            photos: jobPhotos.map((p) => ({ attachment_id: p.attachmentId, kind: p.kind })),
           },
         });
         
+        const summary = devices.length === 1
+          ? `Urządzenie "${devices[0].nazwa}"\nNumer seryjny: ${devices[0].numer_seryjny}\n\nZostało zarejestrowane`
+          : `Urządzenia (${devices.length}):\n${devices.map((d) => `• ${d.nazwa} (${d.numer_seryjny})`).join('\n')}\n\nZostały zarejestrowane w jednym zleceniu`;
+        const removedSummary = isReplacement
+          ? `\n\nZdemontowane (dodane do zwrotów):\n${removedSerials.join('\n')}`
+          : '';
         Alert.alert(
           'Sukces',
-          `Urządzenie "${device.nazwa}"\nNumer seryjny: ${device.numer_seryjny}\n\nZostało zarejestrowane jako ${orderType}\nAdres: ${clientAddress}`,
+          `${summary} jako ${orderType}\nAdres: ${clientAddress}${removedSummary}`,
           [{ text: 'OK', onPress: resetScanner }]
         );
       }
     } catch (error: any) {
-      Alert.alert('Błąd', error.message || 'Nie udało się zarejestrować');
+      if (isNetworkError(error)) {
+        // Keep everything the installer entered and send it once the connection is back
+        await enqueue(request.kind === 'mark_damaged' ? request : {
+          ...request,
+          body: {
+            ...request.body,
+            photos: jobPhotos.filter((p) => p.attachmentId).map((p) => ({ attachment_id: p.attachmentId, kind: p.kind })),
+          },
+          uploads: jobPhotos.filter((p) => !p.attachmentId).map(({ uri, name, type, kind }) => ({ uri, name, type, kind })),
+        });
+        Alert.alert(
+          'Zapisano offline',
+          `Brak połączenia z serwerem.\n\n${deviceLabel}\nzostanie wysłane automatycznie po odzyskaniu zasięgu.`,
+          [{ text: 'OK', onPress: resetScanner }]
+        );
+      } else {
+        // Photos already uploaded are not sent again when the installer retries
+        setPhotos(jobPhotos);
+        Alert.alert('Błąd', error.message || 'Nie udało się zarejestrować');
+      }
     } finally {
       setIsInstalling(false);
     }
@@ -290,12 +498,19 @@ export default function Scanner() {
   const resetScanner = () => {
     setScanned(false);
     setDevice(null);
+    setJobDevices([]);
+    setRemovedSerials([]);
+    setRemovedCode('');
+    setScanTarget('install');
+    setPhotos([]);
+    setSignature(null);
     setManualCode('');
-    setClientAddress('');
+    setAddress(EMPTY_ADDRESS);
+    setAddressId(null);
     setScannedCodes([]);
     setShowCodeSelection(false);
     setScannedSerialNumber('');
-    setSelectedDeviceType('');
+    setSelectedModelId('');
   };
 
   if (isLoading) {
@@ -346,6 +561,7 @@ export default function Scanner() {
               onPress={() => {
                 setShowCamera(false);
                 setScannedCodes([]);
+                setScanTarget('install');
               }}
             >
               <Ionicons name="close" size={24} color="#fff" />
@@ -354,7 +570,9 @@ export default function Scanner() {
               <Text style={styles.scanHintText}>
                 {scannedCodes.length > 0 
                   ? `Wykryto ${scannedCodes.length} kod(y) - dotknij aby wybrać`
-                  : 'Skieruj kamerę na kod QR lub kreskowy'
+                  : scanTarget === 'removed'
+                    ? 'Zeskanuj urządzenie zdemontowane u klienta'
+                    : 'Skieruj kamerę na kod QR lub kreskowy'
                 }
               </Text>
             </View>
@@ -366,7 +584,7 @@ export default function Scanner() {
                   <TouchableOpacity
                     key={`${code.data}-${index}`}
                     style={styles.scannedCodeItem}
-                    onPress={() => selectCode(code.data)}
+                    onPress={() => selectCode(code)}
                   >
                     <Ionicons name="barcode-outline" size={16} color="#3b82f6" />
                     <Text style={styles.scannedCodeText} numberOfLines={1}>
@@ -383,6 +601,7 @@ export default function Scanner() {
             onPress={() => {
               setScanned(false);
               setScannedCodes([]);
+              setScanTarget('install');
               setShowCamera(true);
             }}
             disabled={!hasPermission}
@@ -451,28 +670,28 @@ export default function Scanner() {
                   >
                     <Text style={[
                       styles.deviceTypePickerText,
-                      !selectedDeviceType && styles.deviceTypePickerPlaceholder
+                      !selectedModel && styles.deviceTypePickerPlaceholder
                     ]}>
-                      {selectedDeviceType || 'Wybierz typ urządzenia...'}
+                      {selectedModel?.name || 'Wybierz typ urządzenia...'}
                     </Text>
                     <Ionicons name="chevron-down" size={20} color="#888" />
                   </TouchableOpacity>
                   
                   <View style={styles.deviceTypeChips}>
-                    {DEVICE_TYPES.map((type) => (
+                    {deviceModels.map((model) => (
                       <TouchableOpacity
-                        key={type}
+                        key={model.model_id}
                         style={[
                           styles.deviceTypeChip,
-                          selectedDeviceType === type && styles.deviceTypeChipActive,
+                          selectedModelId === model.model_id && styles.deviceTypeChipActive,
                         ]}
-                        onPress={() => setSelectedDeviceType(type)}
+                        onPress={() => setSelectedModelId(model.model_id)}
                       >
                         <Text style={[
                           styles.deviceTypeChipText,
-                          selectedDeviceType === type && styles.deviceTypeChipTextActive,
+                          selectedModelId === model.model_id && styles.deviceTypeChipTextActive,
                         ]}>
-                          {type}
+                          {model.name}
                         </Text>
                       </TouchableOpacity>
                     ))}
@@ -499,6 +718,27 @@ export default function Scanner() {
           </View>
         )}
 
+        {/* Devices scanned into the job so far */}
+        {jobDevices.length > 0 && (
+          <View style={styles.deviceSection}>
+            <Text style={styles.sectionTitle}>Urządzenia w zleceniu ({jobDevices.length})</Text>
+            <View style={styles.deviceCard}>
+              {jobDevices.map((jobDevice) => (
+                <View key={jobDevice.device_id} style={styles.jobDeviceRow}>
+                  <Ionicons name="hardware-chip-outline" size={20} color="#3b82f6" />
+                  <View style={styles.jobDeviceInfo}>
+                    <Text style={styles.jobDeviceName}>{jobDevice.nazwa}</Text>
+                    <Text style={styles.jobDeviceSerial}>{jobDevice.numer_seryjny}</Text>
+                  </View>
+                  <TouchableOpacity onPress={() => removeFromJob(jobDevice.device_id)}>
+                    <Ionicons name="close-circle" size={22} color="#ef4444" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Device Info */}
         {device && (
           <View style={styles.deviceSection}>
@@ -514,27 +754,27 @@ export default function Scanner() {
                       onPress={() => setShowDeviceTypePicker(true)}
                     >
                       <Text style={styles.deviceTypePickerText}>
-                        {selectedDeviceType || device.nazwa}
+                        {selectedModel?.name || device.nazwa}
                       </Text>
                       <Ionicons name="chevron-down" size={20} color="#888" />
                     </TouchableOpacity>
                     
                     {/* Device Type Chips */}
                     <View style={styles.deviceTypeChips}>
-                      {DEVICE_TYPES.map((type) => (
+                      {deviceModels.map((model) => (
                         <TouchableOpacity
-                          key={type}
+                          key={model.model_id}
                           style={[
                             styles.deviceTypeChip,
-                            (selectedDeviceType === type || (!selectedDeviceType && device.nazwa === type)) && styles.deviceTypeChipActive,
+                            selectedModelId === model.model_id && styles.deviceTypeChipActive,
                           ]}
-                          onPress={() => setSelectedDeviceType(type)}
+                          onPress={() => setSelectedModelId(model.model_id)}
                         >
                           <Text style={[
                             styles.deviceTypeChipText,
-                            (selectedDeviceType === type || (!selectedDeviceType && device.nazwa === type)) && styles.deviceTypeChipTextActive,
+                            selectedModelId === model.model_id && styles.deviceTypeChipTextActive,
                           ]}>
-                            {type}
+                            {model.name}
                           </Text>
                         </TouchableOpacity>
                       ))}
@@ -567,10 +807,27 @@ export default function Scanner() {
                 </View>
               </View>
 
+              {/* More devices at the same customer (ONT, router, STB) go into one job */}
+              {orderType !== 'uszkodzony' && (
+                <TouchableOpacity style={styles.addToJobButton} onPress={addToJob}>
+                  <Ionicons name="add-circle-outline" size={20} color="#3b82f6" />
+                  <Text style={styles.addToJobText}>Dodaj do zlecenia i skanuj kolejne</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Job details - one address and order type for every device in it */}
+        {(device || jobDevices.length > 0) && (
+          <View style={styles.deviceSection}>
+            <Text style={styles.sectionTitle}>Zlecenie</Text>
+            <View style={styles.deviceCard}>
               {/* Order Type Selection - FIRST */}
               <Text style={styles.orderTypeLabel}>Rodzaj zlecenia:</Text>
               <View style={styles.orderTypes}>
-                {orderTypes.map((type) => (
+                {/* Damaged is reported per device, never for a whole job */}
+                {(jobDevices.length > 0 ? orderTypes.filter((type) => type !== 'uszkodzony') : orderTypes).map((type) => (
                   <TouchableOpacity
                     key={type}
                     style={[
@@ -582,7 +839,8 @@ export default function Scanner() {
                       setOrderType(type);
                       // Clear address if damaged is selected
                       if (type === 'uszkodzony') {
-                        setClientAddress('');
+                        setAddress(EMPTY_ADDRESS);
+                        setAddressId(null);
                       }
                     }}
                   >
@@ -602,14 +860,13 @@ export default function Scanner() {
                   <Text style={styles.addressLabel}>
                     <Ionicons name="location" size={16} color="#3b82f6" /> Adres klienta *
                   </Text>
-                  <TextInput
-                    style={styles.addressInput}
-                    placeholder="Wpisz adres klienta (wymagane)"
-                    placeholderTextColor="#666"
-                    value={clientAddress}
-                    onChangeText={setClientAddress}
-                    multiline
-                    numberOfLines={2}
+                  <AddressPicker
+                    value={address}
+                    addressId={addressId}
+                    onChange={(value, id) => {
+                      setAddress(value);
+                      setAddressId(id);
+                    }}
                     onFocus={() => {
                       // Scroll to bottom when focusing on address input
                       setTimeout(() => {
@@ -620,6 +877,99 @@ export default function Scanner() {
                 </View>
               )}
 
+              {/* Customer's old device - goes to returns with the job */}
+              {isReplacement && (
+                <View style={styles.addressSection}>
+                  <Text style={styles.addressLabel}>
+                    <Ionicons name="swap-horizontal" size={16} color="#3b82f6" /> Urządzenie zdemontowane u klienta *
+                  </Text>
+                  {removedSerials.map((serial) => (
+                    <View key={serial} style={styles.jobDeviceRow}>
+                      <Ionicons name="arrow-undo-outline" size={20} color="#f59e0b" />
+                      <Text style={[styles.jobDeviceName, styles.jobDeviceInfo]}>{serial}</Text>
+                      <TouchableOpacity onPress={() => setRemovedSerials((prev) => prev.filter((s) => s !== serial))}>
+                        <Ionicons name="close-circle" size={22} color="#ef4444" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                  <View style={[styles.inputRow, styles.removedInputRow]}>
+                    <TextInput
+                      style={[styles.input, styles.removedInput]}
+                      placeholder="Numer seryjny"
+                      placeholderTextColor="#666"
+                      value={removedCode}
+                      onChangeText={setRemovedCode}
+                      onSubmitEditing={() => addRemovedSerial(removedCode)}
+                      autoCapitalize="characters"
+                    />
+                    <TouchableOpacity
+                      style={styles.searchButton}
+                      onPress={() => (removedCode.trim() ? addRemovedSerial(removedCode) : scanRemovedDevice())}
+                      disabled={!removedCode.trim() && !hasPermission}
+                    >
+                      <Ionicons name={removedCode.trim() ? 'add' : 'scan'} size={24} color="#fff" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+
+              {/* Proof of installation - photos and the customer's signature */}
+              {orderType !== 'uszkodzony' && (
+                <View style={styles.addressSection}>
+                  <Text style={styles.addressLabel}>
+                    <Ionicons name="camera" size={16} color="#3b82f6" /> Dokumentacja
+                  </Text>
+                  <View style={styles.photoKinds}>
+                    {INSTALLATION_PHOTO_KINDS.map((kind) => {
+                      const taken = photos.filter((p) => p.kind === kind).length;
+                      return (
+                        <TouchableOpacity
+                          key={kind}
+                          style={[styles.photoKindButton, taken > 0 && styles.photoKindButtonDone]}
+                          onPress={() => takePhoto(kind)}
+                          disabled={uploadingPhoto}
+                        >
+                          <Ionicons name={taken > 0 ? 'checkmark-circle' : 'camera-outline'} size={16} color={taken > 0 ? '#10b981' : '#3b82f6'} />
+                          <Text style={styles.photoKindText}>
+                            {INSTALLATION_PHOTO_LABELS[kind]}{taken > 1 ? ` (${taken})` : ''}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {photos.length > 0 && (
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photoStrip}>
+                      {photos.map((photo) => (
+                        <View key={photo.uri} style={styles.photoThumb}>
+                          <Image source={{ uri: photo.uri }} style={styles.photoImage} />
+                          <Text style={styles.photoLabel} numberOfLines={1}>{INSTALLATION_PHOTO_LABELS[photo.kind]}</Text>
+                          {!photo.attachmentId && (
+                            <View style={styles.photoPending}>
+                              {uploadingPhoto ? (
+                                <ActivityIndicator size="small" color="#fff" />
+                              ) : (
+                                <Ionicons name="cloud-offline-outline" size={16} color="#fff" />
+                              )}
+                            </View>
+                          )}
+                          <TouchableOpacity style={styles.photoRemove} onPress={() => removePhoto(photo.uri)}>
+                            <Ionicons name="close-circle" size={22} color="#ef4444" />
+                          </TouchableOpacity>
+                        </View>
+                      ))}
+                    </ScrollView>
+                  )}
+
+                  <TouchableOpacity style={styles.signatureButton} onPress={openSignaturePad}>
+                    <Ionicons name={signature ? 'checkmark-circle' : 'create-outline'} size={20} color={signature ? '#10b981' : '#3b82f6'} />
+                    <Text style={styles.signatureButtonText}>
+                      {signature ? 'Podpis klienta złożony - zmień' : 'Podpis klienta'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
               {/* GPS Location - moved to bottom */}
               {gpsAddress && orderType !== 'uszkodzony' && (
                 <View style={styles.locationInfo}>
@@ -643,11 +993,11 @@ export default function Scanner() {
               <TouchableOpacity
                 style={[
                   styles.installButton,
-                  orderType !== 'uszkodzony' && !clientAddress.trim() && styles.installButtonDisabled,
+                  ((orderType !== 'uszkodzony' && !clientAddress) || (isReplacement && removedSerials.length === 0)) && styles.installButtonDisabled,
                   orderType === 'uszkodzony' && styles.installButtonDamaged,
                 ]}
                 onPress={handleInstall}
-                disabled={isInstalling || (orderType !== 'uszkodzony' && !clientAddress.trim())}
+                disabled={isInstalling || (orderType !== 'uszkodzony' && !clientAddress) || (isReplacement && removedSerials.length === 0)}
               >
                 {isInstalling ? (
                   <ActivityIndicator size="small" color="#fff" />
@@ -655,7 +1005,9 @@ export default function Scanner() {
                   <>
                     <Ionicons name={orderType === 'uszkodzony' ? 'alert-circle' : 'checkmark-circle'} size={24} color="#fff" />
                     <Text style={styles.installButtonText}>
-                      {orderType === 'uszkodzony' ? 'Oznacz jako uszkodzone' : `Zarejestruj ${orderType}`}
+                      {orderType === 'uszkodzony'
+                        ? 'Oznacz jako uszkodzone'
+                        : `Zarejestruj ${orderType}${jobSize > 1 ? ` • ${jobSize} szt.` : ''}`}
                     </Text>
                   </>
                 )}
@@ -688,7 +1040,7 @@ export default function Scanner() {
               renderItem={({ item, index }) => (
                 <TouchableOpacity
                   style={styles.codeSelectItem}
-                  onPress={() => selectCode(item.data)}
+                  onPress={() => selectCode(item)}
                 >
                   <View style={styles.codeSelectIcon}>
                     <Ionicons 
@@ -712,6 +1064,42 @@ export default function Scanner() {
         </View>
       </Modal>
 
+      {/* Customer Signature Modal */}
+      <Modal
+        visible={showSignaturePad}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowSignaturePad(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Podpis klienta</Text>
+              <TouchableOpacity onPress={() => setShowSignaturePad(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalSubtitle}>Poproś klienta o podpis palcem w polu poniżej</Text>
+            <SignaturePad value={signatureDraft} onChange={setSignatureDraft} />
+            <View style={styles.signatureActions}>
+              <TouchableOpacity style={styles.signatureClear} onPress={() => setSignatureDraft(null)}>
+                <Text style={styles.signatureClearText}>Wyczyść</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.signatureSave, !signatureDraft && styles.installButtonDisabled]}
+                onPress={() => {
+                  setSignature(signatureDraft);
+                  setShowSignaturePad(false);
+                }}
+                disabled={!signatureDraft}
+              >
+                <Text style={styles.signatureSaveText}>Zapisz podpis</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Device Type Selection Modal */}
       <Modal
         visible={showDeviceTypePicker}
@@ -728,33 +1116,33 @@ export default function Scanner() {
               </TouchableOpacity>
             </View>
             <FlatList
-              data={DEVICE_TYPES}
+              data={deviceModels}
               renderItem={({ item }) => (
                 <TouchableOpacity
                   style={[
                     styles.deviceTypeSelectItem,
-                    selectedDeviceType === item && styles.deviceTypeSelectItemActive,
+                    selectedModelId === item.model_id && styles.deviceTypeSelectItemActive,
                   ]}
                   onPress={() => {
-                    setSelectedDeviceType(item);
+                    setSelectedModelId(item.model_id);
                     setShowDeviceTypePicker(false);
                   }}
                 >
                   <View style={styles.deviceTypeSelectIcon}>
-                    <Ionicons name="hardware-chip" size={24} color={selectedDeviceType === item ? '#fff' : '#3b82f6'} />
+                    <Ionicons name="hardware-chip" size={24} color={selectedModelId === item.model_id ? '#fff' : '#3b82f6'} />
                   </View>
                   <Text style={[
                     styles.deviceTypeSelectText,
-                    selectedDeviceType === item && styles.deviceTypeSelectTextActive,
+                    selectedModelId === item.model_id && styles.deviceTypeSelectTextActive,
                   ]}>
-                    {item}
+                    {item.name}
                   </Text>
-                  {selectedDeviceType === item && (
+                  {selectedModelId === item.model_id && (
                     <Ionicons name="checkmark-circle" size={24} color="#10b981" />
                   )}
                 </TouchableOpacity>
               )}
-              keyExtractor={(item) => item}
+              keyExtractor={(item) => item.model_id}
             />
           </View>
         </View>
@@ -929,6 +1317,150 @@ const styles = StyleSheet.create({
   deviceInfo: {
     marginBottom: 16,
   },
+  addToJobButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  addToJobText: {
+    color: '#3b82f6',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  photoKinds: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  photoKindButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#0a0a0a',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  photoKindButtonDone: {
+    borderColor: '#10b981',
+  },
+  photoKindText: {
+    color: '#fff',
+    fontSize: 13,
+  },
+  photoStrip: {
+    marginTop: 12,
+  },
+  photoThumb: {
+    width: 96,
+    marginRight: 8,
+  },
+  photoImage: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+    backgroundColor: '#0a0a0a',
+  },
+  photoLabel: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 4,
+  },
+  photoPending: {
+    position: 'absolute',
+    left: 4,
+    top: 4,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 12,
+    padding: 4,
+  },
+  photoRemove: {
+    position: 'absolute',
+    right: 2,
+    top: 2,
+  },
+  signatureButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingVertical: 12,
+    marginTop: 12,
+  },
+  signatureButtonText: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  signatureActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  signatureClear: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#333',
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  signatureClearText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  signatureSave: {
+    flex: 2,
+    alignItems: 'center',
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  signatureSaveText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  removedInputRow: {
+    marginTop: 8,
+  },
+  removedInput: {
+    backgroundColor: '#0a0a0a',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  jobDeviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#0a0a0a',
+  },
+  jobDeviceInfo: {
+    flex: 1,
+  },
+  jobDeviceName: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  jobDeviceSerial: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
   deviceName: {
     color: '#fff',
     fontSize: 20,
@@ -1000,18 +1532,6 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 8,
   },
-  addressInput: {
-    backgroundColor: '#0a0a0a',
-    borderRadius: 12,
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    color: '#fff',
-    fontSize: 16,
-    borderWidth: 1,
-    borderColor: '#3b82f6',
-    minHeight: 60,
-    textAlignVertical: 'top',
-  },
   orderTypeLabel: {
     color: '#888',
     fontSize: 14,
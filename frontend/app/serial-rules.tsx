@@ -0,0 +1,793 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  RefreshControl,
+  Alert,
+  Modal,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Switch,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { useAuth } from '../src/context/AuthContext';
+import {
+  getSerialRules,
+  createSerialRule,
+  updateSerialRule,
+  deleteSerialRule,
+  getDeviceModels,
+} from '../src/utils/apiClient';
+import { extractSerial, invalidateSerialRules } from '../src/utils/serialRules';
+import { DeviceModel, SerialRule, SerialRuleInput, SerialRuleKind } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+const KIND_LABELS: Record<SerialRuleKind, string> = {
+  regex: 'Wyrażenie regularne',
+  gs1: 'GS1 (AI)',
+};
+
+// The GS separator cannot be typed, the test bench accepts this placeholder instead
+const GS_PLACEHOLDER = '<GS>';
+
+const EMPTY_FORM = {
+  name: '',
+  kind: 'regex' as SerialRuleKind,
+  pattern: '',
+  ais: '',
+  stripPrefixes: '',
+  modelId: null as string | null,
+  priority: '100',
+  enabled: true,
+};
+
+const splitList = (value: string) => value.split(',').map((p) => p.trim()).filter(Boolean);
+
+export default function SerialRules() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [rules, setRules] = useState<SerialRule[]>([]);
+  const [models, setModels] = useState<DeviceModel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Add / edit modal
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingRule, setEditingRule] = useState<SerialRule | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  // Test bench
+  const [payload, setPayload] = useState('');
+  const [scannerActive, setScannerActive] = useState(false);
+  const [permission, requestPermission] = useCameraPermissions();
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+    if (!isLoading && user?.role !== 'admin') {
+      router.replace('/dashboard');
+    }
+  }, [isLoading, isAuthenticated, user]);
+
+  const loadRules = async () => {
+    try {
+      setRules(await getSerialRules());
+    } catch (error) {
+      console.error('Error loading serial rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'admin') {
+      loadRules();
+      getDeviceModels()
+        .then(setModels)
+        .catch((error) => console.error('Error loading device models:', error));
+    }
+  }, [isAuthenticated, user]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadRules();
+    setRefreshing(false);
+  };
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const modelName = (modelId: string | null) =>
+    modelId ? models.find((m) => m.model_id === modelId)?.name || 'Nieznany model' : 'Wszystkie modele';
+
+  // Scanning screens keep their own copy of the rules - make them fetch the new list
+  const rulesChanged = () => {
+    invalidateSerialRules();
+    loadRules();
+  };
+
+  const openModal = (rule: SerialRule | null) => {
+    setEditingRule(rule);
+    setForm(rule ? {
+      name: rule.name,
+      kind: rule.kind,
+      pattern: rule.pattern || '',
+      ais: rule.ais.join(', '),
+      stripPrefixes: rule.strip_prefixes.join(', '),
+      modelId: rule.model_id,
+      priority: String(rule.priority),
+      enabled: rule.enabled,
+    } : EMPTY_FORM);
+    setModalVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      showError('Podaj nazwę reguły');
+      return;
+    }
+    if (form.kind === 'regex') {
+      try {
+        new RegExp(form.pattern.trim());
+      } catch {
+        showError('Nieprawidłowy wzorzec');
+        return;
+      }
+    }
+
+    const data: SerialRuleInput = {
+      name: form.name.trim(),
+      kind: form.kind,
+      pattern: form.kind === 'regex' ? form.pattern.trim() || null : null,
+      ais: form.kind === 'gs1' ? splitList(form.ais) : [],
+      strip_prefixes: splitList(form.stripPrefixes),
+      model_id: form.modelId,
+      priority: parseInt(form.priority, 10) || 0,
+      enabled: form.enabled,
+    };
+
+    setSaving(true);
+    try {
+      if (editingRule) {
+        await updateSerialRule(editingRule.rule_id, data);
+      } else {
+        await createSerialRule(data);
+      }
+      setModalVisible(false);
+      rulesChanged();
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (rule: SerialRule) => {
+    const performDelete = async () => {
+      try {
+        await deleteSerialRule(rule.rule_id);
+        rulesChanged();
+      } catch (error: any) {
+        showError(error.message);
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Czy na pewno chcesz usunąć regułę "${rule.name}"?`)) {
+        performDelete();
+      }
+      return;
+    }
+
+    Alert.alert(
+      'Usuń regułę',
+      `Czy na pewno chcesz usunąć regułę "${rule.name}"?`,
+      [
+        { text: 'Anuluj', style: 'cancel' },
+        { text: 'Usuń', style: 'destructive', onPress: performDelete },
+      ]
+    );
+  };
+
+  const startScanner = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        showError('Brak dostępu do kamery');
+        return;
+      }
+    }
+    setScannerActive(true);
+  };
+
+  const handleBarCodeScanned = ({ data }: { data: string }) => {
+    setPayload(data.split('\x1d').join(GS_PLACEHOLDER));
+    setScannerActive(false);
+  };
+
+  const renderTestResult = () => {
+    if (!payload.trim()) return null;
+
+    const extraction = extractSerial(payload.split(GS_PLACEHOLDER).join('\x1d'), rules);
+    const matchedValue = (rule: SerialRule) => extraction.matches.find((m) => m.rule.rule_id === rule.rule_id)?.value;
+    const sourceLabel = extraction.source === 'label'
+      ? 'Etykieta ITS'
+      : extraction.rule ? extraction.rule.name : 'Domyślna heurystyka (brak pasującej reguły)';
+
+    return (
+      <View style={styles.testResult}>
+        <Text style={styles.testLabel}>Numer seryjny</Text>
+        <Text style={styles.testSerial} selectable>{extraction.serial || '—'}</Text>
+        <Text style={styles.testMeta}>Źródło: {sourceLabel}</Text>
+        {!!extraction.rule && (
+          <Text style={styles.testMeta}>Model: {modelName(extraction.rule.model_id)}</Text>
+        )}
+
+        {extraction.source !== 'label' && rules.map((rule) => {
+          const value = matchedValue(rule);
+          const isWinner = extraction.rule?.rule_id === rule.rule_id;
+          return (
+            <View key={rule.rule_id} style={styles.traceRow}>
+              <Ionicons
+                name={!rule.enabled ? 'remove-circle-outline' : value ? 'checkmark-circle' : 'close-circle-outline'}
+                size={18}
+                color={!rule.enabled ? '#666' : isWinner ? '#10b981' : value ? '#f59e0b' : '#666'}
+              />
+              <Text style={[styles.traceName, !rule.enabled && styles.traceDisabled]} numberOfLines={1}>
+                {rule.name}
+              </Text>
+              <Text style={styles.traceValue} numberOfLines={1}>
+                {!rule.enabled ? 'wyłączona' : value || 'brak dopasowania'}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderTestBench = () => (
+    <View style={styles.testCard}>
+      <View style={styles.testHeader}>
+        <Text style={styles.testTitle}>Tester</Text>
+        <TouchableOpacity style={styles.scanButton} onPress={startScanner}>
+          <Ionicons name="scan" size={18} color="#3b82f6" />
+          <Text style={styles.scanButtonText}>Skanuj</Text>
+        </TouchableOpacity>
+      </View>
+      <TextInput
+        style={[styles.input, styles.payloadInput]}
+        placeholder={`Zeskanuj kod lub wklej jego treść (separator GS jako ${GS_PLACEHOLDER})`}
+        placeholderTextColor="#888"
+        value={payload}
+        onChangeText={setPayload}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {renderTestResult()}
+      <Text style={styles.hint}>
+        Reguły są sprawdzane według priorytetu (najniższy pierwszy) w skanerze, przypisywaniu, dodawaniu urządzeń, zwrotach i inwentaryzacji. Gdy żadna nie pasuje, używany jest najdłuższy alfanumeryczny wiersz kodu.
+      </Text>
+    </View>
+  );
+
+  const renderRule = ({ item }: { item: SerialRule }) => (
+    <TouchableOpacity style={[styles.ruleCard, !item.enabled && styles.ruleCardDisabled]} onPress={() => openModal(item)}>
+      <View style={styles.ruleInfo}>
+        <View style={styles.nameRow}>
+          <Text style={styles.ruleName}>{item.name}</Text>
+          <View style={styles.kindBadge}>
+            <Text style={styles.kindBadgeText}>{item.kind === 'gs1' ? 'GS1' : 'REGEX'}</Text>
+          </View>
+        </View>
+        <Text style={styles.ruleMeta}>
+          {item.kind === 'gs1' ? `AI: ${item.ais.join(', ')}` : `Wzorzec: ${item.pattern}`}
+        </Text>
+        {item.strip_prefixes.length > 0 && (
+          <Text style={styles.ruleMeta}>Usuwane prefiksy: {item.strip_prefixes.join(', ')}</Text>
+        )}
+        <Text style={styles.ruleMeta}>
+          {modelName(item.model_id)} · priorytet {item.priority}{item.enabled ? '' : ' · wyłączona'}
+        </Text>
+      </View>
+
+      <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(item)}>
+        <Ionicons name="trash-outline" size={20} color="#ef4444" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Reguły numerów seryjnych</Text>
+        <TouchableOpacity onPress={() => openModal(null)} style={styles.addButton}>
+          <Ionicons name="add" size={28} color="#3b82f6" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={rules}
+          renderItem={renderRule}
+          keyExtractor={(item) => item.rule_id}
+          contentContainerStyle={styles.listContainer}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#3b82f6" />
+          }
+          ListHeaderComponent={renderTestBench()}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="barcode-outline" size={64} color="#333" />
+              <Text style={styles.emptyText}>Brak reguł</Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* Test bench scanner */}
+      <Modal visible={scannerActive} animationType="slide" onRequestClose={() => setScannerActive(false)}>
+        <SafeAreaView style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => setScannerActive(false)} style={styles.backButton}>
+              <Ionicons name="close" size={24} color="#fff" />
+            </TouchableOpacity>
+            <Text style={styles.title}>Skanuj kod testowy</Text>
+            <View style={styles.addButton} />
+          </View>
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            onBarcodeScanned={handleBarCodeScanned}
+            barcodeScannerSettings={{
+              barcodeTypes: ['qr', 'ean13', 'ean8', 'code128', 'code39', 'code93', 'codabar', 'itf14', 'upc_a', 'upc_e', 'pdf417', 'aztec', 'datamatrix'],
+            }}
+          />
+        </SafeAreaView>
+      </Modal>
+
+      {/* Add / Edit Rule Modal */}
+      <Modal
+        visible={modalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingRule ? 'Edytuj regułę' : 'Nowa reguła'}</Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              <Text style={styles.inputLabel}>Nazwa</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="np. Etykieta PLAY CPE"
+                placeholderTextColor="#888"
+                value={form.name}
+                onChangeText={(name) => setForm((prev) => ({ ...prev, name }))}
+              />
+
+              <Text style={styles.inputLabel}>Typ</Text>
+              <View style={styles.optionRow}>
+                {(Object.keys(KIND_LABELS) as SerialRuleKind[]).map((kind) => (
+                  <TouchableOpacity
+                    key={kind}
+                    style={[styles.option, form.kind === kind && styles.optionActive]}
+                    onPress={() => setForm((prev) => ({ ...prev, kind }))}
+                  >
+                    <Text style={[styles.optionText, form.kind === kind && styles.optionTextActive]}>
+                      {KIND_LABELS[kind]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {form.kind === 'regex' ? (
+                <>
+                  <Text style={styles.inputLabel}>Wzorzec (sprawdzany w każdym wierszu, bez rozróżniania wielkości liter)</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="np. ^SN:?([0-9A-Z]{12})$"
+                    placeholderTextColor="#888"
+                    value={form.pattern}
+                    onChangeText={(pattern) => setForm((prev) => ({ ...prev, pattern }))}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  <Text style={styles.fieldHint}>
+                    Numerem seryjnym jest pierwsza grupa w nawiasach, a bez grup - całe dopasowanie.
+                  </Text>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.inputLabel}>Identyfikatory GS1 (po przecinku)</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="np. 21"
+                    placeholderTextColor="#888"
+                    value={form.ais}
+                    onChangeText={(ais) => setForm((prev) => ({ ...prev, ais }))}
+                    keyboardType="numbers-and-punctuation"
+                    autoCorrect={false}
+                  />
+                </>
+              )}
+
+              <Text style={styles.inputLabel}>Prefiksy do usunięcia (po przecinku)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="np. SN:, S/N"
+                placeholderTextColor="#888"
+                value={form.stripPrefixes}
+                onChangeText={(stripPrefixes) => setForm((prev) => ({ ...prev, stripPrefixes }))}
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+
+              <Text style={styles.inputLabel}>Model</Text>
+              <View style={styles.chipRow}>
+                {[null, ...models.map((m) => m.model_id)].map((modelId) => (
+                  <TouchableOpacity
+                    key={modelId || 'all'}
+                    style={[styles.chip, form.modelId === modelId && styles.optionActive]}
+                    onPress={() => setForm((prev) => ({ ...prev, modelId }))}
+                  >
+                    <Text style={[styles.optionText, form.modelId === modelId && styles.optionTextActive]}>
+                      {modelName(modelId)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.inputLabel}>Priorytet (niższy sprawdzany wcześniej)</Text>
+              <TextInput
+                style={styles.input}
+                value={form.priority}
+                onChangeText={(priority) => setForm((prev) => ({ ...prev, priority }))}
+                keyboardType="number-pad"
+              />
+
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Reguła aktywna</Text>
+                <Switch
+                  value={form.enabled}
+                  onValueChange={(enabled) => setForm((prev) => ({ ...prev, enabled }))}
+                  trackColor={{ false: '#333', true: '#3b82f6' }}
+                />
+              </View>
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={20} color="#fff" />
+                  <Text style={styles.submitButtonText}>Zapisz</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  addButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 12,
+  },
+  testCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  testHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  testTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+  },
+  scanButtonText: {
+    color: '#3b82f6',
+    fontSize: 14,
+  },
+  payloadInput: {
+    minHeight: 90,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 14,
+  },
+  testResult: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+  },
+  testLabel: {
+    color: '#888',
+    fontSize: 12,
+  },
+  testSerial: {
+    color: '#10b981',
+    fontSize: 20,
+    fontWeight: '700',
+    marginVertical: 4,
+  },
+  testMeta: {
+    color: '#ccc',
+    fontSize: 13,
+    marginBottom: 2,
+  },
+  traceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  traceName: {
+    color: '#fff',
+    fontSize: 13,
+    flex: 1,
+  },
+  traceDisabled: {
+    color: '#666',
+  },
+  traceValue: {
+    color: '#888',
+    fontSize: 13,
+    maxWidth: '45%',
+  },
+  ruleCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 12,
+  },
+  ruleCardDisabled: {
+    opacity: 0.5,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  ruleName: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  kindBadge: {
+    backgroundColor: '#3b82f6',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  kindBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  ruleMeta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 16,
+    marginTop: 16,
+  },
+  camera: {
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '85%',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  inputLabel: {
+    color: '#888',
+    fontSize: 14,
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  fieldHint: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  input: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    color: '#fff',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  optionActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  optionText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  optionTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#0a0a0a',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 20,
+    marginBottom: 20,
+  },
+  switchLabel: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    margin: 20,
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -10,26 +10,15 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import { getInstallationStats, getWorkers } from '../src/utils/apiClient';
+import { InstallationStats, Worker } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 import { format, subDays } from 'date-fns';
 import { pl } from 'date-fns/locale';
 
-interface Stats {
-  total: number;
-  by_type: Record<string, number>;
-  by_user: Record<string, number>;
-  daily: Array<{ _id: string; count: number }>;
-}
-
-interface Worker {
-  user_id: string;
-  name: string;
-}
-
 export default function Stats() {
   const { user, isAuthenticated, isLoading } = useAuth();
-  const [stats, setStats] = useState<Stats | null>(null);
+  const [stats, setStats] = useState<InstallationStats | null>(null);
   const [workers, setWorkers] = useState<Worker[]>([]);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -42,8 +31,8 @@ export default function Stats() {
   const loadData = async () => {
     try {
       const [statsData, workersData] = await Promise.all([
-        apiFetch('/api/installations/stats'),
-        apiFetch('/api/workers'),
+        getInstallationStats(),
+        getWorkers(),
       ]);
       setStats(statsData);
       setWorkers(workersData);
@@ -116,6 +105,9 @@ export default function Stats() {
           <Ionicons name="stats-chart" size={32} color="#3b82f6" />
           <Text style={styles.totalNumber}>{stats?.total || 0}</Text>
           <Text style={styles.totalLabel}>Wszystkich instalacji</Text>
+          {!!stats && stats.devices > stats.total && (
+            <Text style={styles.totalDevices}>Zainstalowanych urządzeń: {stats.devices}</Text>
+          )}
         </View>
 
         {/* Types Section */}
@@ -235,6 +227,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 4,
   },
+  totalDevices: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 2,
+  },
   section: {
     marginBottom: 24,
   },
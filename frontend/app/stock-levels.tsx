@@ -0,0 +1,420 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import {
+  getDeviceModels,
+  getWorkers,
+  getStockLevels,
+  setStockLevel,
+  deleteStockLevel,
+  getStockSettings,
+  updateStockSettings,
+} from '../src/utils/apiClient';
+import { DeviceModel, StockLevel, StockSettings, Worker } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+interface LevelDraft {
+  min: string;
+  max: string;
+}
+
+export default function StockLevels() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const params = useLocalSearchParams<{ user?: string }>();
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [models, setModels] = useState<DeviceModel[]>([]);
+  const [selectedWorkerId, setSelectedWorkerId] = useState<string>(params.user || '');
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, LevelDraft>>({});
+  const [settings, setSettings] = useState<StockSettings | null>(null);
+  const [loadingLevels, setLoadingLevels] = useState(false);
+  const [savingModelId, setSavingModelId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+    if (!isLoading && user?.role !== 'admin') {
+      router.replace('/dashboard');
+    }
+  }, [isLoading, isAuthenticated, user]);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'admin') {
+      Promise.all([getWorkers(), getDeviceModels(), getStockSettings()])
+        .then(([workerList, modelList, stockSettings]) => {
+          setWorkers(workerList);
+          setModels(modelList);
+          setSettings(stockSettings);
+          setSelectedWorkerId((current) => current || workerList[0]?.user_id || '');
+        })
+        .catch((error) => console.error('Error loading stock level data:', error));
+    }
+  }, [isAuthenticated, user]);
+
+  const applyLevels = (data: StockLevel[]) => {
+    setLevels(data);
+    const nextDrafts: Record<string, LevelDraft> = {};
+    data.forEach((level) => {
+      nextDrafts[level.model_id] = { min: String(level.min_qty), max: String(level.max_qty) };
+    });
+    setDrafts(nextDrafts);
+  };
+
+  useEffect(() => {
+    if (!selectedWorkerId) return;
+    setLoadingLevels(true);
+    getStockLevels(selectedWorkerId)
+      .then(applyLevels)
+      .catch((error) => console.error('Error loading stock levels:', error))
+      .finally(() => setLoadingLevels(false));
+  }, [selectedWorkerId]);
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const updateDraft = (modelId: string, field: keyof LevelDraft, value: string) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [modelId]: { ...(prev[modelId] || { min: '', max: '' }), [field]: value.replace(/[^0-9]/g, '') },
+    }));
+  };
+
+  const handleToggleAutoDraft = async (value: boolean) => {
+    if (!settings) return;
+    const previous = settings;
+    setSettings({ ...settings, auto_draft_orders: value });
+    try {
+      setSettings(await updateStockSettings({ auto_draft_orders: value }));
+    } catch (error: any) {
+      setSettings(previous);
+      showError(error.message);
+    }
+  };
+
+  const handleSave = async (model: DeviceModel) => {
+    const draft = drafts[model.model_id];
+    if (!draft?.min || !draft?.max) {
+      showError('Podaj stan minimalny i maksymalny');
+      return;
+    }
+
+    setSavingModelId(model.model_id);
+    try {
+      const saved = await setStockLevel({
+        user_id: selectedWorkerId,
+        model_id: model.model_id,
+        min_qty: parseInt(draft.min, 10),
+        max_qty: parseInt(draft.max, 10),
+      });
+      applyLevels([...levels.filter((l) => l.model_id !== model.model_id), saved]);
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setSavingModelId(null);
+    }
+  };
+
+  const handleClear = async (level: StockLevel) => {
+    setSavingModelId(level.model_id);
+    try {
+      await deleteStockLevel(level.level_id);
+      applyLevels(levels.filter((l) => l.level_id !== level.level_id));
+    } catch (error: any) {
+      showError(error.message);
+    } finally {
+      setSavingModelId(null);
+    }
+  };
+
+  const renderModelRow = (model: DeviceModel) => {
+    const level = levels.find((l) => l.model_id === model.model_id);
+    const draft = drafts[model.model_id] || { min: '', max: '' };
+    const isLow = !!level && level.current < level.min_qty;
+
+    return (
+      <View key={model.model_id} style={[styles.modelCard, isLow && styles.modelCardAlert]}>
+        <View style={styles.modelHeader}>
+          <Text style={styles.modelName}>{model.name}</Text>
+          {level && (
+            <Text style={[styles.currentStock, isLow && styles.currentStockAlert]}>
+              Stan: {level.current} szt.
+            </Text>
+          )}
+        </View>
+
+        {isLow && (
+          <Text style={styles.suggestionText}>
+            Poniżej minimum - do uzupełnienia {level.suggested_qty} szt.
+          </Text>
+        )}
+
+        <View style={styles.inputsRow}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Min</Text>
+            <TextInput
+              style={styles.input}
+              value={draft.min}
+              onChangeText={(value) => updateDraft(model.model_id, 'min', value)}
+              keyboardType="number-pad"
+              placeholder="-"
+              placeholderTextColor="#555"
+            />
+          </View>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Max</Text>
+            <TextInput
+              style={styles.input}
+              value={draft.max}
+              onChangeText={(value) => updateDraft(model.model_id, 'max', value)}
+              keyboardType="number-pad"
+              placeholder="-"
+              placeholderTextColor="#555"
+            />
+          </View>
+
+          {savingModelId === model.model_id ? (
+            <ActivityIndicator size="small" color="#3b82f6" style={styles.rowAction} />
+          ) : (
+            <>
+              <TouchableOpacity style={styles.rowAction} onPress={() => handleSave(model)}>
+                <Ionicons name="checkmark-circle" size={28} color="#10b981" />
+              </TouchableOpacity>
+              {level && (
+                <TouchableOpacity style={styles.rowAction} onPress={() => handleClear(level)}>
+                  <Ionicons name="close-circle" size={28} color="#ef4444" />
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Limity stanów</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {settings && (
+          <View style={styles.settingsCard}>
+            <Ionicons name="cart-outline" size={24} color="#3b82f6" />
+            <View style={styles.settingsInfo}>
+              <Text style={styles.settingsLabel}>Automatyczne zamówienia</Text>
+              <Text style={styles.settingsDescription}>
+                Gdy pracownik spadnie poniżej minimum, przygotuj zamówienie do zatwierdzenia
+              </Text>
+            </View>
+            <Switch
+              value={settings.auto_draft_orders}
+              onValueChange={handleToggleAutoDraft}
+              trackColor={{ false: '#333', true: '#3b82f6' }}
+              thumbColor="#fff"
+            />
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Pracownik</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.workerChips}>
+          {workers.map((worker) => (
+            <TouchableOpacity
+              key={worker.user_id}
+              style={[styles.workerChip, selectedWorkerId === worker.user_id && styles.workerChipActive]}
+              onPress={() => setSelectedWorkerId(worker.user_id)}
+            >
+              <Text style={[
+                styles.workerChipText,
+                selectedWorkerId === worker.user_id && styles.workerChipTextActive,
+              ]}>
+                {worker.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <Text style={styles.sectionTitle}>Modele urządzeń</Text>
+        {loadingLevels ? (
+          <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+        ) : selectedWorkerId ? (
+          models.map(renderModelRow)
+        ) : (
+          <Text style={styles.hint}>Brak pracowników</Text>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 14,
+  },
+  settingsCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    gap: 12,
+  },
+  settingsInfo: {
+    flex: 1,
+  },
+  settingsLabel: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  settingsDescription: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    color: '#888',
+    fontSize: 14,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  workerChips: {
+    flexGrow: 0,
+  },
+  workerChip: {
+    backgroundColor: '#1a1a1a',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  workerChipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  workerChipText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  workerChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  modelCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  modelCardAlert: {
+    borderWidth: 1,
+    borderColor: '#ef4444',
+  },
+  modelHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modelName: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  currentStock: {
+    color: '#3b82f6',
+    fontSize: 14,
+  },
+  currentStockAlert: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  suggestionText: {
+    color: '#f59e0b',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  inputsRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 12,
+    marginTop: 12,
+  },
+  inputGroup: {
+    flex: 1,
+  },
+  inputLabel: {
+    color: '#888',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  rowAction: {
+    paddingBottom: 6,
+  },
+});
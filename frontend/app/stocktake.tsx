@@ -0,0 +1,762 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Camera, CameraView } from 'expo-camera';
+import { useAuth } from '../src/context/AuthContext';
+import {
+  getStocktake,
+  scanStocktakeDevice,
+  closeStocktake,
+  cancelStocktake,
+  resolveStocktakeEntry,
+} from '../src/utils/apiClient';
+import { loadDeviceLifecycle } from '../src/utils/deviceLifecycle';
+import { ScanFeedback, signalScan } from '../src/utils/scanFeedback';
+import { extractSerial, useSerialRules } from '../src/utils/serialRules';
+import {
+  DeviceLifecycle,
+  Stocktake,
+  StocktakeAction,
+  StocktakeEntry,
+  StocktakeScanResult,
+} from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+// The camera keeps reporting a code while it is in view, it counts again after this pause
+const RESCAN_INTERVAL = 2000;
+
+// Must match MAIN_WAREHOUSE_ID in backend/server.py
+const MAIN_WAREHOUSE_ID = 'loc_main';
+
+const SCAN_FEEDBACK: Record<StocktakeScanResult, ScanFeedback> = {
+  matched: 'success',
+  unexpected: 'warning',
+  unknown: 'error',
+  duplicate: 'warning',
+};
+
+const ACTION_LABELS: Record<StocktakeAction, string> = {
+  move_here: 'Przeniesiono do tej lokalizacji',
+  move_to_warehouse: 'Przeniesiono do magazynu głównego',
+  write_off: 'Spisano jako zaginione',
+  acknowledge: 'Zatwierdzono rozbieżność',
+};
+
+export default function StocktakeSession() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const params = useLocalSearchParams<{ id: string }>();
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  const [lifecycle, setLifecycle] = useState<DeviceLifecycle | null>(null);
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  const [lastScan, setLastScan] = useState<{ text: string; feedback: ScanFeedback } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [showMatched, setShowMatched] = useState(false);
+  const serialRules = useSerialRules();
+  const lastCodeRef = useRef<{ code: string; time: number } | null>(null);
+  const scanningRef = useRef(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+  }, [isLoading, isAuthenticated]);
+
+  useEffect(() => {
+    (async () => {
+      const { status } = await Camera.requestCameraPermissionsAsync();
+      setHasPermission(status === 'granted');
+    })();
+  }, []);
+
+  const loadStocktake = useCallback(async () => {
+    if (!params.id) return;
+    try {
+      setStocktake(await getStocktake(params.id));
+    } catch (error: any) {
+      console.error('Error loading stocktake:', error);
+      showError(error.message || 'Nie udało się pobrać inwentaryzacji');
+    }
+  }, [params.id]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadStocktake();
+      loadDeviceLifecycle()
+        .then(setLifecycle)
+        .catch((error) => console.error('Error loading device lifecycle:', error));
+    }
+  }, [isAuthenticated, loadStocktake]);
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const confirm = (title: string, message: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) onConfirm();
+      return;
+    }
+    Alert.alert(title, message, [
+      { text: 'Anuluj', style: 'cancel' },
+      { text: 'OK', onPress: onConfirm },
+    ]);
+  };
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleString('pl-PL', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const recordScan = async (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed || !stocktake) return;
+
+    const now = Date.now();
+    const last = lastCodeRef.current;
+    lastCodeRef.current = { code: trimmed, time: now };
+    if ((last && last.code === trimmed && now - last.time < RESCAN_INTERVAL) || scanningRef.current) return;
+
+    scanningRef.current = true;
+    try {
+      const response = await scanStocktakeDevice(stocktake.stocktake_id, trimmed);
+      const device = response.device;
+      const label = device ? `${device.nazwa || 'Urządzenie'} ${device.numer_seryjny}` : response.code;
+      const texts: Record<StocktakeScanResult, string> = {
+        matched: `Zgodne: ${label}`,
+        unexpected: `Spoza tej lokalizacji: ${label}`,
+        unknown: `Nieznany kod: ${response.code}`,
+        duplicate: `Już zeskanowane: ${label}`,
+      };
+      setLastScan({ text: texts[response.result], feedback: SCAN_FEEDBACK[response.result] });
+      signalScan(SCAN_FEEDBACK[response.result]);
+
+      const { result } = response;
+      if (result !== 'duplicate') {
+        setStocktake((prev) => prev && {
+          ...prev,
+          scan_count: response.scan_count,
+          scans: [
+            ...(prev.scans || []),
+            {
+              code: response.code,
+              device_id: device?.device_id || null,
+              numer_seryjny: device?.numer_seryjny || null,
+              nazwa: device?.nazwa || null,
+              result,
+              scanned_at: new Date().toISOString(),
+            },
+          ],
+        });
+      }
+    } catch (error: any) {
+      setLastScan({ text: error.message || 'Nie udało się zapisać skanu', feedback: 'error' });
+      signalScan('error');
+    } finally {
+      scanningRef.current = false;
+    }
+  };
+
+  const handleManualScan = () => {
+    // Typing the same code again is deliberate, unlike the camera repeating itself
+    lastCodeRef.current = null;
+    recordScan(manualCode);
+    setManualCode('');
+  };
+
+  const handleClose = () => {
+    if (!stocktake) return;
+    confirm(
+      'Zakończ inwentaryzację',
+      `Zakończyć liczenie (${stocktake.scan_count} zeskanowanych) i porównać ze stanem w systemie?`,
+      async () => {
+        setBusy(true);
+        try {
+          setShowCamera(false);
+          setStocktake(await closeStocktake(stocktake.stocktake_id));
+        } catch (error: any) {
+          showError(error.message || 'Nie udało się zakończyć inwentaryzacji');
+        } finally {
+          setBusy(false);
+        }
+      }
+    );
+  };
+
+  const handleCancel = () => {
+    if (!stocktake) return;
+    confirm('Anuluj inwentaryzację', 'Anulować inwentaryzację bez raportu?', async () => {
+      setBusy(true);
+      try {
+        await cancelStocktake(stocktake.stocktake_id);
+        router.back();
+      } catch (error: any) {
+        showError(error.message || 'Nie udało się anulować inwentaryzacji');
+      } finally {
+        setBusy(false);
+      }
+    });
+  };
+
+  const handleResolve = async (entry: StocktakeEntry, action: StocktakeAction) => {
+    if (!stocktake) return;
+    setResolvingId(entry.device_id);
+    try {
+      setStocktake(await resolveStocktakeEntry(stocktake.stocktake_id, entry.device_id, action));
+    } catch (error: any) {
+      showError(error.message || 'Nie udało się wykonać korekty');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const renderEntry = (entry: StocktakeEntry, kind: 'missing' | 'unexpected') => (
+    <View key={entry.device_id} style={styles.entryCard}>
+      <View style={styles.entryHeader}>
+        <View style={styles.entryInfo}>
+          <Text style={styles.entrySerial}>{entry.numer_seryjny}</Text>
+          <Text style={styles.entryName}>{entry.nazwa || 'Bez nazwy'}</Text>
+        </View>
+        <Text style={styles.entryStatus}>{lifecycle?.statuses[entry.status] || entry.status}</Text>
+      </View>
+      {kind === 'unexpected' && (
+        <Text style={styles.entryLocation}>
+          W systemie: {entry.location_name}
+          {entry.holder_name ? ` (${entry.holder_name})` : ''}
+        </Text>
+      )}
+
+      {entry.resolution ? (
+        <View style={styles.resolution}>
+          <Ionicons name="checkmark-done" size={16} color="#10b981" />
+          <Text style={styles.resolutionText}>
+            {ACTION_LABELS[entry.resolution.action]} • {entry.resolution.by_name}
+          </Text>
+        </View>
+      ) : isAdmin && (
+        resolvingId === entry.device_id ? (
+          <ActivityIndicator size="small" color="#3b82f6" style={styles.entryLoader} />
+        ) : (
+          <View style={styles.entryActions}>
+            {kind === 'unexpected' && (
+              <TouchableOpacity style={styles.entryAction} onPress={() => handleResolve(entry, 'move_here')}>
+                <Ionicons name="enter-outline" size={16} color="#3b82f6" />
+                <Text style={styles.entryActionText}>Przenieś tutaj</Text>
+              </TouchableOpacity>
+            )}
+            {kind === 'missing' && stocktake?.location_id !== MAIN_WAREHOUSE_ID && (
+              <TouchableOpacity style={styles.entryAction} onPress={() => handleResolve(entry, 'move_to_warehouse')}>
+                <Ionicons name="business-outline" size={16} color="#3b82f6" />
+                <Text style={styles.entryActionText}>Do magazynu</Text>
+              </TouchableOpacity>
+            )}
+            {kind === 'missing' && (
+              <TouchableOpacity style={styles.entryAction} onPress={() => handleResolve(entry, 'write_off')}>
+                <Ionicons name="help-circle-outline" size={16} color="#ef4444" />
+                <Text style={[styles.entryActionText, { color: '#ef4444' }]}>Spisz</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.entryAction} onPress={() => handleResolve(entry, 'acknowledge')}>
+              <Ionicons name="checkmark-outline" size={16} color="#888" />
+              <Text style={[styles.entryActionText, { color: '#888' }]}>Zatwierdź</Text>
+            </TouchableOpacity>
+          </View>
+        )
+      )}
+    </View>
+  );
+
+  const renderScanning = (current: Stocktake) => {
+    const scans = [...(current.scans || [])].reverse();
+
+    return (
+      <>
+        {showCamera && hasPermission ? (
+          <View style={styles.cameraContainer}>
+            <CameraView
+              style={styles.camera}
+              onBarcodeScanned={({ data }) => recordScan(extractSerial(data, serialRules).serial)}
+              barcodeScannerSettings={{
+                barcodeTypes: ['qr', 'ean13', 'ean8', 'code128', 'code39', 'code93', 'codabar', 'itf14', 'upc_a', 'upc_e', 'pdf417', 'aztec', 'datamatrix'],
+              }}
+            />
+            <TouchableOpacity style={styles.closeCameraButton} onPress={() => setShowCamera(false)}>
+              <Ionicons name="close" size={24} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={styles.scanButton}
+            onPress={() => setShowCamera(true)}
+            disabled={!hasPermission}
+          >
+            <Ionicons name="scan" size={32} color="#3b82f6" />
+            <Text style={styles.scanButtonText}>
+              {hasPermission === false ? 'Brak dostępu do kamery' : 'Skanuj urządzenia'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.searchRow}>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Numer seryjny / kod kreskowy"
+            placeholderTextColor="#666"
+            value={manualCode}
+            onChangeText={setManualCode}
+            autoCapitalize="characters"
+            onSubmitEditing={handleManualScan}
+            returnKeyType="done"
+          />
+          <TouchableOpacity style={styles.searchButton} onPress={handleManualScan}>
+            <Ionicons name="add" size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        {lastScan && (
+          <View style={[
+            styles.lastScanBanner,
+            lastScan.feedback === 'warning' && styles.lastScanBannerWarning,
+            lastScan.feedback === 'error' && styles.lastScanBannerError,
+          ]}>
+            <Ionicons
+              name={lastScan.feedback === 'success' ? 'checkmark-circle' : lastScan.feedback === 'warning' ? 'help-circle' : 'alert-circle'}
+              size={20}
+              color="#fff"
+            />
+            <Text style={styles.lastScanText}>{lastScan.text}</Text>
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Zeskanowano: {current.scan_count}</Text>
+        {scans.map((scan) => (
+          <View key={`${scan.code}-${scan.scanned_at}`} style={styles.scanRow}>
+            <View style={[
+              styles.scanDot,
+              { backgroundColor: scan.result === 'matched' ? '#10b981' : scan.result === 'unexpected' ? '#f59e0b' : '#ef4444' },
+            ]} />
+            <Text style={styles.scanText} numberOfLines={1}>
+              {scan.numer_seryjny || scan.code}{scan.nazwa ? ` • ${scan.nazwa}` : ''}
+            </Text>
+          </View>
+        ))}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, busy && styles.primaryButtonDisabled]}
+          onPress={handleClose}
+          disabled={busy}
+        >
+          {busy ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="clipboard-outline" size={20} color="#fff" />
+              <Text style={styles.primaryButtonText}>Zakończ i porównaj</Text>
+            </>
+          )}
+        </TouchableOpacity>
+        {isAdmin && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleCancel} disabled={busy}>
+            <Text style={styles.secondaryButtonText}>Anuluj inwentaryzację</Text>
+          </TouchableOpacity>
+        )}
+      </>
+    );
+  };
+
+  const renderReport = (current: Stocktake) => {
+    const report = current.report;
+    if (!report) return null;
+
+    return (
+      <>
+        <View style={styles.summaryGrid}>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: '#10b981' }]}>{report.matched.length}</Text>
+            <Text style={styles.summaryLabel}>Zgodne</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: '#ef4444' }]}>{report.missing.length}</Text>
+            <Text style={styles.summaryLabel}>Brakujące</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: '#f59e0b' }]}>{report.unexpected.length}</Text>
+            <Text style={styles.summaryLabel}>Spoza lokalizacji</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: '#888' }]}>{report.unknown.length}</Text>
+            <Text style={styles.summaryLabel}>Nieznane kody</Text>
+          </View>
+        </View>
+
+        {report.missing.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Brakujące - w systemie, nie zeskanowane</Text>
+            {report.missing.map((entry) => renderEntry(entry, 'missing'))}
+          </>
+        )}
+
+        {report.unexpected.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Spoza lokalizacji - zeskanowane, w systemie gdzie indziej</Text>
+            {report.unexpected.map((entry) => renderEntry(entry, 'unexpected'))}
+          </>
+        )}
+
+        {report.unknown.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Kody spoza systemu</Text>
+            {report.unknown.map((code) => (
+              <View key={code} style={styles.scanRow}>
+                <View style={[styles.scanDot, { backgroundColor: '#ef4444' }]} />
+                <Text style={styles.scanText}>{code}</Text>
+              </View>
+            ))}
+          </>
+        )}
+
+        {report.matched.length > 0 && (
+          <>
+            <TouchableOpacity style={styles.toggleRow} onPress={() => setShowMatched(!showMatched)}>
+              <Text style={styles.sectionTitle}>Zgodne ({report.matched.length})</Text>
+              <Ionicons name={showMatched ? 'chevron-up' : 'chevron-down'} size={18} color="#888" />
+            </TouchableOpacity>
+            {showMatched && report.matched.map((entry) => (
+              <View key={entry.device_id} style={styles.scanRow}>
+                <View style={[styles.scanDot, { backgroundColor: '#10b981' }]} />
+                <Text style={styles.scanText} numberOfLines={1}>
+                  {entry.numer_seryjny}{entry.nazwa ? ` • ${entry.nazwa}` : ''}
+                </Text>
+              </View>
+            ))}
+          </>
+        )}
+      </>
+    );
+  };
+
+  if (!stocktake) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={1}>{stocktake.location_name}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.meta}>
+          Liczy: {stocktake.counted_by_name} • rozpoczęta {formatDate(stocktake.opened_at)}
+          {stocktake.closed_at ? `\nZakończona ${formatDate(stocktake.closed_at)} przez ${stocktake.closed_by_name}` : ''}
+        </Text>
+
+        {stocktake.status === 'open' && renderScanning(stocktake)}
+        {stocktake.status === 'closed' && renderReport(stocktake)}
+        {stocktake.status === 'cancelled' && (
+          <Text style={styles.hint}>Inwentaryzacja została anulowana</Text>
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  meta: {
+    color: '#888',
+    fontSize: 13,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  sectionTitle: {
+    color: '#888',
+    fontSize: 14,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  cameraContainer: {
+    height: 260,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  camera: {
+    flex: 1,
+  },
+  closeCameraButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 20,
+    padding: 8,
+  },
+  scanButton: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#333',
+    borderStyle: 'dashed',
+  },
+  scanButtonText: {
+    color: '#3b82f6',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  searchInput: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  searchButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  lastScanBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#10b981',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+    gap: 8,
+  },
+  lastScanBannerWarning: {
+    backgroundColor: '#f59e0b',
+  },
+  lastScanBannerError: {
+    backgroundColor: '#ef4444',
+  },
+  lastScanText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    flex: 1,
+  },
+  scanRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 6,
+    gap: 10,
+  },
+  scanDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  scanText: {
+    color: '#ccc',
+    fontSize: 14,
+    flex: 1,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginTop: 24,
+    gap: 8,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  secondaryButtonText: {
+    color: '#ef4444',
+    fontSize: 15,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  summaryItem: {
+    flexGrow: 1,
+    flexBasis: '45%',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  summaryLabel: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  entryCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entrySerial: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  entryName: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  entryStatus: {
+    color: '#3b82f6',
+    fontSize: 12,
+  },
+  entryLocation: {
+    color: '#f59e0b',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  entryActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  entryAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  entryActionText: {
+    color: '#3b82f6',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  entryLoader: {
+    marginTop: 10,
+    alignSelf: 'flex-start',
+  },
+  resolution: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    gap: 6,
+  },
+  resolutionText: {
+    color: '#10b981',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,472 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  FlatList,
+  Modal,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import { getStocktakes, openStocktake, getLocations, getWorkers } from '../src/utils/apiClient';
+import { Location, Stocktake, StocktakeStatus, Worker } from '../src/types/models';
+import { Ionicons } from '@expo/vector-icons';
+
+const LOCATION_ICONS: Record<Location['type'], string> = {
+  warehouse: 'business',
+  van: 'bus',
+  worker: 'person',
+};
+
+const STATUS_INFO: Record<StocktakeStatus, { label: string; color: string }> = {
+  open: { label: 'W trakcie', color: '#3b82f6' },
+  closed: { label: 'Zakończona', color: '#10b981' },
+  cancelled: { label: 'Anulowana', color: '#666' },
+};
+
+export default function Stocktakes() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // New stocktake (admin only)
+  const [openModalVisible, setOpenModalVisible] = useState(false);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [counterId, setCounterId] = useState('');
+  const [opening, setOpening] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+  }, [isLoading, isAuthenticated]);
+
+  const loadStocktakes = useCallback(async () => {
+    try {
+      setStocktakes(await getStocktakes());
+    } catch (error) {
+      console.error('Error loading stocktakes:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  // Reload when coming back from a count, its status or summary may have changed
+  useFocusEffect(
+    useCallback(() => {
+      if (isAuthenticated) {
+        loadStocktakes();
+      }
+    }, [isAuthenticated, loadStocktakes])
+  );
+
+  useEffect(() => {
+    if (isAuthenticated && isAdmin) {
+      Promise.all([getLocations(), getWorkers()])
+        .then(([locationList, workerList]) => {
+          setLocations(locationList);
+          setWorkers(workerList);
+        })
+        .catch((error) => console.error('Error loading stocktake options:', error));
+    }
+  }, [isAuthenticated, isAdmin]);
+
+  const showError = (message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert('Błąd: ' + message);
+    } else {
+      Alert.alert('Błąd', message);
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleString('pl-PL', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const selectedLocation = locations.find((l) => l.location_id === locationId);
+  const busyLocationIds = new Set(stocktakes.filter((s) => s.status === 'open').map((s) => s.location_id));
+
+  const handleOpen = async () => {
+    if (!selectedLocation) return;
+    setOpening(true);
+    try {
+      const stocktake = await openStocktake({
+        location_id: selectedLocation.location_id,
+        counted_by: selectedLocation.type !== 'worker' && counterId ? counterId : undefined,
+      });
+      setOpenModalVisible(false);
+      setLocationId('');
+      setCounterId('');
+      loadStocktakes();
+      router.push(`/stocktake?id=${stocktake.stocktake_id}`);
+    } catch (error: any) {
+      showError(error.message || 'Nie udało się rozpocząć inwentaryzacji');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const renderStocktake = ({ item }: { item: Stocktake }) => {
+    const status = STATUS_INFO[item.status];
+
+    return (
+      <TouchableOpacity
+        style={[styles.card, item.status === 'open' && styles.cardOpen]}
+        onPress={() => router.push(`/stocktake?id=${item.stocktake_id}`)}
+      >
+        <View style={styles.cardHeader}>
+          <Ionicons name={LOCATION_ICONS[item.location_type] as any} size={22} color="#3b82f6" />
+          <Text style={styles.cardTitle} numberOfLines={1}>{item.location_name}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: status.color }]}>
+            <Text style={styles.statusBadgeText}>{status.label}</Text>
+          </View>
+        </View>
+        <Text style={styles.cardMeta}>
+          Liczy: {item.counted_by_name} • {formatDate(item.opened_at)}
+        </Text>
+        {item.summary ? (
+          <View style={styles.summaryRow}>
+            <Text style={[styles.summaryText, { color: '#10b981' }]}>Zgodne: {item.summary.matched}</Text>
+            <Text style={[styles.summaryText, item.summary.missing > 0 && { color: '#ef4444' }]}>
+              Brakujące: {item.summary.missing}
+            </Text>
+            <Text style={[styles.summaryText, item.summary.unexpected + item.summary.unknown > 0 && { color: '#f59e0b' }]}>
+              Nadmiarowe: {item.summary.unexpected + item.summary.unknown}
+            </Text>
+          </View>
+        ) : item.status === 'open' ? (
+          <Text style={styles.summaryText}>Zeskanowano: {item.scan_count}</Text>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Inwentaryzacja</Text>
+        {isAdmin ? (
+          <TouchableOpacity onPress={() => setOpenModalVisible(true)} style={styles.backButton}>
+            <Ionicons name="add" size={28} color="#3b82f6" />
+          </TouchableOpacity>
+        ) : (
+          <View style={{ width: 40 }} />
+        )}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#3b82f6" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={stocktakes}
+          keyExtractor={(item) => item.stocktake_id}
+          renderItem={renderStocktake}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadStocktakes();
+              }}
+              tintColor="#3b82f6"
+            />
+          }
+          ListEmptyComponent={
+            <Text style={styles.hint}>
+              {isAdmin ? 'Brak inwentaryzacji - rozpocznij nową przyciskiem +' : 'Nie masz żadnych inwentaryzacji'}
+            </Text>
+          }
+        />
+      )}
+
+      <Modal
+        visible={openModalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setOpenModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Nowa inwentaryzacja</Text>
+              <TouchableOpacity onPress={() => setOpenModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              <Text style={styles.sectionTitle}>Lokalizacja</Text>
+              {locations.map((location) => {
+                const busy = busyLocationIds.has(location.location_id);
+                const selected = locationId === location.location_id;
+                return (
+                  <TouchableOpacity
+                    key={location.location_id}
+                    style={[styles.optionRow, selected && styles.optionRowActive, busy && styles.optionRowDisabled]}
+                    onPress={() => setLocationId(location.location_id)}
+                    disabled={busy}
+                  >
+                    <Ionicons name={LOCATION_ICONS[location.type] as any} size={20} color={selected ? '#fff' : '#888'} />
+                    <Text style={[styles.optionText, selected && styles.optionTextActive]}>{location.name}</Text>
+                    {busy && <Text style={styles.optionNote}>w trakcie</Text>}
+                  </TouchableOpacity>
+                );
+              })}
+
+              {selectedLocation && selectedLocation.type !== 'worker' && (
+                <>
+                  <Text style={styles.sectionTitle}>Kto liczy</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+                    <TouchableOpacity
+                      style={[styles.chip, !counterId && styles.chipActive]}
+                      onPress={() => setCounterId('')}
+                    >
+                      <Text style={[styles.chipText, !counterId && styles.chipTextActive]}>Ja</Text>
+                    </TouchableOpacity>
+                    {workers.map((worker) => (
+                      <TouchableOpacity
+                        key={worker.user_id}
+                        style={[styles.chip, counterId === worker.user_id && styles.chipActive]}
+                        onPress={() => setCounterId(worker.user_id)}
+                      >
+                        <Text style={[styles.chipText, counterId === worker.user_id && styles.chipTextActive]}>
+                          {worker.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </>
+              )}
+
+              {selectedLocation?.type === 'worker' && (
+                <Text style={styles.modalHint}>Stan pracownika liczy sam pracownik - dostanie powiadomienie.</Text>
+              )}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (!selectedLocation || opening) && styles.primaryButtonDisabled]}
+              onPress={handleOpen}
+              disabled={!selectedLocation || opening}
+            >
+              {opening ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Rozpocznij</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  loader: {
+    marginTop: 40,
+  },
+  list: {
+    padding: 16,
+  },
+  hint: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+  },
+  cardOpen: {
+    borderWidth: 1,
+    borderColor: '#3b82f6',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    flex: 1,
+  },
+  cardMeta: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  summaryText: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '85%',
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  modalBody: {
+    flexGrow: 0,
+  },
+  modalHint: {
+    color: '#888',
+    fontSize: 13,
+    marginTop: 12,
+  },
+  sectionTitle: {
+    color: '#888',
+    fontSize: 14,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 6,
+    gap: 10,
+  },
+  optionRowActive: {
+    backgroundColor: '#3b82f6',
+  },
+  optionRowDisabled: {
+    opacity: 0.4,
+  },
+  optionText: {
+    color: '#ccc',
+    fontSize: 15,
+    flex: 1,
+  },
+  optionTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  optionNote: {
+    color: '#f59e0b',
+    fontSize: 12,
+  },
+  chips: {
+    flexGrow: 0,
+  },
+  chip: {
+    backgroundColor: '#0a0a0a',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  chipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginTop: 16,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,316 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuth } from '../src/context/AuthContext';
+import { useSync } from '../src/context/SyncContext';
+import { OutboxItem } from '../src/utils/outbox';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { pl } from 'date-fns/locale';
+
+const kindIcons: Record<string, string> = {
+  installation: 'checkmark-circle',
+  installation_job: 'checkmark-done-circle',
+  mark_damaged: 'alert-circle',
+  return: 'arrow-undo',
+};
+
+export default function Sync() {
+  const { isAuthenticated, isLoading } = useAuth();
+  const { items, pendingCount, conflictCount, isSyncing, lastSyncAt, syncNow, discardItem, retryItem } = useSync();
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/');
+    }
+  }, [isLoading, isAuthenticated]);
+
+  const handleDiscard = (item: OutboxItem) => {
+    const doDiscard = () => discardItem(item.id);
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Usunąć z kolejki: ${item.label}?`)) {
+        doDiscard();
+      }
+    } else {
+      Alert.alert('Usuń z kolejki', `Operacja nie zostanie wysłana:\n${item.label}`, [
+        { text: 'Anuluj', style: 'cancel' },
+        { text: 'Usuń', style: 'destructive', onPress: doDiscard },
+      ]);
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    try {
+      return format(new Date(dateStr), 'd MMM, HH:mm', { locale: pl });
+    } catch {
+      return dateStr;
+    }
+  };
+
+  const renderItem = (item: OutboxItem) => {
+    const isConflict = item.status === 'conflict';
+    return (
+      <View key={item.id} style={[styles.itemCard, isConflict && styles.itemCardConflict]}>
+        <View style={styles.itemHeader}>
+          <Ionicons
+            name={(kindIcons[item.kind] || 'cloud-upload') as any}
+            size={22}
+            color={isConflict ? '#ef4444' : '#f59e0b'}
+          />
+          <Text style={styles.itemLabel}>{item.label}</Text>
+        </View>
+        <Text style={styles.itemDate}>Zapisano: {formatDate(item.created_at)}</Text>
+        {!!item.uploads?.length && (
+          <Text style={styles.itemDate}>Zdjęcia do wysłania: {item.uploads.length}</Text>
+        )}
+        {isConflict && item.error && (
+          <View style={styles.conflictBox}>
+            <Ionicons name="warning" size={16} color="#ef4444" />
+            <Text style={styles.conflictText}>{item.error}</Text>
+          </View>
+        )}
+        {isConflict && (
+          <View style={styles.itemActions}>
+            <TouchableOpacity style={styles.retryButton} onPress={() => retryItem(item.id)}>
+              <Ionicons name="refresh" size={16} color="#fff" />
+              <Text style={styles.actionButtonText}>Ponów</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.discardButton} onPress={() => handleDiscard(item)}>
+              <Ionicons name="trash-outline" size={16} color="#fff" />
+              <Text style={styles.actionButtonText}>Usuń</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Synchronizacja</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={isSyncing} onRefresh={syncNow} tintColor="#3b82f6" />
+        }
+      >
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Ionicons name="cloud-upload-outline" size={28} color="#f59e0b" />
+            <Text style={styles.summaryNumber}>{pendingCount}</Text>
+            <Text style={styles.summaryLabel}>Oczekujące</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Ionicons name="alert-circle-outline" size={28} color="#ef4444" />
+            <Text style={styles.summaryNumber}>{conflictCount}</Text>
+            <Text style={styles.summaryLabel}>Konflikty</Text>
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.syncButton, (isSyncing || pendingCount === 0) && styles.syncButtonDisabled]}
+          onPress={syncNow}
+          disabled={isSyncing || pendingCount === 0}
+        >
+          {isSyncing ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="sync" size={20} color="#fff" />
+              <Text style={styles.syncButtonText}>Wyślij teraz</Text>
+            </>
+          )}
+        </TouchableOpacity>
+        {lastSyncAt && (
+          <Text style={styles.lastSyncText}>
+            Ostatnia synchronizacja: {format(lastSyncAt, 'HH:mm:ss')}
+          </Text>
+        )}
+
+        {items.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="checkmark-done-circle-outline" size={64} color="#10b981" />
+            <Text style={styles.emptyText}>Wszystko zsynchronizowane</Text>
+          </View>
+        ) : (
+          items.map(renderItem)
+        )}
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+  },
+  summaryNumber: {
+    color: '#fff',
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  summaryLabel: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  syncButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    padding: 14,
+    gap: 8,
+  },
+  syncButtonDisabled: {
+    opacity: 0.5,
+  },
+  syncButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  lastSyncText: {
+    color: '#666',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  itemCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: '#f59e0b',
+  },
+  itemCardConflict: {
+    borderLeftColor: '#ef4444',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  itemLabel: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  itemDate: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  conflictBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 8,
+  },
+  conflictText: {
+    flex: 1,
+    color: '#ef4444',
+    fontSize: 13,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  retryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    padding: 10,
+  },
+  discardButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#ef4444',
+    borderRadius: 8,
+    padding: 10,
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 16,
+    marginTop: 12,
+  },
+});
@@ -16,15 +16,32 @@ import {
   KeyboardAvoidingView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import {
+  getTasks,
+  getWorkers,
+  checkTaskReminders,
+  createTask,
+  updateTask,
+  deleteTask,
+  getAttachmentUrl,
+  uploadAttachment,
+  TaskInput,
+} from '../src/utils/apiClient';
+import { Task, TaskStatus, TaskPriority, TaskReminder, Worker } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 import { format, addDays, isBefore, isToday, isTomorrow } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
 import { pl } from 'date-fns/locale';
 import * as ImagePicker from 'expo-image-picker';
 
+// Photo added in the complete modal - uploaded right away, the task keeps only the id
+interface CompletionPhoto {
+  uri: string;
+  attachmentId: string;
+}
+
 const WARSAW_TZ = 'Europe/Warsaw';
 
 // Helper to format date in Warsaw timezone
@@ -34,26 +51,11 @@ const formatInWarsaw = (date: Date | string, formatStr: string) => {
   return format(warsawDate, formatStr, { locale: pl });
 };
 
-interface Task {
-  task_id: string;
-  title: string;
-  description?: string;
-  assigned_to: string;
-  assigned_by: string;
-  due_date: string;
-  status: string;
-  priority: string;
-  completion_photos?: string[];
-}
-
-interface Worker {
-  user_id: string;
-  name: string;
-  email: string;
-}
-
 export default function Tasks() {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { user, sessionToken, isAuthenticated, isLoading } = useAuth();
+  // Set when opened from a task card in the chat - shows only that task
+  const { task: taskParam } = useLocalSearchParams<{ task?: string }>();
+  const [focusedTaskId, setFocusedTaskId] = useState<string | null>(taskParam || null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [workers, setWorkers] = useState<Worker[]>([]);
   const [refreshing, setRefreshing] = useState(false);
@@ -62,16 +64,17 @@ export default function Tasks() {
   const [modalVisible, setModalVisible] = useState(false);
   const [completeModalVisible, setCompleteModalVisible] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [completionPhotos, setCompletionPhotos] = useState<string[]>([]);
+  const [completionPhotos, setCompletionPhotos] = useState<CompletionPhoto[]>([]);
+  const [uploadingPhoto, setUploadingPhoto] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [selectedDate, setSelectedDate] = useState(new Date(addDays(new Date(), 1)));
   const [selectedTime, setSelectedTime] = useState('09:00');
-  const [reminders, setReminders] = useState<any[]>([]);
+  const [reminders, setReminders] = useState<TaskReminder[]>([]);
   const [photosModalVisible, setPhotosModalVisible] = useState(false);
   const [viewingPhotos, setViewingPhotos] = useState<string[]>([]);
   const [viewingTaskTitle, setViewingTaskTitle] = useState('');
-  const [newTask, setNewTask] = useState({
+  const [newTask, setNewTask] = useState<TaskInput>({
     title: '',
     description: '',
     assigned_to: '',
@@ -95,8 +98,8 @@ export default function Tasks() {
   const loadData = async () => {
     try {
       const [tasksData, workersData] = await Promise.all([
-        apiFetch('/api/tasks'),
-        apiFetch('/api/workers'),
+        getTasks(),
+        getWorkers(),
       ]);
       setTasks(tasksData);
       setWorkers(workersData);
@@ -107,7 +110,7 @@ export default function Tasks() {
 
   const checkReminders = async () => {
     try {
-      const data = await apiFetch('/api/tasks/reminders/check');
+      const data = await checkTaskReminders();
       setReminders(data.reminders || []);
       
       // Show alert for new reminders
@@ -153,10 +156,7 @@ export default function Tasks() {
     }
 
     try {
-      await apiFetch('/api/tasks', {
-        method: 'POST',
-        body: newTask,
-      });
+      await createTask(newTask);
       setModalVisible(false);
       setNewTask({
         title: '',
@@ -172,12 +172,9 @@ export default function Tasks() {
     }
   };
 
-  const handleUpdateStatus = async (taskId: string, newStatus: string) => {
+  const handleUpdateStatus = async (taskId: string, newStatus: TaskStatus) => {
     try {
-      await apiFetch(`/api/tasks/${taskId}`, {
-        method: 'PUT',
-        body: { status: newStatus },
-      });
+      await updateTask(taskId, { status: newStatus });
       await loadData();
     } catch (error: any) {
       Alert.alert('Błąd', error.message);
@@ -190,16 +187,35 @@ export default function Tasks() {
     setCompleteModalVisible(true);
   };
 
+  const addPhoto = async (asset: ImagePicker.ImagePickerAsset) => {
+    setUploadingPhoto(true);
+    try {
+      const attachment = await uploadAttachment({
+        uri: asset.uri,
+        name: asset.fileName || 'zdjecie.jpg',
+        type: asset.mimeType || 'image/jpeg',
+      });
+      setCompletionPhotos(prev => [...prev, { uri: asset.uri, attachmentId: attachment.attachment_id }]);
+    } catch (error: any) {
+      if (Platform.OS === 'web') {
+        window.alert('Błąd: ' + error.message);
+      } else {
+        Alert.alert('Błąd', error.message);
+      }
+    } finally {
+      setUploadingPhoto(false);
+    }
+  };
+
   const pickImage = async () => {
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
       allowsEditing: false,
       quality: 0.7,
-      base64: true,
     });
 
-    if (!result.canceled && result.assets[0].base64) {
-      setCompletionPhotos(prev => [...prev, `data:image/jpeg;base64,${result.assets[0].base64}`]);
+    if (!result.canceled && result.assets[0]) {
+      await addPhoto(result.assets[0]);
     }
   };
 
@@ -213,11 +229,10 @@ export default function Tasks() {
     const result = await ImagePicker.launchCameraAsync({
       allowsEditing: false,
       quality: 0.7,
-      base64: true,
     });
 
-    if (!result.canceled && result.assets[0].base64) {
-      setCompletionPhotos(prev => [...prev, `data:image/jpeg;base64,${result.assets[0].base64}`]);
+    if (!result.canceled && result.assets[0]) {
+      await addPhoto(result.assets[0]);
     }
   };
 
@@ -239,12 +254,9 @@ export default function Tasks() {
 
     setIsSubmitting(true);
     try {
-      await apiFetch(`/api/tasks/${selectedTask.task_id}`, {
-        method: 'PUT',
-        body: { 
-          status: 'zakonczone',
-          completion_photos: completionPhotos
-        },
+      await updateTask(selectedTask.task_id, {
+        status: 'zakonczone',
+        completion_attachments: completionPhotos.map((photo) => photo.attachmentId),
       });
       
       setCompleteModalVisible(false);
@@ -272,7 +284,7 @@ export default function Tasks() {
     if (Platform.OS === 'web') {
       if (window.confirm('Czy na pewno chcesz usunąć to zadanie?')) {
         try {
-          await apiFetch(`/api/tasks/${taskId}`, { method: 'DELETE' });
+          await deleteTask(taskId);
           await loadData();
         } catch (error: any) {
           window.alert('Błąd: ' + error.message);
@@ -286,7 +298,7 @@ export default function Tasks() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await apiFetch(`/api/tasks/${taskId}`, { method: 'DELETE' });
+              await deleteTask(taskId);
               await loadData();
             } catch (error: any) {
               Alert.alert('Błąd', error.message);
@@ -297,9 +309,16 @@ export default function Tasks() {
     }
   };
 
+  // Older tasks keep base64 photos inline, newer ones attachment ids
+  const getCompletionPhotoUris = (task: Task) => [
+    ...(task.completion_photos || []),
+    ...(task.completion_attachments || []).map((id) => getAttachmentUrl(id, sessionToken)),
+  ];
+
   const openPhotosModal = (task: Task) => {
-    if (task.completion_photos && task.completion_photos.length > 0) {
-      setViewingPhotos(task.completion_photos);
+    const photos = getCompletionPhotoUris(task);
+    if (photos.length > 0) {
+      setViewingPhotos(photos);
       setViewingTaskTitle(task.title);
       setPhotosModalVisible(true);
     }
@@ -315,6 +334,7 @@ export default function Tasks() {
   };
 
   const filteredTasks = tasks.filter((task) => {
+    if (focusedTaskId) return task.task_id === focusedTaskId;
     const matchesStatus = !statusFilter || task.status === statusFilter;
     const matchesSearch = !searchQuery.trim() || 
       task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -339,7 +359,7 @@ export default function Tasks() {
     { key: 'zakonczone', label: 'Zakończone' },
   ];
 
-  const priorities = ['niskie', 'normalne', 'wysokie', 'pilne'];
+  const priorities: TaskPriority[] = ['niskie', 'normalne', 'wysokie', 'pilne'];
 
   const getDateLabel = (dateString: string) => {
     const date = new Date(dateString);
@@ -448,14 +468,14 @@ export default function Tasks() {
           )}
           
           {/* Photos badge - clickable for admin and worker */}
-          {item.completion_photos && item.completion_photos.length > 0 && (
+          {getCompletionPhotoUris(item).length > 0 && (
             <TouchableOpacity 
               style={styles.photosBadge}
               onPress={() => openPhotosModal(item)}
             >
               <Ionicons name="camera" size={14} color="#10b981" />
               <Text style={styles.photosText}>
-                {item.completion_photos.length} zdjęć (podgląd)
+                {getCompletionPhotoUris(item).length} zdjęć (podgląd)
               </Text>
             </TouchableOpacity>
           )}
@@ -509,6 +529,16 @@ export default function Tasks() {
         {!isAdmin && <View style={{ width: 40 }} />}
       </View>
 
+      {focusedTaskId && (
+        <View style={styles.focusedBanner}>
+          <Ionicons name="chatbubble-ellipses-outline" size={18} color="#3b82f6" />
+          <Text style={styles.focusedBannerText}>Zadanie z czatu</Text>
+          <TouchableOpacity onPress={() => setFocusedTaskId(null)}>
+            <Text style={styles.focusedBannerAction}>Pokaż wszystkie</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Status Filters */}
       <View style={styles.filtersContainer}>
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
@@ -852,11 +882,11 @@ export default function Tasks() {
               </View>
 
               <View style={styles.photoButtons}>
-                <TouchableOpacity style={styles.photoButton} onPress={takePhoto}>
+                <TouchableOpacity style={styles.photoButton} onPress={takePhoto} disabled={uploadingPhoto}>
                   <Ionicons name="camera" size={24} color="#fff" />
                   <Text style={styles.photoButtonText}>Zrób zdjęcie</Text>
                 </TouchableOpacity>
-                <TouchableOpacity style={styles.photoButton} onPress={pickImage}>
+                <TouchableOpacity style={styles.photoButton} onPress={pickImage} disabled={uploadingPhoto}>
                   <Ionicons name="images" size={24} color="#fff" />
                   <Text style={styles.photoButtonText}>Wybierz z galerii</Text>
                 </TouchableOpacity>
@@ -866,7 +896,7 @@ export default function Tasks() {
                 <View style={styles.photosGrid}>
                   {completionPhotos.map((photo, index) => (
                     <View key={index} style={styles.photoContainer}>
-                      <Image source={{ uri: photo }} style={styles.photoPreview} />
+                      <Image source={{ uri: photo.uri }} style={styles.photoPreview} />
                       <TouchableOpacity
                         style={styles.removePhotoButton}
                         onPress={() => removePhoto(index)}
@@ -878,6 +908,8 @@ export default function Tasks() {
                 </View>
               )}
 
+              {uploadingPhoto && <ActivityIndicator size="small" color="#3b82f6" />}
+
               <Text style={styles.photosCount}>
                 Dodano zdjęć: {completionPhotos.length}
               </Text>
@@ -889,7 +921,7 @@ export default function Tasks() {
                 completionPhotos.length === 0 && styles.completeTaskButtonDisabled
               ]}
               onPress={handleCompleteTask}
-              disabled={isSubmitting || completionPhotos.length === 0}
+              disabled={isSubmitting || uploadingPhoto || completionPhotos.length === 0}
             >
               {isSubmitting ? (
                 <ActivityIndicator size="small" color="#fff" />
@@ -967,6 +999,26 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 12,
   },
+  focusedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 10,
+    gap: 8,
+  },
+  focusedBannerText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  focusedBannerAction: {
+    color: '#3b82f6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   filterButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
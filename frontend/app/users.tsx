@@ -17,7 +17,18 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import {
+  getUsers,
+  getUserActivityLogs,
+  createUser,
+  resetUserPassword,
+  deleteUser,
+  updateUserRole,
+  getUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
+} from '../src/utils/apiClient';
+import { User, UserRole, UserSession, ActivityLog } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
@@ -32,35 +43,6 @@ const formatInWarsaw = (dateStr: string, formatStr: string) => {
   return format(warsawDate, formatStr, { locale: pl });
 };
 
-interface User {
-  user_id: string;
-  email: string;
-  name: string;
-  role: string;
-  created_at: string;
-  last_login_at?: string;
-  last_login_ip?: string;
-  last_login_device?: string;
-}
-
-interface ActivityLog {
-  log_id: string;
-  timestamp: string;
-  user_id: string;
-  user_name: string;
-  user_role: string;
-  action_type: string;
-  action_description: string;
-  device_serial?: string;
-  device_name?: string;
-  device_id?: string;
-  task_id?: string;
-  target_user_id?: string;
-  target_user_name?: string;
-  details?: any;
-  ip_address?: string;
-}
-
 export default function Users() {
   const { user, isAuthenticated, isLoading, changePassword } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
@@ -76,12 +58,15 @@ export default function Users() {
   // Activity logs state
   const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
   const [activityLoading, setActivityLoading] = useState(false);
+  const [sessionsModalVisible, setSessionsModalVisible] = useState(false);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
   
   // Form states
   const [newUserName, setNewUserName] = useState('');
   const [newUserEmail, setNewUserEmail] = useState('');
   const [newUserPassword, setNewUserPassword] = useState('');
-  const [newUserRole, setNewUserRole] = useState('pracownik');
+  const [newUserRole, setNewUserRole] = useState<UserRole>('pracownik');
   
   const [newPassword, setNewPassword] = useState('');
   const [currentPassword, setCurrentPassword] = useState('');
@@ -98,7 +83,7 @@ export default function Users() {
 
   const loadUsers = async () => {
     try {
-      const data = await apiFetch('/api/users');
+      const data = await getUsers();
       setUsers(data);
     } catch (error) {
       console.error('Error loading users:', error);
@@ -108,7 +93,7 @@ export default function Users() {
   const loadUserActivityLogs = async (userId: string) => {
     setActivityLoading(true);
     try {
-      const data = await apiFetch(`/api/activity-logs/user/${userId}?limit=100`);
+      const data = await getUserActivityLogs(userId);
       setActivityLogs(data);
     } catch (error) {
       console.error('Error loading activity logs:', error);
@@ -124,6 +109,62 @@ export default function Users() {
     loadUserActivityLogs(selectedUser.user_id);
   };
 
+  const loadUserSessions = async (userId: string) => {
+    setSessionsLoading(true);
+    try {
+      setSessions(await getUserSessions(userId));
+    } catch (error: any) {
+      Alert.alert('Błąd', error.message);
+    } finally {
+      setSessionsLoading(false);
+    }
+  };
+
+  const openSessionsModal = (selectedUser: User) => {
+    setSelectedUser(selectedUser);
+    setSessionsModalVisible(true);
+    loadUserSessions(selectedUser.user_id);
+  };
+
+  const closeSessionsModal = () => {
+    setSessionsModalVisible(false);
+    setSessions([]);
+    setSelectedUser(null);
+  };
+
+  // Without a session id every device of the user is logged out
+  const handleRevokeSessions = (session?: UserSession) => {
+    if (!selectedUser) return;
+    const target = selectedUser;
+    const message = session
+      ? `Wylogować użytkownika "${target.name}" z urządzenia ${parseDeviceName(session.device || '')}?`
+      : `Wylogować użytkownika "${target.name}" ze wszystkich urządzeń?`;
+
+    const doRevoke = async () => {
+      try {
+        if (session?.session_id) {
+          await revokeUserSession(target.user_id, session.session_id);
+        } else {
+          await revokeAllUserSessions(target.user_id);
+        }
+        await loadUserSessions(target.user_id);
+      } catch (error: any) {
+        Alert.alert('Błąd', error.message);
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) {
+        doRevoke();
+      }
+    } else {
+      Alert.alert('Zakończ sesję', message, [
+        { text: 'Anuluj', style: 'cancel' },
+        { text: 'Wyloguj', style: 'destructive', onPress: doRevoke },
+      ]);
+    }
+  };
+
   const getActionTypeIcon = (actionType: string) => {
     switch (actionType) {
       case 'login': return 'log-in-outline';
@@ -132,11 +173,16 @@ export default function Users() {
       case 'device_assign': return 'arrow-forward-circle-outline';
       case 'device_add': return 'add-circle-outline';
       case 'device_import': return 'cloud-download-outline';
+      case 'import_rollback': return 'arrow-undo-outline';
+      case 'stocktake_close': return 'clipboard-outline';
+      case 'stocktake_correction': return 'git-compare-outline';
+      case 'stocktake_write_off': return 'help-circle-outline';
       case 'device_scan': return 'scan-outline';
       case 'device_return': return 'return-down-back-outline';
       case 'device_damage': return 'warning-outline';
       case 'device_restore': return 'refresh-outline';
       case 'device_transfer': return 'swap-horizontal-outline';
+      case 'device_chat_reference': return 'chatbubble-ellipses-outline';
       case 'task_create': return 'create-outline';
       case 'task_complete': return 'checkmark-circle-outline';
       default: return 'ellipse-outline';
@@ -151,11 +197,16 @@ export default function Users() {
       case 'device_assign': return '#f59e0b';
       case 'device_add': return '#10b981';
       case 'device_import': return '#10b981';
+      case 'import_rollback': return '#ef4444';
+      case 'stocktake_close': return '#06b6d4';
+      case 'stocktake_correction': return '#f59e0b';
+      case 'stocktake_write_off': return '#ef4444';
       case 'device_scan': return '#8b5cf6';
       case 'device_return': return '#ef4444';
       case 'device_damage': return '#ef4444';
       case 'device_restore': return '#3b82f6';
       case 'device_transfer': return '#8b5cf6';
+      case 'device_chat_reference': return '#10b981';
       case 'task_create': return '#ec4899';
       case 'task_complete': return '#10b981';
       default: return '#888';
@@ -186,14 +237,11 @@ export default function Users() {
     }
     
     try {
-      await apiFetch('/api/users', {
-        method: 'POST',
-        body: {
-          name: newUserName.trim(),
-          email: newUserEmail.trim(),
-          password: newUserPassword,
-          role: newUserRole,
-        },
+      await createUser({
+        name: newUserName.trim(),
+        email: newUserEmail.trim(),
+        password: newUserPassword,
+        role: newUserRole,
       });
       
       Alert.alert('Sukces', 'Użytkownik został utworzony');
@@ -217,10 +265,7 @@ export default function Users() {
     }
     
     try {
-      await apiFetch(`/api/users/${selectedUser.user_id}/password`, {
-        method: 'PUT',
-        body: { new_password: newPassword },
-      });
+      await resetUserPassword(selectedUser.user_id, newPassword);
       
       Alert.alert('Sukces', `Hasło użytkownika ${selectedUser.name} zostało zresetowane`);
       setPasswordModalVisible(false);
@@ -271,7 +316,7 @@ export default function Users() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await apiFetch(`/api/users/${userId}`, { method: 'DELETE' });
+              await deleteUser(userId);
               Alert.alert('Sukces', 'Użytkownik został usunięty');
               loadUsers();
             } catch (error: any) {
@@ -289,7 +334,7 @@ export default function Users() {
       return;
     }
 
-    const newRole = currentRole === 'admin' ? 'pracownik' : 'admin';
+    const newRole: UserRole = currentRole === 'admin' ? 'pracownik' : 'admin';
     
     Alert.alert(
       'Zmień rolę',
@@ -300,10 +345,7 @@ export default function Users() {
           text: 'Zmień',
           onPress: async () => {
             try {
-              await apiFetch(`/api/users/${userId}/role`, {
-                method: 'PUT',
-                body: { role: newRole },
-              });
+              await updateUserRole(userId, newRole);
               loadUsers();
             } catch (error: any) {
               Alert.alert('Błąd', error.message);
@@ -424,6 +466,14 @@ export default function Users() {
               <Text style={[styles.actionButtonText, { color: '#8b5cf6' }]}>Historia</Text>
             </TouchableOpacity>
             
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => openSessionsModal(item)}
+            >
+              <Ionicons name="phone-portrait-outline" size={18} color="#f59e0b" />
+              <Text style={[styles.actionButtonText, { color: '#f59e0b' }]}>Sesje</Text>
+            </TouchableOpacity>
+            
             <TouchableOpacity
               style={styles.actionButton}
               onPress={() => {
@@ -806,6 +856,88 @@ export default function Users() {
           </View>
         </View>
       </Modal>
+
+      {/* Active Sessions Modal */}
+      <Modal
+        visible={sessionsModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={closeSessionsModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { maxHeight: '85%' }]}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Aktywne sesje</Text>
+              <TouchableOpacity onPress={closeSessionsModal}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            {selectedUser && (
+              <View style={styles.activityUserInfo}>
+                <Ionicons name="person-circle" size={32} color="#f59e0b" />
+                <Text style={styles.activityUserName}>{selectedUser.name}</Text>
+              </View>
+            )}
+
+            {sessionsLoading ? (
+              <View style={styles.activityLoading}>
+                <ActivityIndicator size="small" color="#3b82f6" />
+              </View>
+            ) : sessions.length === 0 ? (
+              <View style={styles.activityEmpty}>
+                <Ionicons name="log-out-outline" size={48} color="#666" />
+                <Text style={styles.emptyText}>Brak aktywnych sesji</Text>
+              </View>
+            ) : (
+              <ScrollView style={styles.modalBody}>
+                {sessions.map((session, index) => (
+                  <View key={session.session_id || index} style={styles.sessionItem}>
+                    <View style={styles.sessionInfo}>
+                      <View style={styles.loginInfoItem}>
+                        <Ionicons name="phone-portrait-outline" size={16} color="#f59e0b" />
+                        <Text style={styles.loginInfoText}>{parseDeviceName(session.device || '')}</Text>
+                      </View>
+                      {session.ip_address && (
+                        <View style={styles.loginInfoItem}>
+                          <Ionicons name="globe-outline" size={16} color="#10b981" />
+                          <Text style={styles.loginInfoText}>{session.ip_address}</Text>
+                        </View>
+                      )}
+                      {session.created_at && (
+                        <Text style={styles.sessionMeta}>
+                          Zalogowano: {formatInWarsaw(session.created_at, 'd MMM yyyy, HH:mm')}
+                        </Text>
+                      )}
+                      {session.last_activity_at && (
+                        <Text style={styles.sessionMeta}>
+                          Ostatnio aktywny: {formatInWarsaw(session.last_activity_at, 'd MMM yyyy, HH:mm')}
+                        </Text>
+                      )}
+                    </View>
+                    {session.session_id && (
+                      <TouchableOpacity
+                        style={[styles.actionButton, styles.deleteButton, styles.sessionRevokeButton]}
+                        onPress={() => handleRevokeSessions(session)}
+                      >
+                        <Ionicons name="log-out-outline" size={18} color="#ef4444" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.deleteButton, styles.revokeAllButton]}
+                  onPress={() => handleRevokeSessions()}
+                >
+                  <Ionicons name="log-out-outline" size={18} color="#ef4444" />
+                  <Text style={[styles.actionButtonText, styles.deleteButtonText]}>Wyloguj ze wszystkich urządzeń</Text>
+                </TouchableOpacity>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -973,6 +1105,32 @@ const styles = StyleSheet.create({
   deleteButtonText: {
     color: '#ef4444',
   },
+  sessionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+    gap: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  sessionMeta: {
+    color: '#888',
+    fontSize: 12,
+  },
+  sessionRevokeButton: {
+    flex: 0,
+    paddingHorizontal: 12,
+  },
+  revokeAllButton: {
+    flex: 0,
+    marginTop: 6,
+    marginBottom: 20,
+  },
   emptyContainer: {
     alignItems: 'center',
     paddingVertical: 60,
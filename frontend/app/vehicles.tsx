@@ -16,39 +16,26 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuth } from '../src/context/AuthContext';
-import { apiFetch } from '../src/utils/api';
+import {
+  getVehicles,
+  getEquipment,
+  getEquipmentTypes,
+  getWorkers,
+  getWorkerAssets,
+  createVehicle,
+  updateVehicle,
+  deleteVehicle,
+  createEquipment,
+  updateEquipment,
+  deleteEquipment,
+  createEquipmentType,
+  deleteEquipmentType,
+  assignVehicle,
+  assignEquipment,
+} from '../src/utils/apiClient';
+import { Vehicle, Equipment, EquipmentType, Worker } from '../src/types/models';
 import { Ionicons } from '@expo/vector-icons';
 
-interface Vehicle {
-  vehicle_id: string;
-  plate_number: string;
-  brand: string;
-  model: string;
-  year: string;
-  assigned_to: string | null;
-  assigned_to_name: string | null;
-}
-
-interface Equipment {
-  equipment_id: string;
-  name: string;
-  type: string;
-  serial_number: string;
-  description: string;
-  assigned_to: string | null;
-  assigned_to_name: string | null;
-}
-
-interface EquipmentType {
-  type_id: string;
-  name: string;
-}
-
-interface Worker {
-  user_id: string;
-  name: string;
-}
-
 export default function Vehicles() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
@@ -113,18 +100,18 @@ export default function Vehicles() {
       
       if (isAdmin) {
         const [vehiclesData, equipmentData, typesData, workersData] = await Promise.all([
-          apiFetch('/api/vehicles'),
-          apiFetch('/api/equipment'),
-          apiFetch('/api/equipment/types'),
-          apiFetch('/api/workers'),
+          getVehicles(),
+          getEquipment(),
+          getEquipmentTypes(),
+          getWorkers(),
         ]);
         setVehicles(vehiclesData);
         setEquipment(equipmentData);
         setEquipmentTypes(typesData);
         setWorkers(workersData);
-      } else {
+      } else if (user) {
         // Employee - load only their assets
-        const assets = await apiFetch(`/api/workers/${user?.user_id}/assets`);
+        const assets = await getWorkerAssets(user.user_id);
         setMyVehicles(assets.vehicles || []);
         setMyEquipment(assets.equipment || []);
       }
@@ -166,16 +153,10 @@ export default function Vehicles() {
 
     try {
       if (editingVehicle) {
-        await apiFetch(`/api/vehicles/${editingVehicle.vehicle_id}`, {
-          method: 'PUT',
-          body: vehicleForm,
-        });
+        await updateVehicle(editingVehicle.vehicle_id, vehicleForm);
         Alert.alert('Sukces', 'Pojazd zaktualizowany');
       } else {
-        await apiFetch('/api/vehicles', {
-          method: 'POST',
-          body: vehicleForm,
-        });
+        await createVehicle(vehicleForm);
         Alert.alert('Sukces', 'Pojazd dodany');
       }
       setVehicleModalVisible(false);
@@ -185,7 +166,7 @@ export default function Vehicles() {
     }
   };
 
-  const deleteVehicle = (vehicle: Vehicle) => {
+  const handleDeleteVehicle = (vehicle: Vehicle) => {
     Alert.alert(
       'Usuń pojazd',
       `Czy na pewno chcesz usunąć pojazd ${vehicle.plate_number}?`,
@@ -196,7 +177,7 @@ export default function Vehicles() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await apiFetch(`/api/vehicles/${vehicle.vehicle_id}`, { method: 'DELETE' });
+              await deleteVehicle(vehicle.vehicle_id);
               loadData();
             } catch (error: any) {
               Alert.alert('Błąd', error.message);
@@ -232,16 +213,10 @@ export default function Vehicles() {
 
     try {
       if (editingEquipment) {
-        await apiFetch(`/api/equipment/${editingEquipment.equipment_id}`, {
-          method: 'PUT',
-          body: equipmentForm,
-        });
+        await updateEquipment(editingEquipment.equipment_id, equipmentForm);
         Alert.alert('Sukces', 'Wyposażenie zaktualizowane');
       } else {
-        await apiFetch('/api/equipment', {
-          method: 'POST',
-          body: equipmentForm,
-        });
+        await createEquipment(equipmentForm);
         Alert.alert('Sukces', 'Wyposażenie dodane');
       }
       setEquipmentModalVisible(false);
@@ -251,7 +226,7 @@ export default function Vehicles() {
     }
   };
 
-  const deleteEquipment = (eq: Equipment) => {
+  const handleDeleteEquipment = (eq: Equipment) => {
     Alert.alert(
       'Usuń wyposażenie',
       `Czy na pewno chcesz usunąć "${eq.name}"?`,
@@ -262,7 +237,7 @@ export default function Vehicles() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await apiFetch(`/api/equipment/${eq.equipment_id}`, { method: 'DELETE' });
+              await deleteEquipment(eq.equipment_id);
               loadData();
             } catch (error: any) {
               Alert.alert('Błąd', error.message);
@@ -278,22 +253,19 @@ export default function Vehicles() {
     if (!newTypeName.trim()) return;
 
     try {
-      await apiFetch('/api/equipment/types', {
-        method: 'POST',
-        body: { name: newTypeName.trim() },
-      });
+      await createEquipmentType(newTypeName.trim());
       setNewTypeName('');
-      const types = await apiFetch('/api/equipment/types');
+      const types = await getEquipmentTypes();
       setEquipmentTypes(types);
     } catch (error: any) {
       Alert.alert('Błąd', error.message);
     }
   };
 
-  const deleteEquipmentType = async (typeId: string) => {
+  const handleDeleteEquipmentType = async (typeId: string) => {
     try {
-      await apiFetch(`/api/equipment/types/${typeId}`, { method: 'DELETE' });
-      const types = await apiFetch('/api/equipment/types');
+      await deleteEquipmentType(typeId);
+      const types = await getEquipmentTypes();
       setEquipmentTypes(types);
     } catch (error: any) {
       Alert.alert('Błąd', error.message);
@@ -310,14 +282,11 @@ export default function Vehicles() {
     if (!assignTarget) return;
 
     try {
-      const endpoint = assignTarget.type === 'vehicle' 
-        ? `/api/vehicles/${assignTarget.id}/assign`
-        : `/api/equipment/${assignTarget.id}/assign`;
-      
-      await apiFetch(endpoint, {
-        method: 'POST',
-        body: { worker_id: workerId },
-      });
+      if (assignTarget.type === 'vehicle') {
+        await assignVehicle(assignTarget.id, workerId);
+      } else {
+        await assignEquipment(assignTarget.id, workerId);
+      }
       
       setAssignModalVisible(false);
       loadData();
@@ -505,7 +474,7 @@ export default function Vehicles() {
                     </TouchableOpacity>
                     <TouchableOpacity 
                       style={styles.cardAction}
-                      onPress={() => deleteVehicle(vehicle)}
+                      onPress={() => handleDeleteVehicle(vehicle)}
                     >
                       <Ionicons name="trash" size={18} color="#ef4444" />
                       <Text style={[styles.cardActionText, { color: '#ef4444' }]}>Usuń</Text>
@@ -575,7 +544,7 @@ export default function Vehicles() {
                     </TouchableOpacity>
                     <TouchableOpacity 
                       style={styles.cardAction}
-                      onPress={() => deleteEquipment(eq)}
+                      onPress={() => handleDeleteEquipment(eq)}
                     >
                       <Ionicons name="trash" size={18} color="#ef4444" />
                       <Text style={[styles.cardActionText, { color: '#ef4444' }]}>Usuń</Text>
@@ -761,7 +730,7 @@ export default function Vehicles() {
                 {equipmentTypes.map(type => (
                   <View key={type.type_id} style={styles.typeRow}>
                     <Text style={styles.typeName}>{type.name}</Text>
-                    <TouchableOpacity onPress={() => deleteEquipmentType(type.type_id)}>
+                    <TouchableOpacity onPress={() => handleDeleteEquipmentType(type.type_id)}>
                       <Ionicons name="trash-outline" size={20} color="#ef4444" />
                     </TouchableOpacity>
                   </View>
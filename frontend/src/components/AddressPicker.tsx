@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getAddresses } from '../utils/apiClient';
+import { pickAddressInput } from '../utils/addresses';
+import { CustomerAddress, CustomerAddressInput } from '../types/models';
+
+const SUGGESTION_LIMIT = 5;
+const SEARCH_DELAY = 300;
+
+interface AddressPickerProps {
+  value: CustomerAddressInput;
+  // Registry entry the value was picked from, null while typed by hand
+  addressId: string | null;
+  onChange: (value: CustomerAddressInput, addressId: string | null) => void;
+  // Off when editing an entry that is already in the registry
+  suggest?: boolean;
+  onFocus?: () => void;
+}
+
+// Address in parts with suggestions from the registry, so the same customer
+// is not entered again under another spelling
+export default function AddressPicker({ value, addressId, onChange, suggest = true, onFocus }: AddressPickerProps) {
+  const [suggestions, setSuggestions] = useState<CustomerAddress[]>([]);
+
+  const searchText = [value.street, value.number, value.city, value.customer_name]
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(' ');
+
+  useEffect(() => {
+    if (!suggest || addressId || searchText.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+    let active = true;
+    const timer = setTimeout(() => {
+      // Offline there are simply no suggestions
+      getAddresses(searchText, SUGGESTION_LIMIT)
+        .then((found) => {
+          if (active) setSuggestions(found);
+        })
+        .catch(() => undefined);
+    }, SEARCH_DELAY);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [suggest, addressId, searchText]);
+
+  // Any edit detaches the value from the picked entry - the server matches it again by its parts
+  const setField = (field: keyof CustomerAddressInput) => (text: string) => {
+    onChange({ ...value, [field]: text }, null);
+  };
+
+  const renderInput = (
+    field: keyof CustomerAddressInput,
+    placeholder: string,
+    style?: object,
+    options: Partial<React.ComponentProps<typeof TextInput>> = {}
+  ) => (
+    <TextInput
+      style={[styles.input, style]}
+      placeholder={placeholder}
+      placeholderTextColor="#666"
+      value={value[field]}
+      onChangeText={setField(field)}
+      onFocus={onFocus}
+      {...options}
+    />
+  );
+
+  return (
+    <View>
+      {!!addressId && (
+        <View style={styles.pickedBadge}>
+          <Ionicons name="checkmark-circle" size={16} color="#10b981" />
+          <Text style={styles.pickedText}>Adres z rejestru klientów</Text>
+        </View>
+      )}
+
+      <View style={styles.row}>
+        {renderInput('street', 'Ulica', styles.flex)}
+        {renderInput('number', 'Nr *', styles.short, { autoCapitalize: 'characters' })}
+        {renderInput('apartment', 'Lokal', styles.short, { autoCapitalize: 'characters' })}
+      </View>
+      <View style={styles.row}>
+        {renderInput('postal_code', '00-000', styles.postal, { keyboardType: 'numbers-and-punctuation' })}
+        {renderInput('city', 'Miejscowość *', styles.flex)}
+      </View>
+      <View style={styles.row}>
+        {renderInput('customer_name', 'Klient', styles.flex)}
+        {renderInput('phone', 'Telefon', styles.flex, { keyboardType: 'phone-pad' })}
+      </View>
+
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {suggestions.map((address) => (
+            <TouchableOpacity
+              key={address.address_id}
+              style={styles.suggestion}
+              onPress={() => onChange(pickAddressInput(address), address.address_id)}
+            >
+              <Ionicons name="time-outline" size={16} color="#3b82f6" />
+              <View style={styles.flex}>
+                <Text style={styles.suggestionLabel}>{address.label}</Text>
+                {!!address.customer_name && (
+                  <Text style={styles.suggestionMeta}>{address.customer_name}</Text>
+                )}
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  short: {
+    width: 70,
+  },
+  postal: {
+    width: 100,
+  },
+  input: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  pickedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  pickedText: {
+    color: '#10b981',
+    fontSize: 13,
+  },
+  suggestions: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    overflow: 'hidden',
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  suggestionLabel: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  suggestionMeta: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,102 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { SignatureDrawing } from '../types/models';
+
+type Point = [number, number];
+
+interface SignaturePadProps {
+  value: SignatureDrawing | null;
+  // Called when a stroke is finished, not on every move
+  onChange: (value: SignatureDrawing) => void;
+  height?: number;
+}
+
+// A single tap still leaves a dot thanks to the round line cap
+const toPath = (stroke: Point[]) =>
+  stroke.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`).join(' ') +
+  (stroke.length === 1 ? ' l0.1 0' : '');
+
+// Customer signs with a finger - the strokes are sent as they are and rendered to an image by the server
+export default function SignaturePad({ value, onChange, height = 220 }: SignaturePadProps) {
+  const [width, setWidth] = useState(0);
+  const [current, setCurrent] = useState<Point[]>([]);
+  const currentRef = useRef<Point[]>([]);
+
+  const panResponder = useMemo(() => {
+    const addPoint = (x: number, y: number) => {
+      currentRef.current = [...currentRef.current, [x, y]];
+      setCurrent(currentRef.current);
+    };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the stroke when the finger drifts, instead of handing the gesture to a scroll view
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        currentRef.current = [];
+        addPoint(event.nativeEvent.locationX, event.nativeEvent.locationY);
+      },
+      onPanResponderMove: (event) => addPoint(event.nativeEvent.locationX, event.nativeEvent.locationY),
+      onPanResponderRelease: () => {
+        const stroke = currentRef.current;
+        currentRef.current = [];
+        setCurrent([]);
+        if (stroke.length === 0 || width === 0) return;
+        onChange({ width, height, strokes: [...(value?.strokes || []), stroke] });
+      },
+    });
+  }, [value, onChange, width, height]);
+
+  const strokes = [...(value?.strokes || []), ...(current.length > 0 ? [current] : [])];
+
+  return (
+    <View
+      style={[styles.pad, { height }]}
+      onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+      {...panResponder.panHandlers}
+    >
+      {strokes.length === 0 && (
+        <Text style={styles.placeholder} pointerEvents="none">Podpis klienta</Text>
+      )}
+      <Svg width="100%" height="100%" pointerEvents="none">
+        {strokes.map((stroke, index) => (
+          <Path
+            key={index}
+            d={toPath(stroke)}
+            stroke="#111"
+            strokeWidth={3}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            fill="none"
+          />
+        ))}
+      </Svg>
+      <View style={styles.baseline} pointerEvents="none" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pad: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  placeholder: {
+    position: 'absolute',
+    alignSelf: 'center',
+    top: '40%',
+    color: '#bbb',
+    fontSize: 16,
+  },
+  baseline: {
+    position: 'absolute',
+    left: 24,
+    right: 24,
+    bottom: 40,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+});
@@ -1,21 +1,24 @@
 import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Alert, AppState } from 'react-native';
+import { Alert, AppState, View } from 'react-native';
+import { User } from '../types/models';
+import { registerForPushNotifications, unregisterFromPushNotifications } from '../utils/pushNotifications';
+import { ApiError, clearSessionTokens, getAccessToken, isNetworkError, setSessionHandlers, storeSessionTokens } from '../utils/api';
+import { getMe } from '../utils/apiClient';
 
 const API_URL = process.env.EXPO_PUBLIC_BACKEND_URL || '';
 
-// Session timeout for workers (30 minutes in milliseconds)
+// Session timeout for workers (30 minutes of inactivity in milliseconds).
+// The server enforces the same limit, this only logs out without waiting for a 401.
 const WORKER_SESSION_TIMEOUT = 30 * 60 * 1000;
 
-interface User {
-  user_id: string;
-  email: string;
-  name: string;
-  role: string;
-}
+// Persist the last activity at most this often (touches come in bursts)
+const ACTIVITY_SAVE_INTERVAL = 30 * 1000;
 
 interface AuthContextType {
   user: User | null;
+  // Needed where headers cannot be sent, e.g. <Image> loading an attachment URL
+  sessionToken: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
@@ -28,9 +31,14 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const sessionTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const loginTimeRef = useRef<number | null>(null);
+  const userRef = useRef<User | null>(null);
+  const lastActivityRef = useRef<number>(Date.now());
+  const lastActivitySavedRef = useRef<number>(0);
+
+  userRef.current = user;
 
   // Clear any existing session timeout
   const clearSessionTimeout = () => {
@@ -40,50 +48,54 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Setup session timeout for workers
-  const setupSessionTimeout = async (userData: User) => {
+  const expireSession = async (message: string) => {
+    Alert.alert('Sesja wygasła', message, [{ text: 'OK' }]);
+    await performLogout();
+  };
+
+  // Setup session timeout for workers, counted from the last activity
+  const setupSessionTimeout = (userData: User) => {
     clearSessionTimeout();
-    
+
     // Only apply timeout for workers (pracownik), not admins
     if (userData.role !== 'admin') {
-      const storedLoginTime = await AsyncStorage.getItem('login_time');
-      const loginTime = storedLoginTime ? parseInt(storedLoginTime, 10) : Date.now();
-      loginTimeRef.current = loginTime;
-      
-      const elapsed = Date.now() - loginTime;
-      const remaining = WORKER_SESSION_TIMEOUT - elapsed;
-      
+      const remaining = WORKER_SESSION_TIMEOUT - (Date.now() - lastActivityRef.current);
+
       if (remaining <= 0) {
         // Session already expired
-        Alert.alert(
-          'Sesja wygasła',
-          'Twoja sesja wygasła. Zaloguj się ponownie.',
-          [{ text: 'OK' }]
-        );
-        await performLogout();
+        expireSession('Twoja sesja wygasła. Zaloguj się ponownie.');
       } else {
-        // Set timeout for remaining time
-        sessionTimeoutRef.current = setTimeout(async () => {
-          Alert.alert(
-            'Sesja wygasła',
-            'Twoja sesja wygasła po 30 minutach nieaktywności. Zaloguj się ponownie.',
-            [{ text: 'OK' }]
-          );
-          await performLogout();
+        sessionTimeoutRef.current = setTimeout(() => {
+          expireSession('Twoja sesja wygasła po 30 minutach nieaktywności. Zaloguj się ponownie.');
         }, remaining);
-        
-        console.log(`Session will expire in ${Math.round(remaining / 60000)} minutes`);
       }
     }
   };
 
+  // Any touch in the app pushes the worker timeout forward
+  const registerActivity = () => {
+    const now = Date.now();
+    lastActivityRef.current = now;
+    if (!userRef.current) return;
+
+    setupSessionTimeout(userRef.current);
+    if (now - lastActivitySavedRef.current > ACTIVITY_SAVE_INTERVAL) {
+      lastActivitySavedRef.current = now;
+      AsyncStorage.setItem('last_activity', now.toString());
+    }
+  };
+
   // Perform logout without API call (for session expiry)
   const performLogout = async () => {
     clearSessionTimeout();
-    await AsyncStorage.removeItem('session_token');
-    await AsyncStorage.removeItem('login_time');
-    loginTimeRef.current = null;
+    // Drop the user first - on a revoked session the unregister call gets a 401
+    // and onExpired must not expire it a second time
+    userRef.current = null;
     setUser(null);
+    await unregisterFromPushNotifications();
+    await clearSessionTokens();
+    await AsyncStorage.removeItem('last_activity');
+    setSessionToken(null);
   };
 
   const checkAuth = async () => {
@@ -94,51 +106,58 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         return;
       }
 
-      const response = await fetch(`${API_URL}/api/auth/me`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const storedActivity = await AsyncStorage.getItem('last_activity');
+      lastActivityRef.current = storedActivity ? parseInt(storedActivity, 10) : Date.now();
 
-      if (response.ok) {
-        const userData = await response.json();
-        setUser(userData);
-        await setupSessionTimeout(userData);
-      } else {
-        await AsyncStorage.removeItem('session_token');
-        await AsyncStorage.removeItem('login_time');
+      // Goes through apiFetch, so an expired access token is refreshed first
+      const userData = await getMe();
+      await AsyncStorage.setItem('cached_user', JSON.stringify(userData));
+      setSessionToken(await AsyncStorage.getItem('session_token'));
+      setUser(userData);
+      setupSessionTimeout(userData);
+      registerForPushNotifications();
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        await clearSessionTokens();
         setUser(null);
+        return;
+      }
+      if (!isNetworkError(error)) {
+        console.error('Auth check failed:', error);
+      }
+      // Without signal (or with the server down) the session is still valid -
+      // keep working with the user from the last successful check
+      const cachedUser = await AsyncStorage.getItem('cached_user');
+      if (cachedUser) {
+        const userData: User = JSON.parse(cachedUser);
+        setSessionToken(await AsyncStorage.getItem('session_token'));
+        setUser(userData);
+        setupSessionTimeout(userData);
       }
-    } catch (error) {
-      console.error('Auth check failed:', error);
-      setUser(null);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // apiFetch reports refreshed tokens and sessions the server no longer accepts
+  useEffect(() => {
+    setSessionHandlers({
+      onRefreshed: setSessionToken,
+      onExpired: () => {
+        if (userRef.current) {
+          expireSession('Twoja sesja wygasła lub została zakończona. Zaloguj się ponownie.');
+        }
+      },
+    });
+    return () => setSessionHandlers({});
+  }, []);
+
   // Handle app state changes (background/foreground)
   useEffect(() => {
-    const subscription = AppState.addEventListener('change', async (nextAppState) => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
       if (nextAppState === 'active' && user && user.role !== 'admin') {
-        // Check if session has expired while app was in background
-        const storedLoginTime = await AsyncStorage.getItem('login_time');
-        if (storedLoginTime) {
-          const loginTime = parseInt(storedLoginTime, 10);
-          const elapsed = Date.now() - loginTime;
-          
-          if (elapsed >= WORKER_SESSION_TIMEOUT) {
-            Alert.alert(
-              'Sesja wygasła',
-              'Twoja sesja wygasła. Zaloguj się ponownie.',
-              [{ text: 'OK' }]
-            );
-            await performLogout();
-          } else {
-            // Reset timeout for remaining time
-            await setupSessionTimeout(user);
-          }
-        }
+        // Timers do not run in the background - recheck the inactivity now
+        setupSessionTimeout(user);
       }
     });
 
@@ -149,7 +168,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     checkAuth();
-    
+
     return () => {
       clearSessionTimeout();
     };
@@ -169,20 +188,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const data = await response.json();
 
       if (response.ok) {
-        const loginTime = Date.now();
-        await AsyncStorage.setItem('session_token', data.session_token);
-        await AsyncStorage.setItem('login_time', loginTime.toString());
-        
+        await storeSessionTokens(data);
+        lastActivityRef.current = Date.now();
+        lastActivitySavedRef.current = lastActivityRef.current;
+        await AsyncStorage.setItem('last_activity', lastActivityRef.current.toString());
+
         const userData = {
           user_id: data.user_id,
           email: data.email,
           name: data.name,
           role: data.role,
         };
-        
+
+        await AsyncStorage.setItem('cached_user', JSON.stringify(userData));
+        setSessionToken(data.session_token);
         setUser(userData);
-        await setupSessionTimeout(userData);
-        
+        setupSessionTimeout(userData);
+        registerForPushNotifications();
+
         return { success: true };
       } else {
         return { success: false, error: data.detail || 'Błąd logowania' };
@@ -198,6 +221,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const logout = async () => {
     try {
       clearSessionTimeout();
+      await unregisterFromPushNotifications();
       const token = await AsyncStorage.getItem('session_token');
       if (token) {
         await fetch(`${API_URL}/api/auth/logout`, {
@@ -210,9 +234,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } catch (error) {
       console.error('Logout failed:', error);
     } finally {
-      await AsyncStorage.removeItem('session_token');
-      await AsyncStorage.removeItem('login_time');
-      loginTimeRef.current = null;
+      await clearSessionTokens();
+      await AsyncStorage.removeItem('last_activity');
+      setSessionToken(null);
       setUser(null);
     }
   };
@@ -223,7 +247,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const changePassword = async (currentPassword: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
     try {
-      const token = await AsyncStorage.getItem('session_token');
+      const token = await getAccessToken();
       const response = await fetch(`${API_URL}/api/auth/change-password`, {
         method: 'POST',
         headers: {
@@ -249,6 +273,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   return (
     <AuthContext.Provider value={{
       user,
+      sessionToken,
       isLoading,
       isAuthenticated: !!user,
       login,
@@ -256,7 +281,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       refreshUser,
       changePassword,
     }}>
-      {children}
+      {/* Capture phase sees every touch without taking it away from the screens */}
+      <View
+        style={{ flex: 1 }}
+        onStartShouldSetResponderCapture={() => {
+          registerActivity();
+          return false;
+        }}
+      >
+        {children}
+      </View>
     </AuthContext.Provider>
   );
 }
@@ -1,25 +1,28 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useRouter, usePathname } from 'expo-router';
+import { useRouter, usePathname, useGlobalSearchParams, Href } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import * as Notifications from 'expo-notifications';
 import { useAuth } from './AuthContext';
-import { apiFetch } from '../utils/api';
-
-interface ChatMessage {
-  message_id: string;
-  sender_id: string;
-  sender_name: string;
-  content?: string;
-  created_at: string;
+import { useRealtimeEvent, usePollingFallback } from './RealtimeContext';
+import { getMessages, getUnreadMessagesCount, markMessagesRead } from '../utils/apiClient';
+import { RequestOptions } from '../utils/api';
+import { GENERAL_CHANNEL_ID, Message, PushNotificationData } from '../types/models';
+
+interface ChatNotificationData {
+  sender: string;
+  preview: string;
+  channelId: string;
 }
 
 interface NotificationContextType {
   unreadChatCount: number;
+  unreadByChannel: Record<string, number>;
   showChatNotification: boolean;
-  chatNotificationData: { sender: string; preview: string } | null;
+  chatNotificationData: ChatNotificationData | null;
   dismissChatNotification: () => void;
-  markChatAsRead: () => void;
+  markChatAsRead: (channelId: string, messageId?: string, options?: RequestOptions) => void;
+  refreshUnreadCount: () => Promise<number>;
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
@@ -35,131 +38,160 @@ export function useNotifications() {
 export function NotificationProvider({ children }: { children: React.ReactNode }) {
   const { user, isAuthenticated } = useAuth();
   const pathname = usePathname();
+  const { channel } = useGlobalSearchParams<{ channel?: string }>();
   const router = useRouter();
   
-  const [unreadChatCount, setUnreadChatCount] = useState(0);
+  const [unreadByChannel, setUnreadByChannel] = useState<Record<string, number>>({});
   const [showChatNotification, setShowChatNotification] = useState(false);
-  const [chatNotificationData, setChatNotificationData] = useState<{ sender: string; preview: string } | null>(null);
+  const [chatNotificationData, setChatNotificationData] = useState<ChatNotificationData | null>(null);
   const [lastShownMessageId, setLastShownMessageId] = useState<string | null>(null);
+  const lastPushResponse = Notifications.useLastNotificationResponse();
+  const handledPushIdRef = useRef<string | null>(null);
 
-  const isOnChatScreen = pathname === '/chat';
+  // Conversation currently open in the chat screen, if any
+  const activeChannelId = pathname === '/chat' ? (channel || GENERAL_CHANNEL_ID) : null;
+  const unreadChatCount = Object.values(unreadByChannel).reduce((sum, count) => sum + count, 0);
 
   const dismissChatNotification = useCallback(() => {
     setShowChatNotification(false);
     setChatNotificationData(null);
   }, []);
 
-  const markChatAsRead = useCallback(async () => {
+  // Read state lives on the server so the badge is the same on every device
+  const markChatAsRead = useCallback(async (channelId: string, messageId?: string, options: RequestOptions = {}) => {
     if (!user) return;
-    const lastCheckKey = `lastChatCheck_${user.user_id}`;
-    await AsyncStorage.setItem(lastCheckKey, new Date().toISOString());
-    setUnreadChatCount(0);
+    setUnreadByChannel((prev) => ({ ...prev, [channelId]: 0 }));
     setShowChatNotification(false);
     setChatNotificationData(null);
+    try {
+      await markMessagesRead(channelId, messageId, options);
+    } catch (error) {
+      console.error('Error marking chat as read:', error);
+    }
   }, [user]);
 
-  const checkForNewMessages = useCallback(async () => {
+  const showBannerFor = useCallback((message: Message) => {
+    setLastShownMessageId(message.message_id);
+    setChatNotificationData({
+      sender: message.sender_name,
+      preview: message.content?.substring(0, 50) || '[załącznik]',
+      channelId: message.channel_id || GENERAL_CHANNEL_ID,
+    });
+    setShowChatNotification(true);
+    
+    // Auto-hide after 8 seconds
+    setTimeout(() => {
+      setShowChatNotification(false);
+    }, 8000);
+  }, []);
+
+  const refreshUnreadCount = useCallback(async () => {
+    const { count, by_channel } = await getUnreadMessagesCount();
+    setUnreadByChannel(by_channel);
+    return count;
+  }, []);
+
+  const checkForNewMessages = useCallback(async (options: RequestOptions = {}) => {
     if (!isAuthenticated || !user) return;
 
     try {
-      const messages: ChatMessage[] = await apiFetch('/api/messages?limit=50');
-      
-      if (messages.length === 0) return;
+      const { count, by_channel } = await getUnreadMessagesCount(options);
+      setUnreadByChannel(by_channel);
+      if (count === 0) return;
 
-      const lastCheckKey = `lastChatCheck_${user.user_id}`;
-      const lastCheckTimestamp = await AsyncStorage.getItem(lastCheckKey);
-      
-      // Filter messages from others
-      const messagesFromOthers = messages.filter(m => m.sender_id !== user.user_id);
-      
-      if (messagesFromOthers.length === 0) {
-        setUnreadChatCount(0);
-        return;
-      }
+      // Show notification for a conversation that is not open right now
+      const channelId = Object.keys(by_channel).find((id) => by_channel[id] > 0 && id !== activeChannelId);
+      if (!channelId) return;
 
-      // Calculate unread count
-      let unreadCount = 0;
-      let newMessages: ChatMessage[] = [];
-      
-      if (lastCheckTimestamp) {
-        const lastCheck = new Date(lastCheckTimestamp);
-        newMessages = messagesFromOthers.filter(m => new Date(m.created_at) > lastCheck);
-        unreadCount = newMessages.length;
-      } else {
-        // First time - count messages from last 2 hours
-        const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
-        newMessages = messagesFromOthers.filter(m => new Date(m.created_at) > twoHoursAgo);
-        unreadCount = newMessages.length;
-      }
-
-      setUnreadChatCount(unreadCount);
-
-      // Show notification if not on chat screen and has new messages
-      if (!isOnChatScreen && newMessages.length > 0) {
-        const newestMessage = newMessages[0];
-        // Only show if this is a new message we haven't shown before
-        if (newestMessage.message_id !== lastShownMessageId) {
-          setLastShownMessageId(newestMessage.message_id);
-          setChatNotificationData({
-            sender: newestMessage.sender_name,
-            preview: newestMessage.content?.substring(0, 50) || '[załącznik]'
-          });
-          setShowChatNotification(true);
-          
-          // Auto-hide after 8 seconds
-          setTimeout(() => {
-            setShowChatNotification(false);
-          }, 8000);
-        }
+      const [newestMessage] = await getMessages({ channel_id: channelId, limit: 1 }, options);
+      // Only show if this is a new message we haven't shown before
+      if (newestMessage && newestMessage.sender_id !== user.user_id && newestMessage.message_id !== lastShownMessageId) {
+        showBannerFor(newestMessage);
       }
     } catch (error) {
       console.error('Error checking messages:', error);
     }
-  }, [isAuthenticated, user, isOnChatScreen, lastShownMessageId]);
+  }, [isAuthenticated, user, activeChannelId, lastShownMessageId, showBannerFor]);
 
-  // Poll for new messages every 5 seconds
+  // Initial check after 2 seconds, later messages arrive over the socket
   useEffect(() => {
     if (!isAuthenticated) return;
-
-    // Initial check after 2 seconds
-    const timeout = setTimeout(checkForNewMessages, 2000);
-    
-    // Set up polling
-    const interval = setInterval(checkForNewMessages, 5000);
-    
-    return () => {
-      clearTimeout(timeout);
-      clearInterval(interval);
-    };
+    const timeout = setTimeout(() => checkForNewMessages(), 2000);
+    return () => clearTimeout(timeout);
   }, [isAuthenticated, checkForNewMessages]);
 
-  // Hide notification when entering chat screen
+  // Without the socket fall back to polling
+  usePollingFallback(checkForNewMessages, 5000);
+
+  useRealtimeEvent('message:new', (message) => {
+    const channelId = message.channel_id || GENERAL_CHANNEL_ID;
+    if (!user || message.sender_id === user.user_id || channelId === activeChannelId) return;
+    setUnreadByChannel((prev) => ({ ...prev, [channelId]: (prev[channelId] || 0) + 1 }));
+    showBannerFor(message);
+  });
+
+  // Chat read on another device
+  useRealtimeEvent('message:read', (cursor) => {
+    if (user && cursor.user_id === user.user_id && cursor.channel_id !== activeChannelId) {
+      refreshUnreadCount().catch(() => {});
+    }
+  });
+
+  // Added to or removed from a group
+  useRealtimeEvent('channel:updated', () => {
+    refreshUnreadCount().catch(() => {});
+  });
+
+  useRealtimeEvent('channel:deleted', ({ channel_id }) => {
+    setUnreadByChannel((prev) => {
+      const { [channel_id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  });
+
+  // Hide notification when opening a conversation
   useEffect(() => {
-    if (isOnChatScreen) {
+    if (activeChannelId) {
       dismissChatNotification();
-      markChatAsRead();
+      markChatAsRead(activeChannelId);
+    }
+  }, [activeChannelId, dismissChatNotification, markChatAsRead]);
+
+  // Tapped push notification (also the one that cold-started the app) opens its screen
+  useEffect(() => {
+    if (!isAuthenticated || !lastPushResponse) return;
+    const pushId = lastPushResponse.notification.request.identifier;
+    if (handledPushIdRef.current === pushId) return;
+    handledPushIdRef.current = pushId;
+
+    const data = lastPushResponse.notification.request.content.data as Partial<PushNotificationData> | undefined;
+    if (data?.url) {
+      router.push(data.url as Href);
     }
-  }, [isOnChatScreen, dismissChatNotification, markChatAsRead]);
+  }, [isAuthenticated, lastPushResponse, router]);
 
   const handleNotificationPress = () => {
+    const channelId = chatNotificationData?.channelId || GENERAL_CHANNEL_ID;
     dismissChatNotification();
-    router.push('/chat');
+    router.push(`/chat?channel=${channelId}`);
   };
 
   return (
     <NotificationContext.Provider
       value={{
         unreadChatCount,
+        unreadByChannel,
         showChatNotification,
         chatNotificationData,
         dismissChatNotification,
         markChatAsRead,
+        refreshUnreadCount,
       }}
     >
       {children}
       
       {/* Global Chat Notification Banner */}
-      {showChatNotification && chatNotificationData && !isOnChatScreen && (
+      {showChatNotification && chatNotificationData && chatNotificationData.channelId !== activeChannelId && (
         <View style={styles.notificationContainer}>
           <TouchableOpacity 
             style={styles.notificationBanner}
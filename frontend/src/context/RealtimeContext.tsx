@@ -0,0 +1,146 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { useAuth } from './AuthContext';
+import { getAccessToken, RequestOptions } from '../utils/api';
+import { RealtimeEvents } from '../types/models';
+
+const API_URL = process.env.EXPO_PUBLIC_BACKEND_URL || '';
+
+// While the socket is down screens poll on their own - this is how often
+export const REALTIME_FALLBACK_POLL_INTERVAL = 15 * 1000;
+
+type RealtimeEventName = keyof RealtimeEvents;
+type RealtimeHandler<E extends RealtimeEventName> = (payload: RealtimeEvents[E]) => void;
+
+interface RealtimeContextType {
+  isConnected: boolean;
+  subscribe: <E extends RealtimeEventName>(event: E, handler: RealtimeHandler<E>) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error('useRealtime must be used within RealtimeProvider');
+  }
+  return context;
+}
+
+// Subscribe a component to one event for as long as it is mounted
+export function useRealtimeEvent<E extends RealtimeEventName>(event: E, handler: RealtimeHandler<E>) {
+  const { subscribe } = useRealtime();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return subscribe(event, (payload) => handlerRef.current(payload));
+  }, [event, subscribe]);
+}
+
+// Runs `callback` every `interval` ms only while the socket is disconnected,
+// and once more right after it (re)connects to catch up on anything missed.
+// `callback` gets background request options to pass on, so polling does not keep an idle session alive.
+export function usePollingFallback(callback: (options: RequestOptions) => void | Promise<unknown>, interval: number = REALTIME_FALLBACK_POLL_INTERVAL) {
+  const { isConnected } = useRealtime();
+  const { isAuthenticated } = useAuth();
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+  const missedEventsRef = useRef(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const poll = () => {
+      Promise.resolve()
+        .then(() => callbackRef.current({ background: true }))
+        .catch((error) => console.error('Polling failed:', error));
+    };
+    if (isConnected) {
+      if (missedEventsRef.current) {
+        missedEventsRef.current = false;
+        poll();
+      }
+      return;
+    }
+    missedEventsRef.current = true;
+    const timer = setInterval(poll, interval);
+    return () => clearInterval(timer);
+  }, [isAuthenticated, isConnected, interval]);
+}
+
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const { user, isAuthenticated, refreshUser } = useAuth();
+  const [isConnected, setIsConnected] = useState(false);
+  const socketRef = useRef<Socket | null>(null);
+  const listenersRef = useRef(new Map<string, Set<(payload: any) => void>>());
+  const refreshUserRef = useRef(refreshUser);
+  refreshUserRef.current = refreshUser;
+
+  const userId = user?.user_id;
+
+  const subscribe = useCallback(<E extends RealtimeEventName>(event: E, handler: RealtimeHandler<E>) => {
+    const listeners = listenersRef.current;
+    if (!listeners.has(event)) {
+      listeners.set(event, new Set());
+    }
+    listeners.get(event)!.add(handler);
+    return () => {
+      listeners.get(event)?.delete(handler);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated || !userId) return;
+
+    let closed = false;
+
+    // socket.io-client reconnects on its own with backoff. The auth callback runs
+    // on every attempt, so reconnects pick up a refreshed access token.
+    const socket = io(API_URL, {
+      path: '/api/socket.io',
+      auth: (cb) => {
+        getAccessToken()
+          .then((token) => cb({ token }))
+          .catch(() => cb({}));
+      },
+      transports: ['websocket'],
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 30000,
+    });
+    socketRef.current = socket;
+
+    socket.on('connect', () => setIsConnected(true));
+    socket.on('disconnect', () => setIsConnected(false));
+    socket.on('connect_error', (error) => {
+      console.log('Realtime connection failed:', error.message);
+      setIsConnected(false);
+      // Rejected by the server (stale token) - no automatic retry in that case
+      if (!socket.active) {
+        setTimeout(() => {
+          if (!closed) socket.connect();
+        }, REALTIME_FALLBACK_POLL_INTERVAL);
+      }
+    });
+    // An admin ended one of this user's sessions - if it was this one, the
+    // check fails with 401 and AuthContext logs out right away
+    socket.on('session:revoked', () => {
+      refreshUserRef.current();
+    });
+    socket.onAny((event: string, payload: any) => {
+      listenersRef.current.get(event)?.forEach((handler) => handler(payload));
+    });
+
+    return () => {
+      closed = true;
+      socketRef.current?.disconnect();
+      socketRef.current = null;
+      setIsConnected(false);
+    };
+  }, [isAuthenticated, userId]);
+
+  return (
+    <RealtimeContext.Provider value={{ isConnected, subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from './AuthContext';
+import { getAllDevices } from '../utils/apiClient';
+import {
+  OutboxItem,
+  NewOutboxItem,
+  loadOutbox,
+  enqueueOutboxItem,
+  removeOutboxItem,
+  retryOutboxItem,
+  replayOutbox,
+  cacheDevices,
+} from '../utils/outbox';
+
+// How often to retry sending queued operations while some are pending
+const SYNC_RETRY_INTERVAL = 30 * 1000;
+
+interface SyncContextType {
+  items: OutboxItem[];
+  pendingCount: number;
+  conflictCount: number;
+  isSyncing: boolean;
+  lastSyncAt: Date | null;
+  enqueue: (item: NewOutboxItem) => Promise<void>;
+  syncNow: () => Promise<void>;
+  discardItem: (id: string) => Promise<void>;
+  retryItem: (id: string) => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within SyncProvider');
+  }
+  return context;
+}
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { user, isAuthenticated } = useAuth();
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncAt, setLastSyncAt] = useState<Date | null>(null);
+  const syncingRef = useRef(false);
+
+  const userId = user?.user_id;
+  const pendingCount = items.filter((i) => i.status === 'pending').length;
+  const conflictCount = items.filter((i) => i.status === 'conflict').length;
+
+  const reloadItems = useCallback(async () => {
+    if (!userId) {
+      setItems([]);
+      return;
+    }
+    setItems(await loadOutbox(userId));
+  }, [userId]);
+
+  // Keep a local copy of the user's own devices so the scanner can work without signal.
+  // Filtered by holder so admins don't pull the whole inventory on every sync.
+  const refreshDeviceCache = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const devices = await getAllDevices({ assigned_to: userId });
+      await cacheDevices(userId, devices);
+    } catch {
+      // Offline - keep the previous cache
+    }
+  }, [userId]);
+
+  const syncNow = useCallback(async () => {
+    if (!userId || syncingRef.current) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await replayOutbox(userId);
+      if (!result.offline) {
+        setLastSyncAt(new Date());
+        await refreshDeviceCache();
+      }
+    } catch (error) {
+      console.error('Error syncing outbox:', error);
+    } finally {
+      await reloadItems();
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [userId, reloadItems, refreshDeviceCache]);
+
+  const enqueue = useCallback(async (item: NewOutboxItem) => {
+    if (!userId) return;
+    await enqueueOutboxItem(userId, item);
+    await reloadItems();
+  }, [userId, reloadItems]);
+
+  const discardItem = useCallback(async (id: string) => {
+    if (!userId) return;
+    await removeOutboxItem(userId, id);
+    await reloadItems();
+  }, [userId, reloadItems]);
+
+  const retryItem = useCallback(async (id: string) => {
+    if (!userId) return;
+    await retryOutboxItem(userId, id);
+    await syncNow();
+  }, [userId, syncNow]);
+
+  // Load the queue and try to flush it right after login
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setItems([]);
+      return;
+    }
+    reloadItems().then(syncNow);
+  }, [isAuthenticated, reloadItems, syncNow]);
+
+  // Retry periodically while something is waiting
+  useEffect(() => {
+    if (!isAuthenticated || pendingCount === 0) return;
+    const interval = setInterval(syncNow, SYNC_RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, pendingCount, syncNow]);
+
+  // Coming back to the app is a good moment to check connectivity again
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active' && isAuthenticated) {
+        syncNow();
+      }
+    });
+    return () => {
+      subscription.remove();
+    };
+  }, [isAuthenticated, syncNow]);
+
+  return (
+    <SyncContext.Provider
+      value={{
+        items,
+        pendingCount,
+        conflictCount,
+        isSyncing,
+        lastSyncAt,
+        enqueue,
+        syncNow,
+        discardItem,
+        retryItem,
+      }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+}
@@ -0,0 +1,879 @@
+// Domain types shared by all screens. Field names mirror the documents returned
+// by backend/server.py - dates arrive as ISO strings.
+
+export type UserRole = 'admin' | 'pracownik';
+
+export interface User {
+  user_id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  created_at?: string;
+  last_login_at?: string;
+  last_login_ip?: string;
+  last_login_device?: string;
+}
+
+// Logged in device of a user, as listed for admins
+export interface UserSession {
+  session_id: string | null;
+  device?: string | null;
+  ip_address?: string | null;
+  created_at?: string | null;
+  last_activity_at?: string | null;
+  expires_at: string;
+  is_current: boolean;
+}
+
+export type Worker = Pick<User, 'user_id' | 'name' | 'email'> & Partial<User>;
+
+export interface LoginResponse {
+  user_id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  session_token: string;
+  refresh_token: string;
+  access_expires_at: string;
+}
+
+// ==================== DEVICES ====================
+
+export type DeviceStatus = 'dostepny' | 'przypisany' | 'zainstalowany' | 'uszkodzony' | 'zwrocony' | 'zaginiony';
+
+export type OrderType = 'instalacja' | 'wymiana' | 'awaria' | 'uszkodzony';
+
+export type DeviceModelCategory = 'ONT' | 'CPE' | 'STB';
+
+// Admin-managed catalog entry, devices refer to it by model_id
+export interface DeviceModel {
+  model_id: string;
+  name: string;
+  operator: string;
+  category: DeviceModelCategory;
+  // Regular expression matched against the whole serial number
+  serial_pattern: string | null;
+  barcode_prefixes: string[];
+  photo_attachment_id: string | null;
+  created_at?: string;
+}
+
+export type DeviceModelInput = Omit<DeviceModel, 'model_id' | 'created_at'>;
+
+export type SerialRuleKind = 'regex' | 'gs1';
+
+// Admin-managed rule telling the scanner where the serial number sits in a scanned payload
+export interface SerialRule {
+  rule_id: string;
+  name: string;
+  kind: SerialRuleKind;
+  // regex: matched case-insensitively against every line, the first group (or the whole match) is the serial
+  pattern: string | null;
+  // gs1: application identifiers whose value is the serial, e.g. "21"
+  ais: string[];
+  // Removed from the start of the extracted value
+  strip_prefixes: string[];
+  // null = applies to every model
+  model_id: string | null;
+  // Lower numbers are tried first
+  priority: number;
+  enabled: boolean;
+  created_at?: string;
+}
+
+export type SerialRuleInput = Omit<SerialRule, 'rule_id' | 'created_at'>;
+
+export interface DeviceInstallationInfo {
+  adres?: string;
+  address_id?: string | null;
+  data_instalacji?: string;
+  rodzaj_zlecenia?: string;
+  instalator_id?: string;
+}
+
+export interface Device {
+  device_id: string;
+  nazwa: string;
+  model_id?: string | null;
+  // null while installed at a customer
+  location_id?: string | null;
+  numer_seryjny: string;
+  kod_kreskowy?: string;
+  kod_qr?: string;
+  przypisany_do?: string | null;
+  status: DeviceStatus;
+  created_at?: string;
+  imported_at?: string;
+  imported_by?: string;
+  added_by?: string;
+  // Import batch that added the device, see ImportBatch
+  batch_id?: string;
+  zainstalowany_przez?: string;
+  installer_name?: string;
+  adres_instalacji?: string;
+  data_instalacji?: string;
+  damaged_at?: string;
+  damaged_by?: string;
+  damaged_by_name?: string;
+  returned_at?: string;
+  // Only present on installed devices in GET /devices
+  instalacja?: DeviceInstallationInfo;
+}
+
+// Query of GET /devices and GET /devices/counts (a type, not an interface, so it fits withQuery)
+export type DeviceFilters = {
+  status?: DeviceStatus;
+  assigned_to?: string;
+  nazwa?: string;
+  search?: string;
+  model_id?: string;
+  location_id?: string;
+};
+
+export type DeviceSortField = 'nazwa' | 'numer_seryjny' | 'kod_kreskowy' | 'status' | 'created_at' | 'data_instalacji';
+
+export type DeviceListQuery = DeviceFilters & {
+  sort?: DeviceSortField;
+  order?: 'asc' | 'desc';
+  skip?: number;
+  limit?: number;
+};
+
+export interface DevicePage {
+  items: Device[];
+  total: number;
+  skip: number;
+  limit: number;
+  has_more: boolean;
+}
+
+export interface DeviceNameCount {
+  nazwa: string;
+  count: number;
+}
+
+export interface DeviceCounts {
+  total: number;
+  // Ignores the status filter
+  by_status: Partial<Record<DeviceStatus, number>>;
+  // Ignores the name filter
+  by_name: DeviceNameCount[];
+  // model_id -> count, ignores the model filter
+  by_model: Record<string, number>;
+  // location_id -> count, ignores the location filter
+  by_location: Record<string, number>;
+}
+
+export interface BarcodeStock {
+  kod_kreskowy: string;
+  nazwa: string;
+  count: number;
+  devices: Device[];
+}
+
+export interface InventorySummary {
+  user_id: string;
+  // Personal location, only workers have one
+  location_id: string | null;
+  user_name: string;
+  user_email: string;
+  role: UserRole;
+  total_devices: number;
+  total_installed: number;
+  total_damaged: number;
+  by_barcode: BarcodeStock[];
+  low_stock: BarcodeStock[];
+  // Models below the configured minimum
+  stock_alerts: StockLevel[];
+  has_low_stock: boolean;
+}
+
+export interface UserInventory {
+  user: User;
+  total_available: number;
+  total_installed: number;
+  total_damaged: number;
+  available_devices: Device[];
+  installed_devices: Device[];
+  damaged_devices: Device[];
+  by_barcode: BarcodeStock[];
+  low_stock: BarcodeStock[];
+  has_low_stock: boolean;
+}
+
+// Served by GET /devices/lifecycle - the backend is the source of truth for transitions
+export type DeviceAction =
+  | 'assign' | 'transfer' | 'install' | 'restore' | 'mark_damaged' | 'move' | 'return' | 'dismantle'
+  | 'stocktake_move' | 'write_off';
+
+export interface DeviceTransitionRule {
+  label: string;
+  from: DeviceStatus[];
+  to: DeviceStatus;
+  roles: UserRole[];
+  // Workers may only act on devices assigned to them
+  holder: boolean;
+  // Request field -> label used in the error message
+  requires: Record<string, string>;
+}
+
+export interface DeviceLifecycle {
+  statuses: Record<DeviceStatus, string>;
+  actions: Record<DeviceAction, DeviceTransitionRule>;
+}
+
+// Per-device outcome of POST /devices/assign-multiple
+export interface DeviceAssignResult {
+  device_id: string;
+  numer_seryjny: string | null;
+  assigned: boolean;
+  reason: string | null;
+}
+
+// Import wizard: device fields a file column can be mapped to, column indexes are 0-based
+export type ImportField = 'nazwa' | 'numer_seryjny' | 'kod_kreskowy' | 'kod_qr';
+
+export type ImportMapping = Record<ImportField, number | null>;
+
+export interface ImportSheet {
+  name: string;
+  // 1-based, 0 when the data starts in the first row
+  header_row: number;
+  total_rows: number;
+  sample_rows: string[][];
+  suggested_mapping: ImportMapping;
+}
+
+export interface ImportUpload {
+  upload_id: string;
+  filename: string;
+  sheets: ImportSheet[];
+}
+
+export interface ImportRequest {
+  upload_id: string;
+  sheet: string;
+  header_row: number;
+  mapping: ImportMapping;
+}
+
+export type ImportRowStatus = 'ok' | 'duplicate' | 'duplicate_in_file' | 'invalid';
+
+export interface ImportRowCheck {
+  row: number;
+  nazwa: string;
+  numer_seryjny: string;
+  kod_kreskowy: string;
+  kod_qr: string;
+  model_id: string | null;
+  model_name: string | null;
+  status: ImportRowStatus;
+  message: string | null;
+}
+
+export interface ImportDryRun {
+  rows: ImportRowCheck[];
+  summary: Record<ImportRowStatus, number>;
+}
+
+export interface ImportResult {
+  imported: number;
+  duplicates: number;
+  errors: string[];
+  message: string;
+  device_ids: string[];
+  // null when nothing was imported
+  batch_id: string | null;
+}
+
+// One file import or one session of adding devices by hand, can be rolled back as a whole
+export interface ImportBatch {
+  batch_id: string;
+  source: 'file' | 'manual';
+  filename: string | null;
+  created_by: string;
+  created_by_name: string;
+  created_at: string;
+  device_count: number;
+  status: 'active' | 'rolled_back';
+  // Devices no longer 'dostepny', rollback is blocked while above 0
+  devices_in_use: number;
+  rolled_back_at?: string;
+  rolled_back_by_name?: string;
+  removed_count?: number;
+}
+
+export interface ImportBatchDetail extends ImportBatch {
+  devices: Device[];
+}
+
+// 'sheet' - A4 with 3 x 8 labels of 70 x 37 mm, 'thermal' - one 50 x 25 mm label per page
+export type LabelLayout = 'sheet' | 'thermal';
+
+// ==================== LOCATIONS ====================
+
+// Worker locations are created by the server, one per worker
+export type LocationType = 'warehouse' | 'van' | 'worker';
+
+export interface Location {
+  location_id: string;
+  name: string;
+  type: LocationType;
+  vehicle_id: string | null;
+  user_id: string | null;
+  created_at?: string;
+}
+
+export interface LocationInput {
+  name: string;
+  type?: Exclude<LocationType, 'worker'>;
+  vehicle_id?: string | null;
+}
+
+// Served by GET /devices/inventory/locations for warehouses and vans
+export interface LocationInventory extends Location {
+  total: number;
+  by_status: Partial<Record<DeviceStatus, number>>;
+  // model name -> count
+  by_model: Record<string, number>;
+}
+
+// ==================== CUSTOMER ADDRESSES ====================
+
+export interface CustomerAddressInput {
+  street: string;
+  number: string;
+  apartment: string;
+  // 00-000 or empty
+  postal_code: string;
+  city: string;
+  customer_name: string;
+  phone: string;
+}
+
+// Registry entry - one per address, however it was spelled when typed
+export interface CustomerAddress extends CustomerAddressInput {
+  address_id: string;
+  // One-line form, also stored as adres_klienta on installations
+  label: string;
+  // Duplicates folded into this entry
+  merged_ids: string[];
+  created_at?: string;
+  last_used_at?: string;
+  // Only in the list
+  installations_count?: number;
+  installed_count?: number;
+}
+
+export interface AddressInstallation extends Installation {
+  device_status: DeviceStatus | null;
+  model_id: string | null;
+  // The device is installed at this address right now
+  current: boolean;
+}
+
+export interface CustomerAddressDetail extends CustomerAddress {
+  installations: AddressInstallation[];
+}
+
+// ==================== INSTALLATIONS ====================
+
+export interface Installation {
+  installation_id: string;
+  device_id: string;
+  user_id: string;
+  installer_name?: string;
+  nazwa_urzadzenia: string;
+  numer_seryjny?: string;
+  kod_kreskowy?: string;
+  data_instalacji: string;
+  adres_klienta?: string;
+  adres?: string;
+  address_id?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  rodzaj_zlecenia: string;
+  // Visit it was installed in together with other devices, missing on older entries
+  job_id?: string;
+  // Customer's old devices taken away in the same job (wymiana / awaria)
+  removed_serials?: string[];
+  client_request_id?: string | null;
+  // Set once the device left the customer again
+  removed_at?: string | null;
+  removed_by_name?: string;
+  removal_reason?: DeviceRemovalReason | null;
+}
+
+// Lifecycle action that took an installed device out
+export type DeviceRemovalReason = 'restore' | 'mark_damaged' | 'dismantle';
+
+// Device taken from the customer in a replacement, device_id is null when it was not in the inventory
+export interface RemovedDevice {
+  numer_seryjny: string;
+  device_id: string | null;
+  nazwa: string | null;
+  return_id: string;
+}
+
+export type InstallationPhotoKind = 'ont' | 'power_meter' | 'label' | 'other';
+
+export interface InstallationPhoto {
+  attachment_id: string;
+  kind: InstallationPhotoKind;
+}
+
+// Customer's signature as drawn on the phone, the server turns it into a PNG attachment
+export interface SignatureDrawing {
+  width: number;
+  height: number;
+  strokes: [number, number][][];
+}
+
+// One visit at a customer - every device installed there shares its address and order type
+export interface InstallationJob {
+  job_id: string;
+  user_id: string;
+  installer_name: string;
+  data_instalacji: string;
+  adres_klienta: string;
+  address_id: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  rodzaj_zlecenia: string;
+  device_ids: string[];
+  installation_ids: string[];
+  removed_devices: RemovedDevice[];
+  // Proof of installation, missing on jobs recorded before it was collected
+  photos?: InstallationPhoto[];
+  signature_attachment_id?: string | null;
+  client_request_id?: string | null;
+  installations: Installation[];
+}
+
+// Counts are in jobs, devices holds the number of installed devices
+export interface InstallationStats {
+  total: number;
+  devices: number;
+  by_type: Record<string, number>;
+  by_user: Record<string, number>;
+  daily: { _id: string; count: number }[];
+}
+
+export interface DailyReport {
+  date: string;
+  total: number;
+  devices: number;
+  by_user: {
+    user_id: string;
+    user_name: string;
+    count: number;
+    devices: number;
+    installations: Installation[];
+  }[];
+}
+
+// ==================== MESSAGES ====================
+
+// 'general' is the team-wide room every user belongs to
+export const GENERAL_CHANNEL_ID = 'general';
+
+export type ChannelType = 'global' | 'direct' | 'group';
+
+export interface ChatChannel {
+  channel_id: string;
+  type: ChannelType;
+  // For direct chats this is the other person's name
+  name: string;
+  members: string[];
+  created_by: string | null;
+  created_at: string | null;
+  // Only filled in by GET /channels
+  member_names?: string[];
+  is_member?: boolean;
+  unread_count?: number;
+  last_message?: Message | null;
+}
+
+export type MessageReferenceType = 'device' | 'task' | 'installation';
+
+// Snapshot of the linked record taken when the message was sent
+export interface MessageReference {
+  type: MessageReferenceType;
+  id: string;
+  label: string;
+  numer_seryjny?: string | null;
+  status?: string | null;
+  device_id?: string | null;
+  adres?: string | null;
+  rodzaj_zlecenia?: string | null;
+}
+
+export interface Message {
+  message_id: string;
+  channel_id: string;
+  sender_id: string;
+  sender_name: string;
+  content?: string;
+  // Legacy messages carry the image inline as base64, new ones only the attachment id
+  attachment?: string;
+  attachment_type?: string;
+  attachment_id?: string | null;
+  reference?: MessageReference | null;
+  created_at: string;
+}
+
+// Per-user chat read cursor - everything up to last_read_at has been seen
+export interface ChatReadCursor {
+  user_id: string;
+  user_name: string;
+  channel_id: string;
+  last_read_at: string | null;
+  last_read_message_id?: string | null;
+}
+
+export interface UnreadCount {
+  count: number;
+  by_channel: Record<string, number>;
+}
+
+// Uploaded photo, the file itself is served by /api/attachments/{attachment_id}
+export interface Attachment {
+  attachment_id: string;
+  uploaded_by: string;
+  original_name?: string;
+  content_type: string;
+  size_bytes: number;
+  width: number;
+  height: number;
+  created_at: string;
+}
+
+// ==================== TASKS ====================
+
+export type TaskStatus = 'oczekujace' | 'w_trakcie' | 'zakonczone';
+
+export type TaskPriority = 'niskie' | 'normalne' | 'wysokie' | 'pilne';
+
+export interface Task {
+  task_id: string;
+  title: string;
+  description?: string;
+  assigned_to: string;
+  assigned_by: string;
+  due_date: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  created_at: string;
+  completion_photos?: string[];
+  completion_attachments?: string[];
+  completed_at?: string;
+  completed_by?: string;
+}
+
+export interface TaskReminder {
+  task_id: string;
+  title: string;
+  due_date: string;
+  minutes_left: number;
+  assigned_to?: string;
+  priority: TaskPriority;
+}
+
+// ==================== RETURNS ====================
+
+export interface DeviceReturn {
+  return_id: string;
+  device_serial: string;
+  device_type: string;
+  device_status: string;
+  scanned_at: string;
+  scanned_by: string;
+  scanned_by_name: string;
+  returned_to_warehouse?: boolean;
+  returned_at?: string;
+  // Created by a replacement job at this address
+  job_id?: string;
+  adres_klienta?: string;
+  client_request_id?: string | null;
+}
+
+// ==================== ORDERS ====================
+
+export type OrderStatus = 'pending' | 'completed' | 'rejected';
+
+export interface OrderItem {
+  id: string;
+  name: string;
+  category: string;
+  autoStock: boolean;
+  subItem?: boolean;
+  currentStock: string;
+  orderQuantity: string;
+  isCustom?: boolean;
+}
+
+export interface Order {
+  order_id: string;
+  user_id: string;
+  user_name: string;
+  items: OrderItem[];
+  status: OrderStatus;
+  created_at: string;
+  processed_at?: string | null;
+  processed_by?: string | null;
+  processed_by_name?: string | null;
+  // Drafted by the server when the worker dropped below a stock minimum
+  auto_generated?: boolean;
+}
+
+export interface OrderableItem {
+  id: string;
+  name: string;
+  created_at?: string;
+  created_by?: string;
+}
+
+// ==================== STOCK LEVELS ====================
+
+// Minimum / maximum of one model a worker should hold, with the current stock
+export interface StockLevel {
+  level_id: string;
+  user_id: string;
+  user_name: string;
+  model_id: string;
+  model_name: string;
+  min_qty: number;
+  max_qty: number;
+  current: number;
+  // How many to order to get back to max_qty, 0 while not below min_qty
+  suggested_qty: number;
+  below_min: boolean;
+}
+
+export interface StockLevelInput {
+  user_id: string;
+  model_id: string;
+  min_qty: number;
+  max_qty: number;
+}
+
+export interface StockSettings {
+  auto_draft_orders: boolean;
+}
+
+export interface StockLowEvent {
+  user_id: string;
+  user_name: string;
+  alerts: StockLevel[];
+}
+
+// ==================== STOCKTAKE ====================
+
+export type StocktakeStatus = 'open' | 'closed' | 'cancelled';
+
+// 'duplicate' is only returned by the scan, it is not recorded
+export type StocktakeScanResult = 'matched' | 'unexpected' | 'unknown' | 'duplicate';
+
+export type StocktakeAction = 'move_here' | 'move_to_warehouse' | 'write_off' | 'acknowledge';
+
+export interface StocktakeScan {
+  code: string;
+  device_id: string | null;
+  numer_seryjny: string | null;
+  nazwa: string | null;
+  result: Exclude<StocktakeScanResult, 'duplicate'>;
+  scanned_at: string;
+}
+
+// A device in the report with where the system has it at closing time
+export interface StocktakeEntry {
+  device_id: string;
+  numer_seryjny: string | null;
+  nazwa: string | null;
+  status: DeviceStatus;
+  location_id: string | null;
+  location_name: string;
+  holder_name: string | null;
+  resolution: { action: StocktakeAction; by_name: string; at: string } | null;
+}
+
+export interface StocktakeReport {
+  matched: StocktakeEntry[];
+  // In the location according to the system, not scanned
+  missing: StocktakeEntry[];
+  // Scanned, but the system has them somewhere else
+  unexpected: StocktakeEntry[];
+  // Scanned codes of no known device
+  unknown: string[];
+}
+
+export interface Stocktake {
+  stocktake_id: string;
+  location_id: string;
+  location_name: string;
+  location_type: LocationType;
+  counted_by: string;
+  counted_by_name: string;
+  opened_by: string;
+  opened_by_name: string;
+  opened_at: string;
+  status: StocktakeStatus;
+  scan_count: number;
+  closed_at: string | null;
+  closed_by_name: string | null;
+  summary: Record<keyof StocktakeReport, number> | null;
+  // Left out of GET /stocktakes
+  scans?: StocktakeScan[];
+  report?: StocktakeReport | null;
+}
+
+export interface StocktakeScanResponse {
+  result: StocktakeScanResult;
+  code: string;
+  device: Device | null;
+  scan_count: number;
+}
+
+// ==================== VEHICLES & EQUIPMENT ====================
+
+export interface Vehicle {
+  vehicle_id: string;
+  plate_number: string;
+  brand: string;
+  model: string;
+  year: string;
+  assigned_to: string | null;
+  assigned_to_name: string | null;
+}
+
+export interface Equipment {
+  equipment_id: string;
+  name: string;
+  type: string;
+  serial_number: string;
+  description: string;
+  assigned_to: string | null;
+  assigned_to_name: string | null;
+}
+
+export interface EquipmentType {
+  type_id: string;
+  name: string;
+}
+
+export interface WorkerAssets {
+  vehicles: Vehicle[];
+  equipment: Equipment[];
+}
+
+// ==================== BACKUP ====================
+
+export interface BackupSettings {
+  smtp_host: string;
+  smtp_port: number;
+  smtp_user: string;
+  smtp_password: string;
+  smtp_use_tls: boolean;
+  email_recipient: string;
+  email_enabled: boolean;
+  ftp_host: string;
+  ftp_port: number;
+  ftp_user: string;
+  ftp_password: string;
+  ftp_path: string;
+  ftp_enabled: boolean;
+  schedule_enabled: boolean;
+  schedule_time: string;
+}
+
+export interface BackupLog {
+  backup_id: string;
+  created_at: string;
+  size_bytes: number;
+  status: string;
+  sent_email: boolean;
+  sent_ftp: boolean;
+  downloaded?: boolean;
+  error_message?: string;
+}
+
+export interface BackupResult {
+  status: string;
+  backup_id: string;
+  size_bytes: number;
+  sent_email: boolean;
+  sent_ftp: boolean;
+  errors: string[];
+}
+
+// ==================== REALTIME ====================
+
+export interface DeviceAssignedEvent {
+  device_ids: string[];
+  worker_id: string;
+  previous_worker_id?: string | null;
+  assigned_by: string;
+}
+
+// Events pushed over the socket, keyed by name
+export interface RealtimeEvents {
+  'message:new': Message;
+  'message:read': ChatReadCursor;
+  'channel:updated': ChatChannel;
+  'channel:deleted': { channel_id: string };
+  'task:assigned': Task;
+  'task:updated': Task;
+  'order:created': Order;
+  'order:updated': Order;
+  'device:assigned': DeviceAssignedEvent;
+  'stock:low': StockLowEvent;
+  // session_id is null when all sessions of the user were ended
+  'session:revoked': { user_id: string; session_id: string | null };
+}
+
+// ==================== NOTIFICATIONS ====================
+
+export type NotificationCategory = 'tasks' | 'messages' | 'orders' | 'devices';
+
+// Push notification categories the user receives, all on by default
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+// Payload attached to every push - url is the screen to open on tap
+export interface PushNotificationData {
+  url: string;
+  category: NotificationCategory;
+}
+
+// ==================== ACTIVITY LOGS ====================
+
+export interface ActivityLog {
+  log_id: string;
+  timestamp: string;
+  user_id: string;
+  user_name: string;
+  user_role: string;
+  action_type: string;
+  action_description: string;
+  device_serial?: string;
+  device_name?: string;
+  device_id?: string;
+  task_id?: string;
+  target_user_id?: string;
+  target_user_name?: string;
+  details?: Record<string, any>;
+  ip_address?: string;
+}
+
+export interface DeviceHistory {
+  device: Device | null;
+  installation: Installation | null;
+  // Job of that installation, with its photos and signature
+  job?: Omit<InstallationJob, 'installations'> | null;
+  logs: ActivityLog[];
+  total_events: number;
+}
+
+// Plain { message } answer most mutating endpoints return
+export interface MessageResponse {
+  message: string;
+}
@@ -0,0 +1,31 @@
+import { CustomerAddressInput } from '../types/models';
+
+export const EMPTY_ADDRESS: CustomerAddressInput = {
+  street: '',
+  number: '',
+  apartment: '',
+  postal_code: '',
+  city: '',
+  customer_name: '',
+  phone: '',
+};
+
+// The server needs at least these to file the address in the registry
+export function isAddressComplete(address: CustomerAddressInput): boolean {
+  return !!address.number.trim() && !!address.city.trim();
+}
+
+// Mirrors format_address in backend/server.py, so the one-line address looks
+// the same before the server has normalized it (e.g. in the offline queue)
+export function formatAddress(address: CustomerAddressInput): string {
+  if (!isAddressComplete(address)) return '';
+  let line = [address.street.trim(), address.number.trim()].filter(Boolean).join(' ');
+  if (address.apartment.trim()) line += `/${address.apartment.trim()}`;
+  const city = [address.postal_code.trim(), address.city.trim()].filter(Boolean).join(' ');
+  return `${line}, ${city}`;
+}
+
+export function pickAddressInput(address: CustomerAddressInput): CustomerAddressInput {
+  const { street, number, apartment, postal_code, city, customer_name, phone } = address;
+  return { street, number, apartment, postal_code, city, customer_name, phone };
+}
@@ -2,67 +2,188 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const API_URL = process.env.EXPO_PUBLIC_BACKEND_URL || '';
 
-interface FetchOptions {
+// Background polling is not user activity - the server lets an idle session expire anyway
+export interface RequestOptions {
+  background?: boolean;
+}
+
+interface FetchOptions extends RequestOptions {
   method?: string;
   body?: any;
   headers?: Record<string, string>;
 }
 
-export async function apiFetch(endpoint: string, options: FetchOptions = {}) {
-  const token = await AsyncStorage.getItem('session_token');
-  
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    ...options.headers,
+// Server answered with an error status (4xx/5xx)
+export class ApiError extends Error {
+  status: number;
+  detail: string;
+
+  constructor(status: number, detail: string) {
+    super(detail);
+    this.name = 'ApiError';
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+// Request never reached the server (no signal, DNS failure, server down)
+export class NetworkError extends Error {
+  constructor(message: string = 'Brak połączenia z serwerem') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError;
+}
+
+// Refresh a little before the access token runs out so requests rarely hit a 401
+const ACCESS_TOKEN_REFRESH_MARGIN = 60 * 1000;
+
+interface SessionTokens {
+  session_token: string;
+  refresh_token: string;
+  access_expires_at: string;
+}
+
+interface SessionHandlers {
+  onRefreshed?: (sessionToken: string) => void;
+  onExpired?: () => void;
+}
+
+let sessionHandlers: SessionHandlers = {};
+let refreshPromise: Promise<string | null> | null = null;
+
+// AuthContext listens here to keep its state in sync and log out when the session ends
+export function setSessionHandlers(handlers: SessionHandlers) {
+  sessionHandlers = handlers;
+}
+
+export async function storeSessionTokens(tokens: SessionTokens) {
+  await AsyncStorage.multiSet([
+    ['session_token', tokens.session_token],
+    ['refresh_token', tokens.refresh_token],
+    ['access_expires_at', tokens.access_expires_at],
+  ]);
+}
+
+export async function clearSessionTokens() {
+  await AsyncStorage.multiRemove(['session_token', 'refresh_token', 'access_expires_at', 'cached_user']);
+}
+
+async function requestNewTokens(): Promise<string | null> {
+  const refreshToken = await AsyncStorage.getItem('refresh_token');
+  if (!refreshToken) return null;
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    });
+  } catch {
+    throw new NetworkError();
+  }
+
+  if (!response.ok) return null;
+
+  const tokens: SessionTokens = await response.json();
+  await storeSessionTokens(tokens);
+  sessionHandlers.onRefreshed?.(tokens.session_token);
+  return tokens.session_token;
+}
+
+// Rotate the token pair; concurrent callers share one request since the
+// refresh token is single-use. Resolves to null when the session is gone.
+export function refreshSession(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = requestNewTokens().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+// Current access token, refreshed first if it is about to expire.
+// Use it for requests made outside apiFetch (downloads, image URLs).
+export async function getAccessToken(): Promise<string | null> {
+  const [[, token], [, expiresAt]] = await AsyncStorage.multiGet(['session_token', 'access_expires_at']);
+  if (token && expiresAt && new Date(expiresAt).getTime() - Date.now() < ACCESS_TOKEN_REFRESH_MARGIN) {
+    return (await refreshSession()) || token;
+  }
+  return token;
+}
+
+// Sends the request with the access token. On 401 refreshes once and retries;
+// if the session cannot be refreshed the user is logged out.
+async function authorizedFetch(endpoint: string, init: RequestInit): Promise<Response> {
+  const send = async (token: string | null) => {
+    const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    try {
+      return await fetch(`${API_URL}${endpoint}`, { ...init, headers });
+    } catch {
+      throw new NetworkError();
+    }
   };
-  
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
+
+  const token = await getAccessToken();
+  const response = await send(token);
+  if (response.status !== 401 || !token) {
+    return response;
   }
-  
-  const response = await fetch(`${API_URL}${endpoint}`, {
+
+  const newToken = await refreshSession();
+  if (!newToken) {
+    await clearSessionTokens();
+    sessionHandlers.onExpired?.();
+    return response;
+  }
+  return send(newToken);
+}
+
+export async function apiFetch<T = any>(endpoint: string, options: FetchOptions = {}): Promise<T> {
+  const response = await authorizedFetch(endpoint, {
     method: options.method || 'GET',
-    headers,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.background ? { 'X-Background-Request': '1' } : {}),
+      ...options.headers,
+    },
     body: options.body ? JSON.stringify(options.body) : undefined,
   });
   
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({ detail: 'Błąd serwera' }));
-    throw new Error(errorData.detail || 'Wystąpił błąd');
+    throw new ApiError(response.status, errorData.detail || 'Wystąpił błąd');
   }
   
   return response.json();
 }
 
 // Upload file for web platform using native File object
-export async function uploadFileWeb(endpoint: string, file: File) {
-  const token = await AsyncStorage.getItem('session_token');
-  
+export async function uploadFileWeb<T = any>(endpoint: string, file: File): Promise<T> {
   const formData = new FormData();
   formData.append('file', file, file.name);
   
-  const headers: Record<string, string> = {};
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
-  
-  const response = await fetch(`${API_URL}${endpoint}`, {
+  const response = await authorizedFetch(endpoint, {
     method: 'POST',
-    headers,
     body: formData,
   });
   
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({ detail: 'Błąd serwera' }));
-    throw new Error(errorData.detail || 'Wystąpił błąd');
+    throw new ApiError(response.status, errorData.detail || 'Wystąpił błąd');
   }
   
   return response.json();
 }
 
-export async function uploadFile(endpoint: string, file: { uri: string; name: string; type: string }) {
-  const token = await AsyncStorage.getItem('session_token');
-  
+export async function uploadFile<T = any>(endpoint: string, file: { uri: string; name: string; type: string }): Promise<T> {
   const formData = new FormData();
   
   // Check if we're on web platform
@@ -87,20 +208,14 @@ export async function uploadFile(endpoint: string, file: { uri: string; name: st
     } as any);
   }
   
-  const headers: Record<string, string> = {};
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
-  
-  const response = await fetch(`${API_URL}${endpoint}`, {
+  const response = await authorizedFetch(endpoint, {
     method: 'POST',
-    headers,
     body: formData,
   });
   
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({ detail: 'Błąd serwera' }));
-    throw new Error(errorData.detail || 'Wystąpił błąd');
+    throw new ApiError(response.status, errorData.detail || 'Wystąpił błąd');
   }
   
   return response.json();
@@ -0,0 +1,630 @@
+import { apiFetch, RequestOptions, uploadFile, uploadFileWeb } from './api';
+import {
+  ActivityLog,
+  Attachment,
+  BackupLog,
+  BackupResult,
+  BackupSettings,
+  ChatChannel,
+  ChatReadCursor,
+  CustomerAddress,
+  CustomerAddressDetail,
+  CustomerAddressInput,
+  DailyReport,
+  Device,
+  DeviceAssignResult,
+  DeviceCounts,
+  DeviceFilters,
+  DeviceHistory,
+  DeviceLifecycle,
+  DeviceListQuery,
+  DeviceModel,
+  DeviceModelInput,
+  DevicePage,
+  DeviceReturn,
+  Equipment,
+  EquipmentType,
+  ImportBatch,
+  ImportBatchDetail,
+  ImportDryRun,
+  ImportRequest,
+  ImportResult,
+  ImportUpload,
+  Installation,
+  InstallationJob,
+  InstallationPhoto,
+  InstallationStats,
+  InventorySummary,
+  LabelLayout,
+  Location,
+  LocationInput,
+  LocationInventory,
+  LoginResponse,
+  Message,
+  MessageReferenceType,
+  MessageResponse,
+  NotificationPreferences,
+  Order,
+  OrderItem,
+  OrderStatus,
+  OrderableItem,
+  SerialRule,
+  SerialRuleInput,
+  SignatureDrawing,
+  StockLevel,
+  StockLevelInput,
+  StockSettings,
+  Stocktake,
+  StocktakeAction,
+  StocktakeScanResponse,
+  Task,
+  TaskPriority,
+  TaskReminder,
+  TaskStatus,
+  UnreadCount,
+  User,
+  UserInventory,
+  UserRole,
+  UserSession,
+  Vehicle,
+  Worker,
+  WorkerAssets,
+} from '../types/models';
+
+// One function per route in backend/server.py, grouped the same way as the
+// server sections. Screens should call these instead of building URLs by hand.
+// File downloads (/backup/download, /backup/download-excel, /returns/export)
+// stream binary data and are fetched directly by the screens that save them.
+
+const API_URL = process.env.EXPO_PUBLIC_BACKEND_URL || '';
+
+type UploadableFile = File | { uri: string; name: string; type: string };
+
+function withQuery(endpoint: string, params: Record<string, string | number | undefined | null>) {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `${endpoint}?${query}` : endpoint;
+}
+
+function upload<T>(endpoint: string, file: UploadableFile): Promise<T> {
+  return 'uri' in file ? uploadFile(endpoint, file) : uploadFileWeb(endpoint, file);
+}
+
+// ==================== AUTH ====================
+
+export const login = (email: string, password: string) =>
+  apiFetch<LoginResponse>('/api/auth/login', { method: 'POST', body: { email, password } });
+
+export const getMe = () => apiFetch<User>('/api/auth/me');
+
+export const logout = () => apiFetch<MessageResponse>('/api/auth/logout', { method: 'POST' });
+
+export const changeOwnPassword = (currentPassword: string, newPassword: string) =>
+  apiFetch<MessageResponse>('/api/auth/change-password', {
+    method: 'POST',
+    body: { current_password: currentPassword, new_password: newPassword },
+  });
+
+// ==================== NOTIFICATIONS ====================
+
+export const registerPushToken = (token: string, platform: string) =>
+  apiFetch<MessageResponse>('/api/push/register', { method: 'POST', body: { token, platform } });
+
+export const unregisterPushToken = (token: string) =>
+  apiFetch<MessageResponse>('/api/push/unregister', { method: 'POST', body: { token } });
+
+export const getNotificationPreferences = () =>
+  apiFetch<NotificationPreferences>('/api/notifications/preferences');
+
+export const updateNotificationPreferences = (preferences: Partial<NotificationPreferences>) =>
+  apiFetch<NotificationPreferences>('/api/notifications/preferences', { method: 'PUT', body: preferences });
+
+// ==================== USERS ====================
+
+export const getUsers = () => apiFetch<User[]>('/api/users');
+
+export const createUser = (data: { email: string; password: string; name: string; role: UserRole }) =>
+  apiFetch<User & MessageResponse>('/api/users', { method: 'POST', body: data });
+
+export const updateUserRole = (userId: string, role: UserRole) =>
+  apiFetch<MessageResponse>(`/api/users/${userId}/role`, { method: 'PUT', body: { role } });
+
+export const getUserSessions = (userId: string) =>
+  apiFetch<UserSession[]>(`/api/users/${userId}/sessions`);
+
+export const revokeUserSession = (userId: string, sessionId: string) =>
+  apiFetch<MessageResponse>(`/api/users/${userId}/sessions/${sessionId}`, { method: 'DELETE' });
+
+export const revokeAllUserSessions = (userId: string) =>
+  apiFetch<MessageResponse>(`/api/users/${userId}/sessions`, { method: 'DELETE' });
+
+export const resetUserPassword = (userId: string, newPassword: string) =>
+  apiFetch<MessageResponse>(`/api/users/${userId}/password`, {
+    method: 'PUT',
+    body: { new_password: newPassword },
+  });
+
+export const deleteUser = (userId: string) =>
+  apiFetch<MessageResponse>(`/api/users/${userId}`, { method: 'DELETE' });
+
+export const getWorkers = () => apiFetch<Worker[]>('/api/workers');
+
+export const getWorkerAssets = (workerId: string) =>
+  apiFetch<WorkerAssets>(`/api/workers/${workerId}/assets`);
+
+// ==================== DEVICE MODELS ====================
+
+export const getDeviceModels = () => apiFetch<DeviceModel[]>('/api/device-models');
+
+export const createDeviceModel = (data: DeviceModelInput) =>
+  apiFetch<DeviceModel>('/api/device-models', { method: 'POST', body: data });
+
+export const updateDeviceModel = (modelId: string, data: DeviceModelInput) =>
+  apiFetch<DeviceModel>(`/api/device-models/${modelId}`, { method: 'PUT', body: data });
+
+export const deleteDeviceModel = (modelId: string) =>
+  apiFetch<MessageResponse>(`/api/device-models/${modelId}`, { method: 'DELETE' });
+
+// ==================== SERIAL RULES ====================
+
+export const getSerialRules = () => apiFetch<SerialRule[]>('/api/serial-rules');
+
+export const createSerialRule = (data: SerialRuleInput) =>
+  apiFetch<SerialRule>('/api/serial-rules', { method: 'POST', body: data });
+
+export const updateSerialRule = (ruleId: string, data: SerialRuleInput) =>
+  apiFetch<SerialRule>(`/api/serial-rules/${ruleId}`, { method: 'PUT', body: data });
+
+export const deleteSerialRule = (ruleId: string) =>
+  apiFetch<MessageResponse>(`/api/serial-rules/${ruleId}`, { method: 'DELETE' });
+
+// ==================== LOCATIONS ====================
+
+export const getLocations = () => apiFetch<Location[]>('/api/locations');
+
+export const createLocation = (data: LocationInput) =>
+  apiFetch<Location>('/api/locations', { method: 'POST', body: data });
+
+export const updateLocation = (locationId: string, data: LocationInput) =>
+  apiFetch<Location>(`/api/locations/${locationId}`, { method: 'PUT', body: data });
+
+export const deleteLocation = (locationId: string) =>
+  apiFetch<MessageResponse>(`/api/locations/${locationId}`, { method: 'DELETE' });
+
+// ==================== DEVICES ====================
+
+export const getDevices = (query: DeviceListQuery = {}) =>
+  apiFetch<DevicePage>(withQuery('/api/devices', query));
+
+// Walks every page - only for small sets such as a worker's own devices
+export async function getAllDevices(filters: DeviceFilters = {}) {
+  const devices: Device[] = [];
+  let page: DevicePage;
+  do {
+    page = await getDevices({ ...filters, skip: devices.length, limit: 500 });
+    devices.push(...page.items);
+  } while (page.has_more && page.items.length > 0);
+  return devices;
+}
+
+export const getDeviceCounts = (filters: DeviceFilters = {}, options: RequestOptions = {}) =>
+  apiFetch<DeviceCounts>(withQuery('/api/devices/counts', filters), options);
+
+export const getDevice = (deviceId: string) => apiFetch<Device>(`/api/devices/${deviceId}`);
+
+export const getDeviceLifecycle = () => apiFetch<DeviceLifecycle>('/api/devices/lifecycle');
+
+export const scanDevice = (code: string) =>
+  apiFetch<Device>(`/api/devices/scan/${encodeURIComponent(code.trim())}`);
+
+export const uploadImportFile = (file: UploadableFile) =>
+  upload<ImportUpload>('/api/devices/import/upload', file);
+
+export const dryRunImport = (data: ImportRequest) =>
+  apiFetch<ImportDryRun>('/api/devices/import/dry-run', { method: 'POST', body: data });
+
+export const commitImport = (data: ImportRequest) =>
+  apiFetch<ImportResult>('/api/devices/import', { method: 'POST', body: data });
+
+export const addSingleDevice = (data: {
+  nazwa?: string;
+  model_id?: string;
+  location_id?: string;
+  numer_seryjny?: string;
+  kod_kreskowy?: string;
+  kod_qr?: string;
+  batch_id?: string;
+}) =>
+  apiFetch<Device>('/api/devices/add-single', { method: 'POST', body: data });
+
+export const getInventorySummary = () => apiFetch<InventorySummary[]>('/api/devices/inventory/summary');
+
+// Opened outside apiFetch (browser tab or system viewer), so the token goes in the URL
+export const getDeviceLabelsUrl = (deviceIds: string[], layout: LabelLayout, token: string | null) =>
+  withQuery(`${API_URL}/api/devices/labels`, { device_ids: deviceIds.join(','), layout, token });
+
+export const getLocationInventory = () => apiFetch<LocationInventory[]>('/api/devices/inventory/locations');
+
+export const getUserInventory = (userId: string) =>
+  apiFetch<UserInventory>(`/api/devices/inventory/${userId}`);
+
+export const assignDevice = (deviceId: string, workerId: string) =>
+  apiFetch<MessageResponse>(`/api/devices/${deviceId}/assign`, {
+    method: 'POST',
+    body: { worker_id: workerId },
+  });
+
+export const assignMultipleDevices = (deviceIds: string[], workerId: string) =>
+  apiFetch<MessageResponse & { assigned: number; skipped: number; results: DeviceAssignResult[] }>('/api/devices/assign-multiple', {
+    method: 'POST',
+    body: { device_ids: deviceIds, worker_id: workerId },
+  });
+
+// Only to a warehouse or van - workers get devices by assignment
+export const moveDevices = (deviceIds: string[], locationId: string) =>
+  apiFetch<MessageResponse & { moved: number; skipped: number }>('/api/devices/move', {
+    method: 'POST',
+    body: { device_ids: deviceIds, location_id: locationId },
+  });
+
+export const restoreDevice = (deviceId: string) =>
+  apiFetch<MessageResponse & { assigned_to: string; assigned_to_name: string }>(
+    `/api/devices/${deviceId}/restore`,
+    { method: 'POST' }
+  );
+
+export const transferDevice = (deviceId: string, workerId: string) =>
+  apiFetch<MessageResponse & { new_worker_id: string; new_worker_name: string }>(
+    `/api/devices/${deviceId}/transfer`,
+    { method: 'POST', body: { worker_id: workerId } }
+  );
+
+export const markDeviceDamaged = (deviceId: string) =>
+  apiFetch<MessageResponse>(`/api/devices/${deviceId}/mark-damaged`, {
+    method: 'POST',
+    body: { device_id: deviceId },
+  });
+
+// ==================== CUSTOMER ADDRESSES ====================
+
+export const getAddresses = (search?: string, limit?: number) =>
+  apiFetch<CustomerAddress[]>(withQuery('/api/addresses', { search, limit }));
+
+export const createAddress = (data: CustomerAddressInput) =>
+  apiFetch<CustomerAddress>('/api/addresses', { method: 'POST', body: data });
+
+export const getAddress = (addressId: string) =>
+  apiFetch<CustomerAddressDetail>(`/api/addresses/${addressId}`);
+
+export const updateAddress = (addressId: string, data: CustomerAddressInput) =>
+  apiFetch<CustomerAddress>(`/api/addresses/${addressId}`, { method: 'PUT', body: data });
+
+export const mergeAddresses = (addressId: string, sourceIds: string[]) =>
+  apiFetch<MessageResponse & { moved_installations: number }>(`/api/addresses/${addressId}/merge`, {
+    method: 'POST',
+    body: { source_ids: sourceIds },
+  });
+
+// ==================== INSTALLATIONS ====================
+
+export interface CreateInstallationRequest {
+  device_id: string;
+  adres_klienta: string;
+  // Registry entry picked in the app, or the parts to find / create it from
+  address_id?: string | null;
+  address?: CustomerAddressInput;
+  latitude?: number | null;
+  longitude?: number | null;
+  rodzaj_zlecenia: string;
+}
+
+export const createInstallation = (data: CreateInstallationRequest) =>
+  apiFetch<Installation>('/api/installations', { method: 'POST', body: data });
+
+export interface CreateInstallationJobRequest extends Omit<CreateInstallationRequest, 'device_id'> {
+  device_ids: string[];
+  // Required for wymiana / awaria - the customer's old devices, they go to returns
+  removed_serials?: string[];
+  photos?: InstallationPhoto[];
+  signature?: SignatureDrawing | null;
+}
+
+export const createInstallationJob = (data: CreateInstallationJobRequest) =>
+  apiFetch<InstallationJob>('/api/installation-jobs', { method: 'POST', body: data });
+
+export const getInstallationJob = (jobId: string) =>
+  apiFetch<InstallationJob>(`/api/installation-jobs/${jobId}`);
+
+export const getInstallations = (
+  filters: { user_id?: string; date_from?: string; date_to?: string; rodzaj_zlecenia?: string } = {}
+) => apiFetch<Installation[]>(withQuery('/api/installations', filters));
+
+export const getInstallationStats = (options: RequestOptions = {}) =>
+  apiFetch<InstallationStats>('/api/installations/stats', options);
+
+export const getDailyReport = () => apiFetch<DailyReport>('/api/report/daily');
+
+// ==================== ATTACHMENTS ====================
+
+export const uploadAttachment = (file: UploadableFile) => upload<Attachment>('/api/attachments', file);
+
+// <Image> cannot send headers, so the session token goes in the query string
+export const getAttachmentUrl = (attachmentId: string, token: string | null, thumbnail = false) =>
+  withQuery(`${API_URL}/api/attachments/${attachmentId}${thumbnail ? '/thumbnail' : ''}`, { token });
+
+// ==================== MESSAGES ====================
+
+export const getMessages = (
+  params: { channel_id?: string; limit?: number; before?: string } = {},
+  options: RequestOptions = {}
+) => apiFetch<Message[]>(withQuery('/api/messages', params), options);
+
+export interface SendMessageInput {
+  channel_id?: string;
+  content?: string;
+  attachment_id?: string;
+  // Device may be referenced by id or serial number
+  reference?: { type: MessageReferenceType; id: string };
+}
+
+export const sendMessage = (data: SendMessageInput) =>
+  apiFetch<Message>('/api/messages', { method: 'POST', body: data });
+
+export const getUnreadMessagesCount = (options: RequestOptions = {}) =>
+  apiFetch<UnreadCount>('/api/messages/unread-count', options);
+
+// Without a message id the cursor moves to the newest message of the channel
+export const markMessagesRead = (channelId: string, messageId?: string, options: RequestOptions = {}) =>
+  apiFetch<ChatReadCursor>('/api/messages/read', {
+    ...options,
+    method: 'POST',
+    body: { channel_id: channelId, message_id: messageId },
+  });
+
+export const getReadReceipts = (channelId: string, options: RequestOptions = {}) =>
+  apiFetch<ChatReadCursor[]>(withQuery('/api/messages/read-receipts', { channel_id: channelId }), options);
+
+// ==================== CHAT CHANNELS ====================
+
+export const getChannels = (options: RequestOptions = {}) =>
+  apiFetch<ChatChannel[]>('/api/channels', options);
+
+export const getChatContacts = () =>
+  apiFetch<Worker[]>('/api/channels/contacts');
+
+export const openDirectChannel = (userId: string) =>
+  apiFetch<ChatChannel>('/api/channels/direct', { method: 'POST', body: { user_id: userId } });
+
+export const createChannel = (data: { name: string; members: string[] }) =>
+  apiFetch<ChatChannel>('/api/channels', { method: 'POST', body: data });
+
+export const updateChannel = (channelId: string, data: { name?: string; members?: string[] }) =>
+  apiFetch<ChatChannel>(`/api/channels/${channelId}`, { method: 'PUT', body: data });
+
+export const deleteChannel = (channelId: string) =>
+  apiFetch<MessageResponse>(`/api/channels/${channelId}`, { method: 'DELETE' });
+
+// ==================== TASKS ====================
+
+export interface TaskInput {
+  title: string;
+  description?: string;
+  assigned_to: string;
+  due_date: string;
+  priority: TaskPriority;
+}
+
+export interface TaskUpdate extends Partial<Omit<TaskInput, 'assigned_to'>> {
+  status?: TaskStatus;
+  completion_attachments?: string[];
+}
+
+export const getTasks = (filters: { status?: TaskStatus; assigned_to?: string } = {}, options: RequestOptions = {}) =>
+  apiFetch<Task[]>(withQuery('/api/tasks', filters), options);
+
+export const getTask = (taskId: string) => apiFetch<Task>(`/api/tasks/${taskId}`);
+
+export const createTask = (data: TaskInput) =>
+  apiFetch<Task>('/api/tasks', { method: 'POST', body: data });
+
+export const updateTask = (taskId: string, data: TaskUpdate) =>
+  apiFetch<MessageResponse>(`/api/tasks/${taskId}`, { method: 'PUT', body: data });
+
+export const deleteTask = (taskId: string) =>
+  apiFetch<MessageResponse>(`/api/tasks/${taskId}`, { method: 'DELETE' });
+
+export const checkTaskReminders = () =>
+  apiFetch<{ reminders: TaskReminder[]; count: number }>('/api/tasks/reminders/check');
+
+// ==================== RETURNS ====================
+
+export const getDeviceReturns = () => apiFetch<DeviceReturn[]>('/api/returns');
+
+export const addDeviceReturn = (data: { device_serial: string; device_type: string; device_status: string }) =>
+  apiFetch<DeviceReturn>('/api/returns', { method: 'POST', body: data });
+
+export const addBulkReturns = (data: { device_serials: string[]; device_type?: string; device_status?: string }) =>
+  apiFetch<MessageResponse & { added: number; skipped: number; rejected: number }>('/api/returns/bulk', {
+    method: 'POST',
+    body: data,
+  });
+
+export const updateDeviceReturn = (returnId: string, data: { device_type?: string; device_status?: string }) =>
+  apiFetch<MessageResponse>(`/api/returns/${returnId}`, { method: 'PUT', body: data });
+
+export const deleteDeviceReturn = (returnId: string) =>
+  apiFetch<MessageResponse>(`/api/returns/${returnId}`, { method: 'DELETE' });
+
+export const markReturnsAsReturned = () =>
+  apiFetch<MessageResponse & { count: number }>('/api/returns/mark-returned', { method: 'POST' });
+
+// ==================== IMPORT BATCHES ====================
+
+export const getImportBatches = (limit = 50) =>
+  apiFetch<ImportBatch[]>(withQuery('/api/import-batches', { limit }));
+
+export const getImportBatch = (batchId: string) => apiFetch<ImportBatchDetail>(`/api/import-batches/${batchId}`);
+
+export const rollbackImportBatch = (batchId: string) =>
+  apiFetch<MessageResponse & { removed: number }>(`/api/import-batches/${batchId}/rollback`, { method: 'POST' });
+
+// ==================== ACTIVITY LOGS ====================
+
+export const getUserActivityLogs = (userId: string, limit = 100) =>
+  apiFetch<ActivityLog[]>(withQuery(`/api/activity-logs/user/${userId}`, { limit }));
+
+export const getDeviceHistory = (deviceSerial: string, limit = 100) =>
+  apiFetch<DeviceHistory>(
+    withQuery(`/api/activity-logs/device/${encodeURIComponent(deviceSerial)}`, { limit })
+  );
+
+export const getRecentActivityLogs = (filters: { limit?: number; user_id?: string; action_type?: string } = {}) =>
+  apiFetch<ActivityLog[]>(withQuery('/api/activity-logs/recent', filters));
+
+// ==================== ORDERS ====================
+
+export const getOrders = (filters: { status?: OrderStatus; user_id?: string } = {}) =>
+  apiFetch<Order[]>(withQuery('/api/orders', filters));
+
+export const getOrder = (orderId: string) => apiFetch<Order>(`/api/orders/${orderId}`);
+
+export const createOrder = (items: OrderItem[]) =>
+  apiFetch<Order>('/api/orders', { method: 'POST', body: { items } });
+
+export const processOrder = (orderId: string, status: Exclude<OrderStatus, 'pending'>) =>
+  apiFetch<MessageResponse>(`/api/orders/${orderId}/process`, { method: 'POST', body: { status } });
+
+export const getPendingOrdersCount = (options: RequestOptions = {}) =>
+  apiFetch<{ count: number }>('/api/orders/pending/count', options);
+
+export const getOrderableItems = () => apiFetch<OrderableItem[]>('/api/orders/items');
+
+export const addOrderableItem = (name: string) =>
+  apiFetch<OrderableItem>('/api/orders/items', { method: 'POST', body: { name } });
+
+export const deleteOrderableItem = (itemId: string) =>
+  apiFetch<MessageResponse>(`/api/orders/items/${itemId}`, { method: 'DELETE' });
+
+// ==================== STOCK LEVELS ====================
+
+export const getStockLevels = (userId?: string) =>
+  apiFetch<StockLevel[]>(withQuery('/api/stock-levels', { user_id: userId }));
+
+export const setStockLevel = (data: StockLevelInput) =>
+  apiFetch<StockLevel>('/api/stock-levels', { method: 'PUT', body: data });
+
+export const deleteStockLevel = (levelId: string) =>
+  apiFetch<MessageResponse>(`/api/stock-levels/${levelId}`, { method: 'DELETE' });
+
+// Admins get every worker, workers only their own
+export const getStockAlerts = () => apiFetch<StockLevel[]>('/api/stock-levels/alerts');
+
+export const getStockSettings = () => apiFetch<StockSettings>('/api/stock-levels/settings');
+
+export const updateStockSettings = (data: StockSettings) =>
+  apiFetch<StockSettings>('/api/stock-levels/settings', { method: 'PUT', body: data });
+
+// ==================== STOCKTAKE ====================
+
+export const getStocktakes = (limit = 50) => apiFetch<Stocktake[]>(withQuery('/api/stocktakes', { limit }));
+
+export const getStocktake = (stocktakeId: string) => apiFetch<Stocktake>(`/api/stocktakes/${stocktakeId}`);
+
+export const openStocktake = (data: { location_id: string; counted_by?: string }) =>
+  apiFetch<Stocktake>('/api/stocktakes', { method: 'POST', body: data });
+
+export const scanStocktakeDevice = (stocktakeId: string, code: string) =>
+  apiFetch<StocktakeScanResponse>(`/api/stocktakes/${stocktakeId}/scan`, { method: 'POST', body: { code } });
+
+export const closeStocktake = (stocktakeId: string) =>
+  apiFetch<Stocktake>(`/api/stocktakes/${stocktakeId}/close`, { method: 'POST' });
+
+export const cancelStocktake = (stocktakeId: string) =>
+  apiFetch<MessageResponse>(`/api/stocktakes/${stocktakeId}/cancel`, { method: 'POST' });
+
+export const resolveStocktakeEntry = (stocktakeId: string, deviceId: string, action: StocktakeAction) =>
+  apiFetch<Stocktake>(`/api/stocktakes/${stocktakeId}/resolve`, {
+    method: 'POST',
+    body: { device_id: deviceId, action },
+  });
+
+// ==================== VEHICLES ====================
+
+export type VehicleInput = Pick<Vehicle, 'plate_number' | 'brand' | 'model' | 'year'>;
+
+export const getVehicles = () => apiFetch<Vehicle[]>('/api/vehicles');
+
+export const createVehicle = (data: VehicleInput) =>
+  apiFetch<Vehicle>('/api/vehicles', { method: 'POST', body: data });
+
+export const updateVehicle = (vehicleId: string, data: Partial<VehicleInput>) =>
+  apiFetch<MessageResponse>(`/api/vehicles/${vehicleId}`, { method: 'PUT', body: data });
+
+export const deleteVehicle = (vehicleId: string) =>
+  apiFetch<MessageResponse>(`/api/vehicles/${vehicleId}`, { method: 'DELETE' });
+
+// Passing null as workerId unassigns the vehicle
+export const assignVehicle = (vehicleId: string, workerId: string | null) =>
+  apiFetch<MessageResponse>(`/api/vehicles/${vehicleId}/assign`, {
+    method: 'POST',
+    body: { worker_id: workerId },
+  });
+
+// ==================== EQUIPMENT ====================
+
+export type EquipmentInput = Pick<Equipment, 'name' | 'type' | 'serial_number' | 'description'>;
+
+export const getEquipment = () => apiFetch<Equipment[]>('/api/equipment');
+
+export const createEquipment = (data: EquipmentInput) =>
+  apiFetch<Equipment>('/api/equipment', { method: 'POST', body: data });
+
+export const updateEquipment = (equipmentId: string, data: Partial<EquipmentInput>) =>
+  apiFetch<MessageResponse>(`/api/equipment/${equipmentId}`, { method: 'PUT', body: data });
+
+export const deleteEquipment = (equipmentId: string) =>
+  apiFetch<MessageResponse>(`/api/equipment/${equipmentId}`, { method: 'DELETE' });
+
+// Passing null as workerId unassigns the item
+export const assignEquipment = (equipmentId: string, workerId: string | null) =>
+  apiFetch<MessageResponse>(`/api/equipment/${equipmentId}/assign`, {
+    method: 'POST',
+    body: { worker_id: workerId },
+  });
+
+export const getEquipmentTypes = () => apiFetch<EquipmentType[]>('/api/equipment/types');
+
+export const createEquipmentType = (name: string) =>
+  apiFetch<EquipmentType>('/api/equipment/types', { method: 'POST', body: { name } });
+
+export const deleteEquipmentType = (typeId: string) =>
+  apiFetch<MessageResponse>(`/api/equipment/types/${typeId}`, { method: 'DELETE' });
+
+// ==================== BACKUP ====================
+
+export const getBackupSettings = () => apiFetch<BackupSettings>('/api/backup/settings');
+
+export const updateBackupSettings = (settings: BackupSettings) =>
+  apiFetch<{ status: string; message: string }>('/api/backup/settings', {
+    method: 'POST',
+    body: settings,
+  });
+
+export const createBackup = (options: { send_email: boolean; send_ftp: boolean }) =>
+  apiFetch<BackupResult>('/api/backup/create', { method: 'POST', body: options });
+
+export const getBackupLogs = () => apiFetch<BackupLog[]>('/api/backup/logs');
+
+export const testEmailBackup = () =>
+  apiFetch<{ status: string; message: string }>('/api/backup/test-email', { method: 'POST' });
+
+export const testFtpBackup = () =>
+  apiFetch<{ status: string; message: string }>('/api/backup/test-ftp', { method: 'POST' });
+
+export const importBackupJson = (file: UploadableFile) =>
+  upload<Record<string, number>>('/api/backup/import-json', file);
+
+export const importBackupExcel = (file: UploadableFile) =>
+  upload<Record<string, number>>('/api/backup/import-excel', file);
@@ -0,0 +1,24 @@
+import { Linking, Platform } from 'react-native';
+import { getDeviceLabelsUrl } from './apiClient';
+import { LabelLayout } from '../types/models';
+
+// Must match DEVICE_LABEL_PREFIX in backend/server.py
+export const DEVICE_LABEL_PREFIX = 'ITS:';
+
+// Serial number from one of our printed labels, null for any other code.
+// Operator serials and barcodes have no colon, so no other code starts like this.
+export function parseDeviceLabel(rawData: string): string | null {
+  const data = rawData.trim();
+  if (!data.toUpperCase().startsWith(DEVICE_LABEL_PREFIX)) return null;
+  return data.slice(DEVICE_LABEL_PREFIX.length).trim() || null;
+}
+
+// The server renders the PDF, the browser or the system viewer prints it
+export async function openDeviceLabels(deviceIds: string[], layout: LabelLayout, token: string | null) {
+  const url = getDeviceLabelsUrl(deviceIds, layout, token);
+  if (Platform.OS === 'web') {
+    window.open(url, '_blank');
+  } else {
+    await Linking.openURL(url);
+  }
+}
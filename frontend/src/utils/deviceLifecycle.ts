@@ -0,0 +1,30 @@
+import { getDeviceLifecycle } from './apiClient';
+import { Device, DeviceAction, DeviceLifecycle, User } from '../types/models';
+
+// The rules only change with a server deploy, so one request per app start is enough
+let lifecyclePromise: Promise<DeviceLifecycle> | null = null;
+
+export function loadDeviceLifecycle(): Promise<DeviceLifecycle> {
+  if (!lifecyclePromise) {
+    lifecyclePromise = getDeviceLifecycle().catch((error) => {
+      lifecyclePromise = null;
+      throw error;
+    });
+  }
+  return lifecyclePromise;
+}
+
+// Mirrors check_device_transition in backend/server.py (without the required data,
+// which the screen collects when the action is started)
+export function canPerformAction(
+  lifecycle: DeviceLifecycle | null,
+  device: Device,
+  user: Pick<User, 'user_id' | 'role'> | null,
+  action: DeviceAction
+): boolean {
+  if (!lifecycle || !user) return false;
+  const rule = lifecycle.actions[action];
+  if (!rule || !rule.roles.includes(user.role)) return false;
+  if (rule.holder && user.role !== 'admin' && device.przypisany_do !== user.user_id) return false;
+  return rule.from.includes(device.status);
+}
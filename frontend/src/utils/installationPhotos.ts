@@ -0,0 +1,11 @@
+import { InstallationPhotoKind } from '../types/models';
+
+// Mirrors INSTALLATION_PHOTO_KINDS in backend/server.py, in the order the installer takes them
+export const INSTALLATION_PHOTO_LABELS: Record<InstallationPhotoKind, string> = {
+  ont: 'Umiejscowienie ONT',
+  power_meter: 'Pomiar mocy optycznej',
+  label: 'Etykieta urządzenia',
+  other: 'Inne',
+};
+
+export const INSTALLATION_PHOTO_KINDS = Object.keys(INSTALLATION_PHOTO_LABELS) as InstallationPhotoKind[];
@@ -0,0 +1,204 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiFetch, ApiError, isNetworkError, uploadFile } from './api';
+import { Attachment, Device, InstallationPhotoKind } from '../types/models';
+
+// Operations that can be recorded without connectivity and sent later
+// ('installation' is only left in queues recorded before installation jobs)
+export type OutboxKind = 'installation' | 'installation_job' | 'mark_damaged' | 'return';
+
+export type OutboxStatus = 'pending' | 'conflict';
+
+// Photo taken without signal, kept as a local file until the item is sent
+export interface OutboxUpload {
+  uri: string;
+  name: string;
+  type: string;
+  kind: InstallationPhotoKind;
+}
+
+export interface OutboxItem {
+  id: string;
+  kind: OutboxKind;
+  endpoint: string;
+  body: Record<string, any>;
+  label: string;
+  // Uploaded before the item is sent, their attachment ids go to body.photos
+  uploads?: OutboxUpload[];
+  created_at: string;
+  attempts: number;
+  status: OutboxStatus;
+  error?: string;
+}
+
+export type NewOutboxItem = Pick<OutboxItem, 'kind' | 'endpoint' | 'body' | 'label' | 'uploads'>;
+
+export interface ReplayResult {
+  sent: number;
+  conflicts: number;
+  offline: boolean;
+}
+
+export type CachedDevice = Pick<Device, 'device_id' | 'nazwa' | 'model_id' | 'numer_seryjny' | 'kod_kreskowy' | 'kod_qr' | 'status'>;
+
+const outboxKey = (userId: string) => `outbox_${userId}`;
+const deviceCacheKey = (userId: string) => `offlineDevices_${userId}`;
+
+// Serialize read-modify-write cycles so an enqueue never overwrites a replay update
+let storageLock: Promise<unknown> = Promise.resolve();
+let isReplaying = false;
+
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = storageLock.then(fn, fn);
+  storageLock = run.catch(() => undefined);
+  return run;
+}
+
+export async function loadOutbox(userId: string): Promise<OutboxItem[]> {
+  try {
+    const stored = await AsyncStorage.getItem(outboxKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading outbox:', error);
+    return [];
+  }
+}
+
+async function saveOutbox(userId: string, items: OutboxItem[]) {
+  await AsyncStorage.setItem(outboxKey(userId), JSON.stringify(items));
+}
+
+async function updateOutbox(userId: string, update: (items: OutboxItem[]) => OutboxItem[]) {
+  return withLock(async () => {
+    const items = update(await loadOutbox(userId));
+    await saveOutbox(userId, items);
+    return items;
+  });
+}
+
+export async function enqueueOutboxItem(userId: string, item: NewOutboxItem): Promise<OutboxItem> {
+  const id = `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+  const entry: OutboxItem = {
+    ...item,
+    id,
+    // The id doubles as an idempotency key, so a replay after a lost response is not applied twice
+    body: { ...item.body, client_request_id: id, recorded_at: new Date().toISOString() },
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending',
+  };
+  await updateOutbox(userId, (items) => [...items, entry]);
+  return entry;
+}
+
+export async function removeOutboxItem(userId: string, id: string) {
+  return updateOutbox(userId, (items) => items.filter((i) => i.id !== id));
+}
+
+export async function retryOutboxItem(userId: string, id: string) {
+  return updateOutbox(userId, (items) =>
+    items.map((i) => (i.id === id ? { ...i, status: 'pending', error: undefined } : i))
+  );
+}
+
+// 4xx answers mean the server rejected this particular item; anything else is worth retrying later
+function isConflict(error: unknown): error is ApiError {
+  return error instanceof ApiError
+    && error.status >= 400
+    && error.status < 500
+    && ![401, 408, 429].includes(error.status);
+}
+
+// Upload the item's files one by one, saving progress so a retry does not send a photo twice
+async function sendUploads(userId: string, item: OutboxItem): Promise<Record<string, any>> {
+  let body = item.body;
+  const uploads = [...(item.uploads || [])];
+  while (uploads.length > 0) {
+    const { kind, ...file } = uploads[0];
+    const attachment = await uploadFile<Attachment>('/api/attachments', file);
+    uploads.shift();
+    body = { ...body, photos: [...(body.photos || []), { attachment_id: attachment.attachment_id, kind }] };
+    const progress = { body, uploads: [...uploads] };
+    await updateOutbox(userId, (items) => items.map((i) => (i.id === item.id ? { ...i, ...progress } : i)));
+  }
+  return body;
+}
+
+// Send pending items in the order they were recorded. Stops at the first item that
+// could not be delivered so later operations never overtake earlier ones.
+export async function replayOutbox(userId: string): Promise<ReplayResult> {
+  const result: ReplayResult = { sent: 0, conflicts: 0, offline: false };
+  if (isReplaying) return result;
+  isReplaying = true;
+
+  try {
+    const pending = (await loadOutbox(userId)).filter((i) => i.status === 'pending');
+
+    for (const item of pending) {
+      try {
+        const body = await sendUploads(userId, item);
+        await apiFetch(item.endpoint, { method: 'POST', body });
+        await removeOutboxItem(userId, item.id);
+        result.sent++;
+      } catch (error: any) {
+        if (isConflict(error)) {
+          await updateOutbox(userId, (items) =>
+            items.map((i) =>
+              i.id === item.id
+                ? { ...i, status: 'conflict', attempts: i.attempts + 1, error: error.detail }
+                : i
+            )
+          );
+          result.conflicts++;
+          continue;
+        }
+
+        await updateOutbox(userId, (items) =>
+          items.map((i) => (i.id === item.id ? { ...i, attempts: i.attempts + 1 } : i))
+        );
+        result.offline = isNetworkError(error);
+        break;
+      }
+    }
+  } finally {
+    isReplaying = false;
+  }
+
+  return result;
+}
+
+// ==================== OFFLINE DEVICE LOOKUP ====================
+
+export async function cacheDevices(userId: string, devices: CachedDevice[]) {
+  const usable = devices
+    .filter((d) => d.status !== 'zainstalowany')
+    .map(({ device_id, nazwa, model_id, numer_seryjny, kod_kreskowy, kod_qr, status }) => ({
+      device_id, nazwa, model_id, numer_seryjny, kod_kreskowy, kod_qr, status,
+    }));
+  await AsyncStorage.setItem(deviceCacheKey(userId), JSON.stringify(usable));
+}
+
+// Look a scanned code up in the last device list fetched while online.
+// Devices that already have a queued operation are skipped.
+export async function findCachedDevice(userId: string, codes: string[]): Promise<CachedDevice | null> {
+  try {
+    const stored = await AsyncStorage.getItem(deviceCacheKey(userId));
+    if (!stored) return null;
+
+    const devices: CachedDevice[] = JSON.parse(stored);
+    // Installation jobs queue several devices under device_ids
+    const queuedIds = new Set(
+      (await loadOutbox(userId)).flatMap((i) => [i.body.device_id, ...(i.body.device_ids || [])]).filter(Boolean)
+    );
+    const wanted = codes.map((c) => c.trim().toUpperCase()).filter(Boolean);
+
+    return devices.find((d) =>
+      !queuedIds.has(d.device_id) &&
+      [d.numer_seryjny, d.kod_kreskowy, d.kod_qr].some(
+        (value) => value && wanted.includes(value.toUpperCase())
+      )
+    ) || null;
+  } catch (error) {
+    console.error('Error reading device cache:', error);
+    return null;
+  }
+}
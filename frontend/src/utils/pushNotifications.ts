@@ -0,0 +1,76 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import * as Notifications from 'expo-notifications';
+import { registerPushToken, unregisterPushToken } from './apiClient';
+import { PushNotificationData } from '../types/models';
+
+const PUSH_TOKEN_KEY = 'push_token';
+
+// Notifications arriving while the app is open. Chat messages already get the
+// in-app banner from NotificationContext, so the system one is skipped for them.
+Notifications.setNotificationHandler({
+  handleNotification: async (notification) => {
+    const data = notification.request.content.data as Partial<PushNotificationData> | undefined;
+    const showBanner = data?.category !== 'messages';
+    return {
+      shouldShowBanner: showBanner,
+      shouldShowList: showBanner,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    };
+  },
+});
+
+async function getExpoPushToken(): Promise<string | null> {
+  // Expo push tokens exist only in the native apps
+  if (Platform.OS === 'web') return null;
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync('default', {
+      name: 'Powiadomienia',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  const { status: existingStatus } = await Notifications.getPermissionsAsync();
+  let finalStatus = existingStatus;
+  if (existingStatus !== 'granted') {
+    const { status } = await Notifications.requestPermissionsAsync();
+    finalStatus = status;
+  }
+  if (finalStatus !== 'granted') return null;
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  if (!projectId) {
+    console.log('Push notifications disabled: no EAS projectId configured');
+    return null;
+  }
+
+  const { data } = await Notifications.getExpoPushTokenAsync({ projectId });
+  return data;
+}
+
+// Called after login - ties this device to the logged in user on the server
+export async function registerForPushNotifications() {
+  try {
+    const token = await getExpoPushToken();
+    if (!token) return;
+    await registerPushToken(token, Platform.OS);
+    await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+  } catch (error) {
+    console.error('Push registration failed:', error);
+  }
+}
+
+// Called before logout, while the session token is still valid
+export async function unregisterFromPushNotifications() {
+  try {
+    const token = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+    if (!token) return;
+    await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+    await unregisterPushToken(token);
+  } catch (error) {
+    console.error('Push unregistration failed:', error);
+  }
+}
@@ -0,0 +1,54 @@
+import { Platform, Vibration } from 'react-native';
+import * as Haptics from 'expo-haptics';
+
+export type ScanFeedback = 'success' | 'warning' | 'error';
+
+// Tone per outcome, errors are low and long so they are told apart without looking
+const TONES: Record<ScanFeedback, { frequency: number; duration: number }> = {
+  success: { frequency: 1400, duration: 0.08 },
+  warning: { frequency: 700, duration: 0.15 },
+  error: { frequency: 300, duration: 0.4 },
+};
+
+let audioContext: AudioContext | null = null;
+
+function playTone(feedback: ScanFeedback) {
+  const AudioContextClass = typeof window !== 'undefined'
+    ? window.AudioContext || (window as any).webkitAudioContext
+    : undefined;
+  if (!AudioContextClass) return;
+
+  audioContext = audioContext || new AudioContextClass();
+  const { frequency, duration } = TONES[feedback];
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  oscillator.frequency.value = frequency;
+  gain.gain.value = 0.2;
+  oscillator.connect(gain);
+  gain.connect(audioContext.destination);
+  oscillator.start();
+  oscillator.stop(audioContext.currentTime + duration);
+}
+
+// Lets the user keep the camera on the devices instead of the screen while batch scanning.
+// The app ships no audio player, so phones signal with the vibration motor only.
+export function signalScan(feedback: ScanFeedback) {
+  try {
+    if (Platform.OS === 'web') {
+      playTone(feedback);
+      return;
+    }
+    if (feedback === 'error') {
+      Vibration.vibrate([0, 150, 100, 150]);
+    }
+    Haptics.notificationAsync(
+      feedback === 'success'
+        ? Haptics.NotificationFeedbackType.Success
+        : feedback === 'warning'
+          ? Haptics.NotificationFeedbackType.Warning
+          : Haptics.NotificationFeedbackType.Error
+    );
+  } catch (error) {
+    console.error('Scan feedback failed:', error);
+  }
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSerialRules } from './apiClient';
+import { parseDeviceLabel } from './deviceLabels';
+import { SerialRule } from '../types/models';
+
+// Where the serial number of a scanned payload came from
+export type SerialSource = 'label' | 'rule' | 'fallback';
+
+export interface SerialRuleMatch {
+  rule: SerialRule;
+  value: string;
+}
+
+export interface SerialExtraction {
+  serial: string;
+  source: SerialSource;
+  // Rule that produced the serial, null for our own labels and the fallback
+  rule: SerialRule | null;
+  // Every enabled rule that matched, in the order they were tried
+  matches: SerialRuleMatch[];
+  // Distinct values worth looking up, best first
+  candidates: string[];
+}
+
+const RULES_CACHE_KEY = 'serialRules';
+
+// GS1 group separator (FNC1) ending a variable-length element
+const GS = '\x1d';
+
+// [AI prefix, AI length, data length (null = variable, ended by GS or the payload)]
+const GS1_AI_FORMATS: [string, number, number | null][] = [
+  ['00', 2, 18], ['01', 2, 14], ['02', 2, 14], ['03', 2, 14],
+  ['11', 2, 6], ['12', 2, 6], ['13', 2, 6], ['15', 2, 6], ['16', 2, 6], ['17', 2, 6], ['20', 2, 2],
+  ['10', 2, null], ['21', 2, null], ['22', 2, null], ['30', 2, null], ['37', 2, null], ['9', 2, null],
+  ['23', 3, null], ['24', 3, null], ['25', 3, null], ['40', 3, null], ['41', 3, 13], ['42', 3, null],
+  ['31', 4, 6], ['32', 4, 6], ['33', 4, 6], ['34', 4, 6], ['35', 4, 6], ['36', 4, 6],
+  ['7', 4, null], ['8', 4, null],
+];
+
+let rulesPromise: Promise<SerialRule[]> | null = null;
+
+// One request per app start (and after an admin edits the rules). The last list
+// is kept on the phone, so scanning without connectivity extracts the same way.
+export function loadSerialRules(): Promise<SerialRule[]> {
+  if (!rulesPromise) {
+    rulesPromise = getSerialRules()
+      .then(async (rules) => {
+        await AsyncStorage.setItem(RULES_CACHE_KEY, JSON.stringify(rules)).catch(() => undefined);
+        return rules;
+      })
+      .catch(async (error) => {
+        rulesPromise = null;
+        const stored = await AsyncStorage.getItem(RULES_CACHE_KEY).catch(() => null);
+        if (stored) return JSON.parse(stored) as SerialRule[];
+        console.error('Error loading serial rules:', error);
+        return [];
+      });
+  }
+  return rulesPromise;
+}
+
+export function invalidateSerialRules() {
+  rulesPromise = null;
+}
+
+// Rules for a scanning screen - empty until loaded, the fallback still applies meanwhile
+export function useSerialRules(): SerialRule[] {
+  const [rules, setRules] = useState<SerialRule[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    loadSerialRules().then((loaded) => {
+      if (active) setRules(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return rules;
+}
+
+// Element strings of a GS1 payload keyed by AI, null when the payload is not GS1.
+// Accepts the printed form "(01)...(21)..." and the raw form with GS separators.
+export function parseGs1(payload: string): Record<string, string> | null {
+  let data = payload.trim();
+  const elements: Record<string, string> = {};
+
+  if (data.startsWith('(')) {
+    const elementPattern = /\((\d{2,4})\)([^(]*)/g;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    while ((match = elementPattern.exec(data))) {
+      elements[match[1]] = match[2].trim();
+      consumed += match[0].length;
+    }
+    return consumed === data.length && Object.keys(elements).length ? elements : null;
+  }
+
+  // Symbology identifier some scanners put in front (GS1-128, DataMatrix, QR)
+  if (/^\](C1|d2|Q3|e0)/.test(data)) {
+    data = data.slice(3);
+  } else if (!data.includes(GS) && !/^0[0-3]\d/.test(data)) {
+    // Without a separator only a leading GTIN/SSCC makes a plain code recognisable as GS1
+    return null;
+  }
+
+  let pos = 0;
+  while (pos < data.length) {
+    if (data[pos] === GS) {
+      pos += 1;
+      continue;
+    }
+    const format = GS1_AI_FORMATS.find(([prefix]) => data.startsWith(prefix, pos));
+    if (!format) return null;
+
+    const [, aiLength, dataLength] = format;
+    const ai = data.slice(pos, pos + aiLength);
+    if (!/^\d+$/.test(ai)) return null;
+    pos += aiLength;
+
+    let end = dataLength === null ? data.indexOf(GS, pos) : pos + dataLength;
+    if (end === -1) end = data.length;
+    const value = data.slice(pos, end);
+    if (!value || end > data.length || (dataLength !== null && !/^\d+$/.test(value))) return null;
+
+    elements[ai] = value;
+    pos = end;
+  }
+  return Object.keys(elements).length ? elements : null;
+}
+
+function stripPrefix(value: string, prefixes: string[]): string {
+  const upper = value.toUpperCase();
+  const prefix = [...prefixes]
+    .sort((a, b) => b.length - a.length)
+    .find((p) => upper.startsWith(p.toUpperCase()));
+  return prefix ? value.slice(prefix.length).trim() : value;
+}
+
+function applyRule(rule: SerialRule, data: string, lines: string[]): string | null {
+  let value: string | null = null;
+
+  if (rule.kind === 'gs1') {
+    const elements = parseGs1(data);
+    const ai = elements && rule.ais.find((a) => elements[a]);
+    value = elements && ai ? elements[ai] : null;
+  } else if (rule.pattern) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(rule.pattern, 'i');
+    } catch {
+      // Valid for the server (Python) but not for JavaScript
+      return null;
+    }
+    for (const line of lines) {
+      const match = regex.exec(line);
+      if (match) {
+        value = match[1] ?? match[0];
+        break;
+      }
+    }
+  }
+
+  if (!value) return null;
+  return stripPrefix(value.trim(), rule.strip_prefixes) || null;
+}
+
+// What the scanner did before rules existed: a single line as it is,
+// otherwise the longest alphanumeric line
+function fallbackSerial(data: string, lines: string[]): string {
+  if (lines.length <= 1) return data;
+  const longest = [...lines]
+    .sort((a, b) => b.length - a.length)
+    .find((line) => /^[A-Z0-9]+$/i.test(line) && line.length >= 6);
+  return longest || lines[0];
+}
+
+// Serial number of a scanned payload: our own labels first, then the enabled
+// rules by priority, then the fallback
+export function extractSerial(rawData: string, rules: SerialRule[]): SerialExtraction {
+  const data = rawData.trim();
+
+  const labelSerial = parseDeviceLabel(data);
+  if (labelSerial) {
+    return { serial: labelSerial, source: 'label', rule: null, matches: [], candidates: [labelSerial] };
+  }
+
+  const lines = data.split(/[\r\n]+/).map((line) => line.trim()).filter(Boolean);
+  const matches: SerialRuleMatch[] = [];
+  [...rules]
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => a.priority - b.priority)
+    .forEach((rule) => {
+      const value = applyRule(rule, data, lines);
+      if (value) matches.push({ rule, value });
+    });
+
+  const fallback = fallbackSerial(data, lines);
+  const candidates = Array.from(new Set([...matches.map((m) => m.value), fallback])).filter(Boolean);
+
+  if (matches.length) {
+    return { serial: matches[0].value, source: 'rule', rule: matches[0].rule, matches, candidates };
+  }
+  return { serial: fallback, source: 'fallback', rule: null, matches, candidates };
+}